@@ -2,91 +2,99 @@ import { useCallback, useEffect, useMemo, useRef, useState, type FormEvent } fro
 import './App.css';
 import './AdminApp.css';
 import {
+  acknowledgeAdminAlert,
+  createAdminManager,
   createAdminProject,
+  deleteAdminManager,
   deleteAdminProject,
+  fetchAdminAlerts,
+  fetchAdminAnonymity,
+  fetchAdminBenchmark,
+  fetchAdminContributionHeatmap,
+  fetchAdminDrivers,
   fetchAdminDebugToken,
+  fetchAdminManagers,
+  fetchAdminProjectExpectedRespondents,
+  fetchAdminProjectKeywords,
   fetchAdminProjectResponses,
+  fetchAdminPortfolio,
   fetchAdminProjects,
+  fetchAdminProjectTrends,
+  fetchAdminQuestionnaire,
+  fetchAdminQuestionnaireVersions,
+  fetchAdminSurveyRevisions,
+  resolveAdminAlert,
+  revertAdminSurveyRevision,
   sanitizeAdminToken,
+  unlockAdminSurvey,
+  updateAdminProjectEditPolicy,
+  updateAdminManagerName,
+  updateAdminProjectExpectedRespondents,
+  updateAdminProjectManager,
   updateAdminProjectName,
   updateAdminSurvey,
   deleteAdminSurvey,
 } from './api';
-import type { AdminProjectStats, AdminSurveyRecord, SurveyAnswers } from './types';
-import type { QuestionConfig } from './components/SurveyStepper';
+import type {
+  AdminManagerStats,
+  AdminPortfolioStats,
+  AdminProjectStats,
+  AdminSurveyRecord,
+  AnalyticsFilter,
+  AnonymitySettings,
+  AnonymousResponses,
+  ContributionHeatmap,
+  DriverAnalysis,
+  EditPolicy,
+  ExpectedRespondents,
+  Language,
+  MetricDelta,
+  ProjectAlert,
+  ProjectDriverAnalysis,
+  NpsBreakdown,
+  ParticipationStats,
+  PortfolioBenchmark,
+  ProjectTrendPeriod,
+  QuestionDefinition,
+  Questionnaire,
+  ResponseOrder,
+  ScoreConfidence,
+  ScoreDelta,
+  SurveyAnswers,
+  SurveyAverageKey,
+  SurveyRevision,
+  TextAnalytics,
+  TextTerm,
+  TrendGranularity,
+} from './types';
+import { formatAnswer, mergeQuestions, resolveLanguage, surveyQuestionnaireIds } from './questionnaire';
+import AlertsPanel from './components/AlertsPanel';
+import AnalyticsFilters, { type RespondentOption } from './components/AnalyticsFilters';
+import BenchmarkPanel from './components/BenchmarkPanel';
+import ContributionHeatmapPanel from './components/ContributionHeatmapPanel';
+import DriversPanel from './components/DriversPanel';
+import ExpectedRespondentsForm from './components/ExpectedRespondentsForm';
+import KeywordsPanel from './components/KeywordsPanel';
+import LanguageToggle from './components/LanguageToggle';
+import ManagersPanel from './components/ManagersPanel';
+import RevisionHistory from './components/RevisionHistory';
 import SurveyInlineEditor from './components/SurveyInlineEditor';
 import ThemeToggle from './components/ThemeToggle';
+import TrendChart, { type TrendChartProps, type TrendSeries } from './components/TrendChart';
 import { ExternalLinkIcon, KeyIcon, ProfileIcon } from './components/icons';
 import { useThemePreference, type ThemePreference } from './hooks/useThemePreference';
 
 const FOURTEEN_DAYS_MS = 14 * 24 * 60 * 60 * 1000;
 
-const ADMIN_QUESTION_CONFIG: QuestionConfig[] = [
-  {
-    key: 'projectRecommendation',
-    title: 'Насколько вероятно, что вы порекомендуете участие в проекте коллеге?',
-    description: '0 — точно нет, 10 — однозначно да.',
-    type: 'scale',
-  },
-  {
-    key: 'projectImprovement',
-    title: 'Что могло бы повысить оценку проекта?',
-    type: 'text',
-  },
-  {
-    key: 'managerEffectiveness',
-    title: 'Насколько эффективно менеджер помогает снимать блокеры?',
-    description: '0 — никак не помогает, 10 — помогает всегда и быстро.',
-    type: 'scale',
-  },
-  {
-    key: 'managerImprovement',
-    title: 'Что менеджер мог бы улучшить?',
-    type: 'text',
-  },
-  {
-    key: 'teamComfort',
-    title: 'Насколько комфортно работать с командой?',
-    type: 'scale',
-  },
-  {
-    key: 'teamImprovement',
-    title: 'Что можно улучшить в командной работе?',
-    type: 'text',
-  },
-  {
-    key: 'processOrganization',
-    title: 'Насколько хорошо организованы процессы?',
-    type: 'scale',
-  },
-  {
-    key: 'processObstacles',
-    title: 'Что мешало работать эффективнее?',
-    type: 'text',
-  },
-  {
-    key: 'contributionValued',
-    title: 'Чувствует ли сотрудник, что его вклад ценится?',
-    type: 'options',
-    options: [
-      { label: 'Да', value: 'yes' },
-      { label: 'Частично', value: 'partial' },
-      { label: 'Нет', value: 'no' },
-    ],
-  },
-  {
-    key: 'improvementIdeas',
-    title: 'Какие есть идеи для улучшения?',
-    type: 'text',
-  },
-];
-
 interface ResponseGroup {
   id: string;
   label: string;
   startMs: number;
   isRecent: boolean;
+  openByDefault: boolean;
   responses: AdminSurveyRecord[];
+  /** Questionnaire versions first seen in this week that changed the meaning of some questions. */
+  methodologyChanges: Questionnaire[];
 }
 
 function getWeekStart(date: Date): Date {
@@ -110,7 +118,42 @@ function formatWeekRange(start: Date): string {
   return `${startLabel} — ${endLabel} ${yearLabel}`;
 }
 
+function formatTrendPeriod(periodStart: string, granularity: TrendGranularity): string {
+  const options: Intl.DateTimeFormatOptions =
+    granularity === 'week'
+      ? { day: '2-digit', month: '2-digit', year: '2-digit', timeZone: 'UTC' }
+      : { month: 'short', year: 'numeric', timeZone: 'UTC' };
+
+  return new Date(`${periodStart}T00:00:00Z`).toLocaleDateString('ru-RU', options);
+}
+
+function formatPercent(value: number): string {
+  return `${Math.round(value)}%`;
+}
+
+const EDIT_WINDOW_PRESETS = [24, 48, 72];
+const UNLOCK_HOURS = 24;
+
+function editPolicyValue(project: Pick<AdminProjectStats, 'editPolicy' | 'editWindowHours'>): string {
+  return project.editPolicy === 'hours' ? `hours:${project.editWindowHours}` : project.editPolicy;
+}
+
+function formatEditWindow(hours: number): string {
+  return hours % 24 === 0 ? `${hours / 24} сут. после начала анкеты` : `${hours} ч после начала анкеты`;
+}
+
 const STORAGE_KEY = 'enps-admin-token';
+const LANGUAGE_STORAGE_KEY = 'enps-admin-language';
+
+// Question texts are shown in the admin's language, whatever language respondents answered in.
+function resolveInitialLanguage(storageEnabled: boolean): Language {
+  try {
+    const saved = storageEnabled ? localStorage.getItem(LANGUAGE_STORAGE_KEY) : null;
+    return resolveLanguage(saved ?? navigator.language);
+  } catch {
+    return resolveLanguage(navigator.language);
+  }
+}
 
 function resolveInitialToken(storageEnabled: boolean): string | null {
   try {
@@ -153,6 +196,99 @@ function formatScore(value: number | null | undefined): string {
   return value.toFixed(1);
 }
 
+function formatEnps(value: number | null | undefined): string {
+  if (value === null || value === undefined || Number.isNaN(value)) {
+    return '—';
+  }
+
+  return value > 0 ? `+${value}` : String(value);
+}
+
+type OverviewDelta = {
+  text: string;
+  tone: 'up' | 'down' | 'flat';
+};
+
+type OverviewCard = {
+  label: string;
+  value: string | number;
+  hint: string;
+  delta?: OverviewDelta;
+  /** Confidence of `value` and the decimals its margin is shown with. */
+  confidence?: { score: ScoreConfidence; digits: number };
+};
+
+/** Projects with at least this eNPS count as healthy; mirrors the server's health bands. */
+const HEALTHY_ENPS_MIN = 30;
+
+/** Scores from fewer answers are flagged as unreliable; mirrors the server's `MIN_CONFIDENT_SAMPLE`. */
+const MIN_CONFIDENT_SAMPLE = 10;
+
+/** Text answers scoring at most this are highlighted; mirrors the server's `NEGATIVE_SENTIMENT_MAX`. */
+const NEGATIVE_SENTIMENT_MAX = -0.25;
+
+function formatWeekDelta(metric: MetricDelta | ScoreDelta | undefined, digits: number): OverviewDelta | undefined {
+  if (!metric || metric.delta === null) {
+    return undefined;
+  }
+
+  const rounded = Number(metric.delta.toFixed(digits));
+  const text = `${rounded > 0 ? '+' : ''}${rounded.toFixed(digits)} за неделю`;
+  if ('significant' in metric && !metric.significant && rounded !== 0) {
+    return { text: `${text} · в пределах погрешности`, tone: 'flat' };
+  }
+
+  const tone = rounded > 0 ? 'up' : rounded < 0 ? 'down' : 'flat';
+  return { text, tone };
+}
+
+function formatMargin(confidence: ScoreConfidence | undefined, digits: number): string | null {
+  if (!confidence || confidence.margin === null) {
+    return null;
+  }
+
+  return `±${confidence.margin.toFixed(digits)}`;
+}
+
+function formatConfidence(confidence: ScoreConfidence | undefined, digits: number): string | undefined {
+  if (!confidence) {
+    return undefined;
+  }
+
+  const margin = formatMargin(confidence, digits);
+  return [
+    `Ответов: ${confidence.sampleSize}`,
+    margin && `95% интервал: ${margin}`,
+    confidence.lowSample && `меньше ${MIN_CONFIDENT_SAMPLE} ответов — оценка неточна`,
+  ]
+    .filter(Boolean)
+    .join(' · ');
+}
+
+function lowSampleClass(confidence: ScoreConfidence | undefined): string {
+  return confidence?.lowSample ? 'score--low-sample' : '';
+}
+
+function formatParticipation(participation: ParticipationStats): string {
+  return participation.rate === null ? '—' : formatPercent(participation.rate * 100);
+}
+
+function formatSentiment(value: number | null): string {
+  if (value === null) {
+    return '—';
+  }
+
+  return `${value > 0 ? '+' : ''}${value.toFixed(2)}`;
+}
+
+function isNegativeSentiment(value: number | null | undefined): boolean {
+  return typeof value === 'number' && value <= NEGATIVE_SENTIMENT_MAX;
+}
+
+function formatNpsBreakdown({ promoters, passives, detractors }: NpsBreakdown): string {
+  return `Промоутеры ${promoters} · нейтралы ${passives} · критики ${detractors}`;
+}
+
 function formatDateTime(value: string): string {
   return new Date(value).toLocaleString();
 }
@@ -177,6 +313,10 @@ function formatUserName(record: AdminSurveyRecord): string {
   return username ? `@${username}` : `ID ${record.user.id}`;
 }
 
+function questionLabel(question: QuestionDefinition): string {
+  return question.shortTitle ?? question.title;
+}
+
 function RatingRow({ label, value }: { label: string; value?: number | null }) {
   if (value === undefined || value === null) {
     return null;
@@ -214,9 +354,29 @@ export default function AdminApp({ initialToken = null, embedded = false, onToke
     return resolveInitialToken(storageEnabled);
   });
   const [tokenInput, setTokenInput] = useState(token ?? '');
+  const [language, setLanguage] = useState<Language>(() => resolveInitialLanguage(storageEnabled));
+  const handleLanguageChange = useCallback(
+    (value: Language) => {
+      setLanguage(value);
+      if (storageEnabled) {
+        try {
+          localStorage.setItem(LANGUAGE_STORAGE_KEY, value);
+        } catch {
+          // ignore storage errors
+        }
+      }
+    },
+    [storageEnabled],
+  );
   const [projects, setProjects] = useState<AdminProjectStats[]>([]);
+  const [analyticsFilter, setAnalyticsFilter] = useState<AnalyticsFilter>({});
+  const [portfolio, setPortfolio] = useState<AdminPortfolioStats | null>(null);
   const [selectedProjectId, setSelectedProjectId] = useState<number | null>(null);
   const [responses, setResponses] = useState<AdminSurveyRecord[]>([]);
+  const [anonymity, setAnonymity] = useState<AnonymitySettings | null>(null);
+  const [anonymousResponses, setAnonymousResponses] = useState<AnonymousResponses | null>(null);
+  const [questionnaireVersions, setQuestionnaireVersions] = useState<Questionnaire[]>([]);
+  const [projectQuestionnaires, setProjectQuestionnaires] = useState<Questionnaire[]>([]);
   const [projectsLoading, setProjectsLoading] = useState(false);
   const [responsesLoading, setResponsesLoading] = useState(false);
   const [projectsError, setProjectsError] = useState<string | null>(null);
@@ -227,22 +387,72 @@ export default function AdminApp({ initialToken = null, embedded = false, onToke
   const [projectActionId, setProjectActionId] = useState<number | null>(null);
   const [editingResponseId, setEditingResponseId] = useState<number | null>(null);
   const [responseActionId, setResponseActionId] = useState<number | null>(null);
+  const [revisionsSurveyId, setRevisionsSurveyId] = useState<number | null>(null);
+  const [revisions, setRevisions] = useState<SurveyRevision[]>([]);
+  const [revisionsLoading, setRevisionsLoading] = useState(false);
+  const [trendGranularity, setTrendGranularity] = useState<TrendGranularity>('week');
+  const [trends, setTrends] = useState<ProjectTrendPeriod[]>([]);
+  const [trendsLoading, setTrendsLoading] = useState(false);
+  const [trendsError, setTrendsError] = useState<string | null>(null);
+  const [alerts, setAlerts] = useState<ProjectAlert[]>([]);
+  const [alertsError, setAlertsError] = useState<string | null>(null);
+  const [alertActionId, setAlertActionId] = useState<number | null>(null);
+  const [expectedRespondents, setExpectedRespondents] = useState<ExpectedRespondents | null>(null);
+  const [textAnalytics, setTextAnalytics] = useState<TextAnalytics | null>(null);
+  const [textAnalyticsError, setTextAnalyticsError] = useState<string | null>(null);
+  const [selectedTerm, setSelectedTerm] = useState<TextTerm | null>(null);
+  const [responseOrder, setResponseOrder] = useState<ResponseOrder>('recent');
+  const [drivers, setDrivers] = useState<{ portfolio: DriverAnalysis; projects: ProjectDriverAnalysis[] } | null>(
+    null,
+  );
+  const [driversError, setDriversError] = useState<string | null>(null);
+  const [benchmark, setBenchmark] = useState<PortfolioBenchmark | null>(null);
+  const [benchmarkError, setBenchmarkError] = useState<string | null>(null);
+  const [contributionHeatmap, setContributionHeatmap] = useState<ContributionHeatmap | null>(null);
+  const [contributionHeatmapError, setContributionHeatmapError] = useState<string | null>(null);
+  const [managers, setManagers] = useState<AdminManagerStats[]>([]);
+  const [managersError, setManagersError] = useState<string | null>(null);
+  const [managerGranularity, setManagerGranularity] = useState<TrendGranularity>('month');
+  const [managerSaving, setManagerSaving] = useState(false);
   const debugTokenAttemptedRef = useRef(false);
 
+  const questionnairesById = useMemo(
+    () =>
+      new Map(
+        [...questionnaireVersions, ...projectQuestionnaires].map((questionnaire) => [questionnaire.id, questionnaire]),
+      ),
+    [projectQuestionnaires, questionnaireVersions],
+  );
+
+  const questionsFor = useCallback(
+    (response: Pick<AdminSurveyRecord, 'questionnaireId' | 'extensionQuestionnaireId'>): QuestionDefinition[] => {
+      const base = (questionnairesById.get(response.questionnaireId) ?? questionnaireVersions[0])?.questions ?? [];
+      const extension =
+        response.extensionQuestionnaireId === null ? undefined : questionnairesById.get(response.extensionQuestionnaireId);
+      return extension ? mergeQuestions(base, extension.questions) : base;
+    },
+    [questionnaireVersions, questionnairesById],
+  );
+
   const selectedProject = useMemo(
     () => projects.find((project) => project.id === selectedProjectId) ?? null,
     [projects, selectedProjectId],
   );
 
-  const totalResponses = useMemo(
-    () => projects.reduce((acc, project) => acc + project.responsesCount, 0),
-    [projects],
-  );
+  const loadAlerts = useCallback(async () => {
+    if (!token) {
+      setAlerts([]);
+      return;
+    }
 
-  const totalRespondents = useMemo(
-    () => projects.reduce((acc, project) => acc + project.uniqueRespondents, 0),
-    [projects],
-  );
+    try {
+      const data = await fetchAdminAlerts(token);
+      setAlerts(data.alerts);
+      setAlertsError(null);
+    } catch (error) {
+      setAlertsError(error instanceof Error ? error.message : String(error));
+    }
+  }, [token]);
 
   const refreshProjectsList = useCallback(
     async (preserveSelection: boolean) => {
@@ -250,9 +460,16 @@ export default function AdminApp({ initialToken = null, embedded = false, onToke
         return;
       }
 
+      // Alerts carry project names and disappear with their project.
+      void loadAlerts();
+
       try {
-        const data = await fetchAdminProjects(token);
+        const [data, portfolioData] = await Promise.all([
+          fetchAdminProjects(token, analyticsFilter),
+          fetchAdminPortfolio(token, analyticsFilter),
+        ]);
         setProjects(data.projects);
+        setPortfolio(portfolioData.portfolio);
         setSelectedProjectId((current) => {
           if (preserveSelection && current && data.projects.some((project) => project.id === current)) {
             return current;
@@ -264,6 +481,29 @@ export default function AdminApp({ initialToken = null, embedded = false, onToke
         setProjectsError(error instanceof Error ? error.message : String(error));
       }
     },
+    [analyticsFilter, loadAlerts, token],
+  );
+
+  const handleAlertAction = useCallback(
+    async (alertId: number, action: 'acknowledge' | 'resolve') => {
+      if (!token) {
+        return;
+      }
+
+      setAlertActionId(alertId);
+      try {
+        const { alert } =
+          action === 'acknowledge'
+            ? await acknowledgeAdminAlert(token, alertId)
+            : await resolveAdminAlert(token, alertId);
+        setAlerts((current) => current.map((item) => (item.id === alert.id ? alert : item)));
+        setAlertsError(null);
+      } catch (error) {
+        setAlertsError(error instanceof Error ? error.message : String(error));
+      } finally {
+        setAlertActionId(null);
+      }
+    },
     [token],
   );
 
@@ -277,14 +517,41 @@ export default function AdminApp({ initialToken = null, embedded = false, onToke
       setResponsesError(null);
 
       try {
-        const data = await fetchAdminProjectResponses(token, projectId);
-        setResponses(data.surveys);
+        const data = await fetchAdminProjectResponses(token, projectId, analyticsFilter, responseOrder);
+        if ('anonymous' in data) {
+          setResponses([]);
+          setAnonymousResponses(data);
+        } else {
+          setResponses(data.surveys);
+          setAnonymousResponses(null);
+        }
       } catch (error) {
         setResponsesError(error instanceof Error ? error.message : String(error));
       } finally {
         setResponsesLoading(false);
       }
     },
+    [analyticsFilter, responseOrder, token],
+  );
+
+  const loadRevisions = useCallback(
+    async (surveyId: number) => {
+      if (!token) {
+        return;
+      }
+
+      setRevisionsLoading(true);
+      setResponsesError(null);
+
+      try {
+        const { revisions: list } = await fetchAdminSurveyRevisions(token, surveyId);
+        setRevisions(list);
+      } catch (error) {
+        setResponsesError(error instanceof Error ? error.message : String(error));
+      } finally {
+        setRevisionsLoading(false);
+      }
+    },
     [token],
   );
 
@@ -325,55 +592,82 @@ export default function AdminApp({ initialToken = null, embedded = false, onToke
     setTokenInput(token ?? '');
   }, [token]);
 
-  const overallProjectScore = useMemo(() => {
-    let weightedSum = 0;
-    let weight = 0;
-
-    projects.forEach((project) => {
-      if (project.responsesCount > 0 && project.averages.projectRecommendation !== null) {
-        weightedSum += project.averages.projectRecommendation * project.responsesCount;
-        weight += project.responsesCount;
-      }
-    });
-
-    if (weight === 0) {
-      return null;
+  useEffect(() => {
+    if (!token) {
+      setAnonymity(null);
+      return;
     }
 
-    return weightedSum / weight;
-  }, [projects]);
+    let cancelled = false;
+    fetchAdminAnonymity(token)
+      .then((data) => {
+        if (!cancelled) {
+          setAnonymity(data.anonymity);
+        }
+      })
+      .catch(() => undefined);
+
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
 
-  const selectedProjectScore = selectedProject?.averages.projectRecommendation ?? null;
+  const overviewCards = useMemo<OverviewCard[]>(() => {
+    const weekOverWeek = portfolio?.weekOverWeek;
+    const healthBands = portfolio?.healthBands;
 
-  const overviewCards = useMemo(
-    () => [
+    return [
       {
         label: 'Всего ответов',
-        value: totalResponses,
-        hint: 'По всем проектам',
+        value: portfolio?.responsesCount ?? '—',
+        hint: weekOverWeek ? `За неделю: ${weekOverWeek.responsesCount.current ?? 0}` : 'По всем проектам',
+        delta: formatWeekDelta(weekOverWeek?.responsesCount, 0),
       },
       {
         label: 'Уникальных сотрудников',
-        value: totalRespondents,
-        hint: 'С учётом всех проектов',
+        value: portfolio?.uniqueRespondents ?? '—',
+        hint: 'Каждый сотрудник учтён один раз',
+      },
+      {
+        label: 'eNPS портфеля',
+        value: formatEnps(portfolio?.enps),
+        hint: portfolio ? formatNpsBreakdown(portfolio.nps) : 'Промоутеры минус критики',
+        delta: formatWeekDelta(weekOverWeek?.enps, 0),
+        confidence: portfolio ? { score: portfolio.confidence.enps, digits: 0 } : undefined,
       },
       {
         label: 'Средняя оценка портфеля',
-        value: formatScore(overallProjectScore),
-        hint: 'NPS внутри проектов',
+        value: formatScore(portfolio?.averages.projectRecommendation),
+        hint: portfolio
+          ? `Менеджер ${formatScore(portfolio.averages.managerEffectiveness)} · Команда ${formatScore(
+              portfolio.averages.teamComfort,
+            )} · Процессы ${formatScore(portfolio.averages.processOrganization)}`
+          : 'Рекомендация проекта по шкале 0–10',
+        delta: formatWeekDelta(weekOverWeek?.averages.projectRecommendation, 1),
+        confidence: portfolio ? { score: portfolio.confidence.averages.projectRecommendation, digits: 1 } : undefined,
       },
       {
-        label: selectedProject ? `Средняя оценка «${selectedProject.name}»` : 'Нет выбранного проекта',
-        value: formatScore(selectedProjectScore),
-        hint: selectedProject ? `Ответов: ${selectedProject.responsesCount}` : 'Выберите проект слева',
+        label: 'Здоровые проекты',
+        value: healthBands ? `${healthBands.healthy} из ${portfolio.projectsCount}` : '—',
+        hint: healthBands
+          ? `Внимание: ${healthBands.attention} · Риск: ${healthBands.critical} · Без данных: ${healthBands.noData}`
+          : `eNPS от ${HEALTHY_ENPS_MIN}`,
       },
-    ],
-    [overallProjectScore, selectedProject, selectedProjectScore, totalRespondents, totalResponses],
-  );
+      {
+        label: selectedProject ? `eNPS «${selectedProject.name}»` : 'Нет выбранного проекта',
+        value: formatEnps(selectedProject?.enps),
+        hint: selectedProject
+          ? `Средняя ${formatScore(selectedProject.averages.projectRecommendation)} · ответов: ${selectedProject.responsesCount}`
+          : 'Выберите проект слева',
+        confidence: selectedProject ? { score: selectedProject.confidence.enps, digits: 0 } : undefined,
+      },
+    ];
+  }, [portfolio, selectedProject]);
 
   useEffect(() => {
     if (!token) {
       setProjects([]);
+      setPortfolio(null);
       setSelectedProjectId(null);
       setProjectsError(null);
       return;
@@ -383,13 +677,14 @@ export default function AdminApp({ initialToken = null, embedded = false, onToke
     setProjectsLoading(true);
     setProjectsError(null);
 
-    fetchAdminProjects(token)
-      .then((data) => {
+    Promise.all([fetchAdminProjects(token, analyticsFilter), fetchAdminPortfolio(token, analyticsFilter)])
+      .then(([data, portfolioData]) => {
         if (cancelled) {
           return;
         }
 
         setProjects(data.projects);
+        setPortfolio(portfolioData.portfolio);
         if (data.projects.length > 0) {
           setSelectedProjectId((current) => {
             if (current && data.projects.some((project) => project.id === current)) {
@@ -411,32 +706,273 @@ export default function AdminApp({ initialToken = null, embedded = false, onToke
         const message = error.message || 'Не удалось загрузить статистику проектов';
         setProjectsError(message);
 
-        if (error.status === 401) {
-          debugTokenAttemptedRef.current = false;
-          setToken(null);
-          setTokenInput('');
+        if (error.status === 401) {
+          debugTokenAttemptedRef.current = false;
+          setToken(null);
+          setTokenInput('');
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setProjectsLoading(false);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [analyticsFilter, token]);
+
+  useEffect(() => {
+    void loadAlerts();
+  }, [loadAlerts]);
+
+  useEffect(() => {
+    if (!token) {
+      setQuestionnaireVersions([]);
+      return;
+    }
+
+    let cancelled = false;
+    setProjectQuestionnaires([]);
+    fetchAdminQuestionnaireVersions(token, language)
+      .then((data) => {
+        if (!cancelled) {
+          setQuestionnaireVersions(data.versions);
+        }
+      })
+      .catch(() => {
+        if (!cancelled) {
+          setQuestionnaireVersions([]);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [language, token]);
+
+  useEffect(() => {
+    if (!token || questionnaireVersions.length === 0) {
+      return;
+    }
+
+    // Project-specific versions are outside the standard list, so fetch the ones responses are pinned to.
+    const missingIds = new Set(responses.flatMap(surveyQuestionnaireIds).filter((id) => !questionnairesById.has(id)));
+    missingIds.forEach((id) => {
+      fetchAdminQuestionnaire(token, id, language)
+        .then((data) => {
+          setProjectQuestionnaires((prev) =>
+            prev.some((questionnaire) => questionnaire.id === id) ? prev : [...prev, data.questionnaire],
+          );
+        })
+        .catch(() => undefined);
+    });
+  }, [language, questionnaireVersions, questionnairesById, responses, token]);
+
+  useEffect(() => {
+    if (!selectedProjectId || !token) {
+      setResponses([]);
+      setAnonymousResponses(null);
+      setResponsesError(null);
+      return;
+    }
+
+    void loadProjectResponses(selectedProjectId);
+  }, [loadProjectResponses, selectedProjectId, token]);
+
+  useEffect(() => {
+    setExpectedRespondents(null);
+    if (!selectedProjectId || !token) {
+      return;
+    }
+
+    let cancelled = false;
+    fetchAdminProjectExpectedRespondents(token, selectedProjectId)
+      .then((data) => {
+        if (!cancelled) {
+          setExpectedRespondents(data.expected);
+        }
+      })
+      .catch((error: Error) => {
+        if (!cancelled) {
+          setProjectsError(error.message || 'Не удалось загрузить ожидаемых участников');
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedProjectId, token]);
+
+  // `selectedProject` is replaced whenever the project list is refreshed, so trends follow answer edits too.
+  useEffect(() => {
+    if (!selectedProject || !token) {
+      setTrends([]);
+      setTrendsError(null);
+      return;
+    }
+
+    let cancelled = false;
+    setTrendsLoading(true);
+    setTrendsError(null);
+
+    fetchAdminProjectTrends(token, selectedProject.id, trendGranularity, analyticsFilter)
+      .then((data) => {
+        if (!cancelled) {
+          setTrends(data.periods);
+        }
+      })
+      .catch((error: Error) => {
+        if (!cancelled) {
+          setTrendsError(error.message || 'Не удалось загрузить динамику проекта');
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setTrendsLoading(false);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [analyticsFilter, selectedProject, token, trendGranularity]);
+
+  useEffect(() => {
+    setSelectedTerm(null);
+    if (!selectedProject || !token) {
+      setTextAnalytics(null);
+      setTextAnalyticsError(null);
+      return;
+    }
+
+    let cancelled = false;
+    setTextAnalyticsError(null);
+
+    fetchAdminProjectKeywords(token, selectedProject.id, analyticsFilter)
+      .then((data) => {
+        if (!cancelled) {
+          setTextAnalytics(data.analytics);
+        }
+      })
+      .catch((error: Error) => {
+        if (!cancelled) {
+          setTextAnalyticsError(error.message || 'Не удалось загрузить частые слова');
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [analyticsFilter, selectedProject, token]);
+
+  // Refetched with the project list, which reloads after answers change.
+  useEffect(() => {
+    if (!token) {
+      setDrivers(null);
+      setDriversError(null);
+      return;
+    }
+
+    let cancelled = false;
+    setDriversError(null);
+
+    fetchAdminDrivers(token, analyticsFilter)
+      .then((data) => {
+        if (!cancelled) {
+          setDrivers(data);
+        }
+      })
+      .catch((error: Error) => {
+        if (!cancelled) {
+          setDriversError(error.message || 'Не удалось загрузить ключевые драйверы');
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [analyticsFilter, projects, token]);
+
+  useEffect(() => {
+    if (!token) {
+      setBenchmark(null);
+      setBenchmarkError(null);
+      return;
+    }
+
+    let cancelled = false;
+    setBenchmarkError(null);
+
+    fetchAdminBenchmark(token, analyticsFilter)
+      .then((data) => {
+        if (!cancelled) {
+          setBenchmark(data.benchmark);
+        }
+      })
+      .catch((error: Error) => {
+        if (!cancelled) {
+          setBenchmarkError(error.message || 'Не удалось загрузить сравнение проектов');
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [analyticsFilter, projects, token]);
+
+  useEffect(() => {
+    if (!token) {
+      setContributionHeatmap(null);
+      setContributionHeatmapError(null);
+      return;
+    }
+
+    let cancelled = false;
+    setContributionHeatmapError(null);
+
+    fetchAdminContributionHeatmap(token, analyticsFilter)
+      .then((data) => {
+        if (!cancelled) {
+          setContributionHeatmap(data.heatmap);
         }
       })
-      .finally(() => {
+      .catch((error: Error) => {
         if (!cancelled) {
-          setProjectsLoading(false);
+          setContributionHeatmapError(error.message || 'Не удалось загрузить динамику ценности вклада');
         }
       });
 
     return () => {
       cancelled = true;
     };
-  }, [token]);
+  }, [analyticsFilter, projects, token]);
+
+  const loadManagers = useCallback(async () => {
+    if (!token) {
+      return;
+    }
+
+    try {
+      const data = await fetchAdminManagers(token, managerGranularity, analyticsFilter);
+      setManagers(data.managers);
+      setManagersError(null);
+    } catch (error) {
+      setManagersError(error instanceof Error ? error.message : String(error));
+    }
+  }, [analyticsFilter, managerGranularity, token]);
 
+  // Refetched with the project list, which reloads after answers and manager assignments change.
   useEffect(() => {
-    if (!selectedProjectId || !token) {
-      setResponses([]);
-      setResponsesError(null);
+    if (!token) {
+      setManagers([]);
+      setManagersError(null);
       return;
     }
 
-    void loadProjectResponses(selectedProjectId);
-  }, [loadProjectResponses, selectedProjectId, token]);
+    void loadManagers();
+  }, [loadManagers, projects, token]);
 
   useEffect(() => {
     if (embedded || token || debugTokenAttemptedRef.current) {
@@ -544,6 +1080,51 @@ export default function AdminApp({ initialToken = null, embedded = false, onToke
     }
   }, [refreshProjectsList, selectedProject, token]);
 
+  const handleEditPolicyChange = useCallback(
+    async (value: string) => {
+      if (!selectedProject || !token) {
+        return;
+      }
+
+      const [policy, hours] = value.split(':') as [EditPolicy, string | undefined];
+
+      setProjectActionId(selectedProject.id);
+      setProjectsError(null);
+
+      try {
+        await updateAdminProjectEditPolicy(token, selectedProject.id, policy, hours ? Number(hours) : undefined);
+        await refreshProjectsList(true);
+      } catch (error) {
+        setProjectsError(error instanceof Error ? error.message : String(error));
+      } finally {
+        setProjectActionId(null);
+      }
+    },
+    [refreshProjectsList, selectedProject, token],
+  );
+
+  const handleExpectedRespondentsSubmit = useCallback(
+    async (expected: ExpectedRespondents) => {
+      if (!selectedProject || !token) {
+        return;
+      }
+
+      setProjectActionId(selectedProject.id);
+      setProjectsError(null);
+
+      try {
+        const data = await updateAdminProjectExpectedRespondents(token, selectedProject.id, expected);
+        setExpectedRespondents(data.expected);
+        await refreshProjectsList(true);
+      } catch (error) {
+        setProjectsError(error instanceof Error ? error.message : String(error));
+      } finally {
+        setProjectActionId(null);
+      }
+    },
+    [refreshProjectsList, selectedProject, token],
+  );
+
   const handleDeleteSelectedProject = useCallback(async () => {
     if (!selectedProject || !token) {
       return;
@@ -568,6 +1149,98 @@ export default function AdminApp({ initialToken = null, embedded = false, onToke
     }
   }, [refreshProjectsList, selectedProject, token]);
 
+  const handleProjectManagerChange = useCallback(
+    async (value: string) => {
+      if (!selectedProject || !token) {
+        return;
+      }
+
+      setProjectActionId(selectedProject.id);
+      setProjectsError(null);
+
+      try {
+        await updateAdminProjectManager(token, selectedProject.id, value ? Number(value) : null);
+        await refreshProjectsList(true);
+      } catch (error) {
+        setProjectsError(error instanceof Error ? error.message : String(error));
+      } finally {
+        setProjectActionId(null);
+      }
+    },
+    [refreshProjectsList, selectedProject, token],
+  );
+
+  const handleCreateManager = useCallback(
+    async (name: string) => {
+      if (!token) {
+        return false;
+      }
+
+      setManagerSaving(true);
+      try {
+        await createAdminManager(token, name);
+        await loadManagers();
+        return true;
+      } catch (error) {
+        setManagersError(error instanceof Error ? error.message : String(error));
+        return false;
+      } finally {
+        setManagerSaving(false);
+      }
+    },
+    [loadManagers, token],
+  );
+
+  const handleRenameManager = useCallback(
+    async (manager: AdminManagerStats) => {
+      if (!token) {
+        return;
+      }
+
+      const proposed = window.prompt('Новое имя менеджера', manager.name);
+      const trimmed = proposed?.trim();
+      if (!trimmed || trimmed === manager.name) {
+        return;
+      }
+
+      setManagerSaving(true);
+      try {
+        await updateAdminManagerName(token, manager.id, trimmed);
+        await loadManagers();
+      } catch (error) {
+        setManagersError(error instanceof Error ? error.message : String(error));
+      } finally {
+        setManagerSaving(false);
+      }
+    },
+    [loadManagers, token],
+  );
+
+  const handleDeleteManager = useCallback(
+    async (manager: AdminManagerStats) => {
+      if (!token) {
+        return;
+      }
+
+      const confirmed = window.confirm(`Удалить менеджера «${manager.name}»? Его проекты останутся без менеджера.`);
+      if (!confirmed) {
+        return;
+      }
+
+      setManagerSaving(true);
+      try {
+        await deleteAdminManager(token, manager.id);
+        // Reloading the projects clears their manager and refetches the managers.
+        await refreshProjectsList(true);
+      } catch (error) {
+        setManagersError(error instanceof Error ? error.message : String(error));
+      } finally {
+        setManagerSaving(false);
+      }
+    },
+    [refreshProjectsList, token],
+  );
+
   const handleBackToUser = useCallback(() => {
     if (onBackToUser) {
       onBackToUser();
@@ -614,13 +1287,121 @@ export default function AdminApp({ initialToken = null, embedded = false, onToke
     }
 
     return [
-      { label: 'Проект', value: selectedProject.averages.projectRecommendation },
-      { label: 'Менеджер', value: selectedProject.averages.managerEffectiveness },
-      { label: 'Команда', value: selectedProject.averages.teamComfort },
-      { label: 'Процессы', value: selectedProject.averages.processOrganization },
+      {
+        label: 'Проект',
+        value: selectedProject.averages.projectRecommendation,
+        confidence: selectedProject.confidence.averages.projectRecommendation,
+      },
+      {
+        label: 'Менеджер',
+        value: selectedProject.averages.managerEffectiveness,
+        confidence: selectedProject.confidence.averages.managerEffectiveness,
+      },
+      {
+        label: 'Команда',
+        value: selectedProject.averages.teamComfort,
+        confidence: selectedProject.confidence.averages.teamComfort,
+      },
+      {
+        label: 'Процессы',
+        value: selectedProject.averages.processOrganization,
+        confidence: selectedProject.confidence.averages.processOrganization,
+      },
     ];
   }, [selectedProject]);
 
+  const respondentOptions = useMemo<RespondentOption[]>(() => {
+    const names = new Map<number, string>();
+    responses.forEach((response) => names.set(response.user.id, formatUserName(response)));
+    const { respondentId } = analyticsFilter;
+    if (respondentId !== undefined && !names.has(respondentId)) {
+      names.set(respondentId, `Сотрудник #${respondentId}`);
+    }
+
+    return [...names]
+      .map(([id, name]) => ({ id, name }))
+      .sort((left, right) => left.name.localeCompare(right.name, 'ru'));
+  }, [analyticsFilter, responses]);
+
+  const trendCharts = useMemo<Array<Omit<TrendChartProps, 'periods'>>>(() => {
+    const contributionShare = (period: ProjectTrendPeriod, value: keyof ProjectTrendPeriod['contributionBreakdown']) => {
+      const { yes, partial, no } = period.contributionBreakdown;
+      const total = yes + partial + no;
+      return total > 0 ? (period.contributionBreakdown[value] / total) * 100 : null;
+    };
+    const averageSeries = (label: string, key: SurveyAverageKey): TrendSeries => ({
+      label,
+      values: trends.map((period) => period.averages[key]),
+      margins: trends.map((period) => period.confidence.averages[key].margin),
+      lowSample: trends.map((period) => period.confidence.averages[key].lowSample),
+    });
+
+    return [
+      {
+        title: 'eNPS',
+        min: -100,
+        max: 100,
+        formatValue: formatEnps,
+        formatMargin: (value) => String(Math.round(value)),
+        series: [
+          {
+            label: 'eNPS',
+            values: trends.map((period) => period.enps),
+            margins: trends.map((period) => period.confidence.enps.margin),
+            lowSample: trends.map((period) => period.confidence.enps.lowSample),
+          },
+        ],
+      },
+      {
+        title: 'Средние оценки',
+        min: 0,
+        max: 10,
+        formatValue: formatScore,
+        series: [
+          averageSeries('Проект', 'projectRecommendation'),
+          averageSeries('Менеджер', 'managerEffectiveness'),
+          averageSeries('Команда', 'teamComfort'),
+          averageSeries('Процессы', 'processOrganization'),
+        ],
+      },
+      {
+        title: 'Ценность вклада',
+        min: 0,
+        max: 100,
+        formatValue: formatPercent,
+        series: [
+          { label: 'Ценится', values: trends.map((period) => contributionShare(period, 'yes')) },
+          { label: 'Частично', values: trends.map((period) => contributionShare(period, 'partial')) },
+          { label: 'Нет', values: trends.map((period) => contributionShare(period, 'no')) },
+        ],
+      },
+      {
+        title: 'Участие, %',
+        min: 0,
+        max: 100,
+        formatValue: formatPercent,
+        series: [
+          {
+            label: 'Участие',
+            values: trends.map(({ participation }) => (participation.rate === null ? null : participation.rate * 100)),
+          },
+        ],
+      },
+      {
+        title: 'Ответов',
+        min: 0,
+        max: Math.max(1, ...trends.map((period) => period.responsesCount)),
+        formatValue: (value) => String(Math.round(value)),
+        series: [{ label: 'Ответов', values: trends.map((period) => period.responsesCount) }],
+      },
+    ];
+  }, [trends]);
+
+  const trendPeriods = useMemo(
+    () => trends.map((period) => formatTrendPeriod(period.periodStart, trendGranularity)),
+    [trendGranularity, trends],
+  );
+
   const formatAverage = (value: number | null): string => {
     if (value === null || Number.isNaN(value)) {
       return '—';
@@ -629,14 +1410,34 @@ export default function AdminApp({ initialToken = null, embedded = false, onToke
     return value.toFixed(1);
   };
 
+  const visibleResponses = useMemo(
+    () => (selectedTerm ? responses.filter((response) => selectedTerm.surveyIds.includes(response.id)) : responses),
+    [responses, selectedTerm],
+  );
+
   const groupedResponses = useMemo<ResponseGroup[]>(() => {
-    if (!responses.length) {
+    if (!visibleResponses.length) {
       return [];
     }
 
+    // The most negative responses come first from the server, across all weeks.
+    if (responseOrder === 'sentiment') {
+      return [
+        {
+          id: 'sentiment',
+          label: 'Все ответы, сначала негативные',
+          startMs: 0,
+          isRecent: false,
+          openByDefault: true,
+          responses: visibleResponses,
+          methodologyChanges: [],
+        },
+      ];
+    }
+
     const groups = new Map<string, ResponseGroup>();
 
-    responses.forEach((response) => {
+    visibleResponses.forEach((response) => {
       const createdAt = new Date(response.createdAt);
       const start = getWeekStart(createdAt);
       const key = start.toISOString();
@@ -650,7 +1451,9 @@ export default function AdminApp({ initialToken = null, embedded = false, onToke
           label,
           startMs: start.getTime(),
           isRecent,
+          openByDefault: isRecent,
           responses: [],
+          methodologyChanges: [],
         };
         groups.set(key, group);
       }
@@ -658,15 +1461,36 @@ export default function AdminApp({ initialToken = null, embedded = false, onToke
       group.responses.push(response);
     });
 
-    return Array.from(groups.values())
-      .sort((a, b) => b.startMs - a.startMs)
+    const seenQuestionnaireIds = new Set<number>();
+    const chronological = Array.from(groups.values()).sort((a, b) => a.startMs - b.startMs);
+
+    chronological.forEach((group, index) => {
+      const introduced = new Set(
+        group.responses.map((response) => response.questionnaireId).filter((id) => !seenQuestionnaireIds.has(id)),
+      );
+      introduced.forEach((id) => seenQuestionnaireIds.add(id));
+
+      if (index === 0) {
+        return;
+      }
+
+      group.methodologyChanges = Array.from(introduced)
+        .map((id) => questionnairesById.get(id))
+        .filter((questionnaire): questionnaire is Questionnaire =>
+          Boolean(questionnaire?.questions.some((question) => !question.comparable)),
+        )
+        .sort((a, b) => a.version - b.version);
+    });
+
+    return chronological
+      .reverse()
       .map((group) => ({
         ...group,
         responses: group.responses.sort(
           (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime(),
         ),
       }));
-  }, [responses]);
+  }, [questionnairesById, responseOrder, visibleResponses]);
 
   const [expandedGroups, setExpandedGroups] = useState<Record<string, boolean>>({});
 
@@ -674,12 +1498,33 @@ export default function AdminApp({ initialToken = null, embedded = false, onToke
     setExpandedGroups((prev) => {
       const next: Record<string, boolean> = {};
       groupedResponses.forEach((group) => {
-        next[group.id] = prev[group.id] ?? group.isRecent;
+        next[group.id] = prev[group.id] ?? group.openByDefault;
       });
       return next;
     });
   }, [groupedResponses]);
 
+  const handleTermSelect = useCallback(
+    (term: TextTerm | null) => {
+      setSelectedTerm(term);
+      if (!term) {
+        return;
+      }
+
+      // Answers with the term may be older than the weeks expanded by default.
+      setExpandedGroups((prev) => {
+        const next = { ...prev };
+        responses
+          .filter((response) => term.surveyIds.includes(response.id))
+          .forEach((response) => {
+            next[getWeekStart(new Date(response.createdAt)).toISOString()] = true;
+          });
+        return next;
+      });
+    },
+    [responses],
+  );
+
   const toggleGroup = (id: string) => {
     setExpandedGroups((prev) => ({ ...prev, [id]: !prev[id] }));
   };
@@ -698,13 +1543,79 @@ export default function AdminApp({ initialToken = null, embedded = false, onToke
         setEditingResponseId(null);
         await refreshProjectsList(true);
         await loadProjectResponses(selectedProjectId);
+        if (revisionsSurveyId === surveyId) {
+          await loadRevisions(surveyId);
+        }
       } catch (error) {
         setResponsesError(error instanceof Error ? error.message : String(error));
       } finally {
         setResponseActionId(null);
       }
     },
-    [loadProjectResponses, refreshProjectsList, selectedProjectId, token],
+    [loadProjectResponses, loadRevisions, refreshProjectsList, revisionsSurveyId, selectedProjectId, token],
+  );
+
+  const handleUnlockResponse = useCallback(
+    async (surveyId: number) => {
+      if (!token || !selectedProjectId) {
+        return;
+      }
+
+      setResponseActionId(surveyId);
+      setResponsesError(null);
+
+      try {
+        await unlockAdminSurvey(token, surveyId, UNLOCK_HOURS);
+        await loadProjectResponses(selectedProjectId);
+      } catch (error) {
+        setResponsesError(error instanceof Error ? error.message : String(error));
+      } finally {
+        setResponseActionId(null);
+      }
+    },
+    [loadProjectResponses, selectedProjectId, token],
+  );
+
+  const handleToggleRevisions = useCallback(
+    (surveyId: number) => {
+      if (revisionsSurveyId === surveyId) {
+        setRevisionsSurveyId(null);
+        return;
+      }
+
+      setRevisionsSurveyId(surveyId);
+      setRevisions([]);
+      void loadRevisions(surveyId);
+    },
+    [loadRevisions, revisionsSurveyId],
+  );
+
+  const handleRevertRevision = useCallback(
+    async (surveyId: number, revision: SurveyRevision) => {
+      if (!token || !selectedProjectId) {
+        return;
+      }
+
+      const confirmed = window.confirm(`Вернуть ответы к состоянию после правки #${revision.id}?`);
+      if (!confirmed) {
+        return;
+      }
+
+      setResponseActionId(surveyId);
+      setResponsesError(null);
+
+      try {
+        await revertAdminSurveyRevision(token, surveyId, revision.id);
+        await refreshProjectsList(true);
+        await loadProjectResponses(selectedProjectId);
+        await loadRevisions(surveyId);
+      } catch (error) {
+        setResponsesError(error instanceof Error ? error.message : String(error));
+      } finally {
+        setResponseActionId(null);
+      }
+    },
+    [loadProjectResponses, loadRevisions, refreshProjectsList, selectedProjectId, token],
   );
 
   const handleDeleteResponse = useCallback(
@@ -787,6 +1698,7 @@ export default function AdminApp({ initialToken = null, embedded = false, onToke
                 <ProfileIcon />
               </span>
             </button>
+            <LanguageToggle language={language} onLanguageChange={handleLanguageChange} />
             <ThemeToggle
               theme={theme}
               preference={preference}
@@ -830,15 +1742,73 @@ export default function AdminApp({ initialToken = null, embedded = false, onToke
           </div>
         </header>
         {projectsError && <div className="banner banner--error">{projectsError}</div>}
+        {anonymity?.enabled && (
+          <div className="banner">
+            Анонимный режим: имена и время ответов скрыты, комментарии показаны вперемешку. Статистика, за которой
+            меньше {anonymity.minRespondents} сотрудников, не показывается.
+          </div>
+        )}
+        <AnalyticsFilters
+          filter={analyticsFilter}
+          respondents={anonymity?.enabled ? null : respondentOptions}
+          onChange={setAnalyticsFilter}
+        />
         <section className="admin-overview">
           {overviewCards.map((card) => (
             <div key={card.label} className="admin-overview__card">
-              <span className="admin-overview__value">{card.value}</span>
+              <span
+                className={`admin-overview__value ${lowSampleClass(card.confidence?.score)}`}
+                title={card.confidence && formatConfidence(card.confidence.score, card.confidence.digits)}
+              >
+                {card.value}
+                {card.confidence && formatMargin(card.confidence.score, card.confidence.digits) && (
+                  <span className="admin-overview__margin">
+                    {formatMargin(card.confidence.score, card.confidence.digits)}
+                  </span>
+                )}
+              </span>
               <span className="admin-overview__label">{card.label}</span>
               <span className="admin-overview__hint">{card.hint}</span>
+              {card.delta && (
+                <span className={`admin-overview__delta admin-overview__delta--${card.delta.tone}`}>{card.delta.text}</span>
+              )}
             </div>
           ))}
         </section>
+        <AlertsPanel
+          alerts={alerts}
+          error={alertsError}
+          busyId={alertActionId}
+          onAcknowledge={(alertId) => void handleAlertAction(alertId, 'acknowledge')}
+          onResolve={(alertId) => void handleAlertAction(alertId, 'resolve')}
+          onSelectProject={setSelectedProjectId}
+        />
+        <BenchmarkPanel
+          benchmark={benchmark}
+          error={benchmarkError}
+          selectedProjectId={selectedProjectId}
+          onSelectProject={setSelectedProjectId}
+        />
+        <ContributionHeatmapPanel
+          heatmap={contributionHeatmap}
+          error={contributionHeatmapError}
+          selectedProjectId={selectedProjectId}
+          formatWeek={(weekStart) => formatTrendPeriod(weekStart, 'week')}
+          onSelectProject={setSelectedProjectId}
+        />
+        <ManagersPanel
+          managers={managers}
+          projects={projects}
+          error={managersError}
+          granularity={managerGranularity}
+          isSaving={managerSaving}
+          formatPeriod={(periodStart) => formatTrendPeriod(periodStart, managerGranularity)}
+          onGranularityChange={setManagerGranularity}
+          onCreate={handleCreateManager}
+          onRename={(manager) => void handleRenameManager(manager)}
+          onDelete={(manager) => void handleDeleteManager(manager)}
+          onSelectProject={setSelectedProjectId}
+        />
         <div className="admin-layout">
           <aside className="panel admin-panel admin-panel--projects">
             <header className="admin-panel__header">
@@ -857,7 +1827,15 @@ export default function AdminApp({ initialToken = null, embedded = false, onToke
                     const { averages } = project;
                     const lastResponseLabel = project.lastResponseAt
                       ? `Последний ответ: ${formatShortDateTime(project.lastResponseAt)}`
-                      : 'Ответов пока нет';
+                      : project.responsesCount > 0
+                        ? `Ответов: ${project.responsesCount}`
+                        : 'Ответов пока нет';
+                    const questionnaireLabel =
+                      project.questionnaireOverrideId === null
+                        ? null
+                        : project.questionnaireMode === 'replace'
+                          ? 'Собственная анкета проекта'
+                          : 'Дополнительные вопросы проекта';
 
                     return (
                       <button
@@ -871,15 +1849,47 @@ export default function AdminApp({ initialToken = null, embedded = false, onToke
                           <span className="admin-project-card__badge">{project.responsesCount}</span>
                         </div>
                         <p className="admin-project-card__meta">{lastResponseLabel}</p>
+                        {questionnaireLabel && <p className="admin-project-card__meta">{questionnaireLabel}</p>}
+                        {project.suppressed && (
+                          <p className="admin-project-card__meta">Оценки скрыты ради анонимности</p>
+                        )}
                         <div className="admin-project-card__stats">
-                          <div>
-                            <span className="admin-project-card__stat-label">NPS</span>
-                            <span className="admin-project-card__stat-value">{formatScore(averages.projectRecommendation)}</span>
+                          <div
+                            title={`${formatNpsBreakdown(project.nps)} · ${formatConfidence(project.confidence.enps, 0)}`}
+                          >
+                            <span className="admin-project-card__stat-label">eNPS</span>
+                            <span
+                              className={`admin-project-card__stat-value ${lowSampleClass(project.confidence.enps)}`}
+                            >
+                              {formatEnps(project.enps)}
+                            </span>
+                          </div>
+                          <div title={formatConfidence(project.confidence.averages.projectRecommendation, 1)}>
+                            <span className="admin-project-card__stat-label">Средняя</span>
+                            <span
+                              className={`admin-project-card__stat-value ${lowSampleClass(
+                                project.confidence.averages.projectRecommendation,
+                              )}`}
+                            >
+                              {formatScore(averages.projectRecommendation)}
+                            </span>
                           </div>
                           <div>
                             <span className="admin-project-card__stat-label">Сотрудники</span>
                             <span className="admin-project-card__stat-value">{project.uniqueRespondents}</span>
                           </div>
+                          <div
+                            title={
+                              project.participation.expected === null
+                                ? 'Ожидаемые участники не заданы'
+                                : `${project.participation.responded} из ${project.participation.expected}`
+                            }
+                          >
+                            <span className="admin-project-card__stat-label">Участие</span>
+                            <span className="admin-project-card__stat-value">
+                              {formatParticipation(project.participation)}
+                            </span>
+                          </div>
                         </div>
                       </button>
                     );
@@ -922,6 +1932,35 @@ export default function AdminApp({ initialToken = null, embedded = false, onToke
                     </p>
                   </div>
                   <div className="admin-details__actions">
+                    <select
+                      className="input admin-details__policy"
+                      aria-label="Менеджер проекта"
+                      value={selectedProject.managerId ?? ''}
+                      onChange={(event) => void handleProjectManagerChange(event.target.value)}
+                      disabled={projectActionId === selectedProject.id}
+                    >
+                      <option value="">Менеджер не назначен</option>
+                      {managers.map((manager) => (
+                        <option key={manager.id} value={manager.id}>
+                          Менеджер: {manager.name}
+                        </option>
+                      ))}
+                    </select>
+                    <select
+                      className="input admin-details__policy"
+                      aria-label="Срок редактирования ответов"
+                      value={editPolicyValue(selectedProject)}
+                      onChange={(event) => void handleEditPolicyChange(event.target.value)}
+                      disabled={projectActionId === selectedProject.id}
+                    >
+                      {[...new Set([...EDIT_WINDOW_PRESETS, selectedProject.editWindowHours])].map((hours) => (
+                        <option key={hours} value={`hours:${hours}`}>
+                          Правки: {formatEditWindow(hours)}
+                        </option>
+                      ))}
+                      <option value="week">Правки: до конца недели опроса</option>
+                      <option value="never">Правки: после отправки нельзя</option>
+                    </select>
                     <button
                       type="button"
                       className="button button--ghost"
@@ -940,12 +1979,23 @@ export default function AdminApp({ initialToken = null, embedded = false, onToke
                     </button>
                   </div>
                 </header>
+                {selectedProject.suppressed && (
+                  <div className="hint">
+                    Оценки скрыты ради анонимности: в проекте ответило меньше {anonymity?.minRespondents} сотрудников.
+                  </div>
+                )}
                 <div className="admin-metrics">
                   {averageRows.map((row) => (
                     <div key={row.label} className="admin-metric">
                       <div className="admin-metric__label">
                         <span>{row.label}</span>
-                        <span>{formatAverage(row.value)}</span>
+                        <span
+                          className={lowSampleClass(row.confidence)}
+                          title={formatConfidence(row.confidence, 1)}
+                        >
+                          {formatAverage(row.value)}
+                          {formatMargin(row.confidence, 1) && ` ${formatMargin(row.confidence, 1)}`}
+                        </span>
                       </div>
                       <div className="admin-metric__bar">
                         <div
@@ -968,16 +2018,167 @@ export default function AdminApp({ initialToken = null, embedded = false, onToke
                     ))}
                   </div>
                 )}
+                {selectedProject.sentiment.responsesCount > 0 && (
+                  <div className="admin-contribution-grid">
+                    <div
+                      className="admin-contribution-card"
+                      title="Средний тон комментариев от −1 (негативный) до +1 (позитивный)"
+                    >
+                      <span className="admin-contribution-card__label">Тон комментариев</span>
+                      <span className="admin-contribution-card__value">
+                        {formatSentiment(selectedProject.sentiment.average)}
+                      </span>
+                    </div>
+                    <div className="admin-contribution-card">
+                      <span className="admin-contribution-card__label">Негативные</span>
+                      <span className="admin-contribution-card__value">
+                        {selectedProject.sentiment.negativeCount} из {selectedProject.sentiment.responsesCount}
+                      </span>
+                    </div>
+                    <div className="admin-contribution-card">
+                      <span className="admin-contribution-card__label">Позитивные</span>
+                      <span className="admin-contribution-card__value">
+                        {selectedProject.sentiment.positiveCount} из {selectedProject.sentiment.responsesCount}
+                      </span>
+                    </div>
+                  </div>
+                )}
+                {expectedRespondents && (
+                  <ExpectedRespondentsForm
+                    expected={expectedRespondents}
+                    participation={selectedProject.participation}
+                    isSaving={projectActionId === selectedProject.id}
+                    onSubmit={handleExpectedRespondentsSubmit}
+                  />
+                )}
+                <section className="admin-trends">
+                  <header className="admin-trends__header">
+                    <h3>Динамика</h3>
+                    <select
+                      className="input admin-trends__granularity"
+                      value={trendGranularity}
+                      onChange={(event) => setTrendGranularity(event.target.value as TrendGranularity)}
+                      aria-label="Период группировки"
+                    >
+                      <option value="week">По неделям</option>
+                      <option value="month">По месяцам</option>
+                    </select>
+                  </header>
+                  {trendsLoading && trends.length === 0 && <div className="hint">Загружаем динамику…</div>}
+                  {trendsError && <div className="error-message">{trendsError}</div>}
+                  {!trendsLoading && !trendsError && trends.length === 0 && (
+                    <div className="hint">Динамика появится после первых отправленных анкет.</div>
+                  )}
+                  {trends.length > 0 && (
+                    <div className="admin-trends__grid">
+                      {trendCharts.map((chart) => (
+                        <TrendChart key={chart.title} periods={trendPeriods} {...chart} />
+                      ))}
+                    </div>
+                  )}
+                </section>
+                <DriversPanel
+                  analysis={drivers?.projects.find((project) => project.projectId === selectedProject.id) ?? null}
+                  portfolio={drivers?.portfolio ?? null}
+                  error={driversError}
+                />
+                <KeywordsPanel
+                  analytics={textAnalytics}
+                  error={textAnalyticsError}
+                  selectedStem={selectedTerm?.stem ?? null}
+                  onSelect={anonymity?.enabled ? undefined : handleTermSelect}
+                />
                 <div className="admin-responses-panel">
+                  <div className="admin-responses__toolbar">
+                    <select
+                      className="input"
+                      value={responseOrder}
+                      onChange={(event) => setResponseOrder(event.target.value as ResponseOrder)}
+                      aria-label="Порядок ответов"
+                    >
+                      <option value="recent">Сначала новые</option>
+                      <option value="sentiment">Сначала негативные</option>
+                    </select>
+                  </div>
+                  {selectedTerm && (
+                    <div className="admin-responses__term">
+                      <span>
+                        Ответы с «{selectedTerm.term}»: {visibleResponses.length}
+                      </span>
+                      <button type="button" className="button button--ghost" onClick={() => handleTermSelect(null)}>
+                        Показать все
+                      </button>
+                    </div>
+                  )}
                   {responsesLoading && <div className="hint">Загружаем ответы…</div>}
                   {responsesError && <div className="error-message">{responsesError}</div>}
-                  {!responsesLoading && responses.length === 0 && !responsesError && (
-                    <div className="hint">Ответов для выбранного проекта пока нет.</div>
+                  {!responsesLoading && anonymousResponses?.suppressed && (
+                    <div className="hint">
+                      Ответы скрыты ради анонимности: их оставило меньше {anonymity?.minRespondents} сотрудников.
+                    </div>
+                  )}
+                  {!responsesLoading &&
+                    responses.length === 0 &&
+                    !anonymousResponses?.responses.length &&
+                    !anonymousResponses?.suppressed &&
+                    !responsesError && <div className="hint">Ответов для выбранного проекта пока нет.</div>}
+                  {!responsesLoading && anonymousResponses && anonymousResponses.responses.length > 0 && (
+                    <div className="admin-responses__groups">
+                      {anonymousResponses.responses.map((response, index) => {
+                        const responseQuestions = questionsFor(response);
+                        return (
+                          <article
+                            // Anonymous responses carry no id; their order is fixed until the list is reloaded.
+                            key={index}
+                            className={[
+                              'admin-response-card',
+                              isNegativeSentiment(response.sentiment) ? 'admin-response-card--negative' : '',
+                            ].join(' ')}
+                          >
+                            <div className="admin-response-card__ratings">
+                              {responseQuestions
+                                .filter((question) => question.type === 'scale')
+                                .map((question) => {
+                                  const value = response.answers[question.key];
+                                  return (
+                                    <RatingRow
+                                      key={question.key}
+                                      label={questionLabel(question)}
+                                      value={typeof value === 'number' ? value : null}
+                                    />
+                                  );
+                                })}
+                            </div>
+                            <dl>
+                              {responseQuestions
+                                .filter((question) => question.type !== 'scale')
+                                .map((question) => {
+                                  const formatted = formatAnswer(question, response.answers[question.key]);
+                                  if (!formatted) {
+                                    return null;
+                                  }
+
+                                  const negative = isNegativeSentiment(response.answerSentiments[question.key]);
+                                  return (
+                                    <div
+                                      key={question.key}
+                                      className={negative ? 'admin-response-card__answer--negative' : ''}
+                                    >
+                                      <dt>{questionLabel(question)}</dt>
+                                      <dd>{formatted}</dd>
+                                    </div>
+                                  );
+                                })}
+                            </dl>
+                          </article>
+                        );
+                      })}
+                    </div>
                   )}
                   {!responsesLoading && responses.length > 0 && (
                     <div className="admin-responses__groups">
                       {groupedResponses.map((group) => {
-                        const isOpen = expandedGroups[group.id] ?? group.isRecent;
+                        const isOpen = expandedGroups[group.id] ?? group.openByDefault;
                         return (
                           <div key={group.id} className={`admin-response-group ${isOpen ? 'admin-response-group--open' : ''}`}>
                             <button
@@ -988,6 +2189,18 @@ export default function AdminApp({ initialToken = null, embedded = false, onToke
                               <div className="admin-response-group__title">
                                 <span>{group.label}</span>
                                 {group.isRecent && <span className="admin-response-group__badge">Последние 14 дней</span>}
+                                {group.methodologyChanges.map((questionnaire) => (
+                                  <span
+                                    key={questionnaire.id}
+                                    className="admin-response-group__badge admin-response-group__badge--methodology"
+                                    title={`Изменены вопросы: ${questionnaire.questions
+                                      .filter((question) => !question.comparable)
+                                      .map(questionLabel)
+                                      .join(', ')}. Ответы на них до этой недели не входят в средние.`}
+                                  >
+                                    Методика изменилась · v{questionnaire.version}
+                                  </span>
+                                ))}
                               </div>
                               <span className="admin-response-group__count">{group.responses.length}</span>
                             </button>
@@ -996,10 +2209,15 @@ export default function AdminApp({ initialToken = null, embedded = false, onToke
                                 {group.responses.map((response) => {
                                   const isEditing = editingResponseId === response.id;
                                   const isBusy = responseActionId === response.id;
+                                  const showRevisions = revisionsSurveyId === response.id;
+                                  const responseQuestions = questionsFor(response);
+                                  const scaleQuestions = responseQuestions.filter((question) => question.type === 'scale');
+                                  const detailQuestions = responseQuestions.filter((question) => question.type !== 'scale');
                                   const adminResponseClass = [
                                     'admin-response-card',
                                     isEditing ? 'admin-response-card--editing' : '',
-                                    response.isComplete ? '' : 'admin-response-card--incomplete',
+                                    response.submittedAt ? '' : 'admin-response-card--incomplete',
+                                    isNegativeSentiment(response.sentiment) ? 'admin-response-card--negative' : '',
                                   ]
                                     .filter(Boolean)
                                     .join(' ');
@@ -1011,7 +2229,7 @@ export default function AdminApp({ initialToken = null, embedded = false, onToke
                                       {isEditing ? (
                                         <SurveyInlineEditor
                                           survey={response}
-                                          questions={ADMIN_QUESTION_CONFIG}
+                                          questions={responseQuestions}
                                           isSaving={isBusy}
                                           onSubmit={(draft) => handleUpdateResponse(response.id, draft)}
                                           onClose={() => setEditingResponseId(null)}
@@ -1022,7 +2240,13 @@ export default function AdminApp({ initialToken = null, embedded = false, onToke
                                             <div>
                                               <h3>{formatUserName(response)}</h3>
                                               <span className="admin-response-card__meta">
-                                                {formatDateTime(response.createdAt)} · Оценка: {formatScore(response.projectRecommendation)}
+                                                {formatDateTime(response.createdAt)} · Оценка: {formatScore(
+                                                  typeof response.answers.projectRecommendation === 'number'
+                                                    ? response.answers.projectRecommendation
+                                                    : null,
+                                                )}
+                                                {response.sentiment !== null &&
+                                                  ` · Тон: ${formatSentiment(response.sentiment)}`}
                                               </span>
                                             </div>
                                             <div className="admin-response-card__actions">
@@ -1033,6 +2257,25 @@ export default function AdminApp({ initialToken = null, embedded = false, onToke
                                               >
                                                 Редактировать
                                               </button>
+                                              <button
+                                                type="button"
+                                                className="button button--ghost"
+                                                onClick={() => handleToggleRevisions(response.id)}
+                                                aria-expanded={showRevisions}
+                                              >
+                                                {showRevisions ? 'Скрыть историю' : 'История правок'}
+                                              </button>
+                                              {!response.canEdit && (
+                                                <button
+                                                  type="button"
+                                                  className="button button--ghost"
+                                                  onClick={() => handleUnlockResponse(response.id)}
+                                                  disabled={isBusy}
+                                                  title="Сотрудник сможет изменить ответы в течение суток"
+                                                >
+                                                  Разблокировать
+                                                </button>
+                                              )}
                                               <button
                                                 type="button"
                                                 className="button button--danger"
@@ -1043,52 +2286,56 @@ export default function AdminApp({ initialToken = null, embedded = false, onToke
                                               </button>
                                             </div>
                                           </header>
-                                          {!response.isComplete && (
+                                          {!response.submittedAt && (
                                             <div className="response-card__status" role="note">
                                               <span className="response-card__status-icon" aria-hidden="true">
                                                 ⚠️
                                               </span>
-                                              <span>Анкета заполнена не полностью — ответы не учитываются в статистике.</span>
+                                              <span>Анкета не отправлена — ответы не учитываются в статистике.</span>
                                             </div>
                                           )}
                                           <div className="admin-response-card__ratings">
-                                            <RatingRow label="Проект" value={response.projectRecommendation} />
-                                            <RatingRow label="Менеджер" value={response.managerEffectiveness} />
-                                            <RatingRow label="Команда" value={response.teamComfort} />
-                                            <RatingRow label="Процессы" value={response.processOrganization} />
+                                            {scaleQuestions.map((question) => {
+                                              const value = response.answers[question.key];
+                                              return (
+                                                <RatingRow
+                                                  key={question.key}
+                                                  label={questionLabel(question)}
+                                                  value={typeof value === 'number' ? value : null}
+                                                />
+                                              );
+                                            })}
                                           </div>
                                           <dl>
-                                            {response.projectImprovement && (
-                                              <div>
-                                                <dt>Проект</dt>
-                                                <dd>{response.projectImprovement}</dd>
-                                              </div>
-                                            )}
-                                            {response.managerImprovement && (
-                                              <div>
-                                                <dt>Менеджер</dt>
-                                                <dd>{response.managerImprovement}</dd>
-                                              </div>
-                                            )}
-                                            {response.teamImprovement && (
-                                              <div>
-                                                <dt>Команда</dt>
-                                                <dd>{response.teamImprovement}</dd>
-                                              </div>
-                                            )}
-                                            {response.processObstacles && (
-                                              <div>
-                                                <dt>Процессы</dt>
-                                                <dd>{response.processObstacles}</dd>
-                                              </div>
-                                            )}
-                                            {response.improvementIdeas && (
-                                              <div>
-                                                <dt>Идеи</dt>
-                                                <dd>{response.improvementIdeas}</dd>
-                                              </div>
-                                            )}
+                                            {detailQuestions.map((question) => {
+                                              const formatted = formatAnswer(question, response.answers[question.key]);
+                                              if (!formatted) {
+                                                return null;
+                                              }
+
+                                              const negative = isNegativeSentiment(
+                                                response.answerSentiments[question.key],
+                                              );
+                                              return (
+                                                <div
+                                                  key={question.key}
+                                                  className={negative ? 'admin-response-card__answer--negative' : ''}
+                                                >
+                                                  <dt>{questionLabel(question)}</dt>
+                                                  <dd>{formatted}</dd>
+                                                </div>
+                                              );
+                                            })}
                                           </dl>
+                                          {showRevisions && (
+                                            <RevisionHistory
+                                              revisions={revisions}
+                                              questions={responseQuestions}
+                                              isLoading={revisionsLoading}
+                                              isBusy={isBusy}
+                                              onRevert={(revision) => handleRevertRevision(response.id, revision)}
+                                            />
+                                          )}
                                         </>
                                       )}
                                     </article>
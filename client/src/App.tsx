@@ -1,83 +1,38 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import type { JSX } from 'react';
 import './App.css';
-import { createSurveyRequest, fetchProjects, fetchSurveys, updateSurveyRequest } from './api';
+import {
+  createSurveyRequest,
+  fetchProjectQuestionnaire,
+  fetchProjects,
+  fetchQuestionnaire,
+  fetchSurveys,
+  saveSurveyDraftRequest,
+  submitSurveyRequest,
+  updateLanguageRequest,
+  updateSurveyRequest,
+} from './api';
 import type { ApiAuthContext } from './api';
+import LanguageToggle from './components/LanguageToggle';
 import ThemeToggle from './components/ThemeToggle';
 import { ProjectSelector } from './components/ProjectSelector';
 import { ResponsesList } from './components/ResponsesList';
 import { ProfileIcon } from './components/icons';
-import { SurveyStepper, type QuestionConfig, type QuestionKey } from './components/SurveyStepper';
+import { SurveyStepper, type QuestionKey } from './components/SurveyStepper';
 import { useThemePreference, type ThemePreference } from './hooks/useThemePreference';
-import type { ProjectSummary, SurveyAnswers, SurveyRecord, TelegramUser } from './types';
+import type {
+  AnswerValue,
+  Language,
+  ProjectSummary,
+  Questionnaire,
+  SurveyAnswers,
+  SurveyRecord,
+  TelegramUser,
+} from './types';
+import { isAnswered, isQuestionVisible, mergeQuestions, resolveLanguage, surveyQuestionnaireIds } from './questionnaire';
 
 type AppView = 'dashboard' | 'history';
 
-const QUESTION_CONFIG: QuestionConfig[] = [
-  {
-    key: 'projectRecommendation',
-    title: 'Насколько вероятно, что вы порекомендуете участие в проекте коллеге?',
-    description: '0 — точно нет, 10 — однозначно да.',
-    type: 'scale',
-  },
-  {
-    key: 'projectImprovement',
-    title: 'Что могло бы повысить вашу оценку проекта?',
-    type: 'text',
-    placeholder: 'Поделитесь идеями для улучшения проекта.',
-  },
-  {
-    key: 'managerEffectiveness',
-    title: 'Насколько эффективно менеджер помогает снимать блокеры?',
-    description: '0 — никак не помогает, 10 — помогает всегда и быстро.',
-    type: 'scale',
-  },
-  {
-    key: 'managerImprovement',
-    title: 'Что менеджер мог бы улучшить в следующем спринте?',
-    type: 'text',
-    placeholder: 'Напишите конкретные ожидания или пожелания.',
-  },
-  {
-    key: 'teamComfort',
-    title: 'Насколько комфортно вам взаимодействовать с командой?',
-    type: 'scale',
-  },
-  {
-    key: 'teamImprovement',
-    title: 'Что можно улучшить в командной работе?',
-    type: 'text',
-    placeholder: 'Опишите, что поможет команде работать лучше.',
-  },
-  {
-    key: 'processOrganization',
-    title: 'Насколько хорошо организованы процессы (созвоны, таски, коммуникация)?',
-    type: 'scale',
-  },
-  {
-    key: 'processObstacles',
-    title: 'Что мешало в этом спринте/неделе работать эффективнее?',
-    type: 'text',
-    placeholder: 'Опишите основные сложности.',
-  },
-  {
-    key: 'contributionValued',
-    title: 'Чувствуете ли вы, что ваш вклад в проект ценится?',
-    type: 'options',
-    options: [
-      { label: 'Да', value: 'yes' },
-      { label: 'Частично', value: 'partial' },
-      { label: 'Нет', value: 'no' },
-    ],
-  },
-  {
-    key: 'improvementIdeas',
-    title: 'Есть ли идеи для улучшения проекта или процессов?',
-    type: 'text',
-    placeholder: 'Предложите гипотезы или эксперименты.',
-  },
-];
-
 function createFallbackUser(): TelegramUser {
   return {
     id: 1,
@@ -200,13 +155,7 @@ function useTelegramUser(): { auth: ApiAuthContext; user: TelegramUser | null; r
 }
 
 function normalizeAnswersFromSurvey(survey: SurveyRecord): SurveyAnswers {
-  return QUESTION_CONFIG.reduce<SurveyAnswers>((acc, question) => {
-    const value = survey[question.key];
-    if (value !== undefined && value !== null) {
-      acc[question.key] = value as never;
-    }
-    return acc;
-  }, {} as SurveyAnswers);
+  return { ...survey.answers };
 }
 
 export default function App(): JSX.Element {
@@ -215,6 +164,12 @@ export default function App(): JSX.Element {
 
   const { auth, user, ready } = useTelegramUser();
 
+  const [questionnaire, setQuestionnaire] = useState<Questionnaire | null>(null);
+  const [pinnedQuestionnaires, setPinnedQuestionnaires] = useState<Record<number, Questionnaire>>({});
+  // Language picked in this session; until then the server serves the saved choice or the Telegram language.
+  const [language, setLanguage] = useState<Language | null>(null);
+  const questions = useMemo(() => questionnaire?.questions ?? [], [questionnaire]);
+
   const [projectSearch, setProjectSearch] = useState('');
   const [projects, setProjects] = useState<ProjectSummary[]>([]);
   const [projectsLoading, setProjectsLoading] = useState(false);
@@ -241,6 +196,8 @@ export default function App(): JSX.Element {
     currentId: null as number | null,
   });
   const startButtonRef = useRef<HTMLButtonElement | null>(null);
+  // Step autosaves run one after another so the last saved step always wins.
+  const draftSaveRef = useRef<Promise<void>>(Promise.resolve());
 
   useEffect(() => {
     surveyStateRef.current = {
@@ -255,6 +212,38 @@ export default function App(): JSX.Element {
   const [banner, setBanner] = useState<{ type: 'error' | 'success'; message: string } | null>(null);
   const [editingSurveyId, setEditingSurveyId] = useState<number | null>(null);
 
+  const matchesProjectQuestionnaire = useCallback(
+    (survey: SurveyRecord) =>
+      questionnaire !== null &&
+      survey.projectId === selectedProjectId &&
+      survey.questionnaireId === questionnaire.id &&
+      survey.extensionQuestionnaireId === (questionnaire.extension?.id ?? null),
+    [questionnaire, selectedProjectId],
+  );
+
+  const questionsFor = useCallback(
+    (survey: SurveyRecord) => {
+      if (matchesProjectQuestionnaire(survey)) {
+        return questions;
+      }
+
+      const base = pinnedQuestionnaires[survey.questionnaireId];
+      if (!base) {
+        return questions;
+      }
+
+      const extension =
+        survey.extensionQuestionnaireId === null ? undefined : pinnedQuestionnaires[survey.extensionQuestionnaireId];
+      return extension ? mergeQuestions(base.questions, extension.questions) : base.questions;
+    },
+    [matchesProjectQuestionnaire, pinnedQuestionnaires, questions],
+  );
+
+  const currentQuestions = useMemo(
+    () => (currentSurvey ? questionsFor(currentSurvey) : questions),
+    [currentSurvey, questions, questionsFor],
+  );
+
   const isAuthProvided = useMemo(() => auth.initDataRaw !== null || auth.debugUser !== null, [auth]);
 
   const selectedProject = useMemo(
@@ -336,6 +325,51 @@ export default function App(): JSX.Element {
     [auth, currentSurvey, isAuthProvided],
   );
 
+  useEffect(() => {
+    if (!ready || !isAuthProvided || selectedProjectId === null) {
+      setQuestionnaire(null);
+      return;
+    }
+
+    let cancelled = false;
+    fetchProjectQuestionnaire(auth, selectedProjectId)
+      .then((response) => {
+        if (!cancelled) {
+          setQuestionnaire(response.questionnaire);
+        }
+      })
+      .catch((error) => {
+        if (!cancelled) {
+          showError(error);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [auth, isAuthProvided, language, ready, selectedProjectId, showError]);
+
+  useEffect(() => {
+    if (!questionnaire) {
+      return;
+    }
+
+    const missingIds = new Set(
+      [...surveys, ...(currentSurvey ? [currentSurvey] : [])]
+        .filter((survey) => !matchesProjectQuestionnaire(survey))
+        .flatMap(surveyQuestionnaireIds)
+        .filter((id) => !pinnedQuestionnaires[id]),
+    );
+
+    missingIds.forEach((id) => {
+      fetchQuestionnaire(auth, id)
+        .then((response) => {
+          setPinnedQuestionnaires((prev) => ({ ...prev, [id]: response.questionnaire }));
+        })
+        .catch(showError);
+    });
+  }, [auth, currentSurvey, matchesProjectQuestionnaire, pinnedQuestionnaires, questionnaire, showError, surveys]);
+
   useEffect(() => {
     if (!ready || !isAuthProvided) {
       return;
@@ -400,6 +434,28 @@ export default function App(): JSX.Element {
     [setPreference],
   );
 
+  const handleLanguageChange = useCallback(
+    async (value: Language) => {
+      try {
+        const response = await updateLanguageRequest(auth, value);
+        // Questionnaires come back localized, so the cached ones are refetched in the new language.
+        setPinnedQuestionnaires({});
+        setLanguage(response.language);
+      } catch (error) {
+        showError(error);
+      }
+    },
+    [auth, showError],
+  );
+
+  const pendingDraft = useMemo(
+    () =>
+      surveys.find(
+        (survey) => survey.projectId === selectedProjectId && survey.submittedAt === null && survey.canEdit,
+      ) ?? null,
+    [selectedProjectId, surveys],
+  );
+
   const handleStartSurvey = useCallback(async () => {
     if (!selectedProject) {
       return;
@@ -409,10 +465,19 @@ export default function App(): JSX.Element {
     setBanner(null);
 
     try {
-      const response = await createSurveyRequest(auth, { projectId: selectedProject.id });
-      setCurrentSurvey(response.record);
-      setDraftAnswers(normalizeAnswersFromSurvey(response.record));
-      setActiveStep(0);
+      const response = await createSurveyRequest(auth, {
+        projectId: selectedProject.id,
+        surveyDate: pendingDraft?.surveyDate,
+      });
+      const { record } = response;
+      if (!record.canEdit) {
+        setBanner({ type: 'error', message: 'Анкету за этот период уже нельзя изменить.' });
+        return;
+      }
+
+      setCurrentSurvey(record);
+      setDraftAnswers(normalizeAnswersFromSurvey(record));
+      setActiveStep(record.submittedAt === null && record.lastStep !== null ? record.lastStep + 1 : 0);
       setSurveyStarted(true);
       setSurveySubmitted(false);
       setEditingSurveyId(null);
@@ -426,16 +491,45 @@ export default function App(): JSX.Element {
     } finally {
       setCreatingSurvey(false);
     }
-  }, [auth, selectedProject, showError]);
+  }, [auth, pendingDraft, selectedProject, showError]);
 
-  const handleAnswer = useCallback((key: QuestionKey, value: number | string) => {
-    const normalized = typeof value === 'string' ? value.trim() : value;
-    setDraftAnswers((prev) => ({ ...prev, [key]: normalized as never }));
-  }, []);
+  const handleAnswer = useCallback(
+    (key: QuestionKey, value: AnswerValue) => {
+      if (!currentSurvey) {
+        return;
+      }
+
+      const normalized = typeof value === 'string' ? value.trim() : value;
+      const nextAnswers: SurveyAnswers = { ...draftAnswers, [key]: normalized };
+      const updates: SurveyAnswers = { [key]: normalized };
+
+      // Follow-ups hidden by this answer are cleared on the server as well.
+      currentQuestions.forEach((question) => {
+        if (nextAnswers[question.key] !== undefined && !isQuestionVisible(question, nextAnswers)) {
+          delete nextAnswers[question.key];
+          updates[question.key] = '';
+        }
+      });
+
+      setDraftAnswers(nextAnswers);
+
+      const surveyId = currentSurvey.id;
+      draftSaveRef.current = draftSaveRef.current
+        .then(() => saveSurveyDraftRequest(auth, surveyId, updates, activeStep))
+        .then(() => undefined)
+        .catch(showError);
+    },
+    [activeStep, auth, currentQuestions, currentSurvey, draftAnswers, showError],
+  );
+
+  const visibleQuestions = useMemo(
+    () => currentQuestions.filter((question) => isQuestionVisible(question, draftAnswers)),
+    [currentQuestions, draftAnswers],
+  );
 
   const mandatoryKeys = useMemo(
-    () => QUESTION_CONFIG.filter((question) => question.type !== 'text').map((question) => question.key),
-    [],
+    () => visibleQuestions.filter((question) => question.required).map((question) => question.key),
+    [visibleQuestions],
   );
 
   const handleCompleteSurvey = useCallback(async () => {
@@ -444,10 +538,18 @@ export default function App(): JSX.Element {
     }
 
     const payload: SurveyAnswers = {};
-    QUESTION_CONFIG.forEach((question) => {
+    currentQuestions.forEach((question) => {
       const value = draftAnswers[question.key];
-      if (value !== undefined && value !== null && !(typeof value === 'string' && value.trim().length === 0)) {
-        payload[question.key] = value as never;
+      if (!isQuestionVisible(question, draftAnswers)) {
+        // Drop follow-ups answered before the answer they depend on changed.
+        if (currentSurvey.answers[question.key] !== undefined) {
+          payload[question.key] = '';
+        }
+        return;
+      }
+
+      if (isAnswered(value)) {
+        payload[question.key] = value;
       }
     });
 
@@ -461,7 +563,9 @@ export default function App(): JSX.Element {
     setBanner(null);
 
     try {
-      const response = await updateSurveyRequest(auth, currentSurvey.id, payload);
+      await draftSaveRef.current;
+      await updateSurveyRequest(auth, currentSurvey.id, payload);
+      const response = await submitSurveyRequest(auth, currentSurvey.id);
       setSurveySubmitted(true);
       surveyStateRef.current.submitted = true;
       surveyStateRef.current.currentId = response.survey.id;
@@ -478,7 +582,7 @@ export default function App(): JSX.Element {
     } finally {
       setSavingSurvey(false);
     }
-  }, [auth, currentSurvey, draftAnswers, mandatoryKeys, projectSearch, refreshProjects, refreshSurveys, showError]);
+  }, [auth, currentQuestions, currentSurvey, draftAnswers, mandatoryKeys, projectSearch, refreshProjects, refreshSurveys, showError]);
 
   const handleExitSurvey = useCallback(() => {
     setCurrentSurvey(null);
@@ -608,22 +712,24 @@ export default function App(): JSX.Element {
             <div>
               <h2>{selectedProject.name}</h2>
               <p className="panel-subtitle">
-                Ответьте на 10 вопросов, чтобы помочь проектному офису отслеживать настроение команды.
+                Ответьте на вопросы анкеты ({questions.length}), чтобы помочь проектному офису отслеживать настроение команды.
               </p>
             </div>
           </header>
           <div className="panel-body">
             <p className="hint">
-              Анкета займёт около 4 минут. Ответы сохранятся только после завершения анкеты.
+              {pendingDraft
+                ? `Вы начали анкету ${new Date(pendingDraft.createdAt).toLocaleString()} — ответы сохранены, можно продолжить на любом устройстве.`
+                : 'Анкета займёт около 4 минут. Ответы сохраняются после каждого шага.'}
             </p>
             <button
               type="button"
               className="button"
               onClick={handleStartSurvey}
-              disabled={creatingSurvey}
+              disabled={creatingSurvey || !questionnaire}
               ref={startButtonRef}
             >
-              {creatingSurvey ? 'Готовим анкету…' : 'Начать тест'}
+              {creatingSurvey ? 'Готовим анкету…' : pendingDraft ? 'Продолжить с места остановки' : 'Начать тест'}
             </button>
           </div>
         </section>
@@ -633,7 +739,7 @@ export default function App(): JSX.Element {
     return (
       <SurveyStepper
         survey={currentSurvey}
-        questions={QUESTION_CONFIG}
+        questions={visibleQuestions}
         answers={draftAnswers}
         activeStep={activeStep}
         onStepChange={setActiveStep}
@@ -659,7 +765,8 @@ export default function App(): JSX.Element {
       </section>
       <ResponsesList
         surveys={surveys}
-        questions={QUESTION_CONFIG}
+        questions={questions}
+        questionsFor={questionsFor}
         isLoading={surveysLoading}
         onEdit={handleEditSurvey}
         editingSurveyId={editingSurveyId}
@@ -721,7 +828,7 @@ export default function App(): JSX.Element {
           )}
           <SurveyStepper
             survey={currentSurvey}
-            questions={QUESTION_CONFIG}
+            questions={visibleQuestions}
             answers={draftAnswers}
             activeStep={activeStep}
             onStepChange={setActiveStep}
@@ -763,6 +870,10 @@ export default function App(): JSX.Element {
                   <ProfileIcon />
                 </span>
               </button>
+              <LanguageToggle
+                language={language ?? questionnaire?.language ?? resolveLanguage(user?.language_code)}
+                onLanguageChange={(value) => void handleLanguageChange(value)}
+              />
               <ThemeToggle
                 theme={theme}
                 preference={preference}
@@ -1,12 +1,32 @@
 import type {
+  AdminManagerStats,
+  AdminPortfolioStats,
   AdminProjectStats,
   AdminSurveyRecord,
+  AnalyticsFilter,
+  AnonymitySettings,
+  AnonymousResponses,
   ApiError,
+  ContributionHeatmap,
+  DriverAnalysis,
+  EditPolicy,
+  ExpectedRespondents,
+  Language,
+  Manager,
+  PortfolioBenchmark,
+  ProjectAlert,
+  ProjectDriverAnalysis,
   ProjectSummary,
+  ProjectTrendPeriod,
+  Questionnaire,
+  ResponseOrder,
   SurveyAnswers,
   SurveyCreationResponse,
   SurveyRecord,
+  SurveyRevision,
   TelegramUser,
+  TextAnalytics,
+  TrendGranularity,
 } from './types';
 
 const API_BASE = import.meta.env.VITE_API_BASE ?? '/api';
@@ -75,6 +95,19 @@ async function request<T>(path: string, options: RequestOptions): Promise<T> {
   return (await response.json()) as T;
 }
 
+/** Query string of an admin analytics request; unset filter fields are left out. */
+function analyticsQuery(filter: AnalyticsFilter, extra: Record<string, string> = {}): string {
+  const params = new URLSearchParams(extra);
+  Object.entries(filter).forEach(([key, value]) => {
+    if (value !== undefined && value !== '') {
+      params.set(key, String(value));
+    }
+  });
+
+  const query = params.toString();
+  return query ? `?${query}` : '';
+}
+
 async function adminRequest<T>(path: string, token: string, options: RequestInit = {}): Promise<T> {
   const sanitizedToken = sanitizeAdminToken(token);
 
@@ -125,6 +158,21 @@ export function createProject(auth: ApiAuthContext, name: string): Promise<{ pro
   });
 }
 
+export function fetchQuestionnaire(
+  auth: ApiAuthContext,
+  questionnaireId?: number,
+): Promise<{ questionnaire: Questionnaire }> {
+  const path = typeof questionnaireId === 'number' ? `/questionnaire/${questionnaireId}` : '/questionnaire';
+  return request(path, { method: 'GET', auth });
+}
+
+export function fetchProjectQuestionnaire(
+  auth: ApiAuthContext,
+  projectId: number,
+): Promise<{ questionnaire: Questionnaire }> {
+  return request(`/projects/${projectId}/questionnaire`, { method: 'GET', auth });
+}
+
 export function fetchSurveys(auth: ApiAuthContext, projectId?: number): Promise<{ surveys: SurveyRecord[] }> {
   const params = new URLSearchParams();
   if (typeof projectId === 'number') {
@@ -158,12 +206,102 @@ export function updateSurveyRequest(
   });
 }
 
+export function saveSurveyDraftRequest(
+  auth: ApiAuthContext,
+  surveyId: number,
+  answers: SurveyAnswers,
+  step: number,
+): Promise<{ survey: SurveyRecord }> {
+  return request(`/surveys/${surveyId}/draft`, {
+    method: 'PATCH',
+    auth,
+    body: JSON.stringify({ answers, step }),
+  });
+}
+
+export function submitSurveyRequest(auth: ApiAuthContext, surveyId: number): Promise<{ survey: SurveyRecord }> {
+  return request(`/surveys/${surveyId}/submit`, { method: 'POST', auth });
+}
+
 export function fetchSurvey(auth: ApiAuthContext, surveyId: number): Promise<{ survey: SurveyRecord }> {
   return request(`/surveys/${surveyId}`, { method: 'GET', auth });
 }
 
-export function fetchAdminProjects(token: string): Promise<{ projects: AdminProjectStats[] }> {
-  return adminRequest('/projects', token, { method: 'GET' });
+export function updateLanguageRequest(
+  auth: ApiAuthContext,
+  language: Language | null,
+): Promise<{ language: Language }> {
+  return request('/me/language', {
+    method: 'PUT',
+    auth,
+    body: JSON.stringify({ language }),
+  });
+}
+
+export function fetchAdminQuestionnaireVersions(
+  token: string,
+  language: Language,
+): Promise<{ versions: Questionnaire[] }> {
+  return adminRequest(`/questionnaire/versions?lang=${language}`, token, { method: 'GET' });
+}
+
+export function fetchAdminQuestionnaire(
+  token: string,
+  questionnaireId: number,
+  language: Language,
+): Promise<{ questionnaire: Questionnaire }> {
+  return adminRequest(`/questionnaire/${questionnaireId}?lang=${language}`, token, { method: 'GET' });
+}
+
+export function fetchAdminProjects(
+  token: string,
+  filter: AnalyticsFilter = {},
+): Promise<{ projects: AdminProjectStats[] }> {
+  return adminRequest(`/projects${analyticsQuery(filter)}`, token, { method: 'GET' });
+}
+
+export function fetchAdminPortfolio(
+  token: string,
+  filter: AnalyticsFilter = {},
+): Promise<{ portfolio: AdminPortfolioStats }> {
+  return adminRequest(`/portfolio${analyticsQuery(filter)}`, token, { method: 'GET' });
+}
+
+export function fetchAdminBenchmark(
+  token: string,
+  filter: AnalyticsFilter = {},
+): Promise<{ benchmark: PortfolioBenchmark }> {
+  return adminRequest(`/benchmark${analyticsQuery(filter)}`, token, { method: 'GET' });
+}
+
+export function fetchAdminAnonymity(token: string): Promise<{ anonymity: AnonymitySettings }> {
+  return adminRequest('/anonymity', token, { method: 'GET' });
+}
+
+export function fetchAdminContributionHeatmap(
+  token: string,
+  filter: AnalyticsFilter = {},
+): Promise<{ heatmap: ContributionHeatmap }> {
+  return adminRequest(`/contribution-heatmap${analyticsQuery(filter)}`, token, { method: 'GET' });
+}
+
+export function fetchAdminDrivers(
+  token: string,
+  filter: AnalyticsFilter = {},
+): Promise<{ portfolio: DriverAnalysis; projects: ProjectDriverAnalysis[] }> {
+  return adminRequest(`/drivers${analyticsQuery(filter)}`, token, { method: 'GET' });
+}
+
+export function fetchAdminAlerts(token: string): Promise<{ alerts: ProjectAlert[] }> {
+  return adminRequest('/alerts', token, { method: 'GET' });
+}
+
+export function acknowledgeAdminAlert(token: string, alertId: number): Promise<{ alert: ProjectAlert }> {
+  return adminRequest(`/alerts/${alertId}/acknowledge`, token, { method: 'POST' });
+}
+
+export function resolveAdminAlert(token: string, alertId: number): Promise<{ alert: ProjectAlert }> {
+  return adminRequest(`/alerts/${alertId}/resolve`, token, { method: 'POST' });
 }
 
 export function createAdminProject(token: string, name: string): Promise<{ project: AdminProjectStats }> {
@@ -186,15 +324,110 @@ export function updateAdminProjectName(
   });
 }
 
+export function updateAdminProjectEditPolicy(
+  token: string,
+  projectId: number,
+  policy: EditPolicy,
+  hours?: number,
+): Promise<{ project: ProjectSummary }> {
+  return adminRequest(`/projects/${projectId}/edit-policy`, token, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ policy, hours }),
+  });
+}
+
+export function fetchAdminProjectExpectedRespondents(
+  token: string,
+  projectId: number,
+): Promise<{ expected: ExpectedRespondents }> {
+  return adminRequest(`/projects/${projectId}/expected-respondents`, token, { method: 'GET' });
+}
+
+export function updateAdminProjectExpectedRespondents(
+  token: string,
+  projectId: number,
+  expected: ExpectedRespondents,
+): Promise<{ expected: ExpectedRespondents }> {
+  return adminRequest(`/projects/${projectId}/expected-respondents`, token, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(expected),
+  });
+}
+
+export function updateAdminProjectManager(
+  token: string,
+  projectId: number,
+  managerId: number | null,
+): Promise<{ project: ProjectSummary }> {
+  return adminRequest(`/projects/${projectId}/manager`, token, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ managerId }),
+  });
+}
+
+export function fetchAdminManagers(
+  token: string,
+  granularity: TrendGranularity,
+  filter: AnalyticsFilter = {},
+): Promise<{ granularity: TrendGranularity; managers: AdminManagerStats[] }> {
+  return adminRequest(`/managers${analyticsQuery(filter, { granularity })}`, token, { method: 'GET' });
+}
+
+export function createAdminManager(token: string, name: string): Promise<{ manager: Manager }> {
+  return adminRequest('/managers', token, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ name }),
+  });
+}
+
+export function updateAdminManagerName(token: string, managerId: number, name: string): Promise<{ manager: Manager }> {
+  return adminRequest(`/managers/${managerId}`, token, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ name }),
+  });
+}
+
+export function deleteAdminManager(token: string, managerId: number): Promise<void> {
+  return adminRequest(`/managers/${managerId}`, token, { method: 'DELETE' });
+}
+
 export function deleteAdminProject(token: string, projectId: number): Promise<void> {
   return adminRequest(`/projects/${projectId}`, token, { method: 'DELETE' });
 }
 
+export function fetchAdminProjectTrends(
+  token: string,
+  projectId: number,
+  granularity: TrendGranularity,
+  filter: AnalyticsFilter = {},
+): Promise<{ granularity: TrendGranularity; periods: ProjectTrendPeriod[] }> {
+  return adminRequest(`/projects/${projectId}/trends${analyticsQuery(filter, { granularity })}`, token, {
+    method: 'GET',
+  });
+}
+
+export function fetchAdminProjectKeywords(
+  token: string,
+  projectId: number,
+  filter: AnalyticsFilter = {},
+): Promise<{ analytics: TextAnalytics }> {
+  return adminRequest(`/projects/${projectId}/keywords${analyticsQuery(filter)}`, token, { method: 'GET' });
+}
+
 export function fetchAdminProjectResponses(
   token: string,
   projectId: number,
-): Promise<{ surveys: AdminSurveyRecord[] }> {
-  return adminRequest(`/projects/${projectId}/responses`, token, { method: 'GET' });
+  filter: AnalyticsFilter = {},
+  order: ResponseOrder = 'recent',
+): Promise<{ surveys: AdminSurveyRecord[] } | AnonymousResponses> {
+  return adminRequest(`/projects/${projectId}/responses${analyticsQuery(filter, { sort: order })}`, token, {
+    method: 'GET',
+  });
 }
 
 export function updateAdminSurvey(
@@ -209,6 +442,29 @@ export function updateAdminSurvey(
   });
 }
 
+export function unlockAdminSurvey(token: string, surveyId: number, hours: number): Promise<{ survey: SurveyRecord }> {
+  return adminRequest(`/surveys/${surveyId}/unlock`, token, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ hours }),
+  });
+}
+
+export function fetchAdminSurveyRevisions(
+  token: string,
+  surveyId: number,
+): Promise<{ revisions: SurveyRevision[] }> {
+  return adminRequest(`/surveys/${surveyId}/revisions`, token, { method: 'GET' });
+}
+
+export function revertAdminSurveyRevision(
+  token: string,
+  surveyId: number,
+  revisionId: number,
+): Promise<{ survey: SurveyRecord }> {
+  return adminRequest(`/surveys/${surveyId}/revisions/${revisionId}/revert`, token, { method: 'POST' });
+}
+
 export function deleteAdminSurvey(token: string, surveyId: number): Promise<void> {
   return adminRequest(`/surveys/${surveyId}`, token, { method: 'DELETE' });
 }
@@ -0,0 +1,104 @@
+import { useState } from 'react';
+import type { AlertMetric, ProjectAlert } from '../types';
+
+type AlertsPanelProps = {
+  alerts: ProjectAlert[];
+  error: string | null;
+  /** Alert whose acknowledge or resolve request is in flight. */
+  busyId: number | null;
+  onAcknowledge: (alertId: number) => void;
+  onResolve: (alertId: number) => void;
+  onSelectProject: (projectId: number) => void;
+};
+
+const METRIC_LABELS: Record<AlertMetric, string> = {
+  enps: 'eNPS',
+  teamComfort: 'Комфорт в команде',
+  managerEffectiveness: 'Работа менеджера',
+  processOrganization: 'Организация процессов',
+};
+
+function formatAlertValue(alert: ProjectAlert, value: number): string {
+  if (alert.metric === 'enps') {
+    return value > 0 ? `+${Math.round(value)}` : String(Math.round(value));
+  }
+
+  return value.toFixed(1);
+}
+
+function formatWindow(alert: ProjectAlert): string {
+  const format = (day: string) =>
+    new Date(`${day}T00:00:00Z`).toLocaleDateString('ru-RU', { day: 'numeric', month: 'short', timeZone: 'UTC' });
+  return `${format(alert.windowStart)} – ${format(alert.windowEnd)}`;
+}
+
+function AlertsPanel({ alerts, error, busyId, onAcknowledge, onResolve, onSelectProject }: AlertsPanelProps) {
+  const [showResolved, setShowResolved] = useState(false);
+  const active = alerts.filter((alert) => alert.status !== 'resolved');
+  const resolved = alerts.filter((alert) => alert.status === 'resolved');
+  const visible = showResolved ? alerts : active;
+
+  if (!error && alerts.length === 0) {
+    return null;
+  }
+
+  return (
+    <section className="panel admin-alerts" aria-label="Сигналы о падении оценок">
+      <header className="admin-alerts__header">
+        <h2>Сигналы {active.length > 0 && <span className="admin-alerts__count">{active.length}</span>}</h2>
+        {resolved.length > 0 && (
+          <button type="button" className="button button--ghost" onClick={() => setShowResolved((value) => !value)}>
+            {showResolved ? 'Скрыть закрытые' : `Показать закрытые (${resolved.length})`}
+          </button>
+        )}
+      </header>
+      {error && <div className="error-message">{error}</div>}
+      {visible.length === 0 && !error && <div className="hint">Активных сигналов нет.</div>}
+      <ul className="admin-alerts__list">
+        {visible.map((alert) => (
+          <li key={alert.id} className={`admin-alert admin-alert--${alert.severity} admin-alert--${alert.status}`}>
+            <div className="admin-alert__summary">
+              <span className="admin-alert__severity">{alert.severity === 'critical' ? 'Критично' : 'Внимание'}</span>
+              <button type="button" className="admin-alert__project" onClick={() => onSelectProject(alert.projectId)}>
+                {alert.projectName}
+              </button>
+              <span>
+                {METRIC_LABELS[alert.metric]}: {formatAlertValue(alert, alert.baselineValue)} →{' '}
+                {formatAlertValue(alert, alert.recentValue)}
+              </span>
+            </div>
+            <p className="admin-alert__meta">
+              {formatWindow(alert)} · ответов: {alert.recentCount} (база: {alert.baselineCount})
+              {alert.status === 'acknowledged' && ' · принят в работу'}
+              {alert.status === 'resolved' && ' · закрыт'}
+            </p>
+            {alert.status !== 'resolved' && (
+              <div className="admin-alert__actions">
+                {alert.status === 'open' && (
+                  <button
+                    type="button"
+                    className="button button--ghost"
+                    onClick={() => onAcknowledge(alert.id)}
+                    disabled={busyId === alert.id}
+                  >
+                    Принять в работу
+                  </button>
+                )}
+                <button
+                  type="button"
+                  className="button button--ghost"
+                  onClick={() => onResolve(alert.id)}
+                  disabled={busyId === alert.id}
+                >
+                  Закрыть
+                </button>
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
+
+export default AlertsPanel;
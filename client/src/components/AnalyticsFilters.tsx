@@ -0,0 +1,124 @@
+import type { AnalyticsFilter, ContributionValue } from '../types';
+
+export type RespondentOption = {
+  id: number;
+  name: string;
+};
+
+type AnalyticsFiltersProps = {
+  filter: AnalyticsFilter;
+  /** `null` hides the respondent filter, as anonymous mode does. */
+  respondents: RespondentOption[] | null;
+  onChange: (filter: AnalyticsFilter) => void;
+};
+
+const SCORES = Array.from({ length: 11 }, (_, score) => score);
+
+const CONTRIBUTION_OPTIONS: Array<{ value: ContributionValue; label: string }> = [
+  { value: 'yes', label: 'Вклад ценится' },
+  { value: 'partial', label: 'Частично' },
+  { value: 'no', label: 'Не ценится' },
+];
+
+function optionalNumber(value: string): number | undefined {
+  return value === '' ? undefined : Number(value);
+}
+
+function AnalyticsFilters({ filter, respondents, onChange }: AnalyticsFiltersProps) {
+  const update = (changes: AnalyticsFilter) => onChange({ ...filter, ...changes });
+  const isEmpty = Object.values(filter).every((value) => value === undefined);
+
+  return (
+    <section className="admin-filters" aria-label="Фильтры статистики">
+      <label className="admin-filters__field">
+        <span>С даты</span>
+        <input
+          type="date"
+          className="input"
+          value={filter.from ?? ''}
+          max={filter.to}
+          onChange={(event) => update({ from: event.target.value || undefined })}
+        />
+      </label>
+      <label className="admin-filters__field">
+        <span>По дату</span>
+        <input
+          type="date"
+          className="input"
+          value={filter.to ?? ''}
+          min={filter.from}
+          onChange={(event) => update({ to: event.target.value || undefined })}
+        />
+      </label>
+      <label className="admin-filters__field">
+        <span>Оценка проекта от</span>
+        <select
+          className="input"
+          value={filter.scoreMin ?? ''}
+          onChange={(event) => update({ scoreMin: optionalNumber(event.target.value) })}
+        >
+          <option value="">—</option>
+          {SCORES.filter((score) => filter.scoreMax === undefined || score <= filter.scoreMax).map((score) => (
+            <option key={score} value={score}>
+              {score}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="admin-filters__field">
+        <span>до</span>
+        <select
+          className="input"
+          value={filter.scoreMax ?? ''}
+          onChange={(event) => update({ scoreMax: optionalNumber(event.target.value) })}
+        >
+          <option value="">—</option>
+          {SCORES.filter((score) => filter.scoreMin === undefined || score >= filter.scoreMin).map((score) => (
+            <option key={score} value={score}>
+              {score}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="admin-filters__field">
+        <span>Ценность вклада</span>
+        <select
+          className="input"
+          value={filter.contribution ?? ''}
+          onChange={(event) =>
+            update({ contribution: (event.target.value || undefined) as ContributionValue | undefined })
+          }
+        >
+          <option value="">Любая</option>
+          {CONTRIBUTION_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </label>
+      {respondents && (
+        <label className="admin-filters__field">
+          <span>Сотрудник</span>
+          <select
+            className="input"
+            value={filter.respondentId ?? ''}
+            onChange={(event) => update({ respondentId: optionalNumber(event.target.value) })}
+          >
+            <option value="">Все</option>
+            {respondents.map((respondent) => (
+              <option key={respondent.id} value={respondent.id}>
+                {respondent.name}
+              </option>
+            ))}
+          </select>
+        </label>
+      )}
+      <button type="button" className="button button--ghost" onClick={() => onChange({})} disabled={isEmpty}>
+        Сбросить
+      </button>
+    </section>
+  );
+}
+
+export default AnalyticsFilters;
@@ -0,0 +1,151 @@
+import { useState } from 'react';
+import type { BenchmarkMetric, BenchmarkQuartile, PortfolioBenchmark } from '../types';
+
+type BenchmarkPanelProps = {
+  benchmark: PortfolioBenchmark | null;
+  error: string | null;
+  selectedProjectId: number | null;
+  onSelectProject: (projectId: number) => void;
+};
+
+const METRIC_LABELS: Record<BenchmarkMetric, string> = {
+  enps: 'eNPS',
+  projectRecommendation: 'Рекомендация проекта',
+  managerEffectiveness: 'Работа менеджера',
+  teamComfort: 'Комфорт в команде',
+  processOrganization: 'Организация процессов',
+};
+
+const QUARTILE_LABELS: Record<BenchmarkQuartile, string> = {
+  top: 'Верхняя четверть',
+  upperMiddle: 'Выше медианы',
+  lowerMiddle: 'Ниже медианы',
+  bottom: 'Нижняя четверть',
+};
+
+/** Bounds of the strip the distribution is drawn on. */
+function metricRange(metric: BenchmarkMetric): [number, number] {
+  return metric === 'enps' ? [-100, 100] : [0, 10];
+}
+
+function formatValue(metric: BenchmarkMetric, value: number | null): string {
+  if (value === null) {
+    return '—';
+  }
+  if (metric === 'enps') {
+    return value > 0 ? `+${Math.round(value)}` : String(Math.round(value));
+  }
+  return value.toFixed(1);
+}
+
+function BenchmarkPanel({ benchmark, error, selectedProjectId, onSelectProject }: BenchmarkPanelProps) {
+  const [metric, setMetric] = useState<BenchmarkMetric>('enps');
+
+  if (!error && !benchmark) {
+    return null;
+  }
+
+  const distribution = benchmark?.distributions[metric] ?? null;
+  const [low, high] = metricRange(metric);
+  const share = (value: number) => `${(value / (high - low)) * 100}%`;
+  const offset = (value: number) => share(value - low);
+  const ranked = [...(benchmark?.projects ?? [])].sort(
+    (left, right) =>
+      (left.positions[metric].rank ?? Infinity) - (right.positions[metric].rank ?? Infinity) ||
+      left.projectName.localeCompare(right.projectName),
+  );
+
+  return (
+    <section className="panel admin-benchmark" aria-label="Сравнение проектов">
+      <header className="admin-benchmark__header">
+        <h2>Сравнение проектов</h2>
+        <select
+          className="input"
+          value={metric}
+          onChange={(event) => setMetric(event.target.value as BenchmarkMetric)}
+          aria-label="Показатель для сравнения"
+        >
+          {(Object.keys(METRIC_LABELS) as BenchmarkMetric[]).map((key) => (
+            <option key={key} value={key}>
+              {METRIC_LABELS[key]}
+            </option>
+          ))}
+        </select>
+      </header>
+      {error && <div className="error-message">{error}</div>}
+      {benchmark && !distribution && <div className="hint">Ни у одного проекта пока нет оценок за период.</div>}
+      {benchmark && distribution && (
+        <>
+          <div className="admin-benchmark__strip" aria-hidden="true">
+            <span
+              className="admin-benchmark__range"
+              style={{ left: offset(distribution.min), width: share(distribution.max - distribution.min) }}
+            />
+            <span
+              className="admin-benchmark__box"
+              style={{ left: offset(distribution.q1), width: share(distribution.q3 - distribution.q1) }}
+            />
+            <span className="admin-benchmark__median" style={{ left: offset(distribution.median) }} />
+            {ranked.map(({ projectId, positions }) => {
+              const { value } = positions[metric];
+              const selected = projectId === selectedProjectId;
+              return value === null ? null : (
+                <span
+                  key={projectId}
+                  className={`admin-benchmark__dot ${selected ? 'admin-benchmark__dot--selected' : ''}`}
+                  style={{ left: offset(value) }}
+                />
+              );
+            })}
+          </div>
+          <p className="admin-benchmark__summary">
+            Медиана {formatValue(metric, distribution.median)} · квартили {formatValue(metric, distribution.q1)} –{' '}
+            {formatValue(metric, distribution.q3)} · разброс {formatValue(metric, distribution.min)} –{' '}
+            {formatValue(metric, distribution.max)} · проектов: {distribution.projectsCount}
+          </p>
+          <ol className="admin-benchmark__list">
+            {ranked.map(({ projectId, projectName, responsesCount, positions }) => {
+              const position = positions[metric];
+              const sampleHint = `Мало ответов (${responsesCount}), место может быть случайным`;
+              return (
+                <li
+                  key={projectId}
+                  className={[
+                    'admin-benchmark__row',
+                    position.quartile ? `admin-benchmark__row--${position.quartile}` : 'admin-benchmark__row--empty',
+                    projectId === selectedProjectId ? 'admin-benchmark__row--selected' : '',
+                  ].join(' ')}
+                >
+                  <span className="admin-benchmark__rank">{position.rank ?? '—'}</span>
+                  <button type="button" className="admin-benchmark__project" onClick={() => onSelectProject(projectId)}>
+                    {projectName}
+                  </button>
+                  <span
+                    className={`admin-benchmark__value ${position.lowSample ? 'score--low-sample' : ''}`}
+                    title={position.lowSample ? sampleHint : undefined}
+                  >
+                    {formatValue(metric, position.value)}
+                  </span>
+                  <span className="admin-benchmark__quartile">
+                    {position.quartile ? QUARTILE_LABELS[position.quartile] : 'Нет оценок'}
+                  </span>
+                  {position.outlier && (
+                    <span className={`admin-benchmark__outlier admin-benchmark__outlier--${position.outlier}`}>
+                      {position.outlier === 'high' ? 'Выброс вверх' : 'Выброс вниз'}
+                    </span>
+                  )}
+                </li>
+              );
+            })}
+          </ol>
+          <div className="hint">
+            Выбросы лежат дальше полутора межквартильных размахов от квартилей. Бледным показаны оценки по малому
+            числу ответов.
+          </div>
+        </>
+      )}
+    </section>
+  );
+}
+
+export default BenchmarkPanel;
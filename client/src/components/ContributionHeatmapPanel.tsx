@@ -0,0 +1,124 @@
+import type { ContributionHeatmap, ContributionHeatmapCell } from '../types';
+
+type ContributionHeatmapPanelProps = {
+  heatmap: ContributionHeatmap | null;
+  error: string | null;
+  selectedProjectId: number | null;
+  formatWeek: (weekStart: string) => string;
+  onSelectProject: (projectId: number) => void;
+};
+
+function percent(share: number): string {
+  return `${Math.round(share * 100)}%`;
+}
+
+/** Share of people who feel valued, counting «partially» as half; colours run from red (0) to green (1). */
+function valuedIndex(shares: NonNullable<ContributionHeatmapCell['shares']>): number {
+  return shares.yes + shares.partial / 2;
+}
+
+function cellTitle(cell: ContributionHeatmapCell, week: string): string {
+  if (cell.suppressed) {
+    return `${week}: скрыто ради анонимности, ответило сотрудников: ${cell.respondentsCount}`;
+  }
+
+  if (!cell.shares) {
+    return `${week}: нет ответов`;
+  }
+
+  const { yes, partial, no } = cell.shares;
+  const hint = cell.lowSample ? ' · мало ответов' : '';
+  const answers = `да ${percent(yes)}, частично ${percent(partial)}, нет ${percent(no)}`;
+  return `${week}: ${answers} · ответов: ${cell.responsesCount}${hint}`;
+}
+
+function ContributionHeatmapPanel({
+  heatmap,
+  error,
+  selectedProjectId,
+  formatWeek,
+  onSelectProject,
+}: ContributionHeatmapPanelProps) {
+  if (!error && !heatmap) {
+    return null;
+  }
+
+  const hasSuppressed = heatmap?.projects.some((project) => project.cells.some((cell) => cell.suppressed)) ?? false;
+
+  return (
+    <section className="panel admin-heatmap" aria-label="Ценность вклада по неделям">
+      <header className="admin-heatmap__header">
+        <h2>Ценят ли вклад: по неделям</h2>
+        <div className="admin-heatmap__legend" aria-hidden="true">
+          <span>Не ценят</span>
+          <span className="admin-heatmap__scale" />
+          <span>Ценят</span>
+        </div>
+      </header>
+      {error && <div className="error-message">{error}</div>}
+      {heatmap && heatmap.projects.length === 0 && (
+        <div className="hint">За период никто не ответил, ценится ли его вклад.</div>
+      )}
+      {heatmap && heatmap.projects.length > 0 && (
+        <>
+          <div className="admin-heatmap__scroll">
+            <table className="admin-heatmap__table">
+              <thead>
+                <tr>
+                  <th scope="col">Проект</th>
+                  {heatmap.weeks.map((week) => (
+                    <th key={week} scope="col" className="admin-heatmap__week">
+                      {formatWeek(week)}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {heatmap.projects.map(({ projectId, projectName, cells }) => (
+                  <tr
+                    key={projectId}
+                    className={projectId === selectedProjectId ? 'admin-heatmap__row--selected' : undefined}
+                  >
+                    <th scope="row">
+                      <button
+                        type="button"
+                        className="admin-heatmap__project"
+                        onClick={() => onSelectProject(projectId)}
+                      >
+                        {projectName}
+                      </button>
+                    </th>
+                    {cells.map((cell) => (
+                      <td
+                        key={cell.weekStart}
+                        className={[
+                          'admin-heatmap__cell',
+                          cell.shares || cell.suppressed ? '' : 'admin-heatmap__cell--empty',
+                          cell.suppressed ? 'admin-heatmap__cell--suppressed' : '',
+                          cell.shares && cell.lowSample ? 'admin-heatmap__cell--low-sample' : '',
+                        ].join(' ')}
+                        style={
+                          cell.shares ? { background: `hsl(${valuedIndex(cell.shares) * 120}, 60%, 45%)` } : undefined
+                        }
+                        title={cellTitle(cell, formatWeek(cell.weekStart))}
+                      >
+                        {cell.shares ? percent(cell.shares.yes) : ''}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="hint">
+            В ячейке — доля ответивших «да»; цвет учитывает и ответ «частично». Бледные ячейки опираются на малое число
+            ответов, пустые — недели без ответов.
+            {hasSuppressed && ' Штрихованные ячейки скрыты ради анонимности: в них ответило слишком мало сотрудников.'}
+          </div>
+        </>
+      )}
+    </section>
+  );
+}
+
+export default ContributionHeatmapPanel;
@@ -0,0 +1,91 @@
+import type { DriverAnalysis, DriverKey, DriverStats } from '../types';
+
+type DriversPanelProps = {
+  analysis: DriverAnalysis | null;
+  /** Portfolio-wide analysis the project's correlations are compared with. */
+  portfolio: DriverAnalysis | null;
+  error: string | null;
+};
+
+const DRIVER_LABELS: Record<DriverKey, string> = {
+  managerEffectiveness: 'Менеджер',
+  teamComfort: 'Команда',
+  processOrganization: 'Процессы',
+  contributionValued: 'Вклад ценится',
+};
+
+function formatCorrelation(value: number | null | undefined): string {
+  return value === null || value === undefined ? '—' : value.toFixed(2);
+}
+
+function slopeHint(driver: DriverStats): string {
+  if (driver.slope === null) {
+    return `Ответов: ${driver.sampleSize} · связь не определить: ответы не различаются`;
+  }
+
+  const step = driver.key === 'contributionValued' ? 'за переход от «нет» к «да»' : 'за балл';
+  const slope = `${driver.slope > 0 ? '+' : ''}${driver.slope.toFixed(1)}`;
+  return `Ответов: ${driver.sampleSize} · ${slope} к рекомендации ${step}${driver.significant ? '' : ' · незначимо'}`;
+}
+
+function DriversPanel({ analysis, portfolio, error }: DriversPanelProps) {
+  const portfolioCorrelations = new Map(
+    (portfolio?.drivers ?? []).map((driver) => [driver.key, driver.correlation]),
+  );
+
+  return (
+    <section className="admin-drivers">
+      <header className="admin-drivers__header">
+        <h3>Ключевые драйверы</h3>
+        {portfolio?.keyDriver && (
+          <span className="hint">В портфеле: {DRIVER_LABELS[portfolio.keyDriver]}</span>
+        )}
+      </header>
+      {error && <div className="error-message">{error}</div>}
+      {analysis?.suppressed && (
+        <div className="hint">Связи скрыты ради анонимности: в проекте ответило слишком мало сотрудников.</div>
+      )}
+      {analysis && !analysis.suppressed && (
+        <>
+          <p className="admin-drivers__summary">
+            {analysis.keyDriver
+              ? `Рекомендацию проекта сильнее всего определяет «${DRIVER_LABELS[analysis.keyDriver]}».`
+              : 'Ни одно из измерений пока не связано с рекомендацией достаточно надежно.'}
+          </p>
+          <ul className="admin-drivers__list">
+            {analysis.drivers.map((driver) => {
+              const negative = (driver.correlation ?? 0) < 0;
+              return (
+                <li
+                  key={driver.key}
+                  className={`admin-driver ${driver.key === analysis.keyDriver ? 'admin-driver--key' : ''}`}
+                  title={slopeHint(driver)}
+                >
+                  <span className="admin-driver__label">{DRIVER_LABELS[driver.key]}</span>
+                  <span className="admin-driver__bar">
+                    <span
+                      className={`admin-driver__fill ${negative ? 'admin-driver__fill--negative' : ''}`}
+                      style={{ width: `${Math.abs(driver.correlation ?? 0) * 100}%` }}
+                    />
+                  </span>
+                  <span className={`admin-driver__value ${driver.significant ? '' : 'admin-driver__value--weak'}`}>
+                    {formatCorrelation(driver.correlation)}
+                  </span>
+                  <span className="admin-driver__portfolio">
+                    портфель {formatCorrelation(portfolioCorrelations.get(driver.key))}
+                  </span>
+                </li>
+              );
+            })}
+          </ul>
+          <div className="hint">
+            Корреляция с рекомендацией проекта от −1 до 1 по {analysis.responsesCount} анкетам. Бледным показаны
+            связи, которые могут быть случайными.
+          </div>
+        </>
+      )}
+    </section>
+  );
+}
+
+export default DriversPanel;
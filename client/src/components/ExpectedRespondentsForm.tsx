@@ -0,0 +1,91 @@
+import { useEffect, useState, type FormEvent } from 'react';
+import type { ExpectedRespondents, ParticipationStats } from '../types';
+
+type ExpectedRespondentsFormProps = {
+  expected: ExpectedRespondents;
+  participation: ParticipationStats;
+  isSaving: boolean;
+  onSubmit: (expected: ExpectedRespondents) => Promise<void>;
+};
+
+type Draft = { headcount: string; userIds: string };
+
+const toDraft = (expected: ExpectedRespondents): Draft => ({
+  headcount: expected.headcount === null ? '' : String(expected.headcount),
+  userIds: expected.userIds.join('\n'),
+});
+
+function ExpectedRespondentsForm({ expected, participation, isSaving, onSubmit }: ExpectedRespondentsFormProps) {
+  const [draft, setDraft] = useState<Draft>(() => toDraft(expected));
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setDraft(toDraft(expected));
+    setError(null);
+  }, [expected]);
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+
+    // Telegram IDs may be pasted one per line or separated by commas and spaces.
+    const tokens = draft.userIds.split(/[\s,;]+/).filter(Boolean);
+    const invalid = tokens.filter((token) => !/^\d+$/.test(token));
+    if (invalid.length > 0) {
+      setError(`Не удалось распознать ID: ${invalid.join(', ')}`);
+      return;
+    }
+
+    const headcount = draft.headcount.trim() ? Number(draft.headcount) : null;
+    if (headcount !== null && (!Number.isInteger(headcount) || headcount < 1)) {
+      setError('Численность должна быть целым положительным числом');
+      return;
+    }
+
+    setError(null);
+    await onSubmit({ headcount, userIds: [...new Set(tokens.map(Number))] });
+  };
+
+  return (
+    <form className="admin-participation" onSubmit={(event) => void handleSubmit(event)}>
+      <header className="admin-participation__header">
+        <h3>Участие</h3>
+        <span className="admin-participation__rate">
+          {participation.rate === null
+            ? 'Ожидаемые участники не заданы'
+            : `${Math.round(participation.rate * 100)}% · ${participation.responded} из ${participation.expected}`}
+        </span>
+      </header>
+      <div className="admin-participation__fields">
+        <label className="admin-participation__field">
+          <span>Численность команды</span>
+          <input
+            type="number"
+            min={1}
+            className="input"
+            value={draft.headcount}
+            onChange={(event) => setDraft((prev) => ({ ...prev, headcount: event.target.value }))}
+            disabled={isSaving}
+          />
+        </label>
+        <label className="admin-participation__field">
+          <span>Telegram ID участников</span>
+          <textarea
+            className="input admin-participation__ids"
+            rows={3}
+            placeholder="По одному на строку"
+            value={draft.userIds}
+            onChange={(event) => setDraft((prev) => ({ ...prev, userIds: event.target.value }))}
+            disabled={isSaving}
+          />
+        </label>
+      </div>
+      <p className="hint">Если список задан, участие считается по нему и численность не учитывается.</p>
+      {error && <div className="error-message">{error}</div>}
+      <button type="submit" className="button button--ghost" disabled={isSaving}>
+        {isSaving ? 'Сохраняем…' : 'Сохранить'}
+      </button>
+    </form>
+  );
+}
+
+export default ExpectedRespondentsForm;
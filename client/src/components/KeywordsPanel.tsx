@@ -0,0 +1,79 @@
+import type { TextAnalytics, TextTerm } from '../types';
+
+type KeywordsPanelProps = {
+  analytics: TextAnalytics | null;
+  error: string | null;
+  selectedStem: string | null;
+  /** Called with `null` when the selected term is clicked again; without it the terms cannot be selected. */
+  onSelect?: (term: TextTerm | null) => void;
+};
+
+type TermListProps = {
+  title: string;
+  terms: TextTerm[];
+  selectedStem: string | null;
+  onSelect?: (term: TextTerm | null) => void;
+};
+
+function TermList({ title, terms, selectedStem, onSelect }: TermListProps) {
+  const maxResponses = Math.max(1, ...terms.map((term) => term.surveysCount));
+
+  return (
+    <div className="admin-keywords__column">
+      <h4>{title}</h4>
+      <ul className="admin-keywords__list">
+        {terms.map((term) => {
+          const active = term.stem === selectedStem;
+          return (
+            <li key={term.stem}>
+              <button
+                type="button"
+                className={`admin-keyword ${active ? 'admin-keyword--active' : ''}`}
+                onClick={() => onSelect?.(active ? null : term)}
+                disabled={!onSelect}
+                title={`Упоминаний: ${term.count}`}
+              >
+                <span
+                  className="admin-keyword__bar"
+                  style={{ width: `${(term.surveysCount / maxResponses) * 100}%` }}
+                />
+                <span className="admin-keyword__term">{term.term}</span>
+                <span className="admin-keyword__count">{term.surveysCount}</span>
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
+
+function KeywordsPanel({ analytics, error, selectedStem, onSelect }: KeywordsPanelProps) {
+  return (
+    <section className="admin-keywords">
+      <header className="admin-keywords__header">
+        <h3>Частые слова</h3>
+        {analytics && analytics.responsesCount > 0 && (
+          <span className="hint">Анкет с комментариями: {analytics.responsesCount}</span>
+        )}
+      </header>
+      {error && <div className="error-message">{error}</div>}
+      {analytics?.suppressed && (
+        <div className="hint">Слова скрыты ради анонимности: комментарии оставило слишком мало сотрудников.</div>
+      )}
+      {analytics && !analytics.suppressed && analytics.keywords.length === 0 && !error && (
+        <div className="hint">Ключевые слова появятся, когда в анкетах будут текстовые ответы.</div>
+      )}
+      {analytics && analytics.keywords.length > 0 && (
+        <div className="admin-keywords__columns">
+          <TermList title="Слова" terms={analytics.keywords} selectedStem={selectedStem} onSelect={onSelect} />
+          {analytics.phrases.length > 0 && (
+            <TermList title="Фразы" terms={analytics.phrases} selectedStem={selectedStem} onSelect={onSelect} />
+          )}
+        </div>
+      )}
+    </section>
+  );
+}
+
+export default KeywordsPanel;
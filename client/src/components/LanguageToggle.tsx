@@ -0,0 +1,40 @@
+import { LANGUAGES } from '../questionnaire';
+import type { Language } from '../types';
+
+interface LanguageToggleProps {
+  language: Language;
+  onLanguageChange: (value: Language) => void;
+  disabled?: boolean;
+  /** What the language applies to, read out by screen readers. */
+  label?: string;
+}
+
+export default function LanguageToggle({
+  language,
+  onLanguageChange,
+  disabled = false,
+  label = 'Язык вопросов',
+}: LanguageToggleProps) {
+  return (
+    <div className="language-toggle" role="radiogroup" aria-label={label}>
+      {LANGUAGES.map((option) => (
+        <button
+          key={option.value}
+          type="button"
+          role="radio"
+          aria-checked={language === option.value}
+          className={
+            language === option.value
+              ? 'language-toggle__option language-toggle__option--active'
+              : 'language-toggle__option'
+          }
+          onClick={() => onLanguageChange(option.value)}
+          disabled={disabled}
+          title={option.title}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,244 @@
+import { useState, type FormEvent } from 'react';
+import type {
+  AdminManagerStats,
+  AdminProjectStats,
+  ManagerTrendPeriod,
+  ScoreConfidence,
+  SurveyAverageKey,
+  TrendGranularity,
+} from '../types';
+import TrendChart, { type TrendSeries } from './TrendChart';
+
+type ManagersPanelProps = {
+  managers: AdminManagerStats[];
+  projects: AdminProjectStats[];
+  error: string | null;
+  granularity: TrendGranularity;
+  isSaving: boolean;
+  formatPeriod: (periodStart: string) => string;
+  onGranularityChange: (granularity: TrendGranularity) => void;
+  /** Resolves to `false` when the manager was not created. */
+  onCreate: (name: string) => Promise<boolean>;
+  onRename: (manager: AdminManagerStats) => void;
+  onDelete: (manager: AdminManagerStats) => void;
+  onSelectProject: (projectId: number) => void;
+};
+
+const AVERAGE_LABELS: Array<{ key: SurveyAverageKey; label: string }> = [
+  { key: 'managerEffectiveness', label: 'Менеджер' },
+  { key: 'teamComfort', label: 'Команда' },
+  { key: 'processOrganization', label: 'Процессы' },
+  { key: 'projectRecommendation', label: 'Проект' },
+];
+
+function formatEnps(value: number | null): string {
+  if (value === null) {
+    return '—';
+  }
+  return value > 0 ? `+${Math.round(value)}` : String(Math.round(value));
+}
+
+function formatScore(value: number | null): string {
+  return value === null ? '—' : value.toFixed(1);
+}
+
+function lowSampleClass(confidence: ScoreConfidence): string {
+  return confidence.lowSample ? 'score--low-sample' : '';
+}
+
+function averageSeries(trend: ManagerTrendPeriod[], key: SurveyAverageKey, label: string): TrendSeries {
+  return {
+    label,
+    values: trend.map((period) => period.averages[key]),
+    margins: trend.map((period) => period.confidence.averages[key].margin),
+    lowSample: trend.map((period) => period.confidence.averages[key].lowSample),
+  };
+}
+
+function ManagersPanel({
+  managers,
+  projects,
+  error,
+  granularity,
+  isSaving,
+  formatPeriod,
+  onGranularityChange,
+  onCreate,
+  onRename,
+  onDelete,
+  onSelectProject,
+}: ManagersPanelProps) {
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [newName, setNewName] = useState('');
+  const selected = managers.find((manager) => manager.id === selectedId) ?? managers[0] ?? null;
+  const managedProjects = selected ? projects.filter((project) => selected.projectIds.includes(project.id)) : [];
+  const periods = selected?.trend.map((period) => formatPeriod(period.periodStart)) ?? [];
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (await onCreate(newName.trim())) {
+      setNewName('');
+    }
+  };
+
+  return (
+    <section className="panel admin-managers" aria-label="Менеджеры проектов">
+      <header className="admin-managers__header">
+        <h2>Менеджеры</h2>
+        <form className="admin-managers__add" onSubmit={(event) => void handleSubmit(event)}>
+          <input
+            type="text"
+            className="input"
+            placeholder="Имя менеджера"
+            aria-label="Имя нового менеджера"
+            value={newName}
+            onChange={(event) => setNewName(event.target.value)}
+            disabled={isSaving}
+          />
+          <button type="submit" className="button" disabled={isSaving || newName.trim().length < 2}>
+            Добавить
+          </button>
+        </form>
+      </header>
+      {error && <div className="error-message">{error}</div>}
+      {managers.length === 0 && (
+        <div className="hint">Добавьте менеджеров и закрепите за ними проекты, чтобы видеть сводку по каждому.</div>
+      )}
+      {selected && (
+        <div className="admin-managers__layout">
+          <ul className="admin-managers__list">
+            {managers.map((manager) => (
+              <li key={manager.id}>
+                <button
+                  type="button"
+                  className={`admin-managers__item ${manager.id === selected.id ? 'admin-managers__item--active' : ''}`}
+                  onClick={() => setSelectedId(manager.id)}
+                >
+                  <span className="admin-managers__name">{manager.name}</span>
+                  <span className="admin-managers__meta">
+                    Проектов: {manager.projectIds.length} · eNPS {formatEnps(manager.enps)}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+          <div className="admin-manager">
+            <header className="admin-manager__header">
+              <h3>{selected.name}</h3>
+              <div className="admin-manager__actions">
+                <button
+                  type="button"
+                  className="button button--ghost"
+                  onClick={() => onRename(selected)}
+                  disabled={isSaving}
+                >
+                  Переименовать
+                </button>
+                <button
+                  type="button"
+                  className="button button--danger"
+                  onClick={() => onDelete(selected)}
+                  disabled={isSaving}
+                >
+                  Удалить
+                </button>
+              </div>
+            </header>
+            {selected.suppressed && (
+              <div className="hint">Оценки скрыты ради анонимности: ответило слишком мало сотрудников.</div>
+            )}
+            <div className="admin-contribution-grid">
+              <div className="admin-contribution-card">
+                <span className="admin-contribution-card__label">eNPS</span>
+                <span className={`admin-contribution-card__value ${lowSampleClass(selected.confidence.enps)}`}>
+                  {formatEnps(selected.enps)}
+                </span>
+              </div>
+              {AVERAGE_LABELS.map(({ key, label }) => (
+                <div key={key} className="admin-contribution-card">
+                  <span className="admin-contribution-card__label">{label}</span>
+                  <span
+                    className={`admin-contribution-card__value ${lowSampleClass(selected.confidence.averages[key])}`}
+                  >
+                    {formatScore(selected.averages[key])}
+                  </span>
+                </div>
+              ))}
+              <div className="admin-contribution-card">
+                <span className="admin-contribution-card__label">Ответов</span>
+                <span className="admin-contribution-card__value">
+                  {selected.responsesCount} · сотрудников: {selected.uniqueRespondents}
+                </span>
+              </div>
+            </div>
+            {managedProjects.length === 0 ? (
+              <div className="hint">За менеджером пока нет проектов. Назначьте его в карточке проекта.</div>
+            ) : (
+              <ul className="admin-manager__projects">
+                {managedProjects.map((project) => (
+                  <li key={project.id}>
+                    <button
+                      type="button"
+                      className="admin-manager__project"
+                      onClick={() => onSelectProject(project.id)}
+                    >
+                      <span>{project.name}</span>
+                      <span className="admin-manager__project-scores">
+                        Менеджер {formatScore(project.averages.managerEffectiveness)} · eNPS {formatEnps(project.enps)}
+                      </span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <section className="admin-trends">
+              <header className="admin-trends__header">
+                <h3>Динамика по всем проектам</h3>
+                <select
+                  className="input admin-trends__granularity"
+                  value={granularity}
+                  onChange={(event) => onGranularityChange(event.target.value as TrendGranularity)}
+                  aria-label="Период группировки"
+                >
+                  <option value="week">По неделям</option>
+                  <option value="month">По месяцам</option>
+                </select>
+              </header>
+              {selected.trend.length === 0 ? (
+                <div className="hint">Динамика появится после первых отправленных анкет.</div>
+              ) : (
+                <div className="admin-trends__grid">
+                  <TrendChart
+                    title="eNPS"
+                    periods={periods}
+                    min={-100}
+                    max={100}
+                    formatValue={(value) => formatEnps(value)}
+                    series={[
+                      {
+                        label: 'eNPS',
+                        values: selected.trend.map((period) => period.enps),
+                        margins: selected.trend.map((period) => period.confidence.enps.margin),
+                        lowSample: selected.trend.map((period) => period.confidence.enps.lowSample),
+                      },
+                    ]}
+                  />
+                  <TrendChart
+                    title="Средние оценки"
+                    periods={periods}
+                    min={0}
+                    max={10}
+                    formatValue={(value) => formatScore(value)}
+                    series={AVERAGE_LABELS.map(({ key, label }) => averageSeries(selected.trend, key, label))}
+                  />
+                </div>
+              )}
+            </section>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
+
+export default ManagersPanel;
@@ -0,0 +1,219 @@
+import { useState } from 'react';
+import type { JSX } from 'react';
+import { initialAnswer, LIKERT_SCALE, MOOD_SCALE } from '../questionnaire';
+import type { AnswerValue, QuestionDefinition } from '../types';
+
+interface QuestionInputProps {
+  question: QuestionDefinition;
+  value: AnswerValue | undefined;
+  onChange: (value: AnswerValue) => void;
+  disabled?: boolean;
+}
+
+const SCALE_VALUES = Array.from({ length: 11 }, (_, index) => index);
+
+function asList(value: AnswerValue | undefined): string[] {
+  return Array.isArray(value) ? value : [];
+}
+
+function asMatrix(value: AnswerValue | undefined): Record<string, string> {
+  return typeof value === 'object' && !Array.isArray(value) ? value : {};
+}
+
+function RankingInput({ question, value, onChange, disabled }: QuestionInputProps): JSX.Element {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const order = asList(initialAnswer(question, value));
+
+  const move = (from: number, to: number) => {
+    if (to < 0 || to >= order.length || from === to) {
+      return;
+    }
+
+    const next = [...order];
+    const [item] = next.splice(from, 1);
+    if (item !== undefined) {
+      next.splice(to, 0, item);
+      onChange(next);
+    }
+  };
+
+  return (
+    <ol className="ranking-list">
+      {order.map((item, index) => (
+        <li
+          key={item}
+          className={`ranking-list__item ${dragIndex === index ? 'ranking-list__item--dragging' : ''}`}
+          draggable={!disabled}
+          onDragStart={() => setDragIndex(index)}
+          onDragOver={(event) => event.preventDefault()}
+          onDrop={() => {
+            if (dragIndex !== null) {
+              move(dragIndex, index);
+            }
+            setDragIndex(null);
+          }}
+          onDragEnd={() => setDragIndex(null)}
+        >
+          <span className="ranking-list__position">{index + 1}</span>
+          <span className="ranking-list__label">
+            {question.options?.find((option) => option.value === item)?.label ?? item}
+          </span>
+          <span className="ranking-list__controls">
+            <button
+              type="button"
+              className="button button--ghost"
+              onClick={() => move(index, index - 1)}
+              disabled={disabled || index === 0}
+              aria-label="Выше"
+            >
+              ↑
+            </button>
+            <button
+              type="button"
+              className="button button--ghost"
+              onClick={() => move(index, index + 1)}
+              disabled={disabled || index === order.length - 1}
+              aria-label="Ниже"
+            >
+              ↓
+            </button>
+          </span>
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+/** Answer controls for every question type except free text, shared by the stepper and the inline editor. */
+export function QuestionInput(props: QuestionInputProps): JSX.Element | null {
+  const { question, value, onChange, disabled } = props;
+
+  switch (question.type) {
+    case 'scale':
+      return (
+        <div className="scale-selector">
+          {SCALE_VALUES.map((score) => (
+            <button
+              key={score}
+              type="button"
+              className={`scale-selector__item ${value === score ? 'scale-selector__item--active' : ''}`}
+              onClick={() => onChange(score)}
+              disabled={disabled}
+            >
+              {score}
+            </button>
+          ))}
+        </div>
+      );
+
+    case 'likert':
+      return (
+        <div className="options-selector options-selector--column">
+          {LIKERT_SCALE.map((item) => (
+            <button
+              key={item.value}
+              type="button"
+              className={`option-chip ${value === item.value ? 'option-chip--active' : ''}`}
+              onClick={() => onChange(item.value)}
+              disabled={disabled}
+            >
+              {item.value} — {item.label}
+            </button>
+          ))}
+        </div>
+      );
+
+    case 'mood':
+      return (
+        <div className="mood-selector">
+          {MOOD_SCALE.map((item) => (
+            <button
+              key={item.value}
+              type="button"
+              className={`mood-selector__item ${value === item.value ? 'mood-selector__item--active' : ''}`}
+              onClick={() => onChange(item.value)}
+              disabled={disabled}
+              title={item.label}
+              aria-label={item.label}
+            >
+              {item.emoji}
+            </button>
+          ))}
+        </div>
+      );
+
+    case 'options':
+      return (
+        <div className="options-selector">
+          {question.options?.map((option) => (
+            <button
+              key={option.value}
+              type="button"
+              className={`option-chip ${value === option.value ? 'option-chip--active' : ''}`}
+              onClick={() => onChange(option.value)}
+              disabled={disabled}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      );
+
+    case 'multiselect': {
+      const selected = asList(value);
+      return (
+        <div className="options-selector">
+          {question.options?.map((option) => {
+            const isActive = selected.includes(option.value);
+            return (
+              <button
+                key={option.value}
+                type="button"
+                className={`option-chip ${isActive ? 'option-chip--active' : ''}`}
+                aria-pressed={isActive}
+                onClick={() =>
+                  onChange(isActive ? selected.filter((item) => item !== option.value) : [...selected, option.value])
+                }
+                disabled={disabled}
+              >
+                {option.label}
+              </button>
+            );
+          })}
+        </div>
+      );
+    }
+
+    case 'ranking':
+      return <RankingInput {...props} />;
+
+    case 'matrix': {
+      const answer = asMatrix(value);
+      return (
+        <div className="matrix-input">
+          {question.rows?.map((row) => (
+            <div key={row.value} className="matrix-input__row">
+              <span className="matrix-input__label">{row.label}</span>
+              <div className="options-selector">
+                {question.options?.map((option) => (
+                  <button
+                    key={option.value}
+                    type="button"
+                    className={`option-chip ${answer[row.value] === option.value ? 'option-chip--active' : ''}`}
+                    onClick={() => onChange({ ...answer, [row.value]: option.value })}
+                    disabled={disabled}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      );
+    }
+
+    default:
+      return null;
+  }
+}
@@ -1,12 +1,14 @@
-import type { SurveyAnswers, SurveyRecord } from '../types';
-import type { QuestionConfig } from './SurveyStepper';
+import { formatAnswer } from '../questionnaire';
+import type { QuestionDefinition, SurveyAnswers, SurveyRecord } from '../types';
 import SurveyInlineEditor from './SurveyInlineEditor';
 
 interface ResponsesListProps {
   surveys: SurveyRecord[];
   onEdit: (survey: SurveyRecord) => void;
   isLoading: boolean;
-  questions: QuestionConfig[];
+  questions: QuestionDefinition[];
+  /** Questions of the questionnaire version a survey was answered under. */
+  questionsFor: (survey: SurveyRecord) => QuestionDefinition[];
   editingSurveyId: number | null;
   onCancelEdit: () => void;
   onSubmitDraft: (surveyId: number, updates: SurveyAnswers) => Promise<void>;
@@ -34,16 +36,9 @@ function RatingRow({ label, value }: { label: string; value?: number }) {
 }
 
 
-type RatingKey = 'projectRecommendation' | 'managerEffectiveness' | 'teamComfort' | 'processOrganization';
-
-type RatingField = { key: RatingKey; label: string };
-
-const RATING_FIELDS: RatingField[] = [
-  { key: 'projectRecommendation', label: 'Проект' },
-  { key: 'managerEffectiveness', label: 'Менеджер' },
-  { key: 'teamComfort', label: 'Команда' },
-  { key: 'processOrganization', label: 'Процессы' },
-];
+function questionLabel(question: QuestionDefinition): string {
+  return question.shortTitle ?? question.title;
+}
 
 function calculateAverage(values: Array<number | undefined>): number | null {
   const filtered = values.filter((value): value is number => typeof value === 'number');
@@ -61,6 +56,7 @@ export function ResponsesList({
   onEdit,
   isLoading,
   questions,
+  questionsFor,
   editingSurveyId,
   onCancelEdit,
   onSubmitDraft,
@@ -68,23 +64,29 @@ export function ResponsesList({
 
   projectName,
 }: ResponsesListProps) {
-  const ratingStats = RATING_FIELDS.map((field) => ({
-    ...field,
-    average: calculateAverage(surveys.map((survey) => survey[field.key])),
-  })).filter((stat): stat is RatingField & { average: number } => stat.average !== null);
-
-  const contributionStats = surveys.reduce(
-    (acc, survey) => {
-      if (survey.contributionValued) {
-        acc[survey.contributionValued] += 1;
-      }
-      return acc;
-    },
-    { yes: 0, partial: 0, no: 0 },
-  );
-
-  const totalContributionResponses = contributionStats.yes + contributionStats.partial + contributionStats.no;
-
+  const ratingStats = questions
+    .filter((question) => question.type === 'scale')
+    .map((question) => ({
+      key: question.key,
+      label: questionLabel(question),
+      average: calculateAverage(
+        surveys.map((survey) => {
+          const value = survey.answers[question.key];
+          return typeof value === 'number' ? value : undefined;
+        }),
+      ),
+    }))
+    .filter((stat): stat is { key: string; label: string; average: number } => stat.average !== null);
+
+  const optionStats = questions
+    .filter((question) => question.type === 'options')
+    .map((question) => {
+      const counts = (question.options ?? []).map((option) => ({
+        ...option,
+        count: surveys.filter((survey) => survey.answers[question.key] === option.value).length,
+      }));
+      return { question, counts, total: counts.reduce((sum, option) => sum + option.count, 0) };
+    });
 
   return (
     <section className="panel">
@@ -93,7 +95,7 @@ export function ResponsesList({
           <h2>История ответов</h2>
 
           <p className="panel-subtitle">
-            Вы видите только свои ответы. Каждый ответ вы можете отредактировать в течение 1 дня.
+            Вы видите только свои ответы. Срок, в течение которого их можно отредактировать, задает проект.
           </p>
           {projectName && <p className="panel-meta">Проект: {projectName}</p>}
         </div>
@@ -116,27 +118,23 @@ export function ResponsesList({
                 <p className="hint">Пока нет оценок по шкале.</p>
               )}
             </div>
-            <div className="responses-insights__section">
-              <h3>Оценка ценности вклада</h3>
-              {totalContributionResponses > 0 ? (
-                <ul className="responses-insights__distribution">
-                  <li>
-                    <span className="responses-insights__chip">Да</span>
-                    <span className="responses-insights__count">{contributionStats.yes}</span>
-                  </li>
-                  <li>
-                    <span className="responses-insights__chip">Частично</span>
-                    <span className="responses-insights__count">{contributionStats.partial}</span>
-                  </li>
-                  <li>
-                    <span className="responses-insights__chip">Нет</span>
-                    <span className="responses-insights__count">{contributionStats.no}</span>
-                  </li>
-                </ul>
-              ) : (
-                <p className="hint">Ответов на вопрос про вклад пока нет.</p>
-              )}
-            </div>
+            {optionStats.map(({ question, counts, total }) => (
+              <div key={question.key} className="responses-insights__section">
+                <h3>{questionLabel(question)}</h3>
+                {total > 0 ? (
+                  <ul className="responses-insights__distribution">
+                    {counts.map((option) => (
+                      <li key={option.value}>
+                        <span className="responses-insights__chip">{option.label}</span>
+                        <span className="responses-insights__count">{option.count}</span>
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="hint">Ответов на этот вопрос пока нет.</p>
+                )}
+              </div>
+            ))}
           </div>
         )}
 
@@ -145,14 +143,17 @@ export function ResponsesList({
         {surveys.map((survey) => {
           const updated = formatDate(survey.updatedAt);
           const isEditing = editingSurveyId === survey.id;
-          const cardClassName = `response-card${survey.isComplete ? '' : ' response-card--incomplete'}`;
+          const surveyQuestions = questionsFor(survey);
+          const scaleQuestions = surveyQuestions.filter((question) => question.type === 'scale');
+          const detailQuestions = surveyQuestions.filter((question) => question.type !== 'scale');
+          const cardClassName = `response-card${survey.submittedAt ? '' : ' response-card--incomplete'}`;
 
           return (
             <article key={survey.id} className={cardClassName}>
               {isEditing ? (
                 <SurveyInlineEditor
                   survey={survey}
-                  questions={questions}
+                  questions={surveyQuestions}
                   isSaving={isSaving}
                   onSubmit={(draft) => onSubmitDraft(survey.id, draft)}
                   onClose={onCancelEdit}
@@ -162,75 +163,61 @@ export function ResponsesList({
                   <header className="response-card__header">
                     <h3>{new Date(survey.surveyDate).toLocaleDateString()}</h3>
                     <span className="response-card__meta">Обновлено: {updated}</span>
+                    <span className="response-card__meta">
+                      {!survey.canEdit
+                        ? 'Редактирование закрыто'
+                        : survey.editableUntil
+                          ? `Можно изменить до ${formatDate(survey.editableUntil)}`
+                          : 'Можно дозаполнить в любое время'}
+                    </span>
                   </header>
                   <div className="response-card__content">
-                    {!survey.isComplete && (
+                    {!survey.submittedAt && (
                       <div className="response-card__status" role="note">
                         <span className="response-card__status-icon" aria-hidden="true">
                           ⚠️
                         </span>
-                        <span>Анкета заполнена не полностью — ответы не учитываются в статистике.</span>
+                        <span>Анкета не отправлена — ответы не учитываются в статистике.</span>
                       </div>
                     )}
 
                     <span className="response-card__project">{survey.projectName}</span>
 
                     <div className="response-card__ratings">
-                      <RatingRow label="Проект" value={survey.projectRecommendation} />
-                      <RatingRow label="Менеджер" value={survey.managerEffectiveness} />
-                      <RatingRow label="Команда" value={survey.teamComfort} />
-                      <RatingRow label="Процессы" value={survey.processOrganization} />
+                      {scaleQuestions.map((question) => {
+                        const value = survey.answers[question.key];
+                        return (
+                          <RatingRow
+                            key={question.key}
+                            label={questionLabel(question)}
+                            value={typeof value === 'number' ? value : undefined}
+                          />
+                        );
+                      })}
                     </div>
                     <dl className="response-card__details">
-                      {survey.projectImprovement && (
-                        <div>
-                          <dt>Что улучшить в проекте</dt>
-                          <dd>{survey.projectImprovement}</dd>
-                        </div>
-                      )}
-                      {survey.managerImprovement && (
-                        <div>
-                          <dt>Фидбек менеджеру</dt>
-                          <dd>{survey.managerImprovement}</dd>
-                        </div>
-                      )}
-                      {survey.teamImprovement && (
-                        <div>
-                          <dt>Командная работа</dt>
-                          <dd>{survey.teamImprovement}</dd>
-                        </div>
-                      )}
-                      {survey.processObstacles && (
-                        <div>
-                          <dt>Что мешало работать</dt>
-                          <dd>{survey.processObstacles}</dd>
-                        </div>
-                      )}
-                      {survey.contributionValued && (
-                        <div>
-                          <dt>Вклад ценится</dt>
-                          <dd>
-                            {survey.contributionValued === 'yes'
-                              ? 'Да'
-                              : survey.contributionValued === 'partial'
-                                ? 'Частично'
-                                : 'Нет'}
-                          </dd>
-                        </div>
-                      )}
-                      {survey.improvementIdeas && (
-                        <div>
-                          <dt>Идеи по улучшению</dt>
-                          <dd>{survey.improvementIdeas}</dd>
-                        </div>
-                      )}
+                      {detailQuestions.map((question) => {
+                        const formatted = formatAnswer(question, survey.answers[question.key]);
+                        if (!formatted) {
+                          return null;
+                        }
+
+                        return (
+                          <div key={question.key}>
+                            <dt>{questionLabel(question)}</dt>
+                            <dd>{formatted}</dd>
+                          </div>
+                        );
+                      })}
                     </dl>
                   </div>
-                  <footer className="response-card__footer">
-                    <button type="button" className="button button--secondary" onClick={() => onEdit(survey)}>
-                      Редактировать ответы
-                    </button>
-                  </footer>
+                  {survey.canEdit && (
+                    <footer className="response-card__footer">
+                      <button type="button" className="button button--secondary" onClick={() => onEdit(survey)}>
+                        Редактировать ответы
+                      </button>
+                    </footer>
+                  )}
                 </>
               )}
             </article>
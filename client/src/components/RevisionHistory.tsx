@@ -0,0 +1,82 @@
+import { formatAnswer } from '../questionnaire';
+import type { AnswerValue, QuestionDefinition, SurveyRevision } from '../types';
+
+type RevisionHistoryProps = {
+  revisions: SurveyRevision[];
+  questions: QuestionDefinition[];
+  isLoading: boolean;
+  isBusy: boolean;
+  onRevert: (revision: SurveyRevision) => void;
+};
+
+function formatActor(revision: SurveyRevision): string {
+  if (revision.revertedRevisionId !== null) {
+    return `Администратор · откат к правке #${revision.revertedRevisionId}`;
+  }
+
+  return revision.actor === 'admin' ? 'Администратор' : 'Сотрудник';
+}
+
+function formatValue(question: QuestionDefinition | undefined, value: AnswerValue | null): string {
+  if (value === null) {
+    return '—';
+  }
+
+  return (question ? formatAnswer(question, value) : null) ?? String(value);
+}
+
+function RevisionHistory({ revisions, questions, isLoading, isBusy, onRevert }: RevisionHistoryProps) {
+  const questionsByKey = new Map(questions.map((question) => [question.key, question]));
+
+  if (isLoading) {
+    return <div className="hint">Загружаем историю правок…</div>;
+  }
+
+  if (!revisions.length) {
+    return <div className="hint">Ответы еще не менялись.</div>;
+  }
+
+  return (
+    <ol className="revision-history">
+      {revisions.map((revision, index) => (
+        <li key={revision.id} className="revision-history__item">
+          <header className="revision-history__header">
+            <span className="revision-history__meta">
+              #{revision.id} · {new Date(revision.createdAt).toLocaleString()} · {formatActor(revision)}
+            </span>
+            {index > 0 && (
+              <button
+                type="button"
+                className="button button--ghost"
+                onClick={() => onRevert(revision)}
+                disabled={isBusy}
+                title="Вернуть ответы к состоянию сразу после этой правки"
+              >
+                Откатить к этой версии
+              </button>
+            )}
+          </header>
+          <ul className="revision-history__changes">
+            {revision.changes.map((change) => {
+              const question = questionsByKey.get(change.key);
+              return (
+                <li key={change.key}>
+                  <span className="revision-history__question">
+                    {question ? (question.shortTitle ?? question.title) : change.key}
+                  </span>
+                  <span className="revision-history__diff">
+                    <del>{formatValue(question, change.oldValue)}</del>
+                    <span aria-hidden="true"> → </span>
+                    <ins>{formatValue(question, change.newValue)}</ins>
+                  </span>
+                </li>
+              );
+            })}
+          </ul>
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+export default RevisionHistory;
@@ -1,12 +1,14 @@
 import { useEffect, useMemo, useState } from 'react';
-import type { QuestionConfig, QuestionKey } from './SurveyStepper';
-import type { ContributionValue, SurveyAnswers, SurveyRecord } from '../types';
+import type { QuestionKey } from './SurveyStepper';
+import { QuestionInput } from './QuestionInput';
+import { isAnswered } from '../questionnaire';
+import type { AnswerValue, QuestionDefinition, SurveyAnswers, SurveyRecord } from '../types';
 
-type DraftState = Map<QuestionKey, number | string | null>;
+type DraftState = Map<QuestionKey, AnswerValue | null>;
 
 type SurveyInlineEditorProps = {
   survey: SurveyRecord;
-  questions: QuestionConfig[];
+  questions: QuestionDefinition[];
   isSaving: boolean;
   onSubmit: (updates: SurveyAnswers) => Promise<void>;
   onClose: () => void;
@@ -16,47 +18,32 @@ function normalizeText(value: unknown): string {
   return typeof value === 'string' ? value : '';
 }
 
-function normalizeScale(value: unknown): number | null {
-  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+function normalizeChoice(value: AnswerValue | null | undefined): AnswerValue | null {
+  return isAnswered(value) ? value : null;
 }
 
-function normalizeOption(value: unknown): ContributionValue | '' {
-  return value === 'yes' || value === 'no' || value === 'partial' ? value : '';
+// Answers are plain JSON values, so comparing their serialisations is enough to detect edits.
+function sameAnswer(left: AnswerValue | null, right: AnswerValue | null): boolean {
+  return JSON.stringify(left) === JSON.stringify(right);
 }
 
-const buildInitialDraft = (survey: SurveyRecord, questions: QuestionConfig[]): DraftState => {
-  const draft = new Map<QuestionKey, number | string | null>();
+const buildInitialDraft = (survey: SurveyRecord, questions: QuestionDefinition[]): DraftState => {
+  const draft = new Map<QuestionKey, AnswerValue | null>();
 
   questions.forEach((question) => {
-    const value = survey[question.key];
-
-    if (question.type === 'text') {
-      draft.set(question.key, normalizeText(value));
-      return;
-    }
-
-    if (question.type === 'scale') {
-      draft.set(question.key, normalizeScale(value));
-      return;
-    }
-
-    if (question.type === 'options') {
-      draft.set(question.key, normalizeOption(value) || null);
-      return;
-    }
-
-    draft.set(question.key, null);
+    const value = survey.answers[question.key];
+    draft.set(question.key, question.type === 'text' ? normalizeText(value) : normalizeChoice(value));
   });
 
   return draft;
 };
 
-const buildUpdates = (draft: DraftState, survey: SurveyRecord, questions: QuestionConfig[]): SurveyAnswers => {
-  const updates: Record<string, number | string | ContributionValue> = {};
+const buildUpdates = (draft: DraftState, survey: SurveyRecord, questions: QuestionDefinition[]): SurveyAnswers => {
+  const updates: SurveyAnswers = {};
 
   questions.forEach((question) => {
     const draftValue = draft.get(question.key);
-    const originalValue = survey[question.key];
+    const originalValue = survey.answers[question.key];
 
     if (question.type === 'text') {
       const trimmed = normalizeText(draftValue).trim();
@@ -67,28 +54,16 @@ const buildUpdates = (draft: DraftState, survey: SurveyRecord, questions: Questi
       return;
     }
 
-    if (question.type === 'scale') {
-      const next = normalizeScale(draftValue);
-      const original = normalizeScale(originalValue);
-      if (next !== null && next !== original) {
-        updates[question.key] = next;
-      }
-      return;
-    }
-
-    if (question.type === 'options') {
-      const next = normalizeOption(draftValue);
-      const original = normalizeOption(originalValue);
-      if (next && next !== original) {
-        updates[question.key] = next;
-      }
+    const next = normalizeChoice(draftValue);
+    if (next !== null && !sameAnswer(next, normalizeChoice(originalValue))) {
+      updates[question.key] = next;
     }
   });
 
-  return updates as SurveyAnswers;
+  return updates;
 };
 
-function hasChanges(draft: DraftState, survey: SurveyRecord, questions: QuestionConfig[]): boolean {
+function hasChanges(draft: DraftState, survey: SurveyRecord, questions: QuestionDefinition[]): boolean {
   return Object.keys(buildUpdates(draft, survey, questions)).length > 0;
 }
 
@@ -120,70 +95,25 @@ function SurveyInlineEditor({ survey, questions, isSaving, onSubmit, onClose }:
         {questions.map((question) => {
           const value = draft.get(question.key);
 
-          if (question.type === 'scale') {
-            const currentValue = normalizeScale(value);
-            return (
-              <section key={question.key} className="response-editor__section">
-                <header className="response-editor__section-header">
-                  <h4>{question.title}</h4>
-                  {question.description && <p>{question.description}</p>}
-                </header>
-                <div className="scale-selector">
-                  {Array.from({ length: 11 }, (_, index) => index).map((score) => {
-                    const isActive = currentValue === score;
-                    return (
-                      <button
-                        key={score}
-                        type="button"
-                        className={`scale-selector__item ${isActive ? 'scale-selector__item--active' : ''}`}
-                        onClick={() =>
-                          setDraft((prev) => {
-                            const next = new Map(prev);
-                            next.set(question.key, score);
-                            return next;
-                          })
-                        }
-                        disabled={isSaving}
-                      >
-                        {score}
-                      </button>
-                    );
-                  })}
-                </div>
-              </section>
-            );
-          }
-
-          if (question.type === 'options') {
-            const currentValue = normalizeOption(value);
+          if (question.type !== 'text') {
             return (
               <section key={question.key} className="response-editor__section">
                 <header className="response-editor__section-header">
                   <h4>{question.title}</h4>
                   {question.description && <p>{question.description}</p>}
                 </header>
-                <div className="options-selector">
-                  {question.options?.map((option) => {
-                    const isActive = currentValue === option.value;
-                    return (
-                      <button
-                        key={option.value}
-                        type="button"
-                        className={`option-chip ${isActive ? 'option-chip--active' : ''}`}
-                        onClick={() =>
-                          setDraft((prev) => {
-                            const next = new Map(prev);
-                            next.set(question.key, option.value);
-                            return next;
-                          })
-                        }
-                        disabled={isSaving}
-                      >
-                        {option.label}
-                      </button>
-                    );
-                  })}
-                </div>
+                <QuestionInput
+                  question={question}
+                  value={value ?? undefined}
+                  onChange={(nextValue) =>
+                    setDraft((prev) => {
+                      const next = new Map(prev);
+                      next.set(question.key, nextValue);
+                      return next;
+                    })
+                  }
+                  disabled={isSaving}
+                />
               </section>
             );
           }
@@ -1,34 +1,24 @@
 import { useCallback, useEffect, useMemo, useState } from 'react';
 import type { JSX } from 'react';
-import type { ContributionValue, SurveyAnswers, SurveyRecord } from '../types';
+import { initialAnswer, isAnswered, isSingleTapQuestion } from '../questionnaire';
+import type { AnswerValue, QuestionDefinition, SurveyAnswers, SurveyRecord } from '../types';
+import { QuestionInput } from './QuestionInput';
 
-export type QuestionKey = keyof SurveyAnswers;
-
-export type QuestionConfig = {
-  key: QuestionKey;
-  title: string;
-  description?: string;
-  type: 'scale' | 'text' | 'options';
-  placeholder?: string;
-  options?: Array<{ label: string; value: ContributionValue }>;
-};
+export type QuestionKey = string;
 
 interface SurveyStepperProps {
   survey: SurveyRecord;
-  questions: QuestionConfig[];
+  questions: QuestionDefinition[];
   answers: SurveyAnswers;
   activeStep: number;
   onStepChange: (next: number) => void;
-  onAnswer: (key: QuestionKey, value: number | string) => void;
+  onAnswer: (key: QuestionKey, value: AnswerValue) => void;
   onFinish: () => Promise<void>;
   isSubmitting: boolean;
   isSubmitted: boolean;
   onExit: () => void;
 }
 
-const SCALE_VALUES = Array.from({ length: 11 }, (_, index) => index);
-const COMPLETION_WINDOW_MS = 24 * 60 * 60 * 1000;
-
 export function SurveyStepper({
   survey,
   questions,
@@ -41,7 +31,7 @@ export function SurveyStepper({
   isSubmitted,
   onExit,
 }: SurveyStepperProps): JSX.Element | null {
-  const [currentValue, setCurrentValue] = useState<string | number | undefined>(undefined);
+  const [currentValue, setCurrentValue] = useState<AnswerValue | undefined>(undefined);
   const [fieldError, setFieldError] = useState<string | null>(null);
   const [finishError, setFinishError] = useState<string | null>(null);
 
@@ -56,14 +46,7 @@ export function SurveyStepper({
     }
 
     const answerValue = answers[question.key];
-    const preparedValue =
-      typeof answerValue === 'number' || typeof answerValue === 'string'
-        ? answerValue
-        : question.type === 'text'
-        ? ''
-        : undefined;
-
-    setCurrentValue(preparedValue);
+    setCurrentValue(question.type === 'text' ? answerValue ?? '' : initialAnswer(question, answerValue));
     setFieldError(null);
   }, [answers, question]);
 
@@ -73,14 +56,13 @@ export function SurveyStepper({
     }
   }, [isCompleted]);
 
-  const completionDeadline = useMemo(() => {
-    const createdAt = new Date(survey.createdAt);
-    const deadline = new Date(createdAt.getTime() + COMPLETION_WINDOW_MS);
-    return deadline.toLocaleString();
-  }, [survey.createdAt]);
+  const completionDeadline = useMemo(
+    () => (survey.editableUntil ? new Date(survey.editableUntil).toLocaleString() : null),
+    [survey.editableUntil],
+  );
 
   const commitAnswer = useCallback(
-    (value: number | string) => {
+    (value: AnswerValue) => {
       if (!question || isSubmitting) {
         return;
       }
@@ -93,28 +75,42 @@ export function SurveyStepper({
     [activeStep, isSubmitting, onAnswer, onStepChange, question],
   );
 
-  const handleScaleSelect = useCallback(
-    (value: number) => {
-      if (!question || question.type !== 'scale') {
+  const handleSelect = useCallback(
+    (value: AnswerValue) => {
+      if (!question) {
         return;
       }
 
-      commitAnswer(value);
-    },
-    [commitAnswer, question],
-  );
-
-  const handleOptionSelect = useCallback(
-    (value: ContributionValue) => {
-      if (!question || question.type !== 'options') {
+      if (isSingleTapQuestion(question)) {
+        commitAnswer(value);
         return;
       }
 
-      commitAnswer(value);
+      setCurrentValue(value);
+      setFieldError(null);
     },
     [commitAnswer, question],
   );
 
+  const handleListSubmit = useCallback(() => {
+    if (!question || isSubmitting) {
+      return;
+    }
+
+    const answered = isAnswered(currentValue);
+    if (question.type === 'matrix' && answered && Object.keys(currentValue).length < (question.rows?.length ?? 0)) {
+      setFieldError('Выберите ответ в каждой строке.');
+      return;
+    }
+
+    if (question.required && !answered) {
+      setFieldError('Выберите хотя бы один вариант.');
+      return;
+    }
+
+    commitAnswer(currentValue ?? '');
+  }, [commitAnswer, currentValue, isSubmitting, question]);
+
   const handleTextSubmit = useCallback(() => {
     if (!question || question.type !== 'text' || isSubmitting) {
       return;
@@ -157,12 +153,17 @@ export function SurveyStepper({
           <header className="panel-header">
             <div>
               <h2>Спасибо! Анкета сохранена</h2>
-              <p className="panel-subtitle">Вы можете отредактировать ответы до {completionDeadline} в разделе истории.</p>
+              <p className="panel-subtitle">
+                {survey.canEdit
+                  ? `Вы можете отредактировать ответы до ${completionDeadline} в разделе истории.`
+                  : 'Изменить ответы после отправки в этом проекте нельзя.'}
+              </p>
             </div>
           </header>
           <div className="panel-body">
             <p className="success-message">
-              Мы передали ответы проектному офису. Если заметите что-то, что стоит уточнить, просто отредактируйте запись в истории.
+              Мы передали ответы проектному офису.
+              {survey.canEdit && ' Если заметите что-то, что стоит уточнить, просто отредактируйте запись в истории.'}
             </p>
             <button type="button" className="button" onClick={onExit}>
               Перейти к истории ответов
@@ -181,7 +182,7 @@ export function SurveyStepper({
           </div>
         </header>
         <div className="panel-body">
-          <p className="hint">Вы всегда сможете изменить ответы в течение суток после отправки.</p>
+          <p className="hint">После отправки ответы попадут в статистику проекта.</p>
           {finishError && <p className="error-message">{finishError}</p>}
           <button type="button" className="button" onClick={handleFinish} disabled={isSubmitting}>
             {isSubmitting ? 'Отправляем…' : 'Отправить ответы'}
@@ -201,7 +202,7 @@ export function SurveyStepper({
         <div>
           <h2>{survey.projectName}</h2>
           <p className="panel-subtitle">
-            Шаг {activeStep + 1} из {questions.length}. Ответы сохранятся после завершения анкеты.
+            Шаг {activeStep + 1} из {questions.length}. Ответы сохраняются после каждого шага.
           </p>
         </div>
         <div className="progress">
@@ -213,41 +214,16 @@ export function SurveyStepper({
           <h3 className="question-title">{question.title}</h3>
           {question.description && <p className="question-description">{question.description}</p>}
 
-          {question.type === 'scale' && (
-            <div className="scale-selector">
-              {SCALE_VALUES.map((score) => {
-                const isActive = currentValue === score;
-                return (
-                  <button
-                    key={score}
-                    type="button"
-                    className={`scale-selector__item ${isActive ? 'scale-selector__item--active' : ''}`}
-                    onClick={() => handleScaleSelect(score)}
-                    disabled={isSubmitting}
-                  >
-                    {score}
-                  </button>
-                );
-              })}
-            </div>
+          {question.type !== 'text' && (
+            <QuestionInput question={question} value={currentValue} onChange={handleSelect} disabled={isSubmitting} />
           )}
 
-          {question.type === 'options' && question.options && (
-            <div className="options-selector">
-              {question.options.map((option) => {
-                const isActive = currentValue === option.value;
-                return (
-                  <button
-                    key={option.value}
-                    type="button"
-                    className={`option-chip ${isActive ? 'option-chip--active' : ''}`}
-                    onClick={() => handleOptionSelect(option.value)}
-                    disabled={isSubmitting}
-                  >
-                    {option.label}
-                  </button>
-                );
-              })}
+          {question.type !== 'text' && !isSingleTapQuestion(question) && (
+            <div className="text-answer">
+              <button type="button" className="button" onClick={handleListSubmit} disabled={isSubmitting}>
+                {isSubmitting ? 'Сохраняем…' : 'Далее'}
+              </button>
+              {fieldError && <p className="error-message">{fieldError}</p>}
             </div>
           )}
 
@@ -279,7 +255,7 @@ export function SurveyStepper({
           >
             Назад
           </button>
-          <p className="deadline-hint">Можно изменить ответы до {completionDeadline}</p>
+          <p className="deadline-hint">Анкета доступна для изменений до {completionDeadline}</p>
         </div>
       </div>
     </section>
@@ -0,0 +1,162 @@
+export type TrendSeries = {
+  label: string;
+  /** One value per period; `null` leaves a gap in the line. */
+  values: Array<number | null>;
+  /** Confidence margin per period, drawn as an error bar around the value. */
+  margins?: Array<number | null>;
+  /** Periods with too few answers; their points are drawn hollow. */
+  lowSample?: boolean[];
+};
+
+export type TrendChartProps = {
+  title: string;
+  periods: string[];
+  series: TrendSeries[];
+  min: number;
+  max: number;
+  formatValue: (value: number) => string;
+  /** Formats confidence margins; defaults to `formatValue`. */
+  formatMargin?: (value: number) => string;
+};
+
+const WIDTH = 320;
+const HEIGHT = 140;
+const PADDING = { top: 10, right: 10, bottom: 22, left: 34 };
+
+/** Splits a series into runs of consecutive periods that have a value. */
+function segments(values: Array<number | null>): Array<Array<{ index: number; value: number }>> {
+  const result: Array<Array<{ index: number; value: number }>> = [];
+  let current: Array<{ index: number; value: number }> = [];
+
+  values.forEach((value, index) => {
+    if (value === null) {
+      if (current.length) {
+        result.push(current);
+      }
+      current = [];
+      return;
+    }
+
+    current.push({ index, value });
+  });
+
+  if (current.length) {
+    result.push(current);
+  }
+
+  return result;
+}
+
+function TrendChart({ title, periods, series, min, max, formatValue, formatMargin = formatValue }: TrendChartProps) {
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  const x = (index: number) =>
+    PADDING.left + (periods.length > 1 ? (index / (periods.length - 1)) * plotWidth : plotWidth / 2);
+  const y = (value: number) => PADDING.top + ((max - Math.min(Math.max(value, min), max)) / (max - min)) * plotHeight;
+  const gridValues = [max, (max + min) / 2, min];
+  const firstPeriod = periods[0];
+  const lastPeriod = periods[periods.length - 1];
+
+  return (
+    <figure className="trend-chart">
+      <figcaption className="trend-chart__title">{title}</figcaption>
+      <svg className="trend-chart__plot" viewBox={`0 0 ${WIDTH} ${HEIGHT}`} role="img" aria-label={title}>
+        {gridValues.map((value) => (
+          <g key={value}>
+            <line
+              className="trend-chart__grid"
+              x1={PADDING.left}
+              x2={WIDTH - PADDING.right}
+              y1={y(value)}
+              y2={y(value)}
+            />
+            <text
+              className="trend-chart__axis"
+              x={PADDING.left - 6}
+              y={y(value)}
+              textAnchor="end"
+              dominantBaseline="middle"
+            >
+              {formatValue(value)}
+            </text>
+          </g>
+        ))}
+        {firstPeriod && (
+          <text
+            className="trend-chart__axis"
+            x={x(0)}
+            y={HEIGHT - 6}
+            textAnchor={periods.length > 1 ? 'start' : 'middle'}
+          >
+            {firstPeriod}
+          </text>
+        )}
+        {lastPeriod && periods.length > 1 && (
+          <text className="trend-chart__axis" x={x(periods.length - 1)} y={HEIGHT - 6} textAnchor="end">
+            {lastPeriod}
+          </text>
+        )}
+        {series.map((entry, seriesIndex) => (
+          <g key={entry.label} className={`trend-chart__series trend-chart__series--${seriesIndex}`}>
+            {segments(entry.values).map((segment) => (
+              <polyline
+                key={segment[0]!.index}
+                points={segment.map((point) => `${x(point.index)},${y(point.value)}`).join(' ')}
+              />
+            ))}
+            {entry.values.map((value, index) => {
+              const margin = entry.margins?.[index] ?? null;
+              return value === null || !margin ? null : (
+                <line
+                  key={periods[index]}
+                  className="trend-chart__error"
+                  x1={x(index)}
+                  x2={x(index)}
+                  y1={y(value - margin)}
+                  y2={y(value + margin)}
+                />
+              );
+            })}
+            {entry.values.map((value, index) => {
+              if (value === null) {
+                return null;
+              }
+
+              const margin = entry.margins?.[index] ?? null;
+              const lowSample = entry.lowSample?.[index] ?? false;
+              const details = [
+                margin === null ? null : `±${formatMargin(margin)}`,
+                lowSample ? 'мало ответов' : null,
+              ].filter(Boolean);
+              return (
+                <circle
+                  key={periods[index]}
+                  className={lowSample ? 'trend-chart__point--low-sample' : undefined}
+                  cx={x(index)}
+                  cy={y(value)}
+                  r={3}
+                >
+                  <title>
+                    {`${periods[index]} · ${entry.label}: ${formatValue(value)}`}
+                    {details.length > 0 && ` (${details.join(', ')})`}
+                  </title>
+                </circle>
+              );
+            })}
+          </g>
+        ))}
+      </svg>
+      {series.length > 1 && (
+        <ul className="trend-chart__legend">
+          {series.map((entry, seriesIndex) => (
+            <li key={entry.label} className={`trend-chart__legend-item trend-chart__series--${seriesIndex}`}>
+              {entry.label}
+            </li>
+          ))}
+        </ul>
+      )}
+    </figure>
+  );
+}
+
+export default TrendChart;
@@ -0,0 +1,140 @@
+import type { AnswerValue, Language, QuestionDefinition, SurveyAnswers, SurveyRecord } from './types';
+
+export const LANGUAGES: { value: Language; label: string; title: string }[] = [
+  { value: 'ru', label: 'RU', title: 'Русский' },
+  { value: 'en', label: 'EN', title: 'English' },
+];
+
+/** Mirrors the server: a supported language matched by primary subtag (`en-US` → `en`), Russian otherwise. */
+export function resolveLanguage(code: string | null | undefined): Language {
+  const primary = code?.trim().toLowerCase().split(/[-_]/)[0];
+  return LANGUAGES.find((language) => language.value === primary)?.value ?? 'ru';
+}
+
+export const LIKERT_SCALE = [
+  { value: 1, label: 'Совсем не согласен' },
+  { value: 2, label: 'Скорее не согласен' },
+  { value: 3, label: 'Нейтрально' },
+  { value: 4, label: 'Скорее согласен' },
+  { value: 5, label: 'Полностью согласен' },
+];
+
+export const MOOD_SCALE = [
+  { value: 1, emoji: '😞', label: 'Очень плохо' },
+  { value: 2, emoji: '🙁', label: 'Плохо' },
+  { value: 3, emoji: '😐', label: 'Нормально' },
+  { value: 4, emoji: '🙂', label: 'Хорошо' },
+  { value: 5, emoji: '😄', label: 'Отлично' },
+];
+
+/** Whether the answer is complete after a single tap, so the stepper can move on right away. */
+export function isSingleTapQuestion(question: QuestionDefinition): boolean {
+  return ['scale', 'likert', 'mood', 'options'].includes(question.type);
+}
+
+/** Starting value for list answers: nothing selected, or the options in their original order for a ranking. */
+export function initialAnswer(question: QuestionDefinition, value: AnswerValue | undefined): AnswerValue | undefined {
+  if (value !== undefined) {
+    return value;
+  }
+
+  if (question.type === 'ranking') {
+    return (question.options ?? []).map((option) => option.value);
+  }
+
+  return question.type === 'multiselect' ? [] : undefined;
+}
+
+export function isAnswered(value: AnswerValue | undefined | null): value is AnswerValue {
+  if (value === undefined || value === null) {
+    return false;
+  }
+
+  if (typeof value === 'string') {
+    return value.trim().length > 0;
+  }
+
+  return typeof value === 'number' || Object.keys(value).length > 0;
+}
+
+function optionLabel(question: QuestionDefinition, value: string): string {
+  return question.options?.find((option) => option.value === value)?.label ?? value;
+}
+
+/** Human-readable answer for history and admin cards; `null` when there is nothing to show. */
+export function formatAnswer(question: QuestionDefinition, value: AnswerValue | undefined): string | null {
+  if (!isAnswered(value)) {
+    return null;
+  }
+
+  switch (question.type) {
+    case 'options':
+      return optionLabel(question, String(value));
+    case 'likert':
+      return `${String(value)} из 5 — ${LIKERT_SCALE.find((item) => item.value === value)?.label ?? ''}`;
+    case 'mood': {
+      const mood = MOOD_SCALE.find((item) => item.value === value);
+      return mood ? `${mood.emoji} ${mood.label}` : String(value);
+    }
+    case 'multiselect':
+      return Array.isArray(value) ? value.map((item) => optionLabel(question, item)).join(', ') : null;
+    case 'ranking':
+      return Array.isArray(value)
+        ? value.map((item, index) => `${index + 1}. ${optionLabel(question, item)}`).join(' · ')
+        : null;
+    case 'matrix':
+      return typeof value === 'object' && !Array.isArray(value)
+        ? (question.rows ?? [])
+            .filter((row) => value[row.value] !== undefined)
+            .map((row) => `${row.label}: ${optionLabel(question, value[row.value] ?? '')}`)
+            .join('; ')
+        : null;
+    default:
+      return String(value);
+  }
+}
+
+/** Questionnaire ids a survey is pinned to: the base version plus the project extension, if any. */
+export function surveyQuestionnaireIds(
+  survey: Pick<SurveyRecord, 'questionnaireId' | 'extensionQuestionnaireId'>,
+): number[] {
+  return survey.extensionQuestionnaireId === null
+    ? [survey.questionnaireId]
+    : [survey.questionnaireId, survey.extensionQuestionnaireId];
+}
+
+/** Appends project-specific questions after the base ones; base questions win on key clashes. */
+export function mergeQuestions(base: QuestionDefinition[], extension: QuestionDefinition[]): QuestionDefinition[] {
+  const baseKeys = new Set(base.map((question) => question.key));
+  return [...base, ...extension.filter((question) => !baseKeys.has(question.key))];
+}
+
+/** Mirrors the server: a question with `showIf` is asked only once the referenced answer satisfies it. */
+export function isQuestionVisible(question: QuestionDefinition, answers: SurveyAnswers): boolean {
+  if (!question.showIf) {
+    return true;
+  }
+
+  const { key, operator, value } = question.showIf;
+  const answer = answers[key];
+  if (!isAnswered(answer)) {
+    return false;
+  }
+
+  switch (operator) {
+    case 'lt':
+      return typeof answer === 'number' && answer < Number(value);
+    case 'lte':
+      return typeof answer === 'number' && answer <= Number(value);
+    case 'gt':
+      return typeof answer === 'number' && answer > Number(value);
+    case 'gte':
+      return typeof answer === 'number' && answer >= Number(value);
+    case 'eq':
+      return answer === value;
+    case 'neq':
+      return answer !== value;
+    default:
+      return true;
+  }
+}
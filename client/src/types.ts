@@ -9,51 +9,112 @@ export interface TelegramUser {
 
 export type ContributionValue = 'yes' | 'no' | 'partial';
 
+export type ProjectQuestionnaireMode = 'extend' | 'replace';
+
+export type EditPolicy = 'hours' | 'week' | 'never';
+
 export interface ProjectSummary {
   id: number;
   name: string;
   createdAt: string;
   responsesCount: number;
   lastResponseAt: string | null;
+  questionnaireMode: ProjectQuestionnaireMode | null;
+  questionnaireOverrideId: number | null;
+  editPolicy: EditPolicy;
+  editWindowHours: number;
+  managerId: number | null;
 }
 
+export interface Manager {
+  id: number;
+  name: string;
+  createdAt: string;
+}
+
+export type QuestionType = 'scale' | 'likert' | 'mood' | 'text' | 'options' | 'multiselect' | 'ranking' | 'matrix';
+
+export interface QuestionOption {
+  value: string;
+  label: string;
+}
+
+export type ConditionOperator = 'lt' | 'lte' | 'gt' | 'gte' | 'eq' | 'neq';
+
+export interface QuestionCondition {
+  key: string;
+  operator: ConditionOperator;
+  value: number | string;
+}
+
+export interface QuestionDefinition {
+  id: number;
+  key: string;
+  type: QuestionType;
+  title: string;
+  shortTitle?: string;
+  description?: string;
+  placeholder?: string;
+  options?: QuestionOption[];
+  rows?: QuestionOption[];
+  showIf?: QuestionCondition;
+  required: boolean;
+  comparable: boolean;
+}
+
+export interface Questionnaire {
+  id: number;
+  code: string;
+  version: number;
+  title: string;
+  createdAt: string;
+  questions: QuestionDefinition[];
+  extension?: { id: number; version: number };
+  language?: Language;
+}
+
+export type Language = 'ru' | 'en';
+
+export type AnswerValue = number | string | string[] | Record<string, string>;
+
+export type SurveyAnswers = Record<string, AnswerValue>;
+
 export interface SurveyRecord {
   id: number;
   userId: number;
   projectId: number;
   projectName: string;
+  questionnaireId: number;
+  questionnaireVersion: number;
+  extensionQuestionnaireId: number | null;
   surveyDate: string;
-  projectRecommendation?: number;
-  projectImprovement?: string;
-  managerEffectiveness?: number;
-  managerImprovement?: string;
-  teamComfort?: number;
-  teamImprovement?: string;
-  processOrganization?: number;
-  processObstacles?: string;
-  contributionValued?: ContributionValue;
-  improvementIdeas?: string;
+  answers: SurveyAnswers;
   createdAt: string;
   updatedAt: string;
   canEdit: boolean;
-  isComplete: boolean;
-}
-
-export type SurveyAnswers = Partial<
-  Pick<
-    SurveyRecord,
-    | 'projectRecommendation'
-    | 'projectImprovement'
-    | 'managerEffectiveness'
-    | 'managerImprovement'
-    | 'teamComfort'
-    | 'teamImprovement'
-    | 'processOrganization'
-    | 'processObstacles'
-    | 'contributionValued'
-    | 'improvementIdeas'
-  >
->;
+  /** `null` for a draft that can be finished at any time. */
+  editableUntil: string | null;
+  submittedAt: string | null;
+  lastStep: number | null;
+}
+
+export type RevisionActor = 'respondent' | 'admin';
+
+export interface AnswerChange {
+  key: string;
+  oldValue: AnswerValue | null;
+  newValue: AnswerValue | null;
+}
+
+export interface SurveyRevision {
+  id: number;
+  surveyId: number;
+  actor: RevisionActor;
+  actorId: number | null;
+  createdAt: string;
+  changes: AnswerChange[];
+  revertedRevisionId: number | null;
+}
 
 export interface ApiError {
   error: string;
@@ -65,8 +126,7 @@ export interface SurveyCreationResponse {
   wasCreated: boolean;
 }
 
-export interface AdminProjectStats extends ProjectSummary {
-  uniqueRespondents: number;
+export interface SurveyMetricSummary {
   averages: {
     projectRecommendation: number | null;
     managerEffectiveness: number | null;
@@ -74,6 +134,252 @@ export interface AdminProjectStats extends ProjectSummary {
     processOrganization: number | null;
   };
   contributionBreakdown: Record<ContributionValue, number>;
+  nps: NpsBreakdown;
+  enps: number | null;
+  confidence: {
+    enps: ScoreConfidence;
+    averages: Record<SurveyAverageKey, ScoreConfidence>;
+  };
+  /** The scores are hidden. */
+  suppressed?: boolean;
+}
+
+export type SurveyAverageKey = keyof SurveyMetricSummary['averages'];
+
+export interface ScoreConfidence {
+  sampleSize: number;
+  /** Half-width of the 95% confidence interval; `null` with fewer than two answers, or low-sample eNPS. */
+  margin: number | null;
+  lowSample: boolean;
+}
+
+export interface ParticipationStats {
+  /** `null` when the project has neither a respondent list nor a headcount. */
+  expected: number | null;
+  responded: number;
+  /** From 0 to 1. */
+  rate: number | null;
+}
+
+export interface TextTerm {
+  /** Most frequent spelling of the word or pair of words. */
+  term: string;
+  /** Stems the term stands for; the same for every spelling. */
+  stem: string;
+  count: number;
+  /** Surveys whose answers contain the term. */
+  surveysCount: number;
+  /** Their ids; empty in anonymous mode. */
+  surveyIds: number[];
+}
+
+export interface TextAnalytics {
+  /** Surveys with at least one text answer. */
+  responsesCount: number;
+  keywords: TextTerm[];
+  phrases: TextTerm[];
+  /** The terms are hidden. */
+  suppressed?: boolean;
+}
+
+export interface ExpectedRespondents {
+  headcount: number | null;
+  userIds: number[];
+}
+
+export interface SentimentSummary {
+  /** Mean survey score from -1 to 1; `null` without text answers. */
+  average: number | null;
+  /** Surveys with text answers. */
+  responsesCount: number;
+  negativeCount: number;
+  positiveCount: number;
+}
+
+export interface AdminProjectStats extends ProjectSummary, SurveyMetricSummary {
+  uniqueRespondents: number;
+  participation: ParticipationStats;
+  sentiment: SentimentSummary;
+}
+
+export interface AnalyticsFilter {
+  from?: string;
+  to?: string;
+  scoreMin?: number;
+  scoreMax?: number;
+  contribution?: ContributionValue;
+  respondentId?: number;
+}
+
+export type TrendGranularity = 'week' | 'month';
+
+export type BenchmarkMetric = 'enps' | SurveyAverageKey;
+
+export interface BenchmarkDistribution {
+  projectsCount: number;
+  min: number;
+  q1: number;
+  median: number;
+  q3: number;
+  max: number;
+}
+
+export type BenchmarkQuartile = 'top' | 'upperMiddle' | 'lowerMiddle' | 'bottom';
+
+export interface BenchmarkPosition {
+  value: number | null;
+  /** 1 for the best score; tied projects share a rank. */
+  rank: number | null;
+  quartile: BenchmarkQuartile | null;
+  outlier: 'high' | 'low' | null;
+  lowSample: boolean;
+}
+
+export interface ProjectBenchmark {
+  projectId: number;
+  projectName: string;
+  responsesCount: number;
+  positions: Record<BenchmarkMetric, BenchmarkPosition>;
+}
+
+export interface PortfolioBenchmark {
+  distributions: Record<BenchmarkMetric, BenchmarkDistribution | null>;
+  projects: ProjectBenchmark[];
+}
+
+export interface ContributionHeatmapCell {
+  weekStart: string;
+  responsesCount: number;
+  respondentsCount: number;
+  counts: Record<ContributionValue, number>;
+  /** `null` in a week without answers. */
+  shares: Record<ContributionValue, number> | null;
+  lowSample: boolean;
+  /** The answers are hidden. */
+  suppressed?: boolean;
+}
+
+export interface ProjectContributionHeatmap {
+  projectId: number;
+  projectName: string;
+  cells: ContributionHeatmapCell[];
+}
+
+export interface ContributionHeatmap {
+  weeks: string[];
+  projects: ProjectContributionHeatmap[];
+}
+
+export type DriverKey = 'managerEffectiveness' | 'teamComfort' | 'processOrganization' | 'contributionValued';
+
+export interface DriverStats {
+  key: DriverKey;
+  sampleSize: number;
+  /** Pearson correlation with the project recommendation, from -1 to 1. */
+  correlation: number | null;
+  /** Recommendation points per point of the dimension; for `contributionValued` per step from `no` to `yes`. */
+  slope: number | null;
+  significant: boolean;
+}
+
+export interface DriverAnalysis {
+  responsesCount: number;
+  /** Strongest positive correlation first. */
+  drivers: DriverStats[];
+  keyDriver: DriverKey | null;
+  /** The correlations are hidden. */
+  suppressed?: boolean;
+}
+
+export interface ProjectDriverAnalysis extends DriverAnalysis {
+  projectId: number;
+  projectName: string;
+}
+
+export interface ProjectTrendPeriod extends SurveyMetricSummary {
+  periodStart: string;
+  responsesCount: number;
+  uniqueRespondents: number;
+  participation: ParticipationStats;
+  change: SurveyMetricChanges | null;
+}
+
+export interface ManagerTrendPeriod extends SurveyMetricSummary {
+  periodStart: string;
+  responsesCount: number;
+  uniqueRespondents: number;
+  change: SurveyMetricChanges | null;
+}
+
+export interface AdminManagerStats extends Manager, SurveyMetricSummary {
+  projectIds: number[];
+  responsesCount: number;
+  uniqueRespondents: number;
+  trend: ManagerTrendPeriod[];
+}
+
+export interface NpsBreakdown {
+  promoters: number;
+  passives: number;
+  detractors: number;
+}
+
+export interface PortfolioTotals extends SurveyMetricSummary {
+  responsesCount: number;
+  uniqueRespondents: number;
+}
+
+export type ProjectHealthBand = 'healthy' | 'attention' | 'critical' | 'noData';
+
+export interface MetricDelta {
+  current: number | null;
+  previous: number | null;
+  delta: number | null;
+}
+
+export interface ScoreDelta extends MetricDelta {
+  significant: boolean;
+}
+
+export interface SurveyMetricChanges {
+  enps: ScoreDelta;
+  averages: Record<SurveyAverageKey, ScoreDelta>;
+}
+
+export interface AdminPortfolioStats extends PortfolioTotals {
+  projectsCount: number;
+  healthBands: Record<ProjectHealthBand, number>;
+  weekOverWeek: {
+    weekStart: string;
+    previousWeekStart: string;
+    responsesCount: MetricDelta;
+  } & SurveyMetricChanges;
+}
+
+export type AlertMetric = 'enps' | 'teamComfort' | 'managerEffectiveness' | 'processOrganization';
+
+export type AlertSeverity = 'warning' | 'critical';
+
+export type AlertStatus = 'open' | 'acknowledged' | 'resolved';
+
+export interface ProjectAlert {
+  id: number;
+  projectId: number;
+  projectName: string;
+  metric: AlertMetric;
+  severity: AlertSeverity;
+  status: AlertStatus;
+  /** Survey dates of the recent window compared with the project's baseline. */
+  windowStart: string;
+  windowEnd: string;
+  recentValue: number;
+  baselineValue: number;
+  recentCount: number;
+  baselineCount: number;
+  createdAt: string;
+  updatedAt: string;
+  acknowledgedAt: string | null;
+  resolvedAt: string | null;
 }
 
 export interface AdminSurveyRecord extends SurveyRecord {
@@ -83,4 +389,38 @@ export interface AdminSurveyRecord extends SurveyRecord {
     lastName: string | null;
     username: string | null;
   };
+  /** Mean score of the text answers from -1 to 1; `null` without any. */
+  sentiment: number | null;
+  /** Score of each text answer, by question key. */
+  answerSentiments: Record<string, number>;
+}
+
+/** A response in anonymous mode: the answers only, without the respondent, the survey id or dates. */
+export type AnonymousResponse = Pick<
+  AdminSurveyRecord,
+  | 'projectId'
+  | 'questionnaireId'
+  | 'questionnaireVersion'
+  | 'extensionQuestionnaireId'
+  | 'answers'
+  | 'sentiment'
+  | 'answerSentiments'
+>;
+
+export interface AnonymousResponses {
+  anonymous: true;
+  /** Too few employees answered to show anything. */
+  suppressed: boolean;
+  /** Shuffled unless sorted by sentiment. */
+  responses: AnonymousResponse[];
+}
+
+/** Anonymous mode hides the statistics that fewer than `minRespondents` employees stand behind. */
+export interface AnonymitySettings {
+  enabled: boolean;
+  /** Fewest distinct respondents a statistic needs to be shown. */
+  minRespondents: number;
 }
+
+/** `sentiment` lists the most negative responses first. */
+export type ResponseOrder = 'recent' | 'sentiment';
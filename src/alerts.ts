@@ -0,0 +1,56 @@
+import { getAdminProject, listAdminProjects, saveAlert } from './db';
+import { alertWindows, detectAnomalies } from './db/anomalies';
+import { AdminProjectStats, AnalyticsFilter, ProjectAlert } from './db/types';
+
+/** Statistics of every project, or only of `projectId`, which is all a check after a submit needs. */
+async function projectStats(filter: AnalyticsFilter, projectId?: number): Promise<AdminProjectStats[]> {
+  if (projectId === undefined) {
+    return listAdminProjects(filter);
+  }
+
+  const project = await getAdminProject(projectId, filter);
+  return project ? [project] : [];
+}
+
+/**
+ * Compares every project's — or only `projectId`'s — recent scores with its baseline and records the drops found.
+ * Returns the alerts created or refreshed by this run.
+ */
+export async function detectProjectAlerts(now: Date = new Date(), projectId?: number): Promise<ProjectAlert[]> {
+  const windows = alertWindows(now);
+  const [recent, baseline] = await Promise.all([
+    projectStats(windows.recent, projectId),
+    projectStats(windows.baseline, projectId),
+  ]);
+  const baselineById = new Map(baseline.map((project) => [project.id, project]));
+
+  const candidates = recent.flatMap((project) => {
+    const projectBaseline = baselineById.get(project.id);
+    return projectBaseline ? detectAnomalies(project.id, project, projectBaseline, windows) : [];
+  });
+
+  const alerts: ProjectAlert[] = [];
+  for (const candidate of candidates) {
+    const alert = await saveAlert(candidate, now);
+    if (alert) {
+      alerts.push(alert);
+    }
+  }
+
+  return alerts;
+}
+
+/** Runs the detector right away and then every `intervalMinutes`; returns a function that stops the schedule. */
+export function scheduleAlertDetection(intervalMinutes: number): () => void {
+  const run = () => {
+    detectProjectAlerts().catch((error) => {
+      // eslint-disable-next-line no-console
+      console.error('Scheduled alert detection failed', error);
+    });
+  };
+
+  run();
+  const timer = setInterval(run, intervalMinutes * 60 * 1000);
+  timer.unref();
+  return () => clearInterval(timer);
+}
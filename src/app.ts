@@ -2,10 +2,13 @@ import express from 'express';
 import cors from 'cors';
 import path from 'path';
 import { telegramAuth } from './middleware/auth';
+import { respondentLanguage } from './middleware/language';
 import projectsRouter from './routes/projects';
 import surveysRouter from './routes/surveys';
+import questionnaireRouter from './routes/questionnaire';
 import { config } from './config';
 import adminRouter from './routes/admin';
+import meRouter from './routes/me';
 
 export function createApp(): express.Express {
   const app = express();
@@ -25,8 +28,11 @@ export function createApp(): express.Express {
 
   const apiRouter = express.Router();
   apiRouter.use(telegramAuth);
+  apiRouter.use(respondentLanguage);
   apiRouter.use('/projects', projectsRouter);
   apiRouter.use('/surveys', surveysRouter);
+  apiRouter.use('/questionnaire', questionnaireRouter);
+  apiRouter.use('/me', meRouter);
 
   app.use('/api', apiRouter);
 
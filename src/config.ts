@@ -23,6 +23,12 @@ export const config = {
   allowInsecureInitData: process.env.ALLOW_INSECURE_INIT_DATA === 'true',
   serveFrontend: process.env.SERVE_FRONTEND !== 'false',
   adminToken: process.env.ADMIN_TOKEN ?? '',
+  /** How often the anomaly detector checks all projects; `0` leaves only the check after each submitted survey. */
+  alertCheckIntervalMinutes: Number(process.env.ALERT_CHECK_INTERVAL_MINUTES ?? 60),
+  /** Admin views hide who answered and withhold statistics that too few employees stand behind. */
+  anonymousMode: process.env.ANONYMOUS_MODE === 'true',
+  /** Fewest distinct respondents a statistic or a list of answers must cover to be shown in anonymous mode. */
+  anonymityThreshold: Number(process.env.ANONYMITY_THRESHOLD ?? 5),
 };
 
 export function requireBotToken(): string {
@@ -0,0 +1,107 @@
+import { addDays } from './metrics';
+import {
+  AlertCandidate,
+  AlertMetric,
+  AlertSeverity,
+  AnalyticsFilter,
+  ScoreConfidence,
+  SurveyMetricSummary,
+} from './types';
+
+/** Days of survey dates, ending today, whose scores are checked for a drop. */
+export const ALERT_RECENT_DAYS = 14;
+
+/** Days before the recent window that make up the project's baseline. */
+export const ALERT_BASELINE_DAYS = 90;
+
+/** Fewest answers on each side before a drop is considered at all. */
+export const ALERT_MIN_RESPONSES = 3;
+
+/** Drop from the baseline, in the metric's units, that raises an alert of each severity. */
+export const ALERT_DROP_THRESHOLDS: Record<AlertMetric, Record<AlertSeverity, number>> = {
+  enps: { warning: 20, critical: 40 },
+  teamComfort: { warning: 1.5, critical: 2.5 },
+  managerEffectiveness: { warning: 1.5, critical: 2.5 },
+  processOrganization: { warning: 1.5, critical: 2.5 },
+};
+
+const ALERT_METRICS = Object.keys(ALERT_DROP_THRESHOLDS) as AlertMetric[];
+
+export interface AlertWindows {
+  windowStart: string;
+  windowEnd: string;
+  recent: AnalyticsFilter;
+  baseline: AnalyticsFilter;
+}
+
+/** The recent window ending on the UTC day of `now` and the baseline right before it. */
+export function alertWindows(now: Date): AlertWindows {
+  const windowEnd = now.toISOString().slice(0, 10);
+  return alertWindowFilters(addDays(windowEnd, 1 - ALERT_RECENT_DAYS), windowEnd);
+}
+
+/** The windows an alert from `windowStart` to `windowEnd` compared. */
+export function alertWindowFilters(windowStart: string, windowEnd: string): AlertWindows {
+  return {
+    windowStart,
+    windowEnd,
+    recent: { from: windowStart, to: windowEnd },
+    baseline: { from: addDays(windowStart, -ALERT_BASELINE_DAYS), to: addDays(windowStart, -1) },
+  };
+}
+
+function metricScore(
+  summary: SurveyMetricSummary,
+  metric: AlertMetric,
+): { value: number | null; confidence: ScoreConfidence } {
+  if (metric === 'enps') {
+    return { value: summary.enps, confidence: summary.confidence.enps };
+  }
+
+  return { value: summary.averages[metric], confidence: summary.confidence.averages[metric] };
+}
+
+/**
+ * Metrics of a project that dropped from `baseline` to `recent` by at least a warning threshold. The drop must also
+ * exceed the combined confidence margins, so a couple of unhappy answers in a small team do not raise an alert.
+ */
+export function detectAnomalies(
+  projectId: number,
+  recent: SurveyMetricSummary,
+  baseline: SurveyMetricSummary,
+  windows: Pick<AlertWindows, 'windowStart' | 'windowEnd'>,
+): AlertCandidate[] {
+  return ALERT_METRICS.flatMap((metric): AlertCandidate[] => {
+    const current = metricScore(recent, metric);
+    const previous = metricScore(baseline, metric);
+    if (
+      current.value === null ||
+      previous.value === null ||
+      current.confidence.sampleSize < ALERT_MIN_RESPONSES ||
+      previous.confidence.sampleSize < ALERT_MIN_RESPONSES
+    ) {
+      return [];
+    }
+
+    const drop = previous.value - current.value;
+    const noise = Math.hypot(current.confidence.margin ?? 0, previous.confidence.margin ?? 0);
+    const thresholds = ALERT_DROP_THRESHOLDS[metric];
+    if (drop < thresholds.warning || drop <= noise) {
+      return [];
+    }
+
+    return [
+      {
+        projectId,
+        metric,
+        severity: drop >= thresholds.critical ? 'critical' : 'warning',
+        windowStart: windows.windowStart,
+        windowEnd: windows.windowEnd,
+        recentValue: current.value,
+        baselineValue: previous.value,
+        recentCount: current.confidence.sampleSize,
+        baselineCount: previous.confidence.sampleSize,
+      },
+    ];
+  });
+}
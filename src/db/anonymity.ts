@@ -0,0 +1,127 @@
+import { analyzeDrivers } from './drivers';
+import { TextAnalytics, TextTerm } from '../textAnalytics/keywords';
+import { emptySurveyMetricSummary, mapSentimentAggregates, SentimentAggregateRow, withPeriodChanges } from './metrics';
+import {
+  AdminProjectStats,
+  AdminSurveyRecord,
+  AnonymousResponse,
+  ContributionHeatmap,
+  DriverAnalysis,
+  ProjectSummary,
+  ResponseOrder,
+  SurveyMetricChanges,
+  SurveyMetricSummary,
+} from './types';
+
+/**
+ * Whether a statistic over `respondents` distinct employees is too small to show in anonymous mode. With fewer than
+ * `minRespondents` people behind a score, colleagues can guess who gave it; a statistic without answers stays as is.
+ */
+export function isSuppressed(respondents: number, minRespondents: number): boolean {
+  return respondents > 0 && respondents < minRespondents;
+}
+
+/** The statistic with its scores emptied and marked as suppressed; counts of responses are kept. */
+export function suppressSummary<T extends SurveyMetricSummary>(summary: T): T {
+  return { ...summary, ...emptySurveyMetricSummary(), suppressed: true };
+}
+
+/** Drops the time of the last response, which for a small project is when a known colleague answered. */
+export function anonymizeProjectSummary<T extends ProjectSummary>(project: T): T {
+  return { ...project, lastResponseAt: null };
+}
+
+/** Drops the time of the last response and suppresses the statistics of a project with too few respondents. */
+export function anonymizeProject(project: AdminProjectStats, minRespondents: number): AdminProjectStats {
+  if (!isSuppressed(project.uniqueRespondents, minRespondents)) {
+    return anonymizeProjectSummary(project);
+  }
+
+  return anonymizeProjectSummary({
+    ...suppressSummary(project),
+    sentiment: mapSentimentAggregates({} as SentimentAggregateRow),
+  });
+}
+
+/** Suppresses the periods with too few respondents and recomputes the changes between the remaining scores. */
+export function anonymizeTrend<
+  T extends SurveyMetricSummary & { uniqueRespondents: number; change: SurveyMetricChanges | null },
+>(periods: T[], minRespondents: number): T[] {
+  if (!periods.some((period) => isSuppressed(period.uniqueRespondents, minRespondents))) {
+    return periods;
+  }
+
+  return withPeriodChanges(
+    periods.map((period) =>
+      isSuppressed(period.uniqueRespondents, minRespondents) ? suppressSummary(period) : period,
+    ),
+  );
+}
+
+/** The analysis without correlations, marked as suppressed; the count of responses is kept. */
+export function suppressDrivers<T extends DriverAnalysis>(analysis: T): T {
+  return { ...analysis, ...analyzeDrivers([]), responsesCount: analysis.responsesCount, suppressed: true };
+}
+
+/** Empties the weeks of a project that too few employees answered in, as if nobody had. */
+export function anonymizeHeatmap(heatmap: ContributionHeatmap, minRespondents: number): ContributionHeatmap {
+  return {
+    ...heatmap,
+    projects: heatmap.projects.map((project) => ({
+      ...project,
+      cells: project.cells.map((cell) =>
+        isSuppressed(cell.respondentsCount, minRespondents)
+          ? { ...cell, counts: { yes: 0, partial: 0, no: 0 }, shares: null, suppressed: true }
+          : cell,
+      ),
+    })),
+  };
+}
+
+/** Keeps how many surveys mention each term but not which ones, as anonymous responses carry no survey id. */
+export function anonymizeTextAnalytics(analytics: TextAnalytics): TextAnalytics {
+  const anonymizeTerm = (term: TextTerm): TextTerm => ({ ...term, surveyIds: [] });
+  return {
+    ...analytics,
+    keywords: analytics.keywords.map(anonymizeTerm),
+    phrases: analytics.phrases.map(anonymizeTerm),
+  };
+}
+
+/** Distinct employees behind the responses. */
+export function countRespondents(surveys: AdminSurveyRecord[]): number {
+  return new Set(surveys.map((survey) => survey.userId)).size;
+}
+
+/**
+ * Strips the respondent, the survey and its dates from each response, and shuffles them: the newest-first order, like
+ * the newest-first tiebreak between responses of equal sentiment, would tell when each one was given. The sentiment
+ * order is restored afterwards by a stable sort, so responses of equal sentiment stay shuffled.
+ */
+export function anonymizeResponses(surveys: AdminSurveyRecord[], order: ResponseOrder): AnonymousResponse[] {
+  const responses = surveys.map<AnonymousResponse>((survey) => ({
+    projectId: survey.projectId,
+    questionnaireId: survey.questionnaireId,
+    questionnaireVersion: survey.questionnaireVersion,
+    extensionQuestionnaireId: survey.extensionQuestionnaireId,
+    answers: survey.answers,
+    sentiment: survey.sentiment,
+    answerSentiments: survey.answerSentiments,
+  }));
+
+  for (let index = responses.length - 1; index > 0; index -= 1) {
+    const swapIndex = Math.floor(Math.random() * (index + 1));
+    [responses[index], responses[swapIndex]] = [responses[swapIndex]!, responses[index]!];
+  }
+
+  if (order === 'sentiment') {
+    // Mirrors `RESPONSE_ORDER_SQL.sentiment`: the most negative first, responses without text last.
+    responses.sort(
+      (left, right) =>
+        Number(left.sentiment === null) - Number(right.sentiment === null) ||
+        (left.sentiment ?? 0) - (right.sentiment ?? 0),
+    );
+  }
+
+  return responses;
+}
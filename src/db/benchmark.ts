@@ -0,0 +1,119 @@
+import {
+  AdminProjectStats,
+  BenchmarkDistribution,
+  BenchmarkMetric,
+  BenchmarkPosition,
+  BenchmarkQuartile,
+  PortfolioBenchmark,
+  ScoreConfidence,
+} from './types';
+
+export const BENCHMARK_METRICS: BenchmarkMetric[] = [
+  'enps',
+  'projectRecommendation',
+  'managerEffectiveness',
+  'teamComfort',
+  'processOrganization',
+];
+
+/** Interquartile ranges beyond the quartiles from which a project counts as an outlier (Tukey's fences). */
+const OUTLIER_IQR = 1.5;
+
+function metricScore(
+  project: AdminProjectStats,
+  metric: BenchmarkMetric,
+): { value: number | null; confidence: ScoreConfidence } {
+  if (metric === 'enps') {
+    return { value: project.enps, confidence: project.confidence.enps };
+  }
+
+  return { value: project.averages[metric], confidence: project.confidence.averages[metric] };
+}
+
+/** Quantile of ascending `values` by linear interpolation between the closest ranks. */
+function quantile(values: number[], share: number): number {
+  const position = (values.length - 1) * share;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return values[lower]! + (values[upper]! - values[lower]!) * (position - lower);
+}
+
+export function benchmarkDistribution(values: number[]): BenchmarkDistribution | null {
+  if (values.length === 0) {
+    return null;
+  }
+
+  const sorted = [...values].sort((left, right) => left - right);
+  return {
+    projectsCount: sorted.length,
+    min: sorted[0]!,
+    q1: quantile(sorted, 0.25),
+    median: quantile(sorted, 0.5),
+    q3: quantile(sorted, 0.75),
+    max: sorted[sorted.length - 1]!,
+  };
+}
+
+function quartileOf(value: number, distribution: BenchmarkDistribution): BenchmarkQuartile {
+  if (value >= distribution.q3) {
+    return 'top';
+  }
+  if (value >= distribution.median) {
+    return 'upperMiddle';
+  }
+  return value > distribution.q1 ? 'lowerMiddle' : 'bottom';
+}
+
+function outlierOf(value: number, distribution: BenchmarkDistribution): 'high' | 'low' | null {
+  const fence = (distribution.q3 - distribution.q1) * OUTLIER_IQR;
+  if (value > distribution.q3 + fence) {
+    return 'high';
+  }
+  return value < distribution.q1 - fence ? 'low' : null;
+}
+
+/**
+ * Ranks projects on eNPS and each average rating and places them within the portfolio's quartiles. Every project with
+ * a score counts towards the distribution; positions resting on few answers are flagged rather than left out, so
+ * small projects stay visible.
+ */
+export function benchmarkProjects(projects: AdminProjectStats[]): PortfolioBenchmark {
+  const distributions = {} as PortfolioBenchmark['distributions'];
+  const positions = new Map<number, Partial<Record<BenchmarkMetric, BenchmarkPosition>>>();
+
+  BENCHMARK_METRICS.forEach((metric) => {
+    const scores = projects.map((project) => ({ projectId: project.id, ...metricScore(project, metric) }));
+    const values = scores.flatMap((score) => (score.value === null ? [] : [score.value]));
+    const distribution = benchmarkDistribution(values);
+    distributions[metric] = distribution;
+
+    scores.forEach(({ projectId, value, confidence }) => {
+      const position: BenchmarkPosition =
+        value === null || !distribution
+          ? { value: null, rank: null, quartile: null, outlier: null, lowSample: confidence.lowSample }
+          : {
+              value,
+              rank: values.filter((other) => other > value).length + 1,
+              quartile: quartileOf(value, distribution),
+              outlier: outlierOf(value, distribution),
+              lowSample: confidence.lowSample,
+            };
+      positions.set(projectId, { ...positions.get(projectId), [metric]: position });
+    });
+  });
+
+  const ranked = projects
+    .map((project) => ({
+      projectId: project.id,
+      projectName: project.name,
+      responsesCount: project.responsesCount,
+      positions: positions.get(project.id) as Record<BenchmarkMetric, BenchmarkPosition>,
+    }))
+    .sort(
+      (left, right) =>
+        (left.positions.enps.rank ?? Infinity) - (right.positions.enps.rank ?? Infinity) ||
+        left.projectName.localeCompare(right.projectName),
+    );
+
+  return { distributions, projects: ranked };
+}
@@ -0,0 +1,71 @@
+import { NpsBreakdown, ScoreConfidence, ScoreDelta } from './types';
+
+/** Fewest answers a score needs before the admin compares it with other scores. */
+export const MIN_CONFIDENT_SAMPLE = 10;
+
+/** Two-sided 95% quantile of the normal distribution. */
+export const Z_95 = 1.96;
+
+function confidence(sampleSize: number, variance: number | null): ScoreConfidence {
+  return {
+    sampleSize,
+    margin: variance === null || sampleSize < 2 ? null : Z_95 * Math.sqrt(Math.max(variance, 0) / sampleSize),
+    lowSample: sampleSize < MIN_CONFIDENT_SAMPLE,
+  };
+}
+
+/**
+ * Interval of an average rating from the number of answers, their mean and the mean of their squares.
+ * Uses the sample variance, so a handful of identical answers still yields a zero-width but low-sample interval.
+ */
+export function meanConfidence(sampleSize: number, mean: number | null, meanOfSquares: number | null): ScoreConfidence {
+  if (mean === null || meanOfSquares === null || sampleSize < 2) {
+    return confidence(sampleSize, null);
+  }
+
+  return confidence(sampleSize, ((meanOfSquares - mean * mean) * sampleSize) / (sampleSize - 1));
+}
+
+/**
+ * Interval of eNPS in percentage points. Each answer scores +1 (promoter), 0 (passive) or -1 (detractor) and eNPS is
+ * their mean times 100, so the variance follows from the promoter and detractor shares. The normal approximation
+ * breaks down on a few answers, where it stretches past the -100…100 scale (±196 for one promoter and one
+ * detractor), so below `MIN_CONFIDENT_SAMPLE` there is no margin.
+ */
+export function enpsConfidence({ promoters, passives, detractors }: NpsBreakdown): ScoreConfidence {
+  const total = promoters + passives + detractors;
+  if (total < MIN_CONFIDENT_SAMPLE) {
+    return confidence(total, null);
+  }
+
+  const promoterShare = promoters / total;
+  const detractorShare = detractors / total;
+  const variance = promoterShare + detractorShare - (promoterShare - detractorShare) ** 2;
+  const interval = confidence(total, ((variance * total) / (total - 1)) * 100 * 100);
+  return { ...interval, margin: interval.margin === null ? null : Math.round(interval.margin) };
+}
+
+/**
+ * Change between two scores, significant when it exceeds the 95% margin of their difference. A change involving a
+ * low-sample side is never significant: a few identical answers give a zero-width interval that proves nothing.
+ */
+export function scoreDelta(
+  current: number | null,
+  previous: number | null,
+  currentConfidence: ScoreConfidence,
+  previousConfidence: ScoreConfidence,
+): ScoreDelta {
+  if (current === null || previous === null) {
+    return { current, previous, delta: null, significant: false };
+  }
+
+  const delta = current - previous;
+  const significant =
+    !currentConfidence.lowSample &&
+    !previousConfidence.lowSample &&
+    currentConfidence.margin !== null &&
+    previousConfidence.margin !== null &&
+    Math.abs(delta) > Math.hypot(currentConfidence.margin, previousConfidence.margin);
+
+  return { current, previous, delta, significant };
+}
@@ -0,0 +1,65 @@
+import { ContributionValue } from '../types';
+import { MIN_CONFIDENT_SAMPLE } from './confidence';
+import { addDays } from './metrics';
+import { ContributionHeatmap, ContributionHeatmapCell, ContributionWeekCounts } from './types';
+
+const NO_ANSWERS: Record<ContributionValue, number> = { yes: 0, partial: 0, no: 0 };
+
+function heatmapCell(
+  weekStart: string,
+  { counts, respondentsCount }: Pick<ContributionWeekCounts, 'counts' | 'respondentsCount'> = {
+    counts: NO_ANSWERS,
+    respondentsCount: 0,
+  },
+): ContributionHeatmapCell {
+  const responsesCount = counts.yes + counts.partial + counts.no;
+
+  return {
+    weekStart,
+    responsesCount,
+    respondentsCount,
+    counts,
+    shares: responsesCount
+      ? {
+          yes: counts.yes / responsesCount,
+          partial: counts.partial / responsesCount,
+          no: counts.no / responsesCount,
+        }
+      : null,
+    lowSample: responsesCount < MIN_CONFIDENT_SAMPLE,
+  };
+}
+
+/**
+ * Lays out weekly contribution answers as a projects × weeks grid. Weeks run without gaps from the first to the last
+ * one with answers in any project, so a week a project went silent shows up as an empty cell.
+ */
+export function buildContributionHeatmap(rows: ContributionWeekCounts[]): ContributionHeatmap {
+  if (rows.length === 0) {
+    return { weeks: [], projects: [] };
+  }
+
+  const starts = rows.map((row) => row.weekStart).sort();
+  const weeks: string[] = [];
+  for (let week = starts[0]!; week <= starts[starts.length - 1]!; week = addDays(week, 7)) {
+    weeks.push(week);
+  }
+
+  const projects = new Map<number, { projectName: string; byWeek: Map<string, ContributionWeekCounts> }>();
+  rows.forEach((row) => {
+    const project = projects.get(row.projectId) ?? { projectName: row.projectName, byWeek: new Map() };
+    project.byWeek.set(row.weekStart, row);
+    projects.set(row.projectId, project);
+  });
+
+  return {
+    weeks,
+    projects: [...projects.entries()]
+      .map(([projectId, { projectName, byWeek }]) => ({
+        projectId,
+        projectName,
+        cells: weeks.map((week) => heatmapCell(week, byWeek.get(week))),
+      }))
+      .sort((left, right) => left.projectName.localeCompare(right.projectName) || left.projectId - right.projectId),
+  };
+}
@@ -0,0 +1,95 @@
+import { MIN_CONFIDENT_SAMPLE, Z_95 } from './confidence';
+import { ContributionValue } from '../types';
+import { DriverAnalysis, DriverKey, DriverSample, DriverStats } from './types';
+
+export const DRIVER_KEYS: DriverKey[] = [
+  'managerEffectiveness',
+  'teamComfort',
+  'processOrganization',
+  'contributionValued',
+];
+
+/** `contributionValued` on a numeric scale, so that it can be correlated like the ratings. */
+const CONTRIBUTION_SCORES: Record<ContributionValue, number> = { yes: 1, partial: 0.5, no: 0 };
+
+function driverValue(sample: DriverSample, key: DriverKey): number | null {
+  if (key === 'contributionValued') {
+    return sample.contributionValued === null ? null : CONTRIBUTION_SCORES[sample.contributionValued];
+  }
+
+  return sample[key];
+}
+
+/** Correlation and regression slope of `ys` on `xs`; both are `null` when either side does not vary. */
+function linearFit(xs: number[], ys: number[]): { correlation: number | null; slope: number | null } {
+  const count = xs.length;
+  if (count < 2) {
+    return { correlation: null, slope: null };
+  }
+
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / count;
+  const meanY = ys.reduce((sum, y) => sum + y, 0) / count;
+
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  xs.forEach((x, index) => {
+    const dx = x - meanX;
+    const dy = ys[index]! - meanY;
+    covariance += dx * dy;
+    varianceX += dx * dx;
+    varianceY += dy * dy;
+  });
+
+  if (varianceX === 0 || varianceY === 0) {
+    return { correlation: null, slope: null };
+  }
+
+  // Rounding may push a perfect correlation just past ±1.
+  const correlation = Math.max(-1, Math.min(1, covariance / Math.sqrt(varianceX * varianceY)));
+  return { correlation, slope: covariance / varianceX };
+}
+
+/**
+ * A correlation is significant when its Fisher transform lies outside the 95% interval around zero. Like score
+ * changes, correlations from fewer than `MIN_CONFIDENT_SAMPLE` answers never are.
+ */
+function isSignificant(correlation: number | null, sampleSize: number): boolean {
+  if (correlation === null || sampleSize < MIN_CONFIDENT_SAMPLE) {
+    return false;
+  }
+
+  // A perfect correlation has an infinite transform, which still compares correctly.
+  return Math.atanh(Math.abs(correlation)) * Math.sqrt(sampleSize - 3) > Z_95;
+}
+
+function driverStats(samples: DriverSample[], key: DriverKey): DriverStats {
+  const xs: number[] = [];
+  const ys: number[] = [];
+  samples.forEach((sample) => {
+    const value = driverValue(sample, key);
+    if (value !== null) {
+      xs.push(value);
+      ys.push(sample.projectRecommendation);
+    }
+  });
+
+  const { correlation, slope } = linearFit(xs, ys);
+  return { key, sampleSize: xs.length, correlation, slope, significant: isSignificant(correlation, xs.length) };
+}
+
+/**
+ * Relates the project recommendation to each other dimension of the same surveys. The key driver is the dimension
+ * whose answers rise and fall with the recommendation most consistently, which makes it the likeliest lever.
+ */
+export function analyzeDrivers(samples: DriverSample[]): DriverAnalysis {
+  const drivers = DRIVER_KEYS.map((key) => driverStats(samples, key)).sort((left, right) => {
+    if (left.correlation === null || right.correlation === null) {
+      return Number(left.correlation === null) - Number(right.correlation === null);
+    }
+    return right.correlation - left.correlation;
+  });
+  const key = drivers.find((driver) => driver.significant && driver.correlation! > 0);
+
+  return { responsesCount: samples.length, drivers, keyDriver: key?.key ?? null };
+}
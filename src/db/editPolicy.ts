@@ -0,0 +1,51 @@
+import { EditPolicy } from '../types';
+
+export const DEFAULT_EDIT_WINDOW_HOURS = 24;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface EditWindowInput {
+  policy: EditPolicy;
+  windowHours: number;
+  surveyDate: string | Date;
+  submittedAt: string | Date | null;
+  unlockedUntil: string | Date | null;
+}
+
+/** Start of the Monday after the survey date, i.e. the end of its Monday–Sunday week (UTC). */
+function endOfSurveyWeek(surveyDate: string | Date): Date {
+  const date = new Date(surveyDate);
+  const daysSinceMonday = (date.getUTCDay() + 6) % 7;
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() - daysSinceMonday + 7));
+}
+
+/**
+ * Moment the respondent can no longer change a survey. `hours` counts from when the survey was submitted, so a
+ * draft has no deadline (`null`) and can be finished whenever the respondent comes back to it. `week` lasts until
+ * the end of the survey week and `never` locks a survey once it is submitted (a draft can still be finished within
+ * its week). An admin unlock wins when it ends later.
+ */
+export function editableUntil(input: EditWindowInput): Date | null {
+  let deadline: Date;
+  switch (input.policy) {
+    case 'week':
+      deadline = endOfSurveyWeek(input.surveyDate);
+      break;
+    case 'never':
+      deadline = input.submittedAt ? new Date(input.submittedAt) : endOfSurveyWeek(input.surveyDate);
+      break;
+    case 'hours':
+    default:
+      if (!input.submittedAt) {
+        return null;
+      }
+      deadline = new Date(new Date(input.submittedAt).getTime() + input.windowHours * HOUR_MS);
+      break;
+  }
+
+  if (input.unlockedUntil && new Date(input.unlockedUntil) > deadline) {
+    return new Date(input.unlockedUntil);
+  }
+
+  return deadline;
+}
@@ -1,14 +1,38 @@
 import { config } from '../config';
 import {
+  AdminManagerStats,
   AdminProjectStats,
   AdminSurveyRecord,
+  AlertCandidate,
+  AlertListFilter,
+  AlertStatus,
+  AnalyticsFilter,
+  ContributionWeekCounts,
   DatabaseAdapter,
+  DriverSample,
+  ExpectedRespondents,
+  Manager,
+  NewQuestionnaireVersion,
+  PortfolioTotals,
+  ProjectAlert,
+  ProjectQuestionnaireInput,
   ProjectSummary,
+  ProjectTrendPeriod,
+  ResponseOrder,
   SurveyCreationResult,
+  TrendGranularity,
 } from './types';
 import { createSqliteAdapter } from './sqlite';
 import { createPostgresAdapter } from './postgres';
-import { SurveyAnswers, SurveyRecord, TelegramUser } from '../types';
+import {
+  EditPolicy,
+  Language,
+  Questionnaire,
+  SurveyAnswers,
+  SurveyRecord,
+  SurveyRevision,
+  TelegramUser,
+} from '../types';
 
 const DEFAULT_INIT_ATTEMPTS = 3;
 const RETRY_BASE_DELAY_MS = 750;
@@ -166,6 +190,49 @@ export function ensureUser(user: TelegramUser): Promise<void> {
   return requireAdapter().ensureUser(user);
 }
 
+export function getUserLanguage(userId: number): Promise<Language | null> {
+  return requireAdapter().getUserLanguage(userId);
+}
+
+export function setUserLanguage(userId: number, language: Language | null): Promise<void> {
+  return requireAdapter().setUserLanguage(userId, language);
+}
+
+export function getActiveQuestionnaire(): Promise<Questionnaire> {
+  return requireAdapter().getActiveQuestionnaire();
+}
+
+export function getQuestionnaire(id: number): Promise<Questionnaire | undefined> {
+  return requireAdapter().getQuestionnaire(id);
+}
+
+export function getSurveyQuestionnaire(surveyId: number): Promise<Questionnaire | undefined> {
+  return requireAdapter().getSurveyQuestionnaire(surveyId);
+}
+
+export function listQuestionnaireVersions(): Promise<Questionnaire[]> {
+  return requireAdapter().listQuestionnaireVersions();
+}
+
+export function createQuestionnaireVersion(input: NewQuestionnaireVersion): Promise<Questionnaire> {
+  return requireAdapter().createQuestionnaireVersion(input);
+}
+
+export function getProjectQuestionnaire(projectId: number): Promise<Questionnaire | undefined> {
+  return requireAdapter().getProjectQuestionnaire(projectId);
+}
+
+export function setProjectQuestionnaire(
+  projectId: number,
+  input: ProjectQuestionnaireInput,
+): Promise<Questionnaire | undefined> {
+  return requireAdapter().setProjectQuestionnaire(projectId, input);
+}
+
+export function clearProjectQuestionnaire(projectId: number): Promise<Questionnaire | undefined> {
+  return requireAdapter().clearProjectQuestionnaire(projectId);
+}
+
 export function listProjects(search: string | undefined, limit: number): Promise<ProjectSummary[]> {
   return requireAdapter().listProjects(search, limit);
 }
@@ -178,6 +245,29 @@ export function updateProjectName(id: number, name: string): Promise<ProjectSumm
   return requireAdapter().updateProjectName(id, name);
 }
 
+export function setProjectEditPolicy(
+  id: number,
+  policy: EditPolicy,
+  windowHours: number,
+): Promise<ProjectSummary | undefined> {
+  return requireAdapter().setProjectEditPolicy(id, policy, windowHours);
+}
+
+export function setProjectManager(id: number, managerId: number | null): Promise<ProjectSummary | undefined> {
+  return requireAdapter().setProjectManager(id, managerId);
+}
+
+export function getProjectExpectedRespondents(projectId: number): Promise<ExpectedRespondents | undefined> {
+  return requireAdapter().getProjectExpectedRespondents(projectId);
+}
+
+export function setProjectExpectedRespondents(
+  projectId: number,
+  expected: ExpectedRespondents,
+): Promise<ExpectedRespondents | undefined> {
+  return requireAdapter().setProjectExpectedRespondents(projectId, expected);
+}
+
 export function deleteProject(id: number): Promise<void> {
   return requireAdapter().deleteProject(id);
 }
@@ -186,8 +276,20 @@ export function deleteSurvey(id: number): Promise<void> {
   return requireAdapter().deleteSurvey(id);
 }
 
-export function updateSurveyAnswers(id: number, updates: SurveyAnswers): Promise<SurveyRecord | undefined> {
-  return requireAdapter().updateSurveyAnswers(id, updates);
+export function updateSurveyAnswers(
+  id: number,
+  updates: SurveyAnswers,
+  revertedRevisionId?: number,
+): Promise<SurveyRecord | undefined> {
+  return requireAdapter().updateSurveyAnswers(id, updates, revertedRevisionId);
+}
+
+export function listSurveyRevisions(surveyId: number): Promise<SurveyRevision[] | undefined> {
+  return requireAdapter().listSurveyRevisions(surveyId);
+}
+
+export function unlockSurvey(id: number, until: Date): Promise<SurveyRecord | undefined> {
+  return requireAdapter().unlockSurvey(id, until);
 }
 
 export function getSurveyById(id: number, userId: number): Promise<SurveyRecord | undefined> {
@@ -202,14 +304,94 @@ export function createSurvey(userId: number, projectId: number, surveyDate?: str
   return requireAdapter().createSurvey(userId, projectId, surveyDate);
 }
 
-export function updateSurvey(id: number, userId: number, updates: SurveyAnswers): Promise<SurveyRecord> {
-  return requireAdapter().updateSurvey(id, userId, updates);
+export function updateSurvey(
+  id: number,
+  userId: number,
+  updates: SurveyAnswers,
+  lastStep?: number,
+): Promise<SurveyRecord> {
+  return requireAdapter().updateSurvey(id, userId, updates, lastStep);
+}
+
+export function submitSurvey(id: number, userId: number): Promise<SurveyRecord> {
+  return requireAdapter().submitSurvey(id, userId);
+}
+
+export function listAdminProjects(filter?: AnalyticsFilter): Promise<AdminProjectStats[]> {
+  return requireAdapter().listAdminProjects(filter);
+}
+
+export function getAdminProject(id: number, filter?: AnalyticsFilter): Promise<AdminProjectStats | undefined> {
+  return requireAdapter().getAdminProject(id, filter);
+}
+
+export function getManager(id: number): Promise<Manager | undefined> {
+  return requireAdapter().getManager(id);
+}
+
+export function createManager(name: string): Promise<Manager> {
+  return requireAdapter().createManager(name);
+}
+
+export function updateManagerName(id: number, name: string): Promise<Manager | undefined> {
+  return requireAdapter().updateManagerName(id, name);
+}
+
+export function deleteManager(id: number): Promise<void> {
+  return requireAdapter().deleteManager(id);
+}
+
+export function listAdminManagers(
+  granularity: TrendGranularity,
+  filter?: AnalyticsFilter,
+): Promise<AdminManagerStats[]> {
+  return requireAdapter().listAdminManagers(granularity, filter);
+}
+
+export function getPortfolioTotals(filter?: AnalyticsFilter): Promise<PortfolioTotals> {
+  return requireAdapter().getPortfolioTotals(filter);
+}
+
+export function listProjectTrends(
+  projectId: number,
+  granularity: TrendGranularity,
+  filter?: AnalyticsFilter,
+): Promise<ProjectTrendPeriod[] | undefined> {
+  return requireAdapter().listProjectTrends(projectId, granularity, filter);
+}
+
+export function listDriverSamples(filter?: AnalyticsFilter): Promise<DriverSample[]> {
+  return requireAdapter().listDriverSamples(filter);
+}
+
+export function listContributionWeeks(filter?: AnalyticsFilter): Promise<ContributionWeekCounts[]> {
+  return requireAdapter().listContributionWeeks(filter);
+}
+
+export function listAdminProjectResponses(
+  projectId: number,
+  filter?: AnalyticsFilter,
+  order?: ResponseOrder,
+): Promise<AdminSurveyRecord[]> {
+  return requireAdapter().listAdminProjectResponses(projectId, filter, order);
+}
+
+export function listAlerts(filter?: AlertListFilter): Promise<ProjectAlert[]> {
+  return requireAdapter().listAlerts(filter);
+}
+
+export function getAlert(id: number): Promise<ProjectAlert | undefined> {
+  return requireAdapter().getAlert(id);
 }
 
-export function listAdminProjects(): Promise<AdminProjectStats[]> {
-  return requireAdapter().listAdminProjects();
+export function saveAlert(candidate: AlertCandidate, now: Date): Promise<ProjectAlert | undefined> {
+  return requireAdapter().saveAlert(candidate, now);
 }
 
-export function listAdminProjectResponses(projectId: number): Promise<AdminSurveyRecord[]> {
-  return requireAdapter().listAdminProjectResponses(projectId);
+export function setAlertStatus(
+  id: number,
+  status: Exclude<AlertStatus, 'open'>,
+  now: Date,
+): Promise<ProjectAlert | undefined> {
+  return requireAdapter().setAlertStatus(id, status, now);
 }
@@ -0,0 +1,518 @@
+import {
+  AdminPortfolioStats,
+  AdminProjectStats,
+  AnalyticsFilter,
+  MetricDelta,
+  NpsBreakdown,
+  ParticipationStats,
+  PortfolioTotals,
+  ProjectHealthBand,
+  ResponseOrder,
+  SentimentSummary,
+  SurveyAverageKey,
+  SurveyMetricChanges,
+  SurveyMetricSummary,
+} from './types';
+import { enpsConfidence, meanConfidence, scoreDelta } from './confidence';
+import { NEGATIVE_SENTIMENT_MAX, POSITIVE_SENTIMENT_MIN } from '../textAnalytics/sentiment';
+
+/**
+ * Well-known questions that admin analytics aggregate over. Answers live in `survey_answers` keyed by
+ * question id; the `survey_metrics` view pivots them back into one row per survey so the statistics
+ * queries can stay plain SQL in both adapters.
+ *
+ * Only answers given since the last incomparable revision of a question are exposed: once a questionnaire
+ * version marks a question as `comparable = false`, answers from earlier versions drop out of the view.
+ * A question only counts under its key while it keeps the `type` of the standard one, so a project questionnaire
+ * cannot feed, say, likert answers into the eNPS. `sentiment` is the mean score of the survey's free-text answers,
+ * `NULL` without any.
+ */
+export const SURVEY_METRIC_COLUMNS = [
+  { key: 'projectRecommendation', column: 'project_recommendation', kind: 'numeric', type: 'scale' },
+  { key: 'managerEffectiveness', column: 'manager_effectiveness', kind: 'numeric', type: 'scale' },
+  { key: 'teamComfort', column: 'team_comfort', kind: 'numeric', type: 'scale' },
+  { key: 'processOrganization', column: 'process_organization', kind: 'numeric', type: 'scale' },
+  { key: 'contributionValued', column: 'contribution_valued', kind: 'text', type: 'options' },
+] as const;
+
+export function surveyMetricsViewSql(): string {
+  const pivots = SURVEY_METRIC_COLUMNS.map(({ key, column, kind, type }) => {
+    const valueColumn = kind === 'numeric' ? 'a.numeric_value' : 'a.text_value';
+    return `MAX(CASE WHEN q.key = '${key}' AND q.type = '${type}' THEN ${valueColumn} END) AS ${column}`;
+  });
+
+  return `
+    CREATE VIEW survey_metrics AS
+    SELECT
+      a.survey_id,
+      ${pivots.join(',\n      ')},
+      AVG(a.sentiment) AS sentiment
+    FROM survey_answers a
+    JOIN questions q ON q.id = a.question_id
+    JOIN questionnaires qn ON qn.id = q.questionnaire_id
+    WHERE qn.version >= COALESCE((
+      SELECT MAX(bv.version)
+      FROM questions bq
+      JOIN questionnaires bv ON bv.id = bq.questionnaire_id
+      WHERE bv.code = qn.code AND bq.key = q.key AND NOT bq.comparable
+    ), 0)
+    GROUP BY a.survey_id
+  `;
+}
+
+/** Conditions narrowing the date `column` to the `from`/`to` range of `filter`. */
+export function dateRangeConditions(
+  filter: AnalyticsFilter,
+  column: string,
+  param: (value: string | number) => string,
+): string[] {
+  const conditions: string[] = [];
+
+  if (filter.from !== undefined) {
+    conditions.push(`${column} >= ${param(filter.from)}`);
+  }
+  if (filter.to !== undefined) {
+    conditions.push(`${column} <= ${param(filter.to)}`);
+  }
+
+  return conditions;
+}
+
+/**
+ * Conditions narrowing surveys `s` joined with their `survey_metrics` row `m` to `filter`. `param` binds a value
+ * and returns its placeholder, so each adapter keeps its own parameter style.
+ */
+export function analyticsFilterConditions(
+  filter: AnalyticsFilter,
+  param: (value: string | number) => string,
+): string[] {
+  const conditions = dateRangeConditions(filter, 's.survey_date', param);
+
+  if (filter.scoreMin !== undefined) {
+    conditions.push(`m.project_recommendation >= ${param(filter.scoreMin)}`);
+  }
+  if (filter.scoreMax !== undefined) {
+    conditions.push(`m.project_recommendation <= ${param(filter.scoreMax)}`);
+  }
+  if (filter.contribution !== undefined) {
+    conditions.push(`m.contribution_valued = ${param(filter.contribution)}`);
+  }
+  if (filter.respondentId !== undefined) {
+    conditions.push(`s.user_id = ${param(filter.respondentId)}`);
+  }
+
+  return conditions;
+}
+
+/** `ORDER BY` of admin response lists over surveys `s` joined with their `survey_metrics` row `m`. */
+export const RESPONSE_ORDER_SQL: Record<ResponseOrder, string> = {
+  recent: 's.created_at DESC',
+  sentiment: 'CASE WHEN m.sentiment IS NULL THEN 1 ELSE 0 END, m.sentiment, s.created_at DESC',
+};
+
+/** eNPS buckets on the 0–10 project recommendation scale: 9–10 promoters, 7–8 passives, 0–6 detractors. */
+export const NPS_PROMOTER_MIN = 9;
+export const NPS_DETRACTOR_MAX = 6;
+
+type RatingSuffix = Capitalize<SurveyAverageKey>;
+
+const RATING_AGGREGATES: Array<{ column: string; suffix: RatingSuffix }> = [
+  { column: 'project_recommendation', suffix: 'ProjectRecommendation' },
+  { column: 'manager_effectiveness', suffix: 'ManagerEffectiveness' },
+  { column: 'team_comfort', suffix: 'TeamComfort' },
+  { column: 'process_organization', suffix: 'ProcessOrganization' },
+];
+
+/**
+ * Aggregate columns over the `survey_metrics` row joined as `m`, for queries grouping surveys by project or period.
+ * Ratings also get their answer count and mean square, from which `mapSurveyMetricAggregates` derives the spread.
+ * `alias` quotes column aliases where the dialect folds their case.
+ */
+export function surveyMetricAggregatesSql(alias: (name: string) => string = (name) => name): string {
+  return [
+    ...RATING_AGGREGATES.flatMap(({ column, suffix }) => [
+      `AVG(m.${column}) AS ${alias(`avg${suffix}`)}`,
+      `COUNT(m.${column}) AS ${alias(`count${suffix}`)}`,
+      `AVG(m.${column} * m.${column}) AS ${alias(`avgSquare${suffix}`)}`,
+    ]),
+    `SUM(CASE WHEN m.contribution_valued = 'yes' THEN 1 ELSE 0 END) AS ${alias('contributionYes')}`,
+    `SUM(CASE WHEN m.contribution_valued = 'partial' THEN 1 ELSE 0 END) AS ${alias('contributionPartial')}`,
+    `SUM(CASE WHEN m.contribution_valued = 'no' THEN 1 ELSE 0 END) AS ${alias('contributionNo')}`,
+    `SUM(CASE WHEN m.project_recommendation >= ${NPS_PROMOTER_MIN} THEN 1 ELSE 0 END)
+      AS ${alias('npsPromoters')}`,
+    `SUM(CASE WHEN m.project_recommendation BETWEEN ${NPS_DETRACTOR_MAX + 1} AND ${NPS_PROMOTER_MIN - 1} THEN 1 ELSE 0 END)
+      AS ${alias('npsPassives')}`,
+    `SUM(CASE WHEN m.project_recommendation <= ${NPS_DETRACTOR_MAX} THEN 1 ELSE 0 END) AS ${alias('npsDetractors')}`,
+  ].join(',\n');
+}
+
+type AggregateValue = string | number | null | undefined;
+
+export type SurveyMetricAggregateRow = Record<
+  | `avg${RatingSuffix}`
+  | `count${RatingSuffix}`
+  | `avgSquare${RatingSuffix}`
+  | 'contributionYes'
+  | 'contributionPartial'
+  | 'contributionNo'
+  | 'npsPromoters'
+  | 'npsPassives'
+  | 'npsDetractors',
+  AggregateValue
+>;
+
+function average(value: AggregateValue): number | null {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+/** Maps the columns of `surveyMetricAggregatesSql` back to statistics; drivers may return numbers as strings. */
+export function mapSurveyMetricAggregates(row: SurveyMetricAggregateRow): SurveyMetricSummary {
+  const nps: NpsBreakdown = {
+    promoters: Number(row.npsPromoters ?? 0),
+    passives: Number(row.npsPassives ?? 0),
+    detractors: Number(row.npsDetractors ?? 0),
+  };
+
+  const rating = (suffix: RatingSuffix) => {
+    const mean = average(row[`avg${suffix}`]);
+    return {
+      mean,
+      confidence: meanConfidence(Number(row[`count${suffix}`] ?? 0), mean, average(row[`avgSquare${suffix}`])),
+    };
+  };
+  const projectRecommendation = rating('ProjectRecommendation');
+  const managerEffectiveness = rating('ManagerEffectiveness');
+  const teamComfort = rating('TeamComfort');
+  const processOrganization = rating('ProcessOrganization');
+
+  return {
+    averages: {
+      projectRecommendation: projectRecommendation.mean,
+      managerEffectiveness: managerEffectiveness.mean,
+      teamComfort: teamComfort.mean,
+      processOrganization: processOrganization.mean,
+    },
+    contributionBreakdown: {
+      yes: Number(row.contributionYes ?? 0),
+      partial: Number(row.contributionPartial ?? 0),
+      no: Number(row.contributionNo ?? 0),
+    },
+    nps,
+    enps: enpsScore(nps),
+    confidence: {
+      enps: enpsConfidence(nps),
+      averages: {
+        projectRecommendation: projectRecommendation.confidence,
+        managerEffectiveness: managerEffectiveness.confidence,
+        teamComfort: teamComfort.confidence,
+        processOrganization: processOrganization.confidence,
+      },
+    },
+  };
+}
+
+/** Aggregate columns over the sentiment of the `survey_metrics` rows joined as `m`; see `mapSentimentAggregates`. */
+export function sentimentAggregatesSql(alias: (name: string) => string = (name) => name): string {
+  return [
+    `AVG(m.sentiment) AS ${alias('avgSentiment')}`,
+    `COUNT(m.sentiment) AS ${alias('countSentiment')}`,
+    `SUM(CASE WHEN m.sentiment <= ${NEGATIVE_SENTIMENT_MAX} THEN 1 ELSE 0 END) AS ${alias('negativeSentiment')}`,
+    `SUM(CASE WHEN m.sentiment >= ${POSITIVE_SENTIMENT_MIN} THEN 1 ELSE 0 END) AS ${alias('positiveSentiment')}`,
+  ].join(',\n');
+}
+
+export type SentimentAggregateRow = Record<
+  'avgSentiment' | 'countSentiment' | 'negativeSentiment' | 'positiveSentiment',
+  AggregateValue
+>;
+
+export function mapSentimentAggregates(row: SentimentAggregateRow): SentimentSummary {
+  return {
+    average: average(row.avgSentiment),
+    responsesCount: Number(row.countSentiment ?? 0),
+    negativeCount: Number(row.negativeSentiment ?? 0),
+    positiveCount: Number(row.positiveSentiment ?? 0),
+  };
+}
+
+type DailyStatsKind = 'count' | 'sum' | 'timestamp';
+
+/**
+ * Columns of `project_daily_stats`, which keeps the sums behind `surveyMetricAggregatesSql` and
+ * `sentimentAggregatesSql` per project and survey date. Admin statistics add up these few rows per project instead of
+ * pivoting every answer through `survey_metrics`. `value` aggregates the column over surveys `s` joined with `m`.
+ *
+ * Distinct respondents have no column: they do not add up across days, and a per-day list of them would hold a row
+ * for every submitted survey, as an employee answers a project once a day. They are counted from `surveys` through
+ * the `idx_surveys_project_date` index instead.
+ */
+const DAILY_STATS_COLUMNS: Array<{ column: string; kind: DailyStatsKind; value: string }> = [
+  { column: 'responses_count', kind: 'count', value: 'COUNT(s.id)' },
+  { column: 'last_response_at', kind: 'timestamp', value: 'MAX(s.created_at)' },
+  ...RATING_AGGREGATES.flatMap(({ column }): Array<{ column: string; kind: DailyStatsKind; value: string }> => [
+    { column: `sum_${column}`, kind: 'sum', value: `SUM(m.${column})` },
+    { column: `count_${column}`, kind: 'count', value: `COUNT(m.${column})` },
+    { column: `sum_square_${column}`, kind: 'sum', value: `SUM(m.${column} * m.${column})` },
+  ]),
+  {
+    column: 'contribution_yes',
+    kind: 'count',
+    value: "SUM(CASE WHEN m.contribution_valued = 'yes' THEN 1 ELSE 0 END)",
+  },
+  {
+    column: 'contribution_partial',
+    kind: 'count',
+    value: "SUM(CASE WHEN m.contribution_valued = 'partial' THEN 1 ELSE 0 END)",
+  },
+  {
+    column: 'contribution_no',
+    kind: 'count',
+    value: "SUM(CASE WHEN m.contribution_valued = 'no' THEN 1 ELSE 0 END)",
+  },
+  {
+    column: 'nps_promoters',
+    kind: 'count',
+    value: `SUM(CASE WHEN m.project_recommendation >= ${NPS_PROMOTER_MIN} THEN 1 ELSE 0 END)`,
+  },
+  {
+    column: 'nps_passives',
+    kind: 'count',
+    value: `SUM(CASE WHEN m.project_recommendation BETWEEN ${NPS_DETRACTOR_MAX + 1} AND ${NPS_PROMOTER_MIN - 1}
+      THEN 1 ELSE 0 END)`,
+  },
+  {
+    column: 'nps_detractors',
+    kind: 'count',
+    value: `SUM(CASE WHEN m.project_recommendation <= ${NPS_DETRACTOR_MAX} THEN 1 ELSE 0 END)`,
+  },
+  { column: 'sentiment_sum', kind: 'sum', value: 'SUM(m.sentiment)' },
+  { column: 'sentiment_count', kind: 'count', value: 'COUNT(m.sentiment)' },
+  {
+    column: 'sentiment_negative',
+    kind: 'count',
+    value: `SUM(CASE WHEN m.sentiment <= ${NEGATIVE_SENTIMENT_MAX} THEN 1 ELSE 0 END)`,
+  },
+  {
+    column: 'sentiment_positive',
+    kind: 'count',
+    value: `SUM(CASE WHEN m.sentiment >= ${POSITIVE_SENTIMENT_MIN} THEN 1 ELSE 0 END)`,
+  },
+];
+
+/** `CREATE TABLE` of `project_daily_stats`; `types` maps the key and value kinds to the dialect's column types. */
+export function projectDailyStatsTableSql(types: Record<'projectId' | 'date' | DailyStatsKind, string>): string {
+  const columns = DAILY_STATS_COLUMNS.map(({ column, kind }) => `${column} ${types[kind]}`);
+
+  return `
+    CREATE TABLE IF NOT EXISTS project_daily_stats (
+      project_id ${types.projectId},
+      survey_date ${types.date} NOT NULL,
+      ${columns.join(',\n      ')},
+      PRIMARY KEY (project_id, survey_date)
+    )
+  `;
+}
+
+/** Value columns of `project_daily_stats`, in the order of `projectDailyStatsValuesSql`. */
+export const PROJECT_DAILY_STATS_COLUMNS = DAILY_STATS_COLUMNS.map(({ column }) => column).join(', ');
+
+/** Aggregates computing the value columns of `project_daily_stats` over surveys `s` joined with `m`. */
+export function projectDailyStatsValuesSql(): string {
+  return DAILY_STATS_COLUMNS.map(({ value }) => value).join(',\n');
+}
+
+/** `ON CONFLICT DO UPDATE` assignments replacing every value column of a `project_daily_stats` row. */
+export function projectDailyStatsUpdateSql(): string {
+  return DAILY_STATS_COLUMNS.map(({ column }) => `${column} = excluded.${column}`).join(',\n');
+}
+
+/**
+ * `surveyMetricAggregatesSql` over the `project_daily_stats` rows joined as `d`: means are re-derived from the summed
+ * values and answer counts, so `mapSurveyMetricAggregates` reads both alike.
+ */
+export function dailyMetricAggregatesSql(alias: (name: string) => string = (name) => name): string {
+  return [
+    ...RATING_AGGREGATES.flatMap(({ column, suffix }) => [
+      `SUM(d.sum_${column}) / NULLIF(SUM(d.count_${column}), 0) AS ${alias(`avg${suffix}`)}`,
+      `SUM(d.count_${column}) AS ${alias(`count${suffix}`)}`,
+      `SUM(d.sum_square_${column}) / NULLIF(SUM(d.count_${column}), 0) AS ${alias(`avgSquare${suffix}`)}`,
+    ]),
+    `SUM(d.contribution_yes) AS ${alias('contributionYes')}`,
+    `SUM(d.contribution_partial) AS ${alias('contributionPartial')}`,
+    `SUM(d.contribution_no) AS ${alias('contributionNo')}`,
+    `SUM(d.nps_promoters) AS ${alias('npsPromoters')}`,
+    `SUM(d.nps_passives) AS ${alias('npsPassives')}`,
+    `SUM(d.nps_detractors) AS ${alias('npsDetractors')}`,
+  ].join(',\n');
+}
+
+/** `sentimentAggregatesSql` over the `project_daily_stats` rows joined as `d`. */
+export function dailySentimentAggregatesSql(alias: (name: string) => string = (name) => name): string {
+  return [
+    `SUM(d.sentiment_sum) / NULLIF(SUM(d.sentiment_count), 0) AS ${alias('avgSentiment')}`,
+    `SUM(d.sentiment_count) AS ${alias('countSentiment')}`,
+    `SUM(d.sentiment_negative) AS ${alias('negativeSentiment')}`,
+    `SUM(d.sentiment_positive) AS ${alias('positiveSentiment')}`,
+  ].join(',\n');
+}
+
+/**
+ * Whether `project_daily_stats` can answer `filter`. The daily sums keep survey dates but not individual scores or
+ * respondents, so any other filter falls back to the surveys themselves.
+ */
+export function coveredByDailyStats(filter: AnalyticsFilter): boolean {
+  return (
+    filter.scoreMin === undefined &&
+    filter.scoreMax === undefined &&
+    filter.contribution === undefined &&
+    filter.respondentId === undefined
+  );
+}
+
+/** Statistics of a project or period without submitted answers. */
+export function emptySurveyMetricSummary(): SurveyMetricSummary {
+  return mapSurveyMetricAggregates({} as SurveyMetricAggregateRow);
+}
+
+/**
+ * Participation of a project's expected employees. `respondents` counts everyone who answered, `listedRespondents`
+ * only those on the project's respondent list of `listSize` employees.
+ */
+export function participationStats(input: {
+  headcount: number | null;
+  listSize: number;
+  respondents: number;
+  listedRespondents: number;
+}): ParticipationStats {
+  const hasList = input.listSize > 0;
+  const expected = hasList ? input.listSize : input.headcount;
+  const responded = hasList ? input.listedRespondents : input.respondents;
+
+  return { expected, responded, rate: expected ? Math.min(responded / expected, 1) : null };
+}
+
+/** Share of promoters minus share of detractors, in whole percentage points; `null` without answers. */
+export function enpsScore({ promoters, passives, detractors }: NpsBreakdown): number | null {
+  const total = promoters + passives + detractors;
+  if (total === 0) {
+    return null;
+  }
+
+  return Math.round(((promoters - detractors) * 100) / total);
+}
+
+/** eNPS from which a project counts as healthy; below zero it is critical. */
+export const HEALTHY_ENPS_MIN = 30;
+
+export function projectHealthBand(enps: number | null): ProjectHealthBand {
+  if (enps === null) {
+    return 'noData';
+  }
+  if (enps >= HEALTHY_ENPS_MIN) {
+    return 'healthy';
+  }
+  return enps >= 0 ? 'attention' : 'critical';
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function addDays(day: string, days: number): string {
+  return new Date(Date.parse(`${day}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+/** Monday of the UTC week containing `date`, as `YYYY-MM-DD`. */
+export function weekStart(date: Date): string {
+  const daysSinceMonday = (date.getUTCDay() + 6) % 7;
+  return addDays(date.toISOString().slice(0, 10), -daysSinceMonday);
+}
+
+/**
+ * The latest week of `filter` — the one containing its `to` date, or the current week — and the week before it,
+ * each narrowed to the filter's date range.
+ */
+export function weekOverWeekFilters(
+  filter: AnalyticsFilter,
+  now: Date = new Date(),
+): { weekStart: string; previousWeekStart: string; current: AnalyticsFilter; previous: AnalyticsFilter } {
+  const current = weekStart(filter.to ? new Date(`${filter.to}T00:00:00Z`) : now);
+  const previous = addDays(current, -7);
+  const within = (from: string, to: string): AnalyticsFilter => ({
+    ...filter,
+    from: filter.from && filter.from > from ? filter.from : from,
+    to: filter.to && filter.to < to ? filter.to : to,
+  });
+
+  return {
+    weekStart: current,
+    previousWeekStart: previous,
+    current: within(current, addDays(current, 6)),
+    previous: within(previous, addDays(current, -1)),
+  };
+}
+
+function metricDelta(current: number | null, previous: number | null): MetricDelta {
+  return { current, previous, delta: current === null || previous === null ? null : current - previous };
+}
+
+/** eNPS and average rating changes from `previous` to `current`, each marked significant or noise. */
+export function surveyMetricChanges(current: SurveyMetricSummary, previous: SurveyMetricSummary): SurveyMetricChanges {
+  const averageDelta = (key: SurveyAverageKey) =>
+    scoreDelta(
+      current.averages[key],
+      previous.averages[key],
+      current.confidence.averages[key],
+      previous.confidence.averages[key],
+    );
+
+  return {
+    enps: scoreDelta(current.enps, previous.enps, current.confidence.enps, previous.confidence.enps),
+    averages: {
+      projectRecommendation: averageDelta('projectRecommendation'),
+      managerEffectiveness: averageDelta('managerEffectiveness'),
+      teamComfort: averageDelta('teamComfort'),
+      processOrganization: averageDelta('processOrganization'),
+    },
+  };
+}
+
+/** Attaches to each trend period its change since the one before; periods are expected oldest first. */
+export function withPeriodChanges<T extends SurveyMetricSummary>(
+  periods: T[],
+): Array<T & { change: SurveyMetricChanges | null }> {
+  return periods.map((period, index) => {
+    const previous = periods[index - 1];
+    return { ...period, change: previous ? surveyMetricChanges(period, previous) : null };
+  });
+}
+
+/** Portfolio overview from the totals over all projects, the per-project statistics and the latest two weeks. */
+export function summarizePortfolio(input: {
+  totals: PortfolioTotals;
+  projects: AdminProjectStats[];
+  weekStart: string;
+  previousWeekStart: string;
+  currentWeek: PortfolioTotals;
+  previousWeek: PortfolioTotals;
+}): AdminPortfolioStats {
+  const { totals, projects, currentWeek, previousWeek } = input;
+  const healthBands: Record<ProjectHealthBand, number> = { healthy: 0, attention: 0, critical: 0, noData: 0 };
+  projects.forEach((project) => {
+    healthBands[projectHealthBand(project.enps)] += 1;
+  });
+
+  return {
+    ...totals,
+    projectsCount: projects.length,
+    healthBands,
+    weekOverWeek: {
+      weekStart: input.weekStart,
+      previousWeekStart: input.previousWeekStart,
+      responsesCount: metricDelta(currentWeek.responsesCount, previousWeek.responsesCount),
+      ...surveyMetricChanges(currentWeek, previousWeek),
+    },
+  };
+}
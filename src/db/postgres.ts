@@ -1,36 +1,178 @@
-import { Pool, PoolConfig } from 'pg';
-import { ContributionValue, SurveyAnswers, SurveyRecord, TelegramUser } from '../types';
+import { Pool, PoolClient, PoolConfig } from 'pg';
 import {
+  AnswerChange,
+  EditPolicy,
+  Language,
+  QuestionCondition,
+  QuestionDefinition,
+  QuestionOption,
+  QuestionType,
+  ProjectQuestionnaireMode,
+  Questionnaire,
+  QuestionSeed,
+  QuestionTranslation,
+  SurveyAnswers,
+  SurveyRecord,
+  SurveyRevision,
+  TelegramUser,
+} from '../types';
+import { decodeAnswer, encodeAnswer } from '../questionnaire/answers';
+import { projectQuestionnaireCode, withExtension } from '../questionnaire/effective';
+import {
+  DEFAULT_QUESTIONNAIRE_CODE,
+  DEFAULT_QUESTIONNAIRE_TITLE,
+  DEFAULT_QUESTIONS,
+  LEGACY_ANSWER_COLUMNS,
+} from '../questionnaire/defaults';
+import { scoreSentiment } from '../textAnalytics/sentiment';
+import { DEFAULT_EDIT_WINDOW_HOURS, editableUntil } from './editPolicy';
+import {
+  analyticsFilterConditions,
+  coveredByDailyStats,
+  dailyMetricAggregatesSql,
+  dailySentimentAggregatesSql,
+  dateRangeConditions,
+  mapSentimentAggregates,
+  mapSurveyMetricAggregates,
+  participationStats,
+  PROJECT_DAILY_STATS_COLUMNS,
+  projectDailyStatsTableSql,
+  projectDailyStatsUpdateSql,
+  projectDailyStatsValuesSql,
+  RESPONSE_ORDER_SQL,
+  SentimentAggregateRow,
+  sentimentAggregatesSql,
+  SurveyMetricAggregateRow,
+  surveyMetricAggregatesSql,
+  surveyMetricsViewSql,
+  withPeriodChanges,
+} from './metrics';
+import { answerChange, RevisionAuthor } from './revisions';
+import {
+  AdminManagerStats,
   AdminProjectStats,
   AdminSurveyRecord,
+  AlertCandidate,
+  AlertListFilter,
+  AlertStatus,
+  AnalyticsFilter,
+  ContributionWeekCounts,
   DatabaseAdapter,
+  DriverSample,
+  ExpectedRespondents,
+  Manager,
+  ManagerTrendPeriod,
+  NewQuestionnaireVersion,
+  PortfolioTotals,
+  ProjectAlert,
+  ProjectQuestionnaireInput,
   ProjectSummary,
+  ProjectTrendPeriod,
+  ResponseOrder,
   SurveyCreationResult,
+  TrendGranularity,
 } from './types';
 
-const ONE_DAY_MS = 24 * 60 * 60 * 1000;
-
 type SurveyRow = {
-  id: number;
-  user_id: number;
-  project_id: number;
+  id: number | string;
+  user_id: number | string;
+  project_id: number | string;
   project_name: string;
+  questionnaire_id: number | string | null;
+  questionnaire_version: number | null;
+  extension_questionnaire_id: number | string | null;
   survey_date: string;
-  project_recommendation: number | null;
-  project_improvement: string | null;
-  manager_effectiveness: number | null;
-  manager_improvement: string | null;
-  team_comfort: number | null;
-  team_improvement: string | null;
-  process_organization: number | null;
-  process_obstacles: string | null;
-  contribution_valued: ContributionValue | null;
-  improvement_ideas: string | null;
   created_at: string;
   updated_at: string;
+  submitted_at: string | null;
+  last_step: number | null;
+  unlocked_until: string | null;
+  edit_policy: EditPolicy;
+  edit_window_hours: number;
+};
+
+type QuestionRow = {
+  id: number | string;
+  questionnaire_id: number | string;
+  key: string;
+  position: number;
+  type: QuestionType;
+  title: string;
+  short_title: string | null;
+  description: string | null;
+  placeholder: string | null;
+  options: QuestionOption[] | null;
+  matrix_rows: QuestionOption[] | null;
+  show_if: QuestionCondition | null;
+  translations: Partial<Record<Language, QuestionTranslation>> | null;
+  required: boolean;
+  comparable: boolean;
+};
+
+type QuestionnaireRow = {
+  id: number | string;
+  code: string;
+  version: number;
+  title: string;
+  created_at: string;
+};
+
+type AnswerRow = {
+  survey_id: number | string;
+  key: string;
+  type: QuestionType;
+  numeric_value: number | null;
+  text_value: string | null;
+};
+
+type RevisionRow = {
+  id: number | string;
+  survey_id: number | string;
+  actor: SurveyRevision['actor'];
+  actor_id: number | string | null;
+  changes: AnswerChange[];
+  reverted_revision_id: number | string | null;
+  created_at: string;
+};
+
+type AlertRow = {
+  id: number | string;
+  project_id: number | string;
+  project_name: string;
+  metric: ProjectAlert['metric'];
+  severity: ProjectAlert['severity'];
+  status: AlertStatus;
+  window_start: string;
+  window_end: string;
+  recent_value: number;
+  baseline_value: number;
+  recent_count: number | string;
+  baseline_count: number | string;
+  created_at: string;
+  updated_at: string;
+  acknowledged_at: string | null;
+  resolved_at: string | null;
 };
 
-type ProjectSummaryRow = {
+const ALERT_SELECT = `
+  SELECT
+    a.id, a.project_id, p.name AS project_name, a.metric, a.severity, a.status,
+    a.window_start::text AS window_start, a.window_end::text AS window_end,
+    a.recent_value, a.baseline_value, a.recent_count, a.baseline_count,
+    a.created_at, a.updated_at, a.acknowledged_at, a.resolved_at
+  FROM project_alerts a
+  JOIN projects p ON p.id = a.project_id
+`;
+
+type ProjectSettingsColumns = {
+  questionnaireMode: ProjectQuestionnaireMode | null;
+  questionnaireOverrideId: number | string | null;
+  editPolicy: EditPolicy | null;
+  editWindowHours: number | string | null;
+  managerId: number | string | null;
+};
+
+type ProjectSummaryRow = ProjectSettingsColumns & {
   id: number | string;
   name: string;
   createdAt: string;
@@ -38,20 +180,67 @@ type ProjectSummaryRow = {
   lastResponseAt: string | null;
 };
 
-type AdminProjectRow = {
+type AdminProjectRow = ProjectSettingsColumns & SurveyMetricAggregateRow & SentimentAggregateRow & {
   id: number | string;
   name: string;
   createdAt: string;
   responsesCount: string | number | null;
   lastResponseAt: string | null;
   uniqueRespondents: string | number | null;
-  avgProjectRecommendation: string | number | null;
-  avgManagerEffectiveness: string | number | null;
-  avgTeamComfort: string | number | null;
-  avgProcessOrganization: string | number | null;
-  contributionYes: string | number | null;
-  contributionPartial: string | number | null;
-  contributionNo: string | number | null;
+  listedRespondents: string | number | null;
+  expectedHeadcount: number | null;
+  respondentListSize: string | number;
+};
+
+type PortfolioTotalsRow = SurveyMetricAggregateRow & {
+  responsesCount: string | number;
+  uniqueRespondents: string | number;
+};
+
+type ProjectTrendRow = SurveyMetricAggregateRow & {
+  periodStart: string;
+  responsesCount: string | number;
+  uniqueRespondents: string | number;
+  listedRespondents: string | number;
+};
+
+type ContributionWeekRow = {
+  projectId: number | string;
+  projectName: string;
+  weekStart: string;
+  yesCount: string | number;
+  partialCount: string | number;
+  noCount: string | number;
+  respondentsCount: string | number;
+};
+
+type ManagerRow = {
+  id: number | string;
+  name: string;
+  createdAt: string;
+};
+
+type ManagerStatsRow = ManagerRow & SurveyMetricAggregateRow & {
+  responsesCount: string | number;
+  uniqueRespondents: string | number;
+};
+
+type ManagerTrendRow = SurveyMetricAggregateRow & {
+  managerId: number | string;
+  periodStart: string;
+  responsesCount: string | number;
+  uniqueRespondents: string | number;
+};
+
+type DriverSampleRow = Omit<DriverSample, 'projectId'> & {
+  projectId: number | string;
+};
+
+type AdminResponseRow = SurveyRow & {
+  first_name: string;
+  last_name: string | null;
+  username: string | null;
+  sentiment: number | null;
 };
 
 type ProjectStatsRow = {
@@ -59,41 +248,40 @@ type ProjectStatsRow = {
   lastResponseAt: string | null;
 };
 
-const surveyFieldToColumn: Record<keyof SurveyAnswers, string> = {
-  projectRecommendation: 'project_recommendation',
-  projectImprovement: 'project_improvement',
-  managerEffectiveness: 'manager_effectiveness',
-  managerImprovement: 'manager_improvement',
-  teamComfort: 'team_comfort',
-  teamImprovement: 'team_improvement',
-  processOrganization: 'process_organization',
-  processObstacles: 'process_obstacles',
-  contributionValued: 'contribution_valued',
-  improvementIdeas: 'improvement_ideas',
-};
-
-const completedSurveyColumns = [
-  'project_recommendation',
-  'project_improvement',
-  'manager_effectiveness',
-  'manager_improvement',
-  'team_comfort',
-  'team_improvement',
-  'process_organization',
-  'process_obstacles',
-  'contribution_valued',
-  'improvement_ideas',
-] as const;
-
-function completedSurveyCondition(alias?: string): string {
-  const prefix = alias ? `${alias}.` : '';
-  return completedSurveyColumns.map((column) => `${prefix}${column} IS NOT NULL`).join(' AND ');
+// Statistics only count surveys the respondent explicitly submitted.
+function submittedSurveyCondition(alias: string): string {
+  return `${alias}.submitted_at IS NOT NULL`;
 }
 
-function isSurveyRowComplete(row: SurveyRow): boolean {
-  return completedSurveyColumns.every((column) => row[column] !== null);
+/** Surveys with every unconditional required question answered; used to backfill `submitted_at`. */
+function requiredAnswersCondition(alias: string): string {
+  return `NOT EXISTS (
+    SELECT 1
+    FROM questions rq
+    WHERE rq.questionnaire_id IN (${alias}.questionnaire_id, ${alias}.extension_questionnaire_id)
+      AND rq.required
+      AND rq.show_if IS NULL
+      AND NOT EXISTS (
+        SELECT 1 FROM survey_answers ra WHERE ra.survey_id = ${alias}.id AND ra.question_id = rq.id
+      )
+  )`;
 }
 
+// pg parses DATE columns into local-midnight Dates; `survey_date` is re-selected as text and, coming after `s.*`,
+// replaces that value in the row, so surveys carry the same YYYY-MM-DD string as in SQLite.
+const SURVEY_SELECT = `
+  SELECT
+    s.*,
+    s.survey_date::text AS survey_date,
+    p.name AS project_name,
+    p.edit_policy,
+    p.edit_window_hours,
+    qn.version AS questionnaire_version
+  FROM surveys s
+  JOIN projects p ON p.id = s.project_id
+  LEFT JOIN questionnaires qn ON qn.id = s.questionnaire_id
+`;
+
 function createPool(databaseUrl: string): Pool {
   const url = new URL(databaseUrl);
   const sslRequired = !['localhost', '127.0.0.1'].includes(url.hostname);
@@ -106,41 +294,98 @@ function createPool(databaseUrl: string): Pool {
   return new Pool(config);
 }
 
-function mapSurveyRow(row: SurveyRow): SurveyRecord {
+function mapSurveyRow(row: SurveyRow, answers: SurveyAnswers = {}): SurveyRecord {
   const createdAt = row.created_at;
   const updatedAt = row.updated_at;
-  const editable = Date.now() - new Date(createdAt).getTime() <= ONE_DAY_MS;
+  const deadline = editableUntil({
+    policy: row.edit_policy,
+    windowHours: Number(row.edit_window_hours),
+    surveyDate: row.survey_date,
+    submittedAt: row.submitted_at,
+    unlockedUntil: row.unlocked_until,
+  });
 
   return {
-    id: row.id,
-    userId: row.user_id,
-    projectId: row.project_id,
+    id: Number(row.id),
+    userId: Number(row.user_id),
+    projectId: Number(row.project_id),
     projectName: row.project_name,
+    questionnaireId: Number(row.questionnaire_id),
+    questionnaireVersion: row.questionnaire_version ?? 1,
+    extensionQuestionnaireId: row.extension_questionnaire_id === null ? null : Number(row.extension_questionnaire_id),
     surveyDate: row.survey_date,
-    projectRecommendation: nullableNumber(row.project_recommendation),
-    projectImprovement: row.project_improvement ?? undefined,
-    managerEffectiveness: nullableNumber(row.manager_effectiveness),
-    managerImprovement: row.manager_improvement ?? undefined,
-    teamComfort: nullableNumber(row.team_comfort),
-    teamImprovement: row.team_improvement ?? undefined,
-    processOrganization: nullableNumber(row.process_organization),
-    processObstacles: row.process_obstacles ?? undefined,
-    contributionValued: row.contribution_valued ?? undefined,
-    improvementIdeas: row.improvement_ideas ?? undefined,
+    answers,
     createdAt,
     updatedAt,
-    canEdit: editable,
-    isComplete: isSurveyRowComplete(row),
+    canEdit: deadline === null || Date.now() < deadline.getTime(),
+    editableUntil: deadline?.toISOString() ?? null,
+    submittedAt: row.submitted_at,
+    lastStep: row.last_step,
   };
 }
 
-function nullableNumber(value: number | string | null): number | undefined {
-  if (value === null || value === undefined) {
-    return undefined;
-  }
+function mapRevisionRow(row: RevisionRow): SurveyRevision {
+  return {
+    id: Number(row.id),
+    surveyId: Number(row.survey_id),
+    actor: row.actor,
+    actorId: row.actor_id === null ? null : Number(row.actor_id),
+    createdAt: row.created_at,
+    changes: row.changes,
+    revertedRevisionId: row.reverted_revision_id === null ? null : Number(row.reverted_revision_id),
+  };
+}
+
+function mapAlertRow(row: AlertRow): ProjectAlert {
+  return {
+    id: Number(row.id),
+    projectId: Number(row.project_id),
+    projectName: row.project_name,
+    metric: row.metric,
+    severity: row.severity,
+    status: row.status,
+    windowStart: row.window_start,
+    windowEnd: row.window_end,
+    recentValue: Number(row.recent_value),
+    baselineValue: Number(row.baseline_value),
+    recentCount: Number(row.recent_count),
+    baselineCount: Number(row.baseline_count),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    acknowledgedAt: row.acknowledged_at,
+    resolvedAt: row.resolved_at,
+  };
+}
+
+function mapQuestionRow(row: QuestionRow): QuestionDefinition {
+  return {
+    id: Number(row.id),
+    key: row.key,
+    type: row.type,
+    title: row.title,
+    shortTitle: row.short_title ?? undefined,
+    description: row.description ?? undefined,
+    placeholder: row.placeholder ?? undefined,
+    options: row.options ?? undefined,
+    rows: row.matrix_rows ?? undefined,
+    showIf: row.show_if ?? undefined,
+    translations: row.translations ?? undefined,
+    required: row.required,
+    comparable: row.comparable,
+  };
+}
 
-  const parsed = Number(value);
-  return Number.isFinite(parsed) ? parsed : undefined;
+function mapProjectSettingsColumns(row: ProjectSettingsColumns): Pick<
+  ProjectSummary,
+  'questionnaireMode' | 'questionnaireOverrideId' | 'editPolicy' | 'editWindowHours' | 'managerId'
+> {
+  return {
+    questionnaireMode: row.questionnaireMode ?? null,
+    questionnaireOverrideId: row.questionnaireOverrideId === null ? null : Number(row.questionnaireOverrideId),
+    editPolicy: row.editPolicy ?? 'hours',
+    editWindowHours: Number(row.editWindowHours ?? DEFAULT_EDIT_WINDOW_HOURS),
+    managerId: row.managerId === null ? null : Number(row.managerId),
+  };
 }
 
 function formatDate(date: Date): string {
@@ -150,7 +395,397 @@ function formatDate(date: Date): string {
 export function createPostgresAdapter(databaseUrl: string): DatabaseAdapter {
   const pool = createPool(databaseUrl);
 
+  async function withTransaction<T>(fn: (client: PoolClient) => Promise<T>): Promise<T> {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      const result = await fn(client);
+      await client.query('COMMIT');
+      return result;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /** Serialises publication of versions of the same questionnaire so version numbers stay gapless. */
+  async function lockQuestionnaireCode(client: PoolClient, code: string): Promise<void> {
+    await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [`questionnaire:${code}`]);
+  }
+
+  async function insertQuestionnaireVersion(
+    client: PoolClient,
+    code: string,
+    title: string,
+    questions: QuestionSeed[],
+  ): Promise<number> {
+    const inserted = await client.query<{ id: string }>(
+      `INSERT INTO questionnaires (code, version, title)
+       SELECT $1, COALESCE(MAX(version), 0) + 1, $2 FROM questionnaires WHERE code = $1
+       RETURNING id`,
+      [code, title],
+    );
+    const questionnaireId = Number(inserted.rows[0]!.id);
+
+    for (const [index, question] of questions.entries()) {
+      await client.query(
+        `INSERT INTO questions (
+           questionnaire_id, key, position, type, title, short_title, description, placeholder, options,
+           matrix_rows, show_if, translations, required, comparable
+         )
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)`,
+        [
+          questionnaireId,
+          question.key,
+          index,
+          question.type,
+          question.title,
+          question.shortTitle ?? null,
+          question.description ?? null,
+          question.placeholder ?? null,
+          question.options ? JSON.stringify(question.options) : null,
+          question.rows ? JSON.stringify(question.rows) : null,
+          question.showIf ? JSON.stringify(question.showIf) : null,
+          question.translations ? JSON.stringify(question.translations) : null,
+          question.required,
+          question.comparable !== false,
+        ],
+      );
+    }
+
+    return questionnaireId;
+  }
+
+  async function latestQuestionnaireId(client: Pool | PoolClient = pool): Promise<number | undefined> {
+    const { rows } = await client.query<{ id: string }>(
+      'SELECT id FROM questionnaires WHERE code = $1 ORDER BY version DESC LIMIT 1',
+      [DEFAULT_QUESTIONNAIRE_CODE],
+    );
+
+    return rows[0] ? Number(rows[0].id) : undefined;
+  }
+
+  /** Adds the bundled translations to standard questions published before translations existed, if unreworded. */
+  async function backfillDefaultTranslations(): Promise<void> {
+    for (const question of DEFAULT_QUESTIONS) {
+      if (!question.translations) {
+        continue;
+      }
+
+      await pool.query(
+        `UPDATE questions
+         SET translations = $1
+         WHERE translations IS NULL
+           AND key = $2
+           AND title = $3
+           AND questionnaire_id IN (SELECT id FROM questionnaires WHERE code = $4)`,
+        [JSON.stringify(question.translations), question.key, question.title, DEFAULT_QUESTIONNAIRE_CODE],
+      );
+    }
+  }
+
+  /** Scores free-text answers stored before sentiment was, including those just moved from legacy columns. */
+  async function backfillAnswerSentiment(): Promise<void> {
+    const { rows } = await pool.query<{ survey_id: string; question_id: string; text_value: string }>(
+      `SELECT a.survey_id, a.question_id, a.text_value
+       FROM survey_answers a
+       JOIN questions q ON q.id = a.question_id
+       WHERE q.type = 'text' AND a.sentiment IS NULL AND a.text_value IS NOT NULL`,
+    );
+    if (!rows.length) {
+      return;
+    }
+
+    await pool.query(
+      `UPDATE survey_answers a
+       SET sentiment = scored.sentiment
+       FROM UNNEST($1::bigint[], $2::bigint[], $3::double precision[]) AS scored(survey_id, question_id, sentiment)
+       WHERE a.survey_id = scored.survey_id AND a.question_id = scored.question_id`,
+      [
+        rows.map((row) => row.survey_id),
+        rows.map((row) => row.question_id),
+        rows.map((row) => scoreSentiment(row.text_value)),
+      ],
+    );
+  }
+
+  async function seedDefaultQuestionnaire(): Promise<number> {
+    const existing = await latestQuestionnaireId();
+    if (existing !== undefined) {
+      return existing;
+    }
+
+    return withTransaction(async (client) => {
+      await lockQuestionnaireCode(client, DEFAULT_QUESTIONNAIRE_CODE);
+
+      const concurrent = await latestQuestionnaireId(client);
+      if (concurrent !== undefined) {
+        return concurrent;
+      }
+
+      return insertQuestionnaireVersion(client, DEFAULT_QUESTIONNAIRE_CODE, DEFAULT_QUESTIONNAIRE_TITLE, DEFAULT_QUESTIONS);
+    });
+  }
+
+  /**
+   * Moves answers from the fixed per-question columns of the original `surveys` table into
+   * `survey_answers` and drops those columns.
+   */
+  async function migrateLegacyAnswerColumns(questionnaireId: number): Promise<void> {
+    const { rows } = await pool.query<{ column_name: string }>(
+      `SELECT column_name
+       FROM information_schema.columns
+       WHERE table_schema = current_schema() AND table_name = 'surveys'`,
+    );
+    const columns = rows.map((row) => row.column_name);
+
+    if (!columns.includes('project_recommendation')) {
+      return;
+    }
+
+    const legacyColumns = LEGACY_ANSWER_COLUMNS.filter(({ column }) => columns.includes(column));
+
+    await withTransaction(async (client) => {
+      for (const { key, column, kind } of legacyColumns) {
+        const numericValue = kind === 'numeric' ? `s.${column}` : 'NULL';
+        const textValue = kind === 'text' ? `TRIM(s.${column})` : 'NULL';
+        const filter = kind === 'text' ? `TRIM(s.${column}) <> ''` : `s.${column} IS NOT NULL`;
+
+        await client.query(
+          `INSERT INTO survey_answers (survey_id, question_id, numeric_value, text_value, updated_at)
+           SELECT s.id, q.id, ${numericValue}, ${textValue}, s.updated_at
+           FROM surveys s
+           JOIN questions q ON q.questionnaire_id = $1 AND q.key = $2
+           WHERE ${filter}
+           ON CONFLICT (survey_id, question_id) DO NOTHING`,
+          [questionnaireId, key],
+        );
+      }
+
+      await client.query(
+        `ALTER TABLE surveys ${legacyColumns.map(({ column }) => `DROP COLUMN IF EXISTS ${column}`).join(', ')}`,
+      );
+    });
+  }
+
+  async function activeQuestionnaireId(): Promise<number> {
+    return seedDefaultQuestionnaire();
+  }
+
+  async function mapQuestionnaireRow(row: QuestionnaireRow, client: Pool | PoolClient = pool): Promise<Questionnaire> {
+    const questions = await client.query<QuestionRow>(
+      'SELECT * FROM questions WHERE questionnaire_id = $1 ORDER BY position ASC, id ASC',
+      [row.id],
+    );
+
+    return {
+      id: Number(row.id),
+      code: row.code,
+      version: row.version,
+      title: row.title,
+      createdAt: row.created_at,
+      questions: questions.rows.map(mapQuestionRow),
+    };
+  }
+
+  async function loadQuestionnaire(id: number, client: Pool | PoolClient = pool): Promise<Questionnaire | undefined> {
+    const { rows } = await client.query<QuestionnaireRow>('SELECT * FROM questionnaires WHERE id = $1', [id]);
+    const row = rows[0];
+    return row ? mapQuestionnaireRow(row, client) : undefined;
+  }
+
+  async function loadSurveyQuestionnaire(
+    questionnaireId: number,
+    extensionId: number | null,
+    client: Pool | PoolClient = pool,
+  ): Promise<Questionnaire | undefined> {
+    const base = await loadQuestionnaire(questionnaireId, client);
+    return base && withExtension(base, extensionId === null ? undefined : await loadQuestionnaire(extensionId, client));
+  }
+
+  /** Questionnaire ids a new survey in the project is pinned to. */
+  async function projectSurveyQuestionnaireIds(
+    projectId: number,
+  ): Promise<{ questionnaireId: number; extensionId: number | null } | undefined> {
+    const { rows } = await pool.query<{
+      questionnaire_mode: ProjectQuestionnaireMode | null;
+      questionnaire_id: string | null;
+    }>('SELECT questionnaire_mode, questionnaire_id FROM projects WHERE id = $1', [projectId]);
+
+    const project = rows[0];
+    if (!project) {
+      return undefined;
+    }
+
+    if (project.questionnaire_id === null || project.questionnaire_mode === null) {
+      return { questionnaireId: await activeQuestionnaireId(), extensionId: null };
+    }
+
+    const overrideId = Number(project.questionnaire_id);
+    return project.questionnaire_mode === 'replace'
+      ? { questionnaireId: overrideId, extensionId: null }
+      : { questionnaireId: await activeQuestionnaireId(), extensionId: overrideId };
+  }
+
+  async function loadAnswers(surveyIds: number[]): Promise<Map<number, SurveyAnswers>> {
+    const answers = new Map<number, SurveyAnswers>();
+    if (!surveyIds.length) {
+      return answers;
+    }
+
+    const { rows } = await pool.query<AnswerRow>(
+      `SELECT a.survey_id, q.key, q.type, a.numeric_value, a.text_value
+       FROM survey_answers a
+       JOIN questions q ON q.id = a.question_id
+       WHERE a.survey_id = ANY($1::bigint[])`,
+      [surveyIds],
+    );
+
+    rows.forEach((row) => {
+      const value = decodeAnswer(row.type, row.numeric_value, row.text_value);
+      if (value === undefined) {
+        return;
+      }
+
+      const surveyId = Number(row.survey_id);
+      const surveyAnswers = answers.get(surveyId) ?? {};
+      surveyAnswers[row.key] = value;
+      answers.set(surveyId, surveyAnswers);
+    });
+
+    return answers;
+  }
+
+  async function mapSurveyRows<T extends SurveyRow>(rows: T[]): Promise<Array<{ row: T; record: SurveyRecord }>> {
+    const answers = await loadAnswers(rows.map((row) => Number(row.id)));
+    return rows.map((row) => ({ row, record: mapSurveyRow(row, answers.get(Number(row.id))) }));
+  }
+
+  async function loadSurvey(id: number): Promise<SurveyRecord | undefined> {
+    const { rows } = await pool.query<SurveyRow>(`${SURVEY_SELECT} WHERE s.id = $1`, [id]);
+    const row = rows[0];
+    return row ? (await mapSurveyRows([row]))[0]!.record : undefined;
+  }
+
+  /** Writes the answers that actually change and records them as one revision by `author`. */
+  async function writeAnswers(
+    client: PoolClient,
+    survey: SurveyRecord,
+    updates: SurveyAnswers,
+    timestamp: string,
+    author: RevisionAuthor,
+  ): Promise<AnswerChange[]> {
+    const surveyId = survey.id;
+    // Loaded on the transaction's own connection: waiting for a second one from the pool while holding this one could
+    // exhaust the pool under load and deadlock.
+    const questionnaire = await loadSurveyQuestionnaire(
+      survey.questionnaireId,
+      survey.extensionQuestionnaireId,
+      client,
+    );
+    const questions = new Map((questionnaire?.questions ?? []).map((question) => [question.key, question]));
+
+    const changes: AnswerChange[] = [];
+    for (const [key, value] of Object.entries(updates)) {
+      const question = questions.get(key);
+      const change = question && answerChange(question, survey.answers[key], value);
+      if (!question || !change) {
+        continue;
+      }
+
+      changes.push(change);
+      const stored = encodeAnswer(question, value);
+      if (!stored) {
+        await client.query('DELETE FROM survey_answers WHERE survey_id = $1 AND question_id = $2', [
+          surveyId,
+          question.id,
+        ]);
+        continue;
+      }
+
+      await client.query(
+        `INSERT INTO survey_answers (survey_id, question_id, numeric_value, text_value, sentiment, updated_at)
+         VALUES ($1, $2, $3, $4, $5, $6)
+         ON CONFLICT (survey_id, question_id) DO UPDATE
+           SET numeric_value = EXCLUDED.numeric_value,
+               text_value = EXCLUDED.text_value,
+               sentiment = EXCLUDED.sentiment,
+               updated_at = EXCLUDED.updated_at`,
+        [surveyId, question.id, stored.numericValue, stored.textValue, stored.sentiment, timestamp],
+      );
+    }
+
+    if (changes.length) {
+      await client.query(
+        `INSERT INTO survey_revisions (survey_id, actor, actor_id, changes, reverted_revision_id, created_at)
+         VALUES ($1, $2, $3, $4, $5, $6)`,
+        [
+          surveyId,
+          author.actor,
+          author.actorId,
+          JSON.stringify(changes),
+          author.revertedRevisionId ?? null,
+          timestamp,
+        ],
+      );
+    }
+
+    return changes;
+  }
+
+  /**
+   * Recomputes the project's `project_daily_stats` row for `surveyDate` from its submitted surveys. Must run inside the
+   * transaction that changed them.
+   */
+  async function refreshDailyStats(client: PoolClient, projectId: number, surveyDate: string): Promise<void> {
+    // Under READ COMMITTED two submits of the same day would each miss the other's uncommitted survey, and the last to
+    // commit would store a stale row. The lock makes the second wait for the first to commit; its recomputing statement
+    // then starts after that and sees both surveys.
+    await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [`daily-stats:${projectId}:${surveyDate}`]);
+    await client.query(
+      `INSERT INTO project_daily_stats (project_id, survey_date, ${PROJECT_DAILY_STATS_COLUMNS})
+       SELECT $1::bigint, $2::date, ${projectDailyStatsValuesSql()}
+       FROM surveys s
+       LEFT JOIN survey_metrics m ON m.survey_id = s.id
+       WHERE s.project_id = $1 AND s.survey_date = $2::date AND ${submittedSurveyCondition('s')}
+       ON CONFLICT (project_id, survey_date) DO UPDATE SET ${projectDailyStatsUpdateSql()}`,
+      [projectId, surveyDate],
+    );
+  }
+
+  /**
+   * Recomputes `project_daily_stats` of one project or of all of them, e.g. after a questionnaire version changed which
+   * answers `survey_metrics` exposes.
+   */
+  async function rebuildDailyStats(client: PoolClient, projectId?: number): Promise<void> {
+    const projectCondition = projectId === undefined ? '' : ' AND s.project_id = $1';
+    const params = projectId === undefined ? [] : [projectId];
+
+    await client.query(
+      `DELETE FROM project_daily_stats${projectId === undefined ? '' : ' WHERE project_id = $1'}`,
+      params,
+    );
+    await client.query(
+      `INSERT INTO project_daily_stats (project_id, survey_date, ${PROJECT_DAILY_STATS_COLUMNS})
+       SELECT s.project_id, s.survey_date, ${projectDailyStatsValuesSql()}
+       FROM surveys s
+       LEFT JOIN survey_metrics m ON m.survey_id = s.id
+       WHERE ${submittedSurveyCondition('s')}${projectCondition}
+       GROUP BY s.project_id, s.survey_date
+       ON CONFLICT (project_id, survey_date) DO UPDATE SET ${projectDailyStatsUpdateSql()}`,
+      params,
+    );
+  }
+
   async function init(): Promise<void> {
+    const { rowCount: submittedColumnCount } = await pool.query(
+      `SELECT 1
+       FROM information_schema.columns
+       WHERE table_schema = current_schema() AND table_name = 'surveys' AND column_name = 'submitted_at'`,
+    );
+
     await pool.query(`
       CREATE TABLE IF NOT EXISTS users (
         id BIGINT PRIMARY KEY,
@@ -159,10 +794,17 @@ export function createPostgresAdapter(databaseUrl: string): DatabaseAdapter {
         username TEXT,
         language_code TEXT,
         photo_url TEXT,
+        language TEXT CHECK (language IN ('ru', 'en')),
         created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
         updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
       );
 
+      CREATE TABLE IF NOT EXISTS managers (
+        id BIGSERIAL PRIMARY KEY,
+        name TEXT NOT NULL,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      );
+
       CREATE TABLE IF NOT EXISTS projects (
         id BIGSERIAL PRIMARY KEY,
         name TEXT NOT NULL UNIQUE,
@@ -170,32 +812,157 @@ export function createPostgresAdapter(databaseUrl: string): DatabaseAdapter {
         created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
       );
 
+      CREATE TABLE IF NOT EXISTS questionnaires (
+        id BIGSERIAL PRIMARY KEY,
+        code TEXT NOT NULL,
+        version INTEGER NOT NULL,
+        title TEXT NOT NULL,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        UNIQUE(code, version)
+      );
+
+      CREATE TABLE IF NOT EXISTS questions (
+        id BIGSERIAL PRIMARY KEY,
+        questionnaire_id BIGINT NOT NULL REFERENCES questionnaires(id) ON DELETE CASCADE,
+        key TEXT NOT NULL,
+        position INTEGER NOT NULL,
+        type TEXT NOT NULL,
+        title TEXT NOT NULL,
+        short_title TEXT,
+        description TEXT,
+        placeholder TEXT,
+        options JSONB,
+        matrix_rows JSONB,
+        show_if JSONB,
+        translations JSONB,
+        required BOOLEAN NOT NULL DEFAULT FALSE,
+        comparable BOOLEAN NOT NULL DEFAULT TRUE,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        UNIQUE(questionnaire_id, key)
+      );
+
       CREATE TABLE IF NOT EXISTS surveys (
         id BIGSERIAL PRIMARY KEY,
         user_id BIGINT NOT NULL REFERENCES users(id),
         project_id BIGINT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+        questionnaire_id BIGINT REFERENCES questionnaires(id),
+        extension_questionnaire_id BIGINT REFERENCES questionnaires(id),
         survey_date DATE NOT NULL,
-        project_recommendation INTEGER,
-        project_improvement TEXT,
-        manager_effectiveness INTEGER,
-        manager_improvement TEXT,
-        team_comfort INTEGER,
-        team_improvement TEXT,
-        process_organization INTEGER,
-        process_obstacles TEXT,
-        contribution_valued TEXT CHECK (contribution_valued IN ('yes', 'no', 'partial')),
-        improvement_ideas TEXT,
         created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
         updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        submitted_at TIMESTAMPTZ,
+        last_step INTEGER,
+        unlocked_until TIMESTAMPTZ,
         UNIQUE(user_id, project_id, survey_date)
       );
 
+      ALTER TABLE questions ADD COLUMN IF NOT EXISTS matrix_rows JSONB;
+      ALTER TABLE questions ADD COLUMN IF NOT EXISTS show_if JSONB;
+      ALTER TABLE questions ADD COLUMN IF NOT EXISTS translations JSONB;
+      ALTER TABLE users ADD COLUMN IF NOT EXISTS language TEXT CHECK (language IN ('ru', 'en'));
+      ALTER TABLE surveys ADD COLUMN IF NOT EXISTS questionnaire_id BIGINT REFERENCES questionnaires(id);
+      ALTER TABLE surveys ADD COLUMN IF NOT EXISTS extension_questionnaire_id BIGINT REFERENCES questionnaires(id);
+      ALTER TABLE surveys ADD COLUMN IF NOT EXISTS submitted_at TIMESTAMPTZ;
+      ALTER TABLE surveys ADD COLUMN IF NOT EXISTS last_step INTEGER;
+      ALTER TABLE surveys ADD COLUMN IF NOT EXISTS unlocked_until TIMESTAMPTZ;
+      ALTER TABLE projects ADD COLUMN IF NOT EXISTS questionnaire_mode TEXT CHECK (questionnaire_mode IN ('extend', 'replace'));
+      ALTER TABLE projects ADD COLUMN IF NOT EXISTS questionnaire_id BIGINT REFERENCES questionnaires(id);
+      ALTER TABLE projects ADD COLUMN IF NOT EXISTS edit_policy TEXT NOT NULL DEFAULT 'hours' CHECK (edit_policy IN ('hours', 'week', 'never'));
+      ALTER TABLE projects ADD COLUMN IF NOT EXISTS edit_window_hours INTEGER NOT NULL DEFAULT ${DEFAULT_EDIT_WINDOW_HOURS};
+      ALTER TABLE projects ADD COLUMN IF NOT EXISTS expected_headcount INTEGER;
+      ALTER TABLE projects ADD COLUMN IF NOT EXISTS manager_id BIGINT REFERENCES managers(id) ON DELETE SET NULL;
+
+      CREATE TABLE IF NOT EXISTS survey_answers (
+        survey_id BIGINT NOT NULL REFERENCES surveys(id) ON DELETE CASCADE,
+        question_id BIGINT NOT NULL REFERENCES questions(id),
+        numeric_value DOUBLE PRECISION,
+        text_value TEXT,
+        sentiment DOUBLE PRECISION,
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        PRIMARY KEY (survey_id, question_id)
+      );
+
+      ALTER TABLE survey_answers ADD COLUMN IF NOT EXISTS sentiment DOUBLE PRECISION;
+
+      CREATE TABLE IF NOT EXISTS survey_revisions (
+        id BIGSERIAL PRIMARY KEY,
+        survey_id BIGINT NOT NULL REFERENCES surveys(id) ON DELETE CASCADE,
+        actor TEXT NOT NULL CHECK (actor IN ('respondent', 'admin')),
+        actor_id BIGINT,
+        changes JSONB NOT NULL,
+        reverted_revision_id BIGINT,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      );
+
+      CREATE TABLE IF NOT EXISTS project_alerts (
+        id BIGSERIAL PRIMARY KEY,
+        project_id BIGINT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+        metric TEXT NOT NULL CHECK (metric IN ('enps', 'teamComfort', 'managerEffectiveness', 'processOrganization')),
+        severity TEXT NOT NULL CHECK (severity IN ('warning', 'critical')),
+        status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'acknowledged', 'resolved')),
+        window_start DATE NOT NULL,
+        window_end DATE NOT NULL,
+        recent_value DOUBLE PRECISION NOT NULL,
+        baseline_value DOUBLE PRECISION NOT NULL,
+        recent_count INTEGER NOT NULL,
+        baseline_count INTEGER NOT NULL,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        acknowledged_at TIMESTAMPTZ,
+        resolved_at TIMESTAMPTZ
+      );
+
+      CREATE TABLE IF NOT EXISTS project_respondents (
+        project_id BIGINT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+        user_id BIGINT NOT NULL,
+        PRIMARY KEY (project_id, user_id)
+      );
+
       CREATE INDEX IF NOT EXISTS idx_projects_name ON projects(name);
       CREATE INDEX IF NOT EXISTS idx_projects_created_by ON projects(created_by);
+      CREATE INDEX IF NOT EXISTS idx_projects_manager ON projects(manager_id);
       CREATE INDEX IF NOT EXISTS idx_surveys_user_project ON surveys(user_id, project_id, survey_date);
       CREATE INDEX IF NOT EXISTS idx_surveys_project_created_at ON surveys(project_id, created_at);
+      CREATE INDEX IF NOT EXISTS idx_surveys_project_date ON surveys(project_id, survey_date, user_id);
+      CREATE INDEX IF NOT EXISTS idx_questions_questionnaire ON questions(questionnaire_id, position);
+      CREATE INDEX IF NOT EXISTS idx_survey_answers_question ON survey_answers(question_id);
+      CREATE INDEX IF NOT EXISTS idx_survey_revisions_survey ON survey_revisions(survey_id, id);
+      CREATE INDEX IF NOT EXISTS idx_project_alerts_project_metric ON project_alerts(project_id, metric, status);
+    `);
+
+    const defaultQuestionnaireId = await seedDefaultQuestionnaire();
+    await backfillDefaultTranslations();
+    await migrateLegacyAnswerColumns(defaultQuestionnaireId);
+    await pool.query('UPDATE surveys SET questionnaire_id = $1 WHERE questionnaire_id IS NULL', [defaultQuestionnaireId]);
+    await backfillAnswerSentiment();
+
+    // Surveys saved before explicit submission existed count as submitted once their required answers are in.
+    if (!submittedColumnCount) {
+      await pool.query(
+        `UPDATE surveys SET submitted_at = updated_at WHERE submitted_at IS NULL AND ${requiredAnswersCondition('surveys')}`,
+      );
+    }
+
+    await pool.query(`
+      DROP VIEW IF EXISTS survey_metrics;
+      ${surveyMetricsViewSql()};
     `);
 
+    await pool.query(
+      projectDailyStatsTableSql({
+        projectId: 'BIGINT NOT NULL REFERENCES projects(id) ON DELETE CASCADE',
+        date: 'DATE',
+        count: 'INTEGER',
+        sum: 'DOUBLE PRECISION',
+        timestamp: 'TIMESTAMPTZ',
+      }),
+    );
+    // Daily statistics start out from the surveys stored before the table existed.
+    const { rowCount: dailyStatsCount } = await pool.query('SELECT 1 FROM project_daily_stats LIMIT 1');
+    if (!dailyStatsCount) {
+      await withTransaction((client) => rebuildDailyStats(client));
+    }
+
     // Supabase bootstrap can leave behind redundant permissive policies that conflict with
     // the ones we rely on.  Explicitly drop the legacy insert policy so we only keep the
     // canonical "allow_surveys_access" rule created through the dashboard/migrations.
@@ -227,6 +994,121 @@ export function createPostgresAdapter(databaseUrl: string): DatabaseAdapter {
     );
   }
 
+  async function getUserLanguage(userId: number): Promise<Language | null> {
+    const { rows } = await pool.query<{ language: Language | null }>('SELECT language FROM users WHERE id = $1', [
+      userId,
+    ]);
+    return rows[0]?.language ?? null;
+  }
+
+  async function setUserLanguage(userId: number, language: Language | null): Promise<void> {
+    await pool.query('UPDATE users SET language = $1, updated_at = NOW() WHERE id = $2', [language, userId]);
+  }
+
+  async function getActiveQuestionnaire(): Promise<Questionnaire> {
+    const questionnaire = await loadQuestionnaire(await activeQuestionnaireId());
+    if (!questionnaire) {
+      throw new Error('Active questionnaire is missing');
+    }
+
+    return questionnaire;
+  }
+
+  async function getQuestionnaire(id: number): Promise<Questionnaire | undefined> {
+    return loadQuestionnaire(id);
+  }
+
+  async function getSurveyQuestionnaire(surveyId: number): Promise<Questionnaire | undefined> {
+    const { rows } = await pool.query<{ questionnaire_id: string | null; extension_questionnaire_id: string | null }>(
+      'SELECT questionnaire_id, extension_questionnaire_id FROM surveys WHERE id = $1',
+      [surveyId],
+    );
+
+    const survey = rows[0];
+    if (!survey) {
+      return undefined;
+    }
+
+    return loadSurveyQuestionnaire(
+      survey.questionnaire_id ? Number(survey.questionnaire_id) : await activeQuestionnaireId(),
+      survey.extension_questionnaire_id ? Number(survey.extension_questionnaire_id) : null,
+    );
+  }
+
+  async function listQuestionnaireVersions(): Promise<Questionnaire[]> {
+    const { rows } = await pool.query<QuestionnaireRow>(
+      'SELECT * FROM questionnaires WHERE code = $1 ORDER BY version DESC',
+      [DEFAULT_QUESTIONNAIRE_CODE],
+    );
+
+    return Promise.all(rows.map((row) => mapQuestionnaireRow(row)));
+  }
+
+  async function createQuestionnaireVersion(input: NewQuestionnaireVersion): Promise<Questionnaire> {
+    const current = await loadQuestionnaire(await activeQuestionnaireId());
+    const title = input.title ?? current?.title ?? DEFAULT_QUESTIONNAIRE_TITLE;
+
+    const questionnaireId = await withTransaction(async (client) => {
+      await lockQuestionnaireCode(client, DEFAULT_QUESTIONNAIRE_CODE);
+      const id = await insertQuestionnaireVersion(client, DEFAULT_QUESTIONNAIRE_CODE, title, input.questions);
+      // Only an incomparable question changes which answers `survey_metrics` exposes; rebuilding every project's
+      // statistics for any other version would be wasted work.
+      if (input.questions.some((question) => question.comparable === false)) {
+        await rebuildDailyStats(client);
+      }
+      return id;
+    });
+
+    const questionnaire = await loadQuestionnaire(questionnaireId);
+    if (!questionnaire) {
+      throw new Error('Failed to load questionnaire after creation');
+    }
+
+    return questionnaire;
+  }
+
+  async function getProjectQuestionnaire(projectId: number): Promise<Questionnaire | undefined> {
+    const ids = await projectSurveyQuestionnaireIds(projectId);
+    return ids && loadSurveyQuestionnaire(ids.questionnaireId, ids.extensionId);
+  }
+
+  async function setProjectQuestionnaire(
+    projectId: number,
+    input: ProjectQuestionnaireInput,
+  ): Promise<Questionnaire | undefined> {
+    const { rows } = await pool.query<{ name: string }>('SELECT name FROM projects WHERE id = $1', [projectId]);
+    const project = rows[0];
+    if (!project) {
+      return undefined;
+    }
+
+    const code = projectQuestionnaireCode(projectId);
+    await withTransaction(async (client) => {
+      await lockQuestionnaireCode(client, code);
+      const questionnaireId = await insertQuestionnaireVersion(client, code, input.title ?? project.name, input.questions);
+      await client.query('UPDATE projects SET questionnaire_mode = $1, questionnaire_id = $2 WHERE id = $3', [
+        input.mode,
+        questionnaireId,
+        projectId,
+      ]);
+      // Recomputing one project is cheap, so any change of its questionnaire, not only an incomparable question,
+      // brings its daily statistics in line with `survey_metrics`.
+      await rebuildDailyStats(client, projectId);
+    });
+
+    return getProjectQuestionnaire(projectId);
+  }
+
+  async function clearProjectQuestionnaire(projectId: number): Promise<Questionnaire | undefined> {
+    await withTransaction(async (client) => {
+      await client.query('UPDATE projects SET questionnaire_mode = NULL, questionnaire_id = NULL WHERE id = $1', [
+        projectId,
+      ]);
+      await rebuildDailyStats(client, projectId);
+    });
+    return getProjectQuestionnaire(projectId);
+  }
+
   async function listProjects(search: string | undefined, limit: number): Promise<ProjectSummary[]> {
     const params: Array<string | number> = [];
     const conditions: string[] = [];
@@ -245,22 +1127,27 @@ export function createPostgresAdapter(databaseUrl: string): DatabaseAdapter {
         p.id,
         p.name,
         p.created_at AS "createdAt",
+        p.questionnaire_mode AS "questionnaireMode",
+        p.questionnaire_id AS "questionnaireOverrideId",
+        p.edit_policy AS "editPolicy",
+        p.edit_window_hours AS "editWindowHours",
+        p.manager_id AS "managerId",
         (
           SELECT COUNT(1)
           FROM surveys s
-          WHERE s.project_id = p.id AND ${completedSurveyCondition('s')}
+          WHERE s.project_id = p.id AND ${submittedSurveyCondition('s')}
         ) AS "responsesCount",
         (
           SELECT MAX(s.created_at)
           FROM surveys s
-          WHERE s.project_id = p.id AND ${completedSurveyCondition('s')}
+          WHERE s.project_id = p.id AND ${submittedSurveyCondition('s')}
         ) AS "lastResponseAt"
       FROM projects p
       ${whereClause}
       ORDER BY COALESCE((
         SELECT MAX(s.created_at)
         FROM surveys s
-        WHERE s.project_id = p.id AND ${completedSurveyCondition('s')}
+        WHERE s.project_id = p.id AND ${submittedSurveyCondition('s')}
       ), p.created_at) DESC
       LIMIT ${limitParam}
     `;
@@ -272,13 +1159,25 @@ export function createPostgresAdapter(databaseUrl: string): DatabaseAdapter {
       createdAt: row.createdAt as string,
       responsesCount: Number(row.responsesCount ?? 0),
       lastResponseAt: (row.lastResponseAt as string | null) ?? null,
+      ...mapProjectSettingsColumns(row),
     }));
   }
 
   async function createProject(name: string, createdBy?: number): Promise<ProjectSummary> {
     const trimmed = name.trim();
     const existing = await pool.query<ProjectSummaryRow>(
-      'SELECT id, name, created_at AS "createdAt" FROM projects WHERE LOWER(name) = LOWER($1) LIMIT 1',
+      `SELECT
+         id,
+         name,
+         created_at AS "createdAt",
+         questionnaire_mode AS "questionnaireMode",
+         questionnaire_id AS "questionnaireOverrideId",
+         edit_policy AS "editPolicy",
+         edit_window_hours AS "editWindowHours",
+         manager_id AS "managerId"
+       FROM projects
+       WHERE LOWER(name) = LOWER($1)
+       LIMIT 1`,
       [trimmed],
     );
 
@@ -287,9 +1186,9 @@ export function createPostgresAdapter(databaseUrl: string): DatabaseAdapter {
       const stats = await pool.query<ProjectStatsRow>(
         `SELECT
            COUNT(1) AS "responsesCount",
-           MAX(created_at) AS "lastResponseAt"
-         FROM surveys
-         WHERE project_id = $1 AND ${completedSurveyCondition()}`,
+           MAX(s.created_at) AS "lastResponseAt"
+         FROM surveys s
+         WHERE s.project_id = $1 AND ${submittedSurveyCondition('s')}`,
         [project.id],
       );
 
@@ -299,6 +1198,7 @@ export function createPostgresAdapter(databaseUrl: string): DatabaseAdapter {
         createdAt: project.createdAt as string,
         responsesCount: Number(stats.rows[0]?.responsesCount ?? 0),
         lastResponseAt: (stats.rows[0]?.lastResponseAt as string | null) ?? null,
+        ...mapProjectSettingsColumns(project),
       };
     }
 
@@ -316,6 +1216,11 @@ export function createPostgresAdapter(databaseUrl: string): DatabaseAdapter {
       createdAt: project.createdAt as string,
       responsesCount: 0,
       lastResponseAt: null,
+      questionnaireMode: null,
+      questionnaireOverrideId: null,
+      editPolicy: 'hours',
+      editWindowHours: DEFAULT_EDIT_WINDOW_HOURS,
+      managerId: null,
     };
   }
 
@@ -325,11 +1230,16 @@ export function createPostgresAdapter(databaseUrl: string): DatabaseAdapter {
          p.id,
          p.name,
          p.created_at AS "createdAt",
+         p.questionnaire_mode AS "questionnaireMode",
+         p.questionnaire_id AS "questionnaireOverrideId",
+         p.edit_policy AS "editPolicy",
+         p.edit_window_hours AS "editWindowHours",
+         p.manager_id AS "managerId",
          (
-           SELECT COUNT(1) FROM surveys s WHERE s.project_id = p.id AND ${completedSurveyCondition('s')}
+           SELECT COUNT(1) FROM surveys s WHERE s.project_id = p.id AND ${submittedSurveyCondition('s')}
          ) AS "responsesCount",
          (
-           SELECT MAX(created_at) FROM surveys s WHERE s.project_id = p.id AND ${completedSurveyCondition('s')}
+           SELECT MAX(created_at) FROM surveys s WHERE s.project_id = p.id AND ${submittedSurveyCondition('s')}
          ) AS "lastResponseAt"
        FROM projects p
        WHERE p.id = $1`,
@@ -347,6 +1257,7 @@ export function createPostgresAdapter(databaseUrl: string): DatabaseAdapter {
       createdAt: project.createdAt as string,
       responsesCount: Number(project.responsesCount ?? 0),
       lastResponseAt: (project.lastResponseAt as string | null) ?? null,
+      ...mapProjectSettingsColumns(project),
     };
   }
 
@@ -364,105 +1275,191 @@ export function createPostgresAdapter(databaseUrl: string): DatabaseAdapter {
     return loadProjectSummary(id);
   }
 
+  async function setProjectEditPolicy(
+    id: number,
+    policy: EditPolicy,
+    windowHours: number,
+  ): Promise<ProjectSummary | undefined> {
+    const { rowCount } = await pool.query(
+      'UPDATE projects SET edit_policy = $1, edit_window_hours = $2 WHERE id = $3',
+      [policy, windowHours, id],
+    );
+    if (!rowCount) {
+      return undefined;
+    }
+
+    return loadProjectSummary(id);
+  }
+
+  async function setProjectManager(id: number, managerId: number | null): Promise<ProjectSummary | undefined> {
+    const { rowCount } = await pool.query('UPDATE projects SET manager_id = $1 WHERE id = $2', [managerId, id]);
+    if (!rowCount) {
+      return undefined;
+    }
+
+    return loadProjectSummary(id);
+  }
+
+  async function getProjectExpectedRespondents(id: number): Promise<ExpectedRespondents | undefined> {
+    const project = await pool.query<{ expected_headcount: number | null }>(
+      'SELECT expected_headcount FROM projects WHERE id = $1',
+      [id],
+    );
+    if (!project.rowCount) {
+      return undefined;
+    }
+
+    const { rows } = await pool.query<{ user_id: number | string }>(
+      'SELECT user_id FROM project_respondents WHERE project_id = $1 ORDER BY user_id',
+      [id],
+    );
+
+    return { headcount: project.rows[0]!.expected_headcount, userIds: rows.map((row) => Number(row.user_id)) };
+  }
+
+  async function setProjectExpectedRespondents(
+    id: number,
+    expected: ExpectedRespondents,
+  ): Promise<ExpectedRespondents | undefined> {
+    const updated = await withTransaction(async (client) => {
+      const { rowCount } = await client.query('UPDATE projects SET expected_headcount = $1 WHERE id = $2', [
+        expected.headcount,
+        id,
+      ]);
+      if (!rowCount) {
+        return false;
+      }
+
+      await client.query('DELETE FROM project_respondents WHERE project_id = $1', [id]);
+      await client.query(
+        `INSERT INTO project_respondents (project_id, user_id)
+         SELECT $1, user_id FROM UNNEST($2::bigint[]) AS user_id
+         ON CONFLICT DO NOTHING`,
+        [id, expected.userIds],
+      );
+      return true;
+    });
+
+    if (!updated) {
+      return undefined;
+    }
+
+    return getProjectExpectedRespondents(id);
+  }
+
   async function deleteProject(id: number): Promise<void> {
-    const client = await pool.connect();
-    try {
-      await client.query('BEGIN');
+    await withTransaction(async (client) => {
       await client.query('DELETE FROM surveys WHERE project_id = $1', [id]);
       await client.query('DELETE FROM projects WHERE id = $1', [id]);
-      await client.query('COMMIT');
-    } catch (error) {
-      await client.query('ROLLBACK');
-      throw error;
-    } finally {
-      client.release();
-    }
+    });
   }
 
-  async function deleteSurvey(id: number): Promise<void> {
-    await pool.query('DELETE FROM surveys WHERE id = $1', [id]);
+  function mapManagerRow(row: ManagerRow): Manager {
+    return { id: Number(row.id), name: row.name, createdAt: row.createdAt };
   }
 
-  async function updateSurveyAnswers(id: number, updates: SurveyAnswers): Promise<SurveyRecord | undefined> {
-    const assignments: string[] = [];
-    const values: unknown[] = [];
-    let paramIndex = 1;
+  async function getManager(id: number): Promise<Manager | undefined> {
+    const { rows } = await pool.query<ManagerRow>(
+      'SELECT id, name, created_at AS "createdAt" FROM managers WHERE id = $1',
+      [id],
+    );
+    return rows[0] ? mapManagerRow(rows[0]) : undefined;
+  }
 
-    for (const [key, rawValue] of Object.entries(updates) as Array<[
-      keyof SurveyAnswers,
-      SurveyAnswers[keyof SurveyAnswers],
-    ]>) {
-      const column = surveyFieldToColumn[key];
-      if (!column) {
-        continue;
-      }
+  async function createManager(name: string): Promise<Manager> {
+    const { rows } = await pool.query<ManagerRow>(
+      'INSERT INTO managers (name) VALUES ($1) RETURNING id, name, created_at AS "createdAt"',
+      [name.trim()],
+    );
+    return mapManagerRow(rows[0]!);
+  }
 
-      if (rawValue === undefined) {
-        continue;
-      }
+  async function updateManagerName(id: number, name: string): Promise<Manager | undefined> {
+    const { rows } = await pool.query<ManagerRow>(
+      'UPDATE managers SET name = $1 WHERE id = $2 RETURNING id, name, created_at AS "createdAt"',
+      [name.trim(), id],
+    );
+    return rows[0] ? mapManagerRow(rows[0]) : undefined;
+  }
 
-      if (rawValue === null) {
-        assignments.push(`${column} = NULL`);
-        continue;
-      }
+  // Projects lose their manager through `ON DELETE SET NULL`.
+  async function deleteManager(id: number): Promise<void> {
+    await pool.query('DELETE FROM managers WHERE id = $1', [id]);
+  }
 
-      if (typeof rawValue === 'string') {
-        const trimmed = rawValue.trim();
-        if (!trimmed) {
-          assignments.push(`${column} = NULL`);
-          continue;
-        }
-        assignments.push(`${column} = $${paramIndex}`);
-        values.push(trimmed);
-        paramIndex += 1;
-        continue;
+  async function deleteSurvey(id: number): Promise<void> {
+    await withTransaction(async (client) => {
+      const { rows } = await client.query<{ projectId: string; surveyDate: string; submittedAt: string | null }>(
+        `DELETE FROM surveys WHERE id = $1
+         RETURNING project_id AS "projectId", survey_date::text AS "surveyDate", submitted_at AS "submittedAt"`,
+        [id],
+      );
+      const survey = rows[0];
+      if (survey?.submittedAt) {
+        await refreshDailyStats(client, Number(survey.projectId), survey.surveyDate);
       }
+    });
+  }
 
-      assignments.push(`${column} = $${paramIndex}`);
-      values.push(rawValue);
-      paramIndex += 1;
+  async function updateSurveyAnswers(
+    id: number,
+    updates: SurveyAnswers,
+    revertedRevisionId?: number,
+  ): Promise<SurveyRecord | undefined> {
+    const survey = await loadSurvey(id);
+    if (!survey) {
+      return undefined;
     }
 
-    if (assignments.length) {
-      assignments.push(`updated_at = $${paramIndex}`);
-      values.push(new Date().toISOString());
-      paramIndex += 1;
-      await pool.query(`UPDATE surveys SET ${assignments.join(', ')} WHERE id = $${paramIndex}`, [...values, id]);
+    await withTransaction(async (client) => {
+      const timestamp = new Date().toISOString();
+      const changes = await writeAnswers(client, survey, updates, timestamp, {
+        actor: 'admin',
+        actorId: null,
+        revertedRevisionId,
+      });
+      if (changes.length > 0) {
+        await client.query('UPDATE surveys SET updated_at = $1 WHERE id = $2', [timestamp, id]);
+      }
+      if (changes.length > 0 && survey.submittedAt) {
+        await refreshDailyStats(client, survey.projectId, survey.surveyDate);
+      }
+    });
+
+    return loadSurvey(id);
+  }
+
+  async function listSurveyRevisions(surveyId: number): Promise<SurveyRevision[] | undefined> {
+    const { rowCount } = await pool.query('SELECT 1 FROM surveys WHERE id = $1', [surveyId]);
+    if (!rowCount) {
+      return undefined;
     }
 
-    const { rows } = await pool.query<SurveyRow>(
-      `SELECT s.*, p.name AS project_name
-       FROM surveys s
-       JOIN projects p ON p.id = s.project_id
-       WHERE s.id = $1`,
-      [id],
+    const { rows } = await pool.query<RevisionRow>(
+      `SELECT id, survey_id, actor, actor_id, changes, reverted_revision_id, created_at
+       FROM survey_revisions
+       WHERE survey_id = $1
+       ORDER BY id DESC`,
+      [surveyId],
     );
+    return rows.map(mapRevisionRow);
+  }
 
-    const row = rows[0];
-    return row ? mapSurveyRow(row) : undefined;
+  async function unlockSurvey(id: number, until: Date): Promise<SurveyRecord | undefined> {
+    await pool.query('UPDATE surveys SET unlocked_until = $1 WHERE id = $2', [until.toISOString(), id]);
+    return loadSurvey(id);
   }
 
   async function getSurveyById(id: number, userId: number): Promise<SurveyRecord | undefined> {
-    const { rows } = await pool.query<SurveyRow>(
-      `SELECT s.*, p.name AS project_name
-       FROM surveys s
-       JOIN projects p ON p.id = s.project_id
-       WHERE s.id = $1 AND s.user_id = $2`,
-      [id, userId],
-    );
+    const { rows } = await pool.query<SurveyRow>(`${SURVEY_SELECT} WHERE s.id = $1 AND s.user_id = $2`, [id, userId]);
 
     const row = rows[0];
-    return row ? mapSurveyRow(row) : undefined;
+    return row ? (await mapSurveyRows([row]))[0]!.record : undefined;
   }
 
   async function listSurveys(userId: number, projectId?: number): Promise<SurveyRecord[]> {
     const params: Array<number> = [userId];
-    let query = `
-      SELECT s.*, p.name AS project_name
-      FROM surveys s
-      JOIN projects p ON p.id = s.project_id
-      WHERE s.user_id = $1
-    `;
+    let query = `${SURVEY_SELECT} WHERE s.user_id = $1`;
 
     if (typeof projectId === 'number') {
       params.push(projectId);
@@ -472,26 +1469,29 @@ export function createPostgresAdapter(databaseUrl: string): DatabaseAdapter {
     query += ' ORDER BY s.created_at DESC';
 
     const { rows } = await pool.query<SurveyRow>(query, params);
-    return rows.map(mapSurveyRow);
+    return (await mapSurveyRows(rows)).map(({ record }) => record);
   }
 
   async function createSurvey(userId: number, projectId: number, surveyDate?: string): Promise<SurveyCreationResult> {
     const now = new Date();
     const date = surveyDate ?? formatDate(now);
     const timestamp = now.toISOString();
+    const pinned = await projectSurveyQuestionnaireIds(projectId);
+    if (!pinned) {
+      throw new Error('Project not found');
+    }
 
     const insert = await pool.query(
-      `INSERT INTO surveys (user_id, project_id, survey_date, created_at, updated_at)
-       VALUES ($1, $2, $3, $4, $4)
+      `INSERT INTO surveys (
+         user_id, project_id, questionnaire_id, extension_questionnaire_id, survey_date, created_at, updated_at
+       )
+       VALUES ($1, $2, $3, $4, $5, $6, $6)
        ON CONFLICT (user_id, project_id, survey_date) DO NOTHING`,
-      [userId, projectId, date, timestamp],
+      [userId, projectId, pinned.questionnaireId, pinned.extensionId, date, timestamp],
     );
 
     const { rows } = await pool.query<SurveyRow>(
-      `SELECT s.*, p.name AS project_name
-       FROM surveys s
-       JOIN projects p ON p.id = s.project_id
-       WHERE s.user_id = $1 AND s.project_id = $2 AND s.survey_date = $3`,
+      `${SURVEY_SELECT} WHERE s.user_id = $1 AND s.project_id = $2 AND s.survey_date = $3`,
       [userId, projectId, date],
     );
 
@@ -501,10 +1501,15 @@ export function createPostgresAdapter(databaseUrl: string): DatabaseAdapter {
     }
 
     const wasCreated = (insert.rowCount ?? 0) > 0;
-    return { record: mapSurveyRow(row), wasCreated };
+    return { record: (await mapSurveyRows([row]))[0]!.record, wasCreated };
   }
 
-  async function updateSurvey(id: number, userId: number, updates: SurveyAnswers): Promise<SurveyRecord> {
+  async function updateSurvey(
+    id: number,
+    userId: number,
+    updates: SurveyAnswers,
+    lastStep?: number,
+  ): Promise<SurveyRecord> {
     const survey = await getSurveyById(id, userId);
     if (!survey) {
       throw new Error('Survey not found');
@@ -514,130 +1519,595 @@ export function createPostgresAdapter(databaseUrl: string): DatabaseAdapter {
       throw new Error('Survey can no longer be edited');
     }
 
-    const assignments: string[] = [];
-    const values: unknown[] = [];
-    let paramIndex = 1;
+    if (!Object.keys(updates).length && lastStep === undefined) {
+      return survey;
+    }
 
-    for (const key of Object.keys(updates) as Array<keyof SurveyAnswers>) {
-      const value = updates[key];
-      if (value === undefined) {
-        continue;
+    await withTransaction(async (client) => {
+      const timestamp = new Date().toISOString();
+      const changes = await writeAnswers(client, survey, updates, timestamp, { actor: 'respondent', actorId: userId });
+      await client.query(
+        'UPDATE surveys SET updated_at = $1, last_step = COALESCE($2, last_step) WHERE id = $3 AND user_id = $4',
+        [timestamp, lastStep ?? null, id, userId],
+      );
+      if (changes.length > 0 && survey.submittedAt) {
+        await refreshDailyStats(client, survey.projectId, survey.surveyDate);
       }
+    });
 
-      assignments.push(`${surveyFieldToColumn[key]} = $${paramIndex}`);
-      values.push(value);
-      paramIndex += 1;
+    const updated = await getSurveyById(id, userId);
+    if (!updated) {
+      throw new Error('Survey not found');
     }
 
-    if (!assignments.length) {
-      return survey;
+    return updated;
+  }
+
+  async function submitSurvey(id: number, userId: number): Promise<SurveyRecord> {
+    const survey = await getSurveyById(id, userId);
+    if (!survey) {
+      throw new Error('Survey not found');
     }
 
-    assignments.push(`updated_at = $${paramIndex}`);
-    values.push(new Date().toISOString());
-    paramIndex += 1;
-    values.push(id);
-    values.push(userId);
+    if (!survey.canEdit) {
+      throw new Error('Survey can no longer be edited');
+    }
 
-    await pool.query(
-      `UPDATE surveys
-       SET ${assignments.join(', ')}
-       WHERE id = $${paramIndex} AND user_id = $${paramIndex + 1}`,
-      values,
-    );
+    await withTransaction(async (client) => {
+      await client.query(
+        'UPDATE surveys SET submitted_at = COALESCE(submitted_at, $1) WHERE id = $2 AND user_id = $3',
+        [new Date().toISOString(), id, userId],
+      );
+      await refreshDailyStats(client, survey.projectId, survey.surveyDate);
+    });
 
-    const updated = await getSurveyById(id, userId);
-    if (!updated) {
-      throw new Error('Survey not found');
+    return (await getSurveyById(id, userId))!;
+  }
+
+  /** `analyticsFilterConditions` bound to `params`, each condition prefixed with `AND`. */
+  function analyticsFilterSql(filter: AnalyticsFilter, params: Array<string | number>): string {
+    const conditions = analyticsFilterConditions(filter, (value) => {
+      params.push(value);
+      return `$${params.length}`;
+    });
+    return conditions.map((condition) => ` AND ${condition}`).join('');
+  }
+
+  /** `dateRangeConditions` over `column` bound to `params`, each condition prefixed with `AND`. */
+  function dateRangeSql(filter: AnalyticsFilter, column: string, params: Array<string | number>): string {
+    const conditions = dateRangeConditions(filter, column, (value) => {
+      params.push(value);
+      return `$${params.length}`;
+    });
+    return conditions.map((condition) => ` AND ${condition}`).join('');
+  }
+
+  /**
+   * Rows of `listAdminProjects`, narrowed to one project when `projectId` is given. Filters `project_daily_stats`
+   * covers are summed from it, all but the respondents (see `DAILY_STATS_COLUMNS`); the rest go through every survey's
+   * `survey_metrics` row.
+   */
+  async function adminProjectRows(filter: AnalyticsFilter, projectId?: number): Promise<AdminProjectRow[]> {
+    const params: Array<string | number> = [];
+    const projectColumns = `
+      p.id,
+      p.name,
+      p.created_at AS "createdAt",
+      p.questionnaire_mode AS "questionnaireMode",
+      p.questionnaire_id AS "questionnaireOverrideId",
+      p.edit_policy AS "editPolicy",
+      p.edit_window_hours AS "editWindowHours",
+      p.manager_id AS "managerId",
+      p.expected_headcount AS "expectedHeadcount",
+      (SELECT COUNT(1) FROM project_respondents r WHERE r.project_id = p.id) AS "respondentListSize"`;
+    const projectCondition = () => {
+      if (projectId === undefined) {
+        return '';
+      }
+      params.push(projectId);
+      return `WHERE p.id = $${params.length}`;
+    };
+
+    const sql = coveredByDailyStats(filter)
+      ? `SELECT
+           ${projectColumns},
+           COALESCE(SUM(d.responses_count), 0) AS "responsesCount",
+           MAX(d.last_response_at) AS "lastResponseAt",
+           (
+             SELECT COUNT(DISTINCT s.user_id)
+             FROM surveys s
+             WHERE s.project_id = p.id AND ${submittedSurveyCondition('s')}${analyticsFilterSql(filter, params)}
+           ) AS "uniqueRespondents",
+           (
+             SELECT COUNT(DISTINCT s.user_id)
+             FROM surveys s
+             JOIN project_respondents pr ON pr.project_id = s.project_id AND pr.user_id = s.user_id
+             WHERE s.project_id = p.id AND ${submittedSurveyCondition('s')}${analyticsFilterSql(filter, params)}
+           ) AS "listedRespondents",
+           ${dailyMetricAggregatesSql((name) => `"${name}"`)},
+           ${dailySentimentAggregatesSql((name) => `"${name}"`)}
+         FROM projects p
+         LEFT JOIN project_daily_stats d ON d.project_id = p.id${dateRangeSql(filter, 'd.survey_date', params)}
+         ${projectCondition()}
+         GROUP BY p.id
+         ORDER BY COALESCE(MAX(d.last_response_at), p.created_at) DESC`
+      : `SELECT
+           ${projectColumns},
+           COUNT(s.id) AS "responsesCount",
+           MAX(s.created_at) AS "lastResponseAt",
+           COUNT(DISTINCT s.user_id) AS "uniqueRespondents",
+           COUNT(DISTINCT pr.user_id) AS "listedRespondents",
+           ${surveyMetricAggregatesSql((name) => `"${name}"`)},
+           ${sentimentAggregatesSql((name) => `"${name}"`)}
+         FROM projects p
+         LEFT JOIN (
+           surveys s
+           LEFT JOIN survey_metrics m ON m.survey_id = s.id
+           LEFT JOIN project_respondents pr ON pr.project_id = s.project_id AND pr.user_id = s.user_id
+         )
+           ON s.project_id = p.id AND ${submittedSurveyCondition('s')}${analyticsFilterSql(filter, params)}
+         ${projectCondition()}
+         GROUP BY p.id
+         ORDER BY COALESCE(MAX(s.created_at), p.created_at) DESC`;
+
+    const { rows } = await pool.query<AdminProjectRow>(sql, params);
+    return rows;
+  }
+
+  function mapAdminProjectRow(row: AdminProjectRow): AdminProjectStats {
+    const uniqueRespondents = Number(row.uniqueRespondents ?? 0);
+
+    return {
+      id: Number(row.id),
+      name: row.name as string,
+      createdAt: row.createdAt as string,
+      responsesCount: Number(row.responsesCount ?? 0),
+      lastResponseAt: (row.lastResponseAt as string | null) ?? null,
+      ...mapProjectSettingsColumns(row),
+      uniqueRespondents,
+      participation: participationStats({
+        headcount: row.expectedHeadcount,
+        listSize: Number(row.respondentListSize),
+        respondents: uniqueRespondents,
+        listedRespondents: Number(row.listedRespondents ?? 0),
+      }),
+      sentiment: mapSentimentAggregates(row),
+      ...mapSurveyMetricAggregates(row),
+    };
+  }
+
+  async function listAdminProjects(filter: AnalyticsFilter = {}): Promise<AdminProjectStats[]> {
+    return (await adminProjectRows(filter)).map(mapAdminProjectRow);
+  }
+
+  async function getAdminProject(id: number, filter: AnalyticsFilter = {}): Promise<AdminProjectStats | undefined> {
+    const [row] = await adminProjectRows(filter, id);
+    return row && mapAdminProjectRow(row);
+  }
+
+  async function getPortfolioTotals(filter: AnalyticsFilter = {}): Promise<PortfolioTotals> {
+    const params: Array<string | number> = [];
+    const sql = coveredByDailyStats(filter)
+      ? `SELECT
+           COALESCE(SUM(d.responses_count), 0) AS "responsesCount",
+           (
+             SELECT COUNT(DISTINCT s.user_id)
+             FROM surveys s
+             WHERE ${submittedSurveyCondition('s')}${analyticsFilterSql(filter, params)}
+           ) AS "uniqueRespondents",
+           ${dailyMetricAggregatesSql((name) => `"${name}"`)}
+         FROM project_daily_stats d
+         WHERE d.responses_count > 0${dateRangeSql(filter, 'd.survey_date', params)}`
+      : `SELECT
+           COUNT(s.id) AS "responsesCount",
+           COUNT(DISTINCT s.user_id) AS "uniqueRespondents",
+           ${surveyMetricAggregatesSql((name) => `"${name}"`)}
+         FROM surveys s
+         LEFT JOIN survey_metrics m ON m.survey_id = s.id
+         WHERE ${submittedSurveyCondition('s')}${analyticsFilterSql(filter, params)}`;
+    const { rows } = await pool.query<PortfolioTotalsRow>(sql, params);
+    const row = rows[0]!;
+
+    return {
+      responsesCount: Number(row.responsesCount),
+      uniqueRespondents: Number(row.uniqueRespondents),
+      ...mapSurveyMetricAggregates(row),
+    };
+  }
+
+  async function listProjectTrends(
+    projectId: number,
+    granularity: TrendGranularity,
+    filter: AnalyticsFilter = {},
+  ): Promise<ProjectTrendPeriod[] | undefined> {
+    const project = await pool.query<{ expectedHeadcount: number | null; respondentListSize: string | number }>(
+      `SELECT
+         expected_headcount AS "expectedHeadcount",
+         (SELECT COUNT(1) FROM project_respondents r WHERE r.project_id = p.id) AS "respondentListSize"
+       FROM projects p
+       WHERE id = $1`,
+      [projectId],
+    );
+    if (!project.rowCount) {
+      return undefined;
     }
+    const { expectedHeadcount, respondentListSize } = project.rows[0]!;
 
-    return updated;
+    const params: Array<string | number> = [projectId];
+    const { rows } = await pool.query<ProjectTrendRow>(
+      `SELECT
+         to_char(date_trunc('${granularity}', s.survey_date::timestamp), 'YYYY-MM-DD') AS "periodStart",
+         COUNT(s.id) AS "responsesCount",
+         COUNT(DISTINCT s.user_id) AS "uniqueRespondents",
+         COUNT(DISTINCT pr.user_id) AS "listedRespondents",
+         ${surveyMetricAggregatesSql((name) => `"${name}"`)}
+       FROM surveys s
+       LEFT JOIN survey_metrics m ON m.survey_id = s.id
+       LEFT JOIN project_respondents pr ON pr.project_id = s.project_id AND pr.user_id = s.user_id
+       WHERE s.project_id = $1 AND ${submittedSurveyCondition('s')}${analyticsFilterSql(filter, params)}
+       GROUP BY "periodStart"
+       ORDER BY "periodStart"`,
+      params,
+    );
+
+    return withPeriodChanges(
+      rows.map((row) => ({
+        periodStart: row.periodStart,
+        responsesCount: Number(row.responsesCount),
+        uniqueRespondents: Number(row.uniqueRespondents),
+        participation: participationStats({
+          headcount: expectedHeadcount,
+          listSize: Number(respondentListSize),
+          respondents: Number(row.uniqueRespondents),
+          listedRespondents: Number(row.listedRespondents),
+        }),
+        ...mapSurveyMetricAggregates(row),
+      })),
+    );
   }
 
-  async function listAdminProjects(): Promise<AdminProjectStats[]> {
-    const { rows } = await pool.query<AdminProjectRow>(
+  async function listAdminManagers(
+    granularity: TrendGranularity,
+    filter: AnalyticsFilter = {},
+  ): Promise<AdminManagerStats[]> {
+    const params: Array<string | number> = [];
+    const { rows } = await pool.query<ManagerStatsRow>(
       `SELECT
-         p.id,
-         p.name,
-         p.created_at AS "createdAt",
+         mg.id,
+         mg.name,
+         mg.created_at AS "createdAt",
          COUNT(s.id) AS "responsesCount",
-         MAX(s.created_at) AS "lastResponseAt",
          COUNT(DISTINCT s.user_id) AS "uniqueRespondents",
-         AVG(s.project_recommendation) AS "avgProjectRecommendation",
-         AVG(s.manager_effectiveness) AS "avgManagerEffectiveness",
-         AVG(s.team_comfort) AS "avgTeamComfort",
-         AVG(s.process_organization) AS "avgProcessOrganization",
-         SUM(CASE WHEN s.contribution_valued = 'yes' THEN 1 ELSE 0 END) AS "contributionYes",
-         SUM(CASE WHEN s.contribution_valued = 'partial' THEN 1 ELSE 0 END) AS "contributionPartial",
-         SUM(CASE WHEN s.contribution_valued = 'no' THEN 1 ELSE 0 END) AS "contributionNo"
-       FROM projects p
-       LEFT JOIN surveys s ON s.project_id = p.id AND ${completedSurveyCondition('s')}
-       GROUP BY p.id
-       ORDER BY COALESCE(MAX(s.created_at), p.created_at) DESC`,
+         ${surveyMetricAggregatesSql((name) => `"${name}"`)}
+       FROM managers mg
+       LEFT JOIN (
+         projects p
+         JOIN surveys s ON s.project_id = p.id
+         LEFT JOIN survey_metrics m ON m.survey_id = s.id
+       )
+         ON p.manager_id = mg.id AND ${submittedSurveyCondition('s')}${analyticsFilterSql(filter, params)}
+       GROUP BY mg.id
+       ORDER BY LOWER(mg.name), mg.id`,
+      params,
     );
 
-    return rows.map((row) => {
-      const average = (value: unknown): number | null => {
-        if (value === null || value === undefined) {
-          return null;
-        }
-        const parsed = Number(value);
-        return Number.isFinite(parsed) ? parsed : null;
-      };
+    const trendParams: Array<string | number> = [];
+    const trendRows = await pool.query<ManagerTrendRow>(
+      `SELECT
+         p.manager_id AS "managerId",
+         to_char(date_trunc('${granularity}', s.survey_date::timestamp), 'YYYY-MM-DD') AS "periodStart",
+         COUNT(s.id) AS "responsesCount",
+         COUNT(DISTINCT s.user_id) AS "uniqueRespondents",
+         ${surveyMetricAggregatesSql((name) => `"${name}"`)}
+       FROM surveys s
+       JOIN projects p ON p.id = s.project_id
+       LEFT JOIN survey_metrics m ON m.survey_id = s.id
+       WHERE p.manager_id IS NOT NULL AND ${submittedSurveyCondition('s')}${analyticsFilterSql(filter, trendParams)}
+       GROUP BY p.manager_id, "periodStart"
+       ORDER BY "periodStart"`,
+      trendParams,
+    );
+
+    const projects = await pool.query<{ id: number | string; managerId: number | string }>(
+      'SELECT id, manager_id AS "managerId" FROM projects WHERE manager_id IS NOT NULL ORDER BY name',
+    );
+
+    const trends = new Map<number, Array<Omit<ManagerTrendPeriod, 'change'>>>();
+    trendRows.rows.forEach((row) => {
+      const managerId = Number(row.managerId);
+      const periods = trends.get(managerId) ?? [];
+      periods.push({
+        periodStart: row.periodStart,
+        responsesCount: Number(row.responsesCount),
+        uniqueRespondents: Number(row.uniqueRespondents),
+        ...mapSurveyMetricAggregates(row),
+      });
+      trends.set(managerId, periods);
+    });
 
+    return rows.map((row) => {
+      const id = Number(row.id);
       return {
-        id: Number(row.id),
-        name: row.name as string,
-        createdAt: row.createdAt as string,
-        responsesCount: Number(row.responsesCount ?? 0),
-        lastResponseAt: (row.lastResponseAt as string | null) ?? null,
-        uniqueRespondents: Number(row.uniqueRespondents ?? 0),
-        averages: {
-          projectRecommendation: average(row.avgProjectRecommendation),
-          managerEffectiveness: average(row.avgManagerEffectiveness),
-          teamComfort: average(row.avgTeamComfort),
-          processOrganization: average(row.avgProcessOrganization),
-        },
-        contributionBreakdown: {
-          yes: Number(row.contributionYes ?? 0) as number,
-          partial: Number(row.contributionPartial ?? 0) as number,
-          no: Number(row.contributionNo ?? 0) as number,
-        },
+        ...mapManagerRow(row),
+        projectIds: projects.rows
+          .filter((project) => Number(project.managerId) === id)
+          .map((project) => Number(project.id)),
+        responsesCount: Number(row.responsesCount),
+        uniqueRespondents: Number(row.uniqueRespondents),
+        ...mapSurveyMetricAggregates(row),
+        trend: withPeriodChanges(trends.get(id) ?? []),
       };
     });
   }
 
-  async function listAdminProjectResponses(projectId: number): Promise<AdminSurveyRecord[]> {
-    const { rows } = await pool.query<SurveyRow & {
-      first_name: string;
-      last_name: string | null;
-      username: string | null;
-    }>(
+  async function listDriverSamples(filter: AnalyticsFilter = {}): Promise<DriverSample[]> {
+    const params: Array<string | number> = [];
+    const { rows } = await pool.query<DriverSampleRow>(
+      `SELECT
+         s.project_id AS "projectId",
+         m.project_recommendation AS "projectRecommendation",
+         m.manager_effectiveness AS "managerEffectiveness",
+         m.team_comfort AS "teamComfort",
+         m.process_organization AS "processOrganization",
+         m.contribution_valued AS "contributionValued"
+       FROM surveys s
+       JOIN survey_metrics m ON m.survey_id = s.id
+       WHERE m.project_recommendation IS NOT NULL
+         AND ${submittedSurveyCondition('s')}${analyticsFilterSql(filter, params)}`,
+      params,
+    );
+
+    return rows.map((row) => ({ ...row, projectId: Number(row.projectId) }));
+  }
+
+  async function listContributionWeeks(filter: AnalyticsFilter = {}): Promise<ContributionWeekCounts[]> {
+    const params: Array<string | number> = [];
+    const sql = coveredByDailyStats(filter)
+      ? `SELECT
+           d.project_id AS "projectId",
+           p.name AS "projectName",
+           to_char(date_trunc('week', d.survey_date::timestamp), 'YYYY-MM-DD') AS "weekStart",
+           SUM(d.contribution_yes) AS "yesCount",
+           SUM(d.contribution_partial) AS "partialCount",
+           SUM(d.contribution_no) AS "noCount",
+           COALESCE(MAX(r."respondentsCount"), 0) AS "respondentsCount"
+         FROM project_daily_stats d
+         JOIN projects p ON p.id = d.project_id
+         LEFT JOIN (
+           SELECT
+             s.project_id,
+             to_char(date_trunc('week', s.survey_date::timestamp), 'YYYY-MM-DD') AS week_start,
+             COUNT(DISTINCT s.user_id) AS "respondentsCount"
+           FROM surveys s
+           JOIN survey_metrics m ON m.survey_id = s.id
+           WHERE m.contribution_valued IS NOT NULL
+             AND ${submittedSurveyCondition('s')}${dateRangeSql(filter, 's.survey_date', params)}
+           GROUP BY s.project_id, week_start
+         ) r ON r.project_id = d.project_id
+           AND r.week_start = to_char(date_trunc('week', d.survey_date::timestamp), 'YYYY-MM-DD')
+         WHERE d.responses_count > 0${dateRangeSql(filter, 'd.survey_date', params)}
+         GROUP BY d.project_id, p.name, "weekStart"
+         HAVING SUM(d.contribution_yes) + SUM(d.contribution_partial) + SUM(d.contribution_no) > 0
+         ORDER BY "weekStart"`
+      : `SELECT
+           s.project_id AS "projectId",
+           p.name AS "projectName",
+           to_char(date_trunc('week', s.survey_date::timestamp), 'YYYY-MM-DD') AS "weekStart",
+           SUM(CASE WHEN m.contribution_valued = 'yes' THEN 1 ELSE 0 END) AS "yesCount",
+           SUM(CASE WHEN m.contribution_valued = 'partial' THEN 1 ELSE 0 END) AS "partialCount",
+           SUM(CASE WHEN m.contribution_valued = 'no' THEN 1 ELSE 0 END) AS "noCount",
+           COUNT(DISTINCT s.user_id) AS "respondentsCount"
+         FROM surveys s
+         JOIN projects p ON p.id = s.project_id
+         JOIN survey_metrics m ON m.survey_id = s.id
+         WHERE m.contribution_valued IS NOT NULL
+           AND ${submittedSurveyCondition('s')}${analyticsFilterSql(filter, params)}
+         GROUP BY s.project_id, p.name, "weekStart"
+         ORDER BY "weekStart"`;
+    const { rows } = await pool.query<ContributionWeekRow>(sql, params);
+
+    return rows.map((row) => ({
+      projectId: Number(row.projectId),
+      projectName: row.projectName,
+      weekStart: row.weekStart,
+      counts: { yes: Number(row.yesCount), partial: Number(row.partialCount), no: Number(row.noCount) },
+      respondentsCount: Number(row.respondentsCount),
+    }));
+  }
+
+  /** Scores of the free-text answers of the surveys, by survey id and question key. */
+  async function loadAnswerSentiments(surveyIds: number[]): Promise<Map<number, Record<string, number>>> {
+    const sentiments = new Map<number, Record<string, number>>();
+    if (!surveyIds.length) {
+      return sentiments;
+    }
+
+    const { rows } = await pool.query<{ survey_id: string; key: string; sentiment: number }>(
+      `SELECT a.survey_id, q.key, a.sentiment
+       FROM survey_answers a
+       JOIN questions q ON q.id = a.question_id
+       WHERE a.survey_id = ANY($1::bigint[]) AND a.sentiment IS NOT NULL`,
+      [surveyIds],
+    );
+
+    rows.forEach((row) => {
+      const surveyId = Number(row.survey_id);
+      sentiments.set(surveyId, { ...sentiments.get(surveyId), [row.key]: row.sentiment });
+    });
+
+    return sentiments;
+  }
+
+  async function listAdminProjectResponses(
+    projectId: number,
+    filter: AnalyticsFilter = {},
+    order: ResponseOrder = 'recent',
+  ): Promise<AdminSurveyRecord[]> {
+    const params: Array<string | number> = [projectId];
+    const { rows } = await pool.query<AdminResponseRow>(
       `SELECT
          s.*,
+         s.survey_date::text AS survey_date,
        p.name AS project_name,
+       p.edit_policy,
+       p.edit_window_hours,
+       qn.version AS questionnaire_version,
        u.first_name,
        u.last_name,
-       u.username
+       u.username,
+       m.sentiment
        FROM surveys s
        JOIN projects p ON p.id = s.project_id
        JOIN users u ON u.id = s.user_id
-       WHERE s.project_id = $1 AND ${completedSurveyCondition('s')}
-       ORDER BY s.created_at DESC`,
-      [projectId],
+       LEFT JOIN questionnaires qn ON qn.id = s.questionnaire_id
+       LEFT JOIN survey_metrics m ON m.survey_id = s.id
+       WHERE s.project_id = $1 AND ${submittedSurveyCondition('s')}${analyticsFilterSql(filter, params)}
+       ORDER BY ${RESPONSE_ORDER_SQL[order]}`,
+      params,
     );
 
-    return rows.map((row) => ({
-      ...mapSurveyRow(row),
+    const sentiments = await loadAnswerSentiments(rows.map((row) => Number(row.id)));
+    return (await mapSurveyRows(rows)).map(({ row, record }) => ({
+      ...record,
       user: {
-        id: row.user_id,
+        id: Number(row.user_id),
         firstName: row.first_name,
         lastName: row.last_name,
         username: row.username,
       },
+      sentiment: row.sentiment,
+      answerSentiments: sentiments.get(Number(row.id)) ?? {},
     }));
   }
 
+  async function listAlerts(filter: AlertListFilter = {}): Promise<ProjectAlert[]> {
+    const conditions: string[] = [];
+    const params: Array<string | number> = [];
+    if (filter.status !== undefined) {
+      params.push(filter.status);
+      conditions.push(`a.status = $${params.length}`);
+    }
+    if (filter.projectId !== undefined) {
+      params.push(filter.projectId);
+      conditions.push(`a.project_id = $${params.length}`);
+    }
+
+    const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+    const { rows } = await pool.query<AlertRow>(
+      `${ALERT_SELECT} ${where} ORDER BY a.created_at DESC, a.id DESC`,
+      params,
+    );
+    return rows.map(mapAlertRow);
+  }
+
+  async function getAlert(id: number): Promise<ProjectAlert | undefined> {
+    const { rows } = await pool.query<AlertRow>(`${ALERT_SELECT} WHERE a.id = $1`, [id]);
+    return rows[0] ? mapAlertRow(rows[0]) : undefined;
+  }
+
+  async function saveAlert(candidate: AlertCandidate, now: Date): Promise<ProjectAlert | undefined> {
+    const timestamp = now.toISOString();
+    const id = await withTransaction(async (client): Promise<number | undefined> => {
+      // Detection after a submit and on the schedule may race for the same project and metric.
+      await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [
+        `alert:${candidate.projectId}:${candidate.metric}`,
+      ]);
+
+      const { rows: unresolved } = await client.query<Pick<AlertRow, 'id' | 'severity'>>(
+        `SELECT id, severity FROM project_alerts
+         WHERE project_id = $1 AND metric = $2 AND status <> 'resolved'`,
+        [candidate.projectId, candidate.metric],
+      );
+
+      if (unresolved[0]) {
+        const escalated = unresolved[0].severity === 'warning' && candidate.severity === 'critical';
+        await client.query(
+          `UPDATE project_alerts
+           SET severity = $1,
+               window_start = $2,
+               window_end = $3,
+               recent_value = $4,
+               baseline_value = $5,
+               recent_count = $6,
+               baseline_count = $7,
+               updated_at = $8,
+               status = CASE WHEN $9 THEN 'open' ELSE status END,
+               acknowledged_at = CASE WHEN $9 THEN NULL ELSE acknowledged_at END
+           WHERE id = $10`,
+          [
+            candidate.severity,
+            candidate.windowStart,
+            candidate.windowEnd,
+            candidate.recentValue,
+            candidate.baselineValue,
+            candidate.recentCount,
+            candidate.baselineCount,
+            timestamp,
+            escalated,
+            unresolved[0].id,
+          ],
+        );
+        return Number(unresolved[0].id);
+      }
+
+      const { rowCount: recentlyResolved } = await client.query(
+        `SELECT 1 FROM project_alerts
+         WHERE project_id = $1 AND metric = $2 AND status = 'resolved' AND resolved_at >= $3::date`,
+        [candidate.projectId, candidate.metric, candidate.windowStart],
+      );
+      if (recentlyResolved) {
+        return undefined;
+      }
+
+      const { rows } = await client.query<{ id: number | string }>(
+        `INSERT INTO project_alerts (
+           project_id, metric, severity, window_start, window_end, recent_value, baseline_value,
+           recent_count, baseline_count, created_at, updated_at
+         )
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $10)
+         RETURNING id`,
+        [
+          candidate.projectId,
+          candidate.metric,
+          candidate.severity,
+          candidate.windowStart,
+          candidate.windowEnd,
+          candidate.recentValue,
+          candidate.baselineValue,
+          candidate.recentCount,
+          candidate.baselineCount,
+          timestamp,
+        ],
+      );
+      return Number(rows[0]!.id);
+    });
+
+    return id === undefined ? undefined : getAlert(id);
+  }
+
+  async function setAlertStatus(
+    id: number,
+    status: Exclude<AlertStatus, 'open'>,
+    now: Date,
+  ): Promise<ProjectAlert | undefined> {
+    const timestamp = now.toISOString();
+    if (status === 'acknowledged') {
+      await pool.query(
+        `UPDATE project_alerts SET status = 'acknowledged', acknowledged_at = $1, updated_at = $1
+         WHERE id = $2 AND status = 'open'`,
+        [timestamp, id],
+      );
+    } else {
+      await pool.query(
+        `UPDATE project_alerts SET status = 'resolved', resolved_at = $1, updated_at = $1
+         WHERE id = $2 AND status <> 'resolved'`,
+        [timestamp, id],
+      );
+    }
+
+    return getAlert(id);
+  }
+
   async function close(): Promise<void> {
     await pool.end();
   }
@@ -646,18 +2116,49 @@ export function createPostgresAdapter(databaseUrl: string): DatabaseAdapter {
     init,
     close,
     ensureUser,
+    getUserLanguage,
+    setUserLanguage,
+    getActiveQuestionnaire,
+    getQuestionnaire,
+    getSurveyQuestionnaire,
+    listQuestionnaireVersions,
+    createQuestionnaireVersion,
+    getProjectQuestionnaire,
+    setProjectQuestionnaire,
+    clearProjectQuestionnaire,
     listProjects,
     createProject,
     updateProjectName,
+    setProjectEditPolicy,
+    setProjectManager,
+    getProjectExpectedRespondents,
+    setProjectExpectedRespondents,
     deleteProject,
     deleteSurvey,
     updateSurveyAnswers,
+    listSurveyRevisions,
+    unlockSurvey,
     getSurveyById,
     listSurveys,
     createSurvey,
     updateSurvey,
+    submitSurvey,
     listAdminProjects,
+    getAdminProject,
+    getManager,
+    createManager,
+    updateManagerName,
+    deleteManager,
+    listAdminManagers,
+    getPortfolioTotals,
+    listProjectTrends,
+    listDriverSamples,
+    listContributionWeeks,
     listAdminProjectResponses,
+    listAlerts,
+    getAlert,
+    saveAlert,
+    setAlertStatus,
   };
 
   return adapter;
@@ -0,0 +1,51 @@
+import { AnswerChange, AnswerValue, QuestionDefinition, RevisionActor, SurveyAnswers, SurveyRevision } from '../types';
+import { decodeAnswer, encodeAnswer } from '../questionnaire/answers';
+
+/** Who an edit is attributed to in the survey's revision history. */
+export interface RevisionAuthor {
+  actor: RevisionActor;
+  actorId: number | null;
+  revertedRevisionId?: number;
+}
+
+/**
+ * What writing `value` does to an answer currently holding `oldValue`, compared in stored form (trimmed text,
+ * `''` clearing the answer), or `undefined` when the stored answer stays the same.
+ */
+export function answerChange(
+  question: Pick<QuestionDefinition, 'key' | 'type'>,
+  oldValue: AnswerValue | undefined,
+  value: AnswerValue,
+): AnswerChange | undefined {
+  const stored = encodeAnswer(question, value);
+  const newValue = stored ? (decodeAnswer(question.type, stored.numericValue, stored.textValue) ?? null) : null;
+
+  // Answers are plain JSON values, so comparing their serialisations is enough to detect edits.
+  if (JSON.stringify(oldValue ?? null) === JSON.stringify(newValue)) {
+    return undefined;
+  }
+
+  return { key: question.key, oldValue: oldValue ?? null, newValue };
+}
+
+/**
+ * Updates that bring a survey back to its answers right after `revisionId`: every answer changed since gets the
+ * value it had before the first later change. `revisions` must be newest first; returns `undefined` when the
+ * revision is not among them.
+ */
+export function revertUpdates(revisions: SurveyRevision[], revisionId: number): SurveyAnswers | undefined {
+  const index = revisions.findIndex((revision) => revision.id === revisionId);
+  if (index === -1) {
+    return undefined;
+  }
+
+  const updates: SurveyAnswers = {};
+  // Later revisions are visited newest first, so the oldest change to each answer is the one that sticks.
+  revisions.slice(0, index).forEach((revision) => {
+    revision.changes.forEach((change) => {
+      updates[change.key] = change.oldValue ?? '';
+    });
+  });
+
+  return updates;
+}
@@ -1,70 +1,299 @@
 import fs from 'fs';
 import path from 'path';
 import Database, { RunResult } from 'better-sqlite3';
-import { ContributionValue, SurveyAnswers, SurveyRecord, TelegramUser } from '../types';
 import {
+  AnswerChange,
+  EditPolicy,
+  Language,
+  QuestionCondition,
+  QuestionDefinition,
+  QuestionOption,
+  QuestionType,
+  ProjectQuestionnaireMode,
+  Questionnaire,
+  QuestionSeed,
+  QuestionTranslation,
+  SurveyAnswers,
+  SurveyRecord,
+  SurveyRevision,
+  TelegramUser,
+} from '../types';
+import { decodeAnswer, encodeAnswer } from '../questionnaire/answers';
+import { projectQuestionnaireCode, withExtension } from '../questionnaire/effective';
+import {
+  DEFAULT_QUESTIONNAIRE_CODE,
+  DEFAULT_QUESTIONNAIRE_TITLE,
+  DEFAULT_QUESTIONS,
+  LEGACY_ANSWER_COLUMNS,
+} from '../questionnaire/defaults';
+import { scoreSentiment } from '../textAnalytics/sentiment';
+import { DEFAULT_EDIT_WINDOW_HOURS, editableUntil } from './editPolicy';
+import {
+  analyticsFilterConditions,
+  coveredByDailyStats,
+  dailyMetricAggregatesSql,
+  dailySentimentAggregatesSql,
+  dateRangeConditions,
+  mapSurveyMetricAggregates,
+  mapSentimentAggregates,
+  participationStats,
+  PROJECT_DAILY_STATS_COLUMNS,
+  projectDailyStatsTableSql,
+  projectDailyStatsUpdateSql,
+  projectDailyStatsValuesSql,
+  RESPONSE_ORDER_SQL,
+  SentimentAggregateRow,
+  sentimentAggregatesSql,
+  SurveyMetricAggregateRow,
+  surveyMetricAggregatesSql,
+  surveyMetricsViewSql,
+  withPeriodChanges,
+} from './metrics';
+import { answerChange, RevisionAuthor } from './revisions';
+import {
+  AdminManagerStats,
   AdminProjectStats,
   AdminSurveyRecord,
+  AlertCandidate,
+  AlertListFilter,
+  AlertStatus,
+  AnalyticsFilter,
+  ContributionWeekCounts,
   DatabaseAdapter,
+  DriverSample,
+  ExpectedRespondents,
+  Manager,
+  ManagerTrendPeriod,
+  NewQuestionnaireVersion,
+  PortfolioTotals,
+  ProjectAlert,
+  ProjectQuestionnaireInput,
   ProjectSummary,
+  ProjectTrendPeriod,
+  ResponseOrder,
   SurveyCreationResult,
+  TrendGranularity,
 } from './types';
 
-const ONE_DAY_MS = 24 * 60 * 60 * 1000;
-
 type SurveyRow = {
   id: number;
   user_id: number;
   project_id: number;
   project_name: string;
+  questionnaire_id: number | null;
+  questionnaire_version: number | null;
+  extension_questionnaire_id: number | null;
   survey_date: string;
-  project_recommendation: number | null;
-  project_improvement: string | null;
-  manager_effectiveness: number | null;
-  manager_improvement: string | null;
-  team_comfort: number | null;
-  team_improvement: string | null;
-  process_organization: number | null;
-  process_obstacles: string | null;
-  contribution_valued: ContributionValue | null;
-  improvement_ideas: string | null;
   created_at: string;
   updated_at: string;
+  submitted_at: string | null;
+  last_step: number | null;
+  unlocked_until: string | null;
+  edit_policy: EditPolicy;
+  edit_window_hours: number;
+};
+
+type QuestionRow = {
+  id: number;
+  questionnaire_id: number;
+  key: string;
+  position: number;
+  type: QuestionType;
+  title: string;
+  short_title: string | null;
+  description: string | null;
+  placeholder: string | null;
+  options: string | null;
+  matrix_rows: string | null;
+  show_if: string | null;
+  translations: string | null;
+  required: number;
+  comparable: number;
+};
+
+type QuestionnaireRow = {
+  id: number;
+  code: string;
+  version: number;
+  title: string;
+  created_at: string;
+};
+
+type AnswerRow = {
+  survey_id: number;
+  key: string;
+  type: QuestionType;
+  numeric_value: number | null;
+  text_value: string | null;
+};
+
+type RevisionRow = {
+  id: number;
+  survey_id: number;
+  actor: SurveyRevision['actor'];
+  actor_id: number | null;
+  changes: string;
+  reverted_revision_id: number | null;
+  created_at: string;
+};
+
+type TrendPeriodRow = SurveyMetricAggregateRow & {
+  periodStart: string;
+  responsesCount: number;
+  uniqueRespondents: number;
+  listedRespondents: number;
 };
 
-const surveyFieldToColumn: Record<keyof SurveyAnswers, string> = {
-  projectRecommendation: 'project_recommendation',
-  projectImprovement: 'project_improvement',
-  managerEffectiveness: 'manager_effectiveness',
-  managerImprovement: 'manager_improvement',
-  teamComfort: 'team_comfort',
-  teamImprovement: 'team_improvement',
-  processOrganization: 'process_organization',
-  processObstacles: 'process_obstacles',
-  contributionValued: 'contribution_valued',
-  improvementIdeas: 'improvement_ideas',
+type ManagerStatsRow = Manager & SurveyMetricAggregateRow & {
+  responsesCount: number;
+  uniqueRespondents: number;
 };
 
-const completedSurveyColumns = [
-  'project_recommendation',
-  'project_improvement',
-  'manager_effectiveness',
-  'manager_improvement',
-  'team_comfort',
-  'team_improvement',
-  'process_organization',
-  'process_obstacles',
-  'contribution_valued',
-  'improvement_ideas',
-] as const;
-
-function completedSurveyCondition(alias?: string): string {
-  const prefix = alias ? `${alias}.` : '';
-  return completedSurveyColumns.map((column) => `${prefix}${column} IS NOT NULL`).join(' AND ');
+type ManagerTrendRow = SurveyMetricAggregateRow & {
+  managerId: number;
+  periodStart: string;
+  responsesCount: number;
+  uniqueRespondents: number;
+};
+
+type AdminResponseRow = SurveyRow & {
+  first_name: string;
+  last_name: string | null;
+  username: string | null;
+  sentiment: number | null;
+};
+
+type AlertRow = {
+  id: number;
+  project_id: number;
+  project_name: string;
+  metric: ProjectAlert['metric'];
+  severity: ProjectAlert['severity'];
+  status: AlertStatus;
+  window_start: string;
+  window_end: string;
+  recent_value: number;
+  baseline_value: number;
+  recent_count: number;
+  baseline_count: number;
+  created_at: string;
+  updated_at: string;
+  acknowledged_at: string | null;
+  resolved_at: string | null;
+};
+
+const ALERT_SELECT = `
+  SELECT a.*, p.name AS project_name
+  FROM project_alerts a
+  JOIN projects p ON p.id = a.project_id
+`;
+
+// Statistics only count surveys the respondent explicitly submitted.
+function submittedSurveyCondition(alias: string): string {
+  return `${alias}.submitted_at IS NOT NULL`;
+}
+
+/** Surveys with every unconditional required question answered; used to backfill `submitted_at`. */
+function requiredAnswersCondition(alias: string): string {
+  return `NOT EXISTS (
+    SELECT 1
+    FROM questions rq
+    WHERE rq.questionnaire_id IN (${alias}.questionnaire_id, ${alias}.extension_questionnaire_id)
+      AND rq.required
+      AND rq.show_if IS NULL
+      AND NOT EXISTS (
+        SELECT 1 FROM survey_answers ra WHERE ra.survey_id = ${alias}.id AND ra.question_id = rq.id
+      )
+  )`;
+}
+
+const SURVEY_SELECT = `
+  SELECT
+    s.*,
+    p.name AS project_name,
+    p.edit_policy,
+    p.edit_window_hours,
+    qn.version AS questionnaire_version
+  FROM surveys s
+  JOIN projects p ON p.id = s.project_id
+  LEFT JOIN questionnaires qn ON qn.id = s.questionnaire_id
+`;
+
+function surveysTableSql(options: { unique: boolean }): string {
+  const uniqueConstraint = options.unique ? ',\n        UNIQUE(user_id, project_id, survey_date)' : '';
+
+  return `
+      CREATE TABLE IF NOT EXISTS surveys (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL,
+        project_id INTEGER NOT NULL,
+        questionnaire_id INTEGER,
+        extension_questionnaire_id INTEGER,
+        survey_date TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        submitted_at TEXT,
+        last_step INTEGER,
+        unlocked_until TEXT,
+        FOREIGN KEY(user_id) REFERENCES users(id),
+        FOREIGN KEY(project_id) REFERENCES projects(id),
+        FOREIGN KEY(questionnaire_id) REFERENCES questionnaires(id),
+        FOREIGN KEY(extension_questionnaire_id) REFERENCES questionnaires(id)${uniqueConstraint}
+      );
+  `;
+}
+
+function mapRevisionRow(row: RevisionRow): SurveyRevision {
+  return {
+    id: row.id,
+    surveyId: row.survey_id,
+    actor: row.actor,
+    actorId: row.actor_id,
+    createdAt: row.created_at,
+    changes: JSON.parse(row.changes) as AnswerChange[],
+    revertedRevisionId: row.reverted_revision_id,
+  };
 }
 
-function isSurveyRowComplete(row: SurveyRow): boolean {
-  return completedSurveyColumns.every((column) => row[column] !== null);
+function mapAlertRow(row: AlertRow): ProjectAlert {
+  return {
+    id: row.id,
+    projectId: row.project_id,
+    projectName: row.project_name,
+    metric: row.metric,
+    severity: row.severity,
+    status: row.status,
+    windowStart: row.window_start,
+    windowEnd: row.window_end,
+    recentValue: row.recent_value,
+    baselineValue: row.baseline_value,
+    recentCount: row.recent_count,
+    baselineCount: row.baseline_count,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    acknowledgedAt: row.acknowledged_at,
+    resolvedAt: row.resolved_at,
+  };
+}
+
+function mapQuestionRow(row: QuestionRow): QuestionDefinition {
+  return {
+    id: row.id,
+    key: row.key,
+    type: row.type,
+    title: row.title,
+    shortTitle: row.short_title ?? undefined,
+    description: row.description ?? undefined,
+    placeholder: row.placeholder ?? undefined,
+    options: row.options ? (JSON.parse(row.options) as QuestionOption[]) : undefined,
+    rows: row.matrix_rows ? (JSON.parse(row.matrix_rows) as QuestionOption[]) : undefined,
+    showIf: row.show_if ? (JSON.parse(row.show_if) as QuestionCondition) : undefined,
+    translations: row.translations
+      ? (JSON.parse(row.translations) as Partial<Record<Language, QuestionTranslation>>)
+      : undefined,
+    required: Boolean(row.required),
+    comparable: Boolean(row.comparable),
+  };
 }
 
 export function createSqliteAdapter(databaseFile: string): DatabaseAdapter {
@@ -76,6 +305,38 @@ export function createSqliteAdapter(databaseFile: string): DatabaseAdapter {
   const db = new Database(databaseFile);
   db.pragma('journal_mode = WAL');
 
+  function tableColumns(table: string): string[] {
+    const rows = db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+    return rows.map((row) => row.name);
+  }
+
+  function rebuildSurveysTable(options: { unique: boolean; questionnaireId?: number }): void {
+    db.exec('ALTER TABLE surveys RENAME TO surveys_legacy;');
+    db.exec(surveysTableSql({ unique: options.unique }));
+
+    const legacyColumns = new Set(tableColumns('surveys_legacy'));
+    const sharedColumns = tableColumns('surveys').filter((column) => legacyColumns.has(column));
+    const columnList = sharedColumns.join(', ');
+
+    db.exec(`INSERT INTO surveys (${columnList}) SELECT ${columnList} FROM surveys_legacy;`);
+    db.exec('DROP TABLE surveys_legacy;');
+
+    if (options.questionnaireId !== undefined) {
+      db.prepare('UPDATE surveys SET questionnaire_id = ? WHERE questionnaire_id IS NULL').run(options.questionnaireId);
+    }
+
+    if (!legacyColumns.has('submitted_at')) {
+      backfillSubmittedAt();
+    }
+  }
+
+  // Surveys saved before explicit submission existed count as submitted once their required answers are in.
+  function backfillSubmittedAt(): void {
+    db.exec(
+      `UPDATE surveys SET submitted_at = updated_at WHERE submitted_at IS NULL AND ${requiredAnswersCondition('surveys')}`,
+    );
+  }
+
   function migrateSurveysSchema(): void {
     const existing = db
       .prepare("SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'surveys'")
@@ -119,6 +380,9 @@ export function createSqliteAdapter(databaseFile: string): DatabaseAdapter {
         `)
         .run();
 
+      db.prepare('DELETE FROM survey_answers WHERE survey_id NOT IN (SELECT id FROM surveys)').run();
+      db.prepare('DELETE FROM survey_revisions WHERE survey_id NOT IN (SELECT id FROM surveys)').run();
+
       // eslint-disable-next-line no-console
       console.warn(
         `Removed ${deleted.changes} duplicate survey entr${deleted.changes === 1 ? 'y' : 'ies'} while migrating the schema; kept the most recently updated entry per user/project/date combination.`,
@@ -126,107 +390,438 @@ export function createSqliteAdapter(databaseFile: string): DatabaseAdapter {
     }
 
     const migrate = db.transaction(() => {
-      db.exec('ALTER TABLE surveys RENAME TO surveys_legacy;');
+      rebuildSurveysTable({ unique: false });
+    });
 
-      db.exec(`
-        CREATE TABLE surveys (
-          id INTEGER PRIMARY KEY AUTOINCREMENT,
-          user_id INTEGER NOT NULL,
-          project_id INTEGER NOT NULL,
-          survey_date TEXT NOT NULL,
-          project_recommendation INTEGER,
-          project_improvement TEXT,
-          manager_effectiveness INTEGER,
-          manager_improvement TEXT,
-          team_comfort INTEGER,
-          team_improvement TEXT,
-          process_organization INTEGER,
-          process_obstacles TEXT,
-          contribution_valued TEXT CHECK (contribution_valued IN ('yes', 'no', 'partial')),
-          improvement_ideas TEXT,
-          created_at TEXT NOT NULL,
-          updated_at TEXT NOT NULL,
-          FOREIGN KEY(user_id) REFERENCES users(id),
-          FOREIGN KEY(project_id) REFERENCES projects(id)
+    migrate();
+  }
+
+  /**
+   * Moves answers from the fixed per-question columns of the original `surveys` table into
+   * `survey_answers` and drops those columns.
+   */
+  function migrateLegacyAnswerColumns(questionnaireId: number): void {
+    const columns = tableColumns('surveys');
+    if (!columns.includes('project_recommendation')) {
+      return;
+    }
+
+    const existing = db
+      .prepare("SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'surveys'")
+      .get() as { sql: string } | undefined;
+    const hasUniqueConstraint = /UNIQUE\s*\(\s*user_id\s*,\s*project_id\s*,\s*survey_date\s*\)/i.test(existing?.sql ?? '');
+
+    const questionIds = new Map(
+      (db.prepare('SELECT id, key FROM questions WHERE questionnaire_id = ?').all(questionnaireId) as Array<{
+        id: number;
+        key: string;
+      }>).map((row) => [row.key, row.id]),
+    );
+
+    const migrate = db.transaction(() => {
+      LEGACY_ANSWER_COLUMNS.forEach(({ key, column, kind }) => {
+        const questionId = questionIds.get(key);
+        if (!questionId || !columns.includes(column)) {
+          return;
+        }
+
+        const numericValue = kind === 'numeric' ? column : 'NULL';
+        const textValue = kind === 'text' ? `TRIM(${column})` : 'NULL';
+        const filter = kind === 'text' ? `TRIM(${column}) <> ''` : `${column} IS NOT NULL`;
+
+        db.prepare(
+          `INSERT OR IGNORE INTO survey_answers (survey_id, question_id, numeric_value, text_value, updated_at)
+           SELECT id, ?, ${numericValue}, ${textValue}, updated_at
+           FROM surveys
+           WHERE ${filter}`,
+        ).run(questionId);
+      });
+
+      rebuildSurveysTable({ unique: hasUniqueConstraint, questionnaireId });
+    });
+
+    migrate();
+  }
+
+  function insertQuestionnaireVersion(code: string, title: string, questions: QuestionSeed[]): number {
+    const insert = db.transaction(() => {
+      const now = new Date().toISOString();
+      const latest = db
+        .prepare('SELECT MAX(version) AS version FROM questionnaires WHERE code = ?')
+        .get(code) as { version: number | null };
+
+      const inserted = db
+        .prepare('INSERT INTO questionnaires (code, version, title, created_at) VALUES (?, ?, ?, ?)')
+        .run(code, (latest.version ?? 0) + 1, title, now);
+      const questionnaireId = Number(inserted.lastInsertRowid);
+
+      const insertQuestion = db.prepare(
+        `INSERT INTO questions (
+           questionnaire_id, key, position, type, title, short_title, description, placeholder, options,
+           matrix_rows, show_if, translations, required, comparable, created_at
+         )
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      );
+
+      questions.forEach((question, index) => {
+        insertQuestion.run(
+          questionnaireId,
+          question.key,
+          index,
+          question.type,
+          question.title,
+          question.shortTitle ?? null,
+          question.description ?? null,
+          question.placeholder ?? null,
+          question.options ? JSON.stringify(question.options) : null,
+          question.rows ? JSON.stringify(question.rows) : null,
+          question.showIf ? JSON.stringify(question.showIf) : null,
+          question.translations ? JSON.stringify(question.translations) : null,
+          question.required ? 1 : 0,
+          question.comparable === false ? 0 : 1,
+          now,
         );
+      });
+
+      return questionnaireId;
+    });
+
+    return insert();
+  }
+
+  function latestQuestionnaireId(code = DEFAULT_QUESTIONNAIRE_CODE): number | undefined {
+    const row = db
+      .prepare('SELECT id FROM questionnaires WHERE code = ? ORDER BY version DESC LIMIT 1')
+      .get(code) as { id: number } | undefined;
+
+    return row?.id;
+  }
+
+  /** Columns added after the tables were first released; `CREATE TABLE IF NOT EXISTS` won't add them. */
+  function addMissingColumns(): void {
+    const projectColumns = tableColumns('projects');
+    if (!projectColumns.includes('questionnaire_mode')) {
+      db.exec(`
+        ALTER TABLE projects ADD COLUMN questionnaire_mode TEXT CHECK (questionnaire_mode IN ('extend', 'replace'));
+        ALTER TABLE projects ADD COLUMN questionnaire_id INTEGER REFERENCES questionnaires(id);
       `);
+    }
 
+    if (!projectColumns.includes('edit_policy')) {
       db.exec(`
-        INSERT INTO surveys (
-          id,
-          user_id,
-          project_id,
-          survey_date,
-          project_recommendation,
-          project_improvement,
-          manager_effectiveness,
-          manager_improvement,
-          team_comfort,
-          team_improvement,
-          process_organization,
-          process_obstacles,
-          contribution_valued,
-          improvement_ideas,
-          created_at,
-          updated_at
-        )
-        SELECT
-          id,
-          user_id,
-          project_id,
-          survey_date,
-          project_recommendation,
-          project_improvement,
-          manager_effectiveness,
-          manager_improvement,
-          team_comfort,
-          team_improvement,
-          process_organization,
-          process_obstacles,
-          contribution_valued,
-          improvement_ideas,
-          created_at,
-          updated_at
-        FROM surveys_legacy;
+        ALTER TABLE projects ADD COLUMN edit_policy TEXT NOT NULL DEFAULT 'hours' CHECK (edit_policy IN ('hours', 'week', 'never'));
+        ALTER TABLE projects ADD COLUMN edit_window_hours INTEGER NOT NULL DEFAULT ${DEFAULT_EDIT_WINDOW_HOURS};
       `);
+    }
+
+    if (!projectColumns.includes('expected_headcount')) {
+      db.exec('ALTER TABLE projects ADD COLUMN expected_headcount INTEGER;');
+    }
+
+    if (!projectColumns.includes('manager_id')) {
+      db.exec('ALTER TABLE projects ADD COLUMN manager_id INTEGER REFERENCES managers(id);');
+    }
+
+    const surveyColumns = tableColumns('surveys');
+    if (!surveyColumns.includes('extension_questionnaire_id')) {
+      db.exec('ALTER TABLE surveys ADD COLUMN extension_questionnaire_id INTEGER REFERENCES questionnaires(id);');
+    }
+
+    if (!surveyColumns.includes('submitted_at')) {
+      db.exec('ALTER TABLE surveys ADD COLUMN submitted_at TEXT;');
+      backfillSubmittedAt();
+    }
+
+    if (!surveyColumns.includes('last_step')) {
+      db.exec('ALTER TABLE surveys ADD COLUMN last_step INTEGER;');
+    }
+
+    if (!surveyColumns.includes('unlocked_until')) {
+      db.exec('ALTER TABLE surveys ADD COLUMN unlocked_until TEXT;');
+    }
+
+    const questionColumns = tableColumns('questions');
+    if (!questionColumns.includes('show_if')) {
+      db.exec('ALTER TABLE questions ADD COLUMN show_if TEXT;');
+    }
+
+    if (!questionColumns.includes('matrix_rows')) {
+      db.exec('ALTER TABLE questions ADD COLUMN matrix_rows TEXT;');
+    }
+
+    if (!questionColumns.includes('translations')) {
+      db.exec('ALTER TABLE questions ADD COLUMN translations TEXT;');
+    }
+
+    if (!tableColumns('users').includes('language')) {
+      db.exec("ALTER TABLE users ADD COLUMN language TEXT CHECK (language IN ('ru', 'en'));");
+    }
+
+    if (!tableColumns('survey_answers').includes('sentiment')) {
+      db.exec('ALTER TABLE survey_answers ADD COLUMN sentiment REAL;');
+    }
+  }
+
+  /** Scores free-text answers stored before sentiment was, including those just moved from legacy columns. */
+  function backfillAnswerSentiment(): void {
+    const rows = db
+      .prepare(
+        `SELECT a.survey_id, a.question_id, a.text_value
+         FROM survey_answers a
+         JOIN questions q ON q.id = a.question_id
+         WHERE q.type = 'text' AND a.sentiment IS NULL AND a.text_value IS NOT NULL`,
+      )
+      .all() as Array<{ survey_id: number; question_id: number; text_value: string }>;
+    if (!rows.length) {
+      return;
+    }
 
-      db.exec('DROP TABLE surveys_legacy;');
+    const update = db.prepare('UPDATE survey_answers SET sentiment = ? WHERE survey_id = ? AND question_id = ?');
+    const backfill = db.transaction(() => {
+      rows.forEach((row) => update.run(scoreSentiment(row.text_value), row.survey_id, row.question_id));
     });
 
-    migrate();
+    backfill();
   }
 
-  function mapSurveyRow(row: SurveyRow): SurveyRecord {
+  /** Adds the bundled translations to standard questions published before translations existed, if unreworded. */
+  function backfillDefaultTranslations(): void {
+    const update = db.prepare(
+      `UPDATE questions
+       SET translations = ?
+       WHERE translations IS NULL
+         AND key = ?
+         AND title = ?
+         AND questionnaire_id IN (SELECT id FROM questionnaires WHERE code = ?)`,
+    );
+
+    DEFAULT_QUESTIONS.forEach((question) => {
+      if (question.translations) {
+        update.run(JSON.stringify(question.translations), question.key, question.title, DEFAULT_QUESTIONNAIRE_CODE);
+      }
+    });
+  }
+
+  function seedDefaultQuestionnaire(): number {
+    return (
+      latestQuestionnaireId() ??
+      insertQuestionnaireVersion(DEFAULT_QUESTIONNAIRE_CODE, DEFAULT_QUESTIONNAIRE_TITLE, DEFAULT_QUESTIONS)
+    );
+  }
+
+  function mapQuestionnaireRow(row: QuestionnaireRow): Questionnaire {
+    const questions = db
+      .prepare('SELECT * FROM questions WHERE questionnaire_id = ? ORDER BY position ASC, id ASC')
+      .all(row.id) as QuestionRow[];
+
+    return {
+      id: row.id,
+      code: row.code,
+      version: row.version,
+      title: row.title,
+      createdAt: row.created_at,
+      questions: questions.map(mapQuestionRow),
+    };
+  }
+
+  function loadQuestionnaire(id: number): Questionnaire | undefined {
+    const row = db.prepare('SELECT * FROM questionnaires WHERE id = ?').get(id) as QuestionnaireRow | undefined;
+    return row ? mapQuestionnaireRow(row) : undefined;
+  }
+
+  function activeQuestionnaireId(): number {
+    return seedDefaultQuestionnaire();
+  }
+
+  function loadSurveyQuestionnaire(questionnaireId: number, extensionId: number | null): Questionnaire | undefined {
+    const base = loadQuestionnaire(questionnaireId);
+    return base && withExtension(base, extensionId === null ? undefined : loadQuestionnaire(extensionId));
+  }
+
+  /** Questionnaire ids a new survey in the project is pinned to. */
+  function projectSurveyQuestionnaireIds(
+    projectId: number,
+  ): { questionnaireId: number; extensionId: number | null } | undefined {
+    const project = db
+      .prepare('SELECT questionnaire_mode, questionnaire_id FROM projects WHERE id = ?')
+      .get(projectId) as { questionnaire_mode: ProjectQuestionnaireMode | null; questionnaire_id: number | null } | undefined;
+
+    if (!project) {
+      return undefined;
+    }
+
+    if (project.questionnaire_id === null || project.questionnaire_mode === null) {
+      return { questionnaireId: activeQuestionnaireId(), extensionId: null };
+    }
+
+    return project.questionnaire_mode === 'replace'
+      ? { questionnaireId: project.questionnaire_id, extensionId: null }
+      : { questionnaireId: activeQuestionnaireId(), extensionId: project.questionnaire_id };
+  }
+
+  function loadAnswers(surveyIds: number[]): Map<number, SurveyAnswers> {
+    const answers = new Map<number, SurveyAnswers>();
+    if (!surveyIds.length) {
+      return answers;
+    }
+
+    const placeholders = surveyIds.map(() => '?').join(', ');
+    const rows = db
+      .prepare(
+        `SELECT a.survey_id, q.key, q.type, a.numeric_value, a.text_value
+         FROM survey_answers a
+         JOIN questions q ON q.id = a.question_id
+         WHERE a.survey_id IN (${placeholders})`,
+      )
+      .all(...surveyIds) as AnswerRow[];
+
+    rows.forEach((row) => {
+      const value = decodeAnswer(row.type, row.numeric_value, row.text_value);
+      if (value === undefined) {
+        return;
+      }
+
+      const surveyAnswers = answers.get(row.survey_id) ?? {};
+      surveyAnswers[row.key] = value;
+      answers.set(row.survey_id, surveyAnswers);
+    });
+
+    return answers;
+  }
+
+  function mapSurveyRow(row: SurveyRow, answers: SurveyAnswers = {}): SurveyRecord {
     const createdAt = row.created_at;
     const updatedAt = row.updated_at;
 
-    const editable = Date.now() - new Date(createdAt).getTime() <= ONE_DAY_MS;
+    const deadline = editableUntil({
+      policy: row.edit_policy,
+      windowHours: row.edit_window_hours,
+      surveyDate: row.survey_date,
+      submittedAt: row.submitted_at,
+      unlockedUntil: row.unlocked_until,
+    });
 
     return {
       id: row.id,
       userId: row.user_id,
       projectId: row.project_id,
       projectName: row.project_name,
+      questionnaireId: row.questionnaire_id ?? activeQuestionnaireId(),
+      questionnaireVersion: row.questionnaire_version ?? 1,
+      extensionQuestionnaireId: row.extension_questionnaire_id,
       surveyDate: row.survey_date,
-      projectRecommendation: nullableNumber(row.project_recommendation),
-      projectImprovement: row.project_improvement ?? undefined,
-      managerEffectiveness: nullableNumber(row.manager_effectiveness),
-      managerImprovement: row.manager_improvement ?? undefined,
-      teamComfort: nullableNumber(row.team_comfort),
-      teamImprovement: row.team_improvement ?? undefined,
-      processOrganization: nullableNumber(row.process_organization),
-      processObstacles: row.process_obstacles ?? undefined,
-      contributionValued: row.contribution_valued ?? undefined,
-      improvementIdeas: row.improvement_ideas ?? undefined,
+      answers,
       createdAt,
       updatedAt,
-      canEdit: editable,
-      isComplete: isSurveyRowComplete(row),
+      canEdit: deadline === null || Date.now() < deadline.getTime(),
+      editableUntil: deadline?.toISOString() ?? null,
+      submittedAt: row.submitted_at,
+      lastStep: row.last_step,
     };
   }
 
-  function nullableNumber(value: number | null): number | undefined {
-    return typeof value === 'number' ? value : undefined;
+  function mapSurveyRows<T extends SurveyRow>(rows: T[]): Array<{ row: T; record: SurveyRecord }> {
+    const answers = loadAnswers(rows.map((row) => row.id));
+    return rows.map((row) => ({ row, record: mapSurveyRow(row, answers.get(row.id)) }));
+  }
+
+  function loadSurvey(id: number): SurveyRecord | undefined {
+    const row = db.prepare(`${SURVEY_SELECT} WHERE s.id = ?`).get(id) as SurveyRow | undefined;
+    return row ? mapSurveyRows([row])[0]!.record : undefined;
+  }
+
+  /** Writes the answers that actually change and records them as one revision by `author`. */
+  function writeAnswers(
+    survey: SurveyRecord,
+    updates: SurveyAnswers,
+    timestamp: string,
+    author: RevisionAuthor,
+  ): AnswerChange[] {
+    const surveyId = survey.id;
+    const questionnaire = loadSurveyQuestionnaire(survey.questionnaireId, survey.extensionQuestionnaireId);
+    const questions = new Map((questionnaire?.questions ?? []).map((question) => [question.key, question]));
+
+    const upsert = db.prepare(
+      `INSERT INTO survey_answers (survey_id, question_id, numeric_value, text_value, sentiment, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?)
+       ON CONFLICT (survey_id, question_id) DO UPDATE
+         SET numeric_value = excluded.numeric_value,
+             text_value = excluded.text_value,
+             sentiment = excluded.sentiment,
+             updated_at = excluded.updated_at`,
+    );
+    const remove = db.prepare('DELETE FROM survey_answers WHERE survey_id = ? AND question_id = ?');
+
+    const changes: AnswerChange[] = [];
+    Object.entries(updates).forEach(([key, value]) => {
+      const question = questions.get(key);
+      const change = question && answerChange(question, survey.answers[key], value);
+      if (!question || !change) {
+        return;
+      }
+
+      changes.push(change);
+      const stored = encodeAnswer(question, value);
+      if (!stored) {
+        remove.run(surveyId, question.id);
+        return;
+      }
+
+      upsert.run(surveyId, question.id, stored.numericValue, stored.textValue, stored.sentiment, timestamp);
+    });
+
+    if (changes.length) {
+      db.prepare(
+        `INSERT INTO survey_revisions (survey_id, actor, actor_id, changes, reverted_revision_id, created_at)
+         VALUES (?, ?, ?, ?, ?, ?)`,
+      ).run(
+        surveyId,
+        author.actor,
+        author.actorId,
+        JSON.stringify(changes),
+        author.revertedRevisionId ?? null,
+        timestamp,
+      );
+    }
+
+    return changes;
+  }
+
+  /** Recomputes the project's `project_daily_stats` row for `surveyDate` from its submitted surveys. */
+  function refreshDailyStats(projectId: number, surveyDate: string): void {
+    db.prepare(
+      `INSERT INTO project_daily_stats (project_id, survey_date, ${PROJECT_DAILY_STATS_COLUMNS})
+       SELECT ?, ?, ${projectDailyStatsValuesSql()}
+       FROM surveys s
+       LEFT JOIN survey_metrics m ON m.survey_id = s.id
+       WHERE s.project_id = ? AND s.survey_date = ? AND ${submittedSurveyCondition('s')}
+       ON CONFLICT (project_id, survey_date) DO UPDATE SET ${projectDailyStatsUpdateSql()}`,
+    ).run(projectId, surveyDate, projectId, surveyDate);
+  }
+
+  /**
+   * Recomputes `project_daily_stats` of one project or of all of them, e.g. after a questionnaire version changed which
+   * answers `survey_metrics` exposes.
+   */
+  function rebuildDailyStats(projectId?: number): void {
+    const projectCondition = projectId === undefined ? '' : ' AND s.project_id = ?';
+    const params = projectId === undefined ? [] : [projectId];
+
+    const transaction = db.transaction(() => {
+      db.prepare(`DELETE FROM project_daily_stats${projectId === undefined ? '' : ' WHERE project_id = ?'}`).run(
+        ...params,
+      );
+      db.prepare(
+        `INSERT INTO project_daily_stats (project_id, survey_date, ${PROJECT_DAILY_STATS_COLUMNS})
+         SELECT s.project_id, s.survey_date, ${projectDailyStatsValuesSql()}
+         FROM surveys s
+         LEFT JOIN survey_metrics m ON m.survey_id = s.id
+         WHERE ${submittedSurveyCondition('s')}${projectCondition}
+         GROUP BY s.project_id, s.survey_date`,
+      ).run(...params);
+    });
+
+    transaction();
   }
 
   async function init(): Promise<void> {
@@ -238,49 +833,151 @@ export function createSqliteAdapter(databaseFile: string): DatabaseAdapter {
         username TEXT,
         language_code TEXT,
         photo_url TEXT,
+        language TEXT CHECK (language IN ('ru', 'en')),
         created_at TEXT NOT NULL,
         updated_at TEXT NOT NULL
       );
 
+      CREATE TABLE IF NOT EXISTS managers (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      );
+
       CREATE TABLE IF NOT EXISTS projects (
         id INTEGER PRIMARY KEY AUTOINCREMENT,
         name TEXT NOT NULL UNIQUE,
         created_by INTEGER,
         created_at TEXT NOT NULL,
-        FOREIGN KEY(created_by) REFERENCES users(id)
+        questionnaire_mode TEXT CHECK (questionnaire_mode IN ('extend', 'replace')),
+        questionnaire_id INTEGER,
+        edit_policy TEXT NOT NULL DEFAULT 'hours' CHECK (edit_policy IN ('hours', 'week', 'never')),
+        edit_window_hours INTEGER NOT NULL DEFAULT ${DEFAULT_EDIT_WINDOW_HOURS},
+        expected_headcount INTEGER,
+        manager_id INTEGER,
+        FOREIGN KEY(created_by) REFERENCES users(id),
+        FOREIGN KEY(questionnaire_id) REFERENCES questionnaires(id),
+        FOREIGN KEY(manager_id) REFERENCES managers(id)
       );
-    `);
 
-    migrateSurveysSchema();
+      CREATE TABLE IF NOT EXISTS questionnaires (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        code TEXT NOT NULL,
+        version INTEGER NOT NULL,
+        title TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        UNIQUE(code, version)
+      );
 
-    db.exec(`
-      CREATE TABLE IF NOT EXISTS surveys (
+      CREATE TABLE IF NOT EXISTS questions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        questionnaire_id INTEGER NOT NULL,
+        key TEXT NOT NULL,
+        position INTEGER NOT NULL,
+        type TEXT NOT NULL,
+        title TEXT NOT NULL,
+        short_title TEXT,
+        description TEXT,
+        placeholder TEXT,
+        options TEXT,
+        matrix_rows TEXT,
+        show_if TEXT,
+        translations TEXT,
+        required INTEGER NOT NULL DEFAULT 0,
+        comparable INTEGER NOT NULL DEFAULT 1,
+        created_at TEXT NOT NULL,
+        FOREIGN KEY(questionnaire_id) REFERENCES questionnaires(id),
+        UNIQUE(questionnaire_id, key)
+      );
+
+      CREATE TABLE IF NOT EXISTS survey_answers (
+        survey_id INTEGER NOT NULL,
+        question_id INTEGER NOT NULL,
+        numeric_value REAL,
+        text_value TEXT,
+        sentiment REAL,
+        updated_at TEXT NOT NULL,
+        PRIMARY KEY (survey_id, question_id),
+        FOREIGN KEY(question_id) REFERENCES questions(id)
+      );
+
+      CREATE TABLE IF NOT EXISTS survey_revisions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        survey_id INTEGER NOT NULL,
+        actor TEXT NOT NULL CHECK (actor IN ('respondent', 'admin')),
+        actor_id INTEGER,
+        changes TEXT NOT NULL,
+        reverted_revision_id INTEGER,
+        created_at TEXT NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS project_alerts (
         id INTEGER PRIMARY KEY AUTOINCREMENT,
-        user_id INTEGER NOT NULL,
         project_id INTEGER NOT NULL,
-        survey_date TEXT NOT NULL,
-        project_recommendation INTEGER,
-        project_improvement TEXT,
-        manager_effectiveness INTEGER,
-        manager_improvement TEXT,
-        team_comfort INTEGER,
-        team_improvement TEXT,
-        process_organization INTEGER,
-        process_obstacles TEXT,
-        contribution_valued TEXT CHECK (contribution_valued IN ('yes', 'no', 'partial')),
-        improvement_ideas TEXT,
+        metric TEXT NOT NULL CHECK (metric IN ('enps', 'teamComfort', 'managerEffectiveness', 'processOrganization')),
+        severity TEXT NOT NULL CHECK (severity IN ('warning', 'critical')),
+        status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'acknowledged', 'resolved')),
+        window_start TEXT NOT NULL,
+        window_end TEXT NOT NULL,
+        recent_value REAL NOT NULL,
+        baseline_value REAL NOT NULL,
+        recent_count INTEGER NOT NULL,
+        baseline_count INTEGER NOT NULL,
         created_at TEXT NOT NULL,
         updated_at TEXT NOT NULL,
-        FOREIGN KEY(user_id) REFERENCES users(id),
-        FOREIGN KEY(project_id) REFERENCES projects(id),
-        UNIQUE(user_id, project_id, survey_date)
+        acknowledged_at TEXT,
+        resolved_at TEXT,
+        FOREIGN KEY(project_id) REFERENCES projects(id)
+      );
+
+      CREATE TABLE IF NOT EXISTS project_respondents (
+        project_id INTEGER NOT NULL,
+        user_id INTEGER NOT NULL,
+        PRIMARY KEY (project_id, user_id),
+        FOREIGN KEY(project_id) REFERENCES projects(id)
       );
+    `);
+
+    const defaultQuestionnaireId = seedDefaultQuestionnaire();
+
+    migrateLegacyAnswerColumns(defaultQuestionnaireId);
+    migrateSurveysSchema();
+
+    db.exec(surveysTableSql({ unique: true }));
+    addMissingColumns();
+    backfillDefaultTranslations();
+    backfillAnswerSentiment();
 
+    db.exec(`
       CREATE INDEX IF NOT EXISTS idx_projects_name ON projects(name);
       CREATE INDEX IF NOT EXISTS idx_projects_created_by ON projects(created_by);
+      CREATE INDEX IF NOT EXISTS idx_projects_manager ON projects(manager_id);
       CREATE INDEX IF NOT EXISTS idx_surveys_user_project ON surveys(user_id, project_id, survey_date);
       CREATE INDEX IF NOT EXISTS idx_surveys_project_created_at ON surveys(project_id, created_at);
+      CREATE INDEX IF NOT EXISTS idx_questions_questionnaire ON questions(questionnaire_id, position);
+      CREATE INDEX IF NOT EXISTS idx_survey_answers_question ON survey_answers(question_id);
+      CREATE INDEX IF NOT EXISTS idx_survey_revisions_survey ON survey_revisions(survey_id, id);
+      CREATE INDEX IF NOT EXISTS idx_project_alerts_project_metric ON project_alerts(project_id, metric, status);
+
+      CREATE INDEX IF NOT EXISTS idx_surveys_project_date ON surveys(project_id, survey_date, user_id);
+
+      DROP VIEW IF EXISTS survey_metrics;
+      ${surveyMetricsViewSql()};
     `);
+
+    db.exec(
+      projectDailyStatsTableSql({
+        projectId: 'INTEGER NOT NULL',
+        date: 'TEXT',
+        count: 'INTEGER',
+        sum: 'REAL',
+        timestamp: 'TEXT',
+      }),
+    );
+    // Daily statistics start out from the surveys stored before the table existed.
+    if (!db.prepare('SELECT 1 FROM project_daily_stats LIMIT 1').get()) {
+      rebuildDailyStats();
+    }
   }
 
   async function ensureUser(user: TelegramUser): Promise<void> {
@@ -325,6 +1022,122 @@ export function createSqliteAdapter(databaseFile: string): DatabaseAdapter {
     );
   }
 
+  async function getUserLanguage(userId: number): Promise<Language | null> {
+    const row = db.prepare('SELECT language FROM users WHERE id = ?').get(userId) as
+      | { language: Language | null }
+      | undefined;
+    return row?.language ?? null;
+  }
+
+  async function setUserLanguage(userId: number, language: Language | null): Promise<void> {
+    db.prepare('UPDATE users SET language = ?, updated_at = ? WHERE id = ?').run(
+      language,
+      new Date().toISOString(),
+      userId,
+    );
+  }
+
+  async function getActiveQuestionnaire(): Promise<Questionnaire> {
+    const questionnaire = loadQuestionnaire(activeQuestionnaireId());
+    if (!questionnaire) {
+      throw new Error('Active questionnaire is missing');
+    }
+
+    return questionnaire;
+  }
+
+  async function getQuestionnaire(id: number): Promise<Questionnaire | undefined> {
+    return loadQuestionnaire(id);
+  }
+
+  async function getSurveyQuestionnaire(surveyId: number): Promise<Questionnaire | undefined> {
+    const survey = db
+      .prepare('SELECT questionnaire_id, extension_questionnaire_id FROM surveys WHERE id = ?')
+      .get(surveyId) as { questionnaire_id: number | null; extension_questionnaire_id: number | null } | undefined;
+
+    if (!survey) {
+      return undefined;
+    }
+
+    return loadSurveyQuestionnaire(survey.questionnaire_id ?? activeQuestionnaireId(), survey.extension_questionnaire_id);
+  }
+
+  async function listQuestionnaireVersions(): Promise<Questionnaire[]> {
+    const rows = db
+      .prepare('SELECT * FROM questionnaires WHERE code = ? ORDER BY version DESC')
+      .all(DEFAULT_QUESTIONNAIRE_CODE) as QuestionnaireRow[];
+
+    return rows.map(mapQuestionnaireRow);
+  }
+
+  async function createQuestionnaireVersion(input: NewQuestionnaireVersion): Promise<Questionnaire> {
+    const current = loadQuestionnaire(activeQuestionnaireId());
+    const title = input.title ?? current?.title ?? DEFAULT_QUESTIONNAIRE_TITLE;
+    const publish = db.transaction(() => {
+      const questionnaireId = insertQuestionnaireVersion(DEFAULT_QUESTIONNAIRE_CODE, title, input.questions);
+      // Only an incomparable question changes which answers `survey_metrics` exposes; rebuilding every project's
+      // statistics for any other version would be wasted work.
+      if (input.questions.some((question) => question.comparable === false)) {
+        rebuildDailyStats();
+      }
+      return questionnaireId;
+    });
+
+    const questionnaire = loadQuestionnaire(publish());
+    if (!questionnaire) {
+      throw new Error('Failed to load questionnaire after creation');
+    }
+
+    return questionnaire;
+  }
+
+  async function getProjectQuestionnaire(projectId: number): Promise<Questionnaire | undefined> {
+    const ids = projectSurveyQuestionnaireIds(projectId);
+    return ids && loadSurveyQuestionnaire(ids.questionnaireId, ids.extensionId);
+  }
+
+  async function setProjectQuestionnaire(
+    projectId: number,
+    input: ProjectQuestionnaireInput,
+  ): Promise<Questionnaire | undefined> {
+    const project = db.prepare('SELECT id, name FROM projects WHERE id = ?').get(projectId) as
+      | { id: number; name: string }
+      | undefined;
+
+    if (!project) {
+      return undefined;
+    }
+
+    const publish = db.transaction(() => {
+      const questionnaireId = insertQuestionnaireVersion(
+        projectQuestionnaireCode(projectId),
+        input.title ?? project.name,
+        input.questions,
+      );
+      db.prepare('UPDATE projects SET questionnaire_mode = ?, questionnaire_id = ? WHERE id = ?').run(
+        input.mode,
+        questionnaireId,
+        projectId,
+      );
+      // Recomputing one project is cheap, so any change of its questionnaire, not only an incomparable question,
+      // brings its daily statistics in line with `survey_metrics`.
+      rebuildDailyStats(projectId);
+    });
+
+    publish();
+    return getProjectQuestionnaire(projectId);
+  }
+
+  async function clearProjectQuestionnaire(projectId: number): Promise<Questionnaire | undefined> {
+    const clear = db.transaction(() => {
+      db.prepare('UPDATE projects SET questionnaire_mode = NULL, questionnaire_id = NULL WHERE id = ?').run(projectId);
+      rebuildDailyStats(projectId);
+    });
+
+    clear();
+    return getProjectQuestionnaire(projectId);
+  }
+
   async function listProjects(search: string | undefined, limit: number): Promise<ProjectSummary[]> {
     const conditions: string[] = [];
     const params: Array<string | number> = [];
@@ -341,15 +1154,20 @@ export function createSqliteAdapter(databaseFile: string): DatabaseAdapter {
         p.id,
         p.name,
         p.created_at AS createdAt,
+        p.questionnaire_mode AS questionnaireMode,
+        p.questionnaire_id AS questionnaireOverrideId,
+        p.edit_policy AS editPolicy,
+        p.edit_window_hours AS editWindowHours,
+        p.manager_id AS managerId,
         (
           SELECT COUNT(1)
           FROM surveys s
-          WHERE s.project_id = p.id AND ${completedSurveyCondition('s')}
+          WHERE s.project_id = p.id AND ${submittedSurveyCondition('s')}
         ) AS responsesCount,
         (
           SELECT MAX(s.created_at)
           FROM surveys s
-          WHERE s.project_id = p.id AND ${completedSurveyCondition('s')}
+          WHERE s.project_id = p.id AND ${submittedSurveyCondition('s')}
         ) AS lastResponseAt
       FROM projects p
       ${whereClause}
@@ -366,23 +1184,27 @@ export function createSqliteAdapter(databaseFile: string): DatabaseAdapter {
 
   async function createProject(name: string, createdBy?: number): Promise<ProjectSummary> {
     const existing = db
-      .prepare('SELECT id, name, created_at as createdAt FROM projects WHERE LOWER(name) = LOWER(?)')
-      .get(name) as { id: number; name: string; createdAt: string } | undefined;
+      .prepare(
+        `SELECT id, name, created_at as createdAt, questionnaire_mode AS questionnaireMode,
+           questionnaire_id AS questionnaireOverrideId, edit_policy AS editPolicy, edit_window_hours AS editWindowHours,
+           manager_id AS managerId
+         FROM projects
+         WHERE LOWER(name) = LOWER(?)`,
+      )
+      .get(name) as Omit<ProjectSummary, 'responsesCount' | 'lastResponseAt'> | undefined;
     if (existing) {
       const responsesStats = db
         .prepare(
           `SELECT
              COUNT(1) as responsesCount,
-             MAX(created_at) as lastResponseAt
-           FROM surveys
-           WHERE project_id = ? AND ${completedSurveyCondition()}`,
+             MAX(s.created_at) as lastResponseAt
+           FROM surveys s
+           WHERE s.project_id = ? AND ${submittedSurveyCondition('s')}`,
         )
         .get(existing.id) as { responsesCount: number; lastResponseAt: string | null } | undefined;
 
       return {
-        id: existing.id,
-        name: existing.name,
-        createdAt: existing.createdAt,
+        ...existing,
         responsesCount: responsesStats?.responsesCount ?? 0,
         lastResponseAt: responsesStats?.lastResponseAt ?? null,
       };
@@ -403,6 +1225,11 @@ export function createSqliteAdapter(databaseFile: string): DatabaseAdapter {
       createdAt: now,
       responsesCount: 0,
       lastResponseAt: null,
+      questionnaireMode: null,
+      questionnaireOverrideId: null,
+      editPolicy: 'hours',
+      editWindowHours: DEFAULT_EDIT_WINDOW_HOURS,
+      managerId: null,
     };
   }
 
@@ -413,11 +1240,16 @@ export function createSqliteAdapter(databaseFile: string): DatabaseAdapter {
            p.id,
            p.name,
            p.created_at AS createdAt,
+           p.questionnaire_mode AS questionnaireMode,
+           p.questionnaire_id AS questionnaireOverrideId,
+           p.edit_policy AS editPolicy,
+           p.edit_window_hours AS editWindowHours,
+           p.manager_id AS managerId,
            (
-             SELECT COUNT(1) FROM surveys s WHERE s.project_id = p.id AND ${completedSurveyCondition('s')}
+             SELECT COUNT(1) FROM surveys s WHERE s.project_id = p.id AND ${submittedSurveyCondition('s')}
            ) AS responsesCount,
            (
-             SELECT MAX(created_at) FROM surveys s WHERE s.project_id = p.id AND ${completedSurveyCondition('s')}
+             SELECT MAX(created_at) FROM surveys s WHERE s.project_id = p.id AND ${submittedSurveyCondition('s')}
            ) AS lastResponseAt
          FROM projects p
          WHERE p.id = ?`,
@@ -444,86 +1276,191 @@ export function createSqliteAdapter(databaseFile: string): DatabaseAdapter {
     return listProjectsById(id);
   }
 
+  async function setProjectEditPolicy(
+    id: number,
+    policy: EditPolicy,
+    windowHours: number,
+  ): Promise<ProjectSummary | undefined> {
+    const result = db
+      .prepare('UPDATE projects SET edit_policy = ?, edit_window_hours = ? WHERE id = ?')
+      .run(policy, windowHours, id);
+    if (!result.changes) {
+      return undefined;
+    }
+
+    return listProjectsById(id);
+  }
+
+  async function setProjectManager(id: number, managerId: number | null): Promise<ProjectSummary | undefined> {
+    const result = db.prepare('UPDATE projects SET manager_id = ? WHERE id = ?').run(managerId, id);
+    if (!result.changes) {
+      return undefined;
+    }
+
+    return listProjectsById(id);
+  }
+
+  async function getProjectExpectedRespondents(id: number): Promise<ExpectedRespondents | undefined> {
+    const project = db.prepare('SELECT expected_headcount FROM projects WHERE id = ?').get(id) as
+      | { expected_headcount: number | null }
+      | undefined;
+    if (!project) {
+      return undefined;
+    }
+
+    const rows = db
+      .prepare('SELECT user_id FROM project_respondents WHERE project_id = ? ORDER BY user_id')
+      .all(id) as Array<{ user_id: number }>;
+
+    return { headcount: project.expected_headcount, userIds: rows.map((row) => row.user_id) };
+  }
+
+  async function setProjectExpectedRespondents(
+    id: number,
+    expected: ExpectedRespondents,
+  ): Promise<ExpectedRespondents | undefined> {
+    const transaction = db.transaction(() => {
+      const result = db.prepare('UPDATE projects SET expected_headcount = ? WHERE id = ?').run(expected.headcount, id);
+      if (!result.changes) {
+        return false;
+      }
+
+      db.prepare('DELETE FROM project_respondents WHERE project_id = ?').run(id);
+      const insert = db.prepare('INSERT OR IGNORE INTO project_respondents (project_id, user_id) VALUES (?, ?)');
+      expected.userIds.forEach((userId) => insert.run(id, userId));
+      return true;
+    });
+
+    if (!transaction()) {
+      return undefined;
+    }
+
+    return getProjectExpectedRespondents(id);
+  }
+
   async function deleteProject(id: number): Promise<void> {
     const transaction = db.transaction(() => {
+      db.prepare('DELETE FROM survey_answers WHERE survey_id IN (SELECT id FROM surveys WHERE project_id = ?)').run(id);
+      db.prepare('DELETE FROM survey_revisions WHERE survey_id IN (SELECT id FROM surveys WHERE project_id = ?)').run(id);
       db.prepare('DELETE FROM surveys WHERE project_id = ?').run(id);
+      db.prepare('DELETE FROM project_alerts WHERE project_id = ?').run(id);
+      db.prepare('DELETE FROM project_respondents WHERE project_id = ?').run(id);
+      db.prepare('DELETE FROM project_daily_stats WHERE project_id = ?').run(id);
       db.prepare('DELETE FROM projects WHERE id = ?').run(id);
     });
 
     transaction();
   }
 
-  async function deleteSurvey(id: number): Promise<void> {
-    db.prepare('DELETE FROM surveys WHERE id = ?').run(id);
+  async function getManager(id: number): Promise<Manager | undefined> {
+    return db.prepare('SELECT id, name, created_at AS createdAt FROM managers WHERE id = ?').get(id) as
+      | Manager
+      | undefined;
   }
 
-  async function updateSurveyAnswers(id: number, updates: SurveyAnswers): Promise<SurveyRecord | undefined> {
-    const assignments: string[] = [];
-    const values: Array<string | number | null> = [];
+  async function createManager(name: string): Promise<Manager> {
+    const now = new Date().toISOString();
+    const result = db.prepare('INSERT INTO managers (name, created_at) VALUES (?, ?)').run(name.trim(), now);
+    return { id: Number(result.lastInsertRowid), name: name.trim(), createdAt: now };
+  }
 
-    (Object.entries(updates) as Array<[keyof SurveyAnswers, SurveyAnswers[keyof SurveyAnswers]]>).forEach(
-      ([key, value]) => {
-        const column = surveyFieldToColumn[key];
-        if (!column) {
-          return;
-        }
+  async function updateManagerName(id: number, name: string): Promise<Manager | undefined> {
+    const result = db.prepare('UPDATE managers SET name = ? WHERE id = ?').run(name.trim(), id);
+    if (!result.changes) {
+      return undefined;
+    }
 
-        if (value === undefined || value === null || (typeof value === 'string' && !value.trim())) {
-          assignments.push(`${column} = NULL`);
-          return;
-        }
+    return getManager(id);
+  }
 
-        assignments.push(`${column} = ?`);
-        values.push(value as never);
-      },
-    );
+  async function deleteManager(id: number): Promise<void> {
+    const transaction = db.transaction(() => {
+      db.prepare('UPDATE projects SET manager_id = NULL WHERE manager_id = ?').run(id);
+      db.prepare('DELETE FROM managers WHERE id = ?').run(id);
+    });
+
+    transaction();
+  }
+
+  async function deleteSurvey(id: number): Promise<void> {
+    const survey = db.prepare('SELECT project_id, survey_date, submitted_at FROM surveys WHERE id = ?').get(id) as
+      | Pick<SurveyRow, 'project_id' | 'survey_date' | 'submitted_at'>
+      | undefined;
+
+    const transaction = db.transaction(() => {
+      db.prepare('DELETE FROM survey_answers WHERE survey_id = ?').run(id);
+      db.prepare('DELETE FROM survey_revisions WHERE survey_id = ?').run(id);
+      db.prepare('DELETE FROM surveys WHERE id = ?').run(id);
+      if (survey?.submitted_at) {
+        refreshDailyStats(survey.project_id, survey.survey_date);
+      }
+    });
+
+    transaction();
+  }
+
+  async function updateSurveyAnswers(
+    id: number,
+    updates: SurveyAnswers,
+    revertedRevisionId?: number,
+  ): Promise<SurveyRecord | undefined> {
+    const survey = loadSurvey(id);
+    if (!survey) {
+      return undefined;
+    }
 
-    if (assignments.length > 0) {
+    const transaction = db.transaction(() => {
       const timestamp = new Date().toISOString();
-      assignments.push('updated_at = ?');
-      values.push(timestamp);
-      values.push(id);
+      const changes = writeAnswers(survey, updates, timestamp, { actor: 'admin', actorId: null, revertedRevisionId });
+      if (changes.length > 0) {
+        db.prepare('UPDATE surveys SET updated_at = ? WHERE id = ?').run(timestamp, id);
+      }
+      if (changes.length > 0 && survey.submittedAt) {
+        refreshDailyStats(survey.projectId, survey.surveyDate);
+      }
+    });
+
+    transaction();
 
-      db.prepare(`UPDATE surveys SET ${assignments.join(', ')} WHERE id = ?`).run(...values);
+    return loadSurvey(id);
+  }
+
+  async function listSurveyRevisions(surveyId: number): Promise<SurveyRevision[] | undefined> {
+    if (!db.prepare('SELECT 1 FROM surveys WHERE id = ?').get(surveyId)) {
+      return undefined;
     }
 
-    const row = db
+    const rows = db
       .prepare(
-        `SELECT s.*, p.name AS project_name
-         FROM surveys s
-         JOIN projects p ON p.id = s.project_id
-         WHERE s.id = ?`,
+        `SELECT id, survey_id, actor, actor_id, changes, reverted_revision_id, created_at
+         FROM survey_revisions
+         WHERE survey_id = ?
+         ORDER BY id DESC`,
       )
-      .get(id) as SurveyRow | undefined;
+      .all(surveyId) as RevisionRow[];
+    return rows.map(mapRevisionRow);
+  }
 
-    return row ? mapSurveyRow(row) : undefined;
+  async function unlockSurvey(id: number, until: Date): Promise<SurveyRecord | undefined> {
+    db.prepare('UPDATE surveys SET unlocked_until = ? WHERE id = ?').run(until.toISOString(), id);
+    return loadSurvey(id);
   }
 
   async function getSurveyById(id: number, userId: number): Promise<SurveyRecord | undefined> {
     const row = db
-      .prepare(
-        `SELECT s.*, p.name AS project_name
-         FROM surveys s
-         JOIN projects p ON p.id = s.project_id
-         WHERE s.id = ? AND s.user_id = ?`,
-      )
+      .prepare(`${SURVEY_SELECT} WHERE s.id = ? AND s.user_id = ?`)
       .get(id, userId) as SurveyRow | undefined;
 
     if (!row) {
       return undefined;
     }
 
-    return mapSurveyRow(row);
+    return mapSurveyRows([row])[0]!.record;
   }
 
   async function listSurveys(userId: number, projectId?: number): Promise<SurveyRecord[]> {
     const params: Array<number> = [userId];
-    let query = `
-      SELECT s.*, p.name AS project_name
-      FROM surveys s
-      JOIN projects p ON p.id = s.project_id
-      WHERE s.user_id = ?
-    `;
+    let query = `${SURVEY_SELECT} WHERE s.user_id = ?`;
 
     if (typeof projectId === 'number') {
       query += ' AND s.project_id = ?';
@@ -533,7 +1470,7 @@ export function createSqliteAdapter(databaseFile: string): DatabaseAdapter {
     query += ' ORDER BY s.created_at DESC';
 
     const rows = db.prepare(query).all(...(params as unknown[])) as SurveyRow[];
-    return rows.map(mapSurveyRow);
+    return mapSurveyRows(rows).map(({ record }) => record);
   }
 
   function formatDate(date: Date): string {
@@ -544,31 +1481,37 @@ export function createSqliteAdapter(databaseFile: string): DatabaseAdapter {
     const now = new Date();
     const date = surveyDate ?? formatDate(now);
     const timestamp = now.toISOString();
+    const pinned = projectSurveyQuestionnaireIds(projectId);
+    if (!pinned) {
+      throw new Error('Project not found');
+    }
 
     const insert = db
       .prepare(
-        `INSERT OR IGNORE INTO surveys (user_id, project_id, survey_date, created_at, updated_at)
-         VALUES (?, ?, ?, ?, ?)`,
+        `INSERT OR IGNORE INTO surveys (
+           user_id, project_id, questionnaire_id, extension_questionnaire_id, survey_date, created_at, updated_at
+         )
+         VALUES (?, ?, ?, ?, ?, ?, ?)`,
       )
-      .run(userId, projectId, date, timestamp, timestamp);
+      .run(userId, projectId, pinned.questionnaireId, pinned.extensionId, date, timestamp, timestamp);
 
     const row = db
-      .prepare(
-        `SELECT s.*, p.name AS project_name
-         FROM surveys s
-         JOIN projects p ON p.id = s.project_id
-         WHERE s.user_id = ? AND s.project_id = ? AND s.survey_date = ?`,
-      )
+      .prepare(`${SURVEY_SELECT} WHERE s.user_id = ? AND s.project_id = ? AND s.survey_date = ?`)
       .get(userId, projectId, date) as SurveyRow | undefined;
 
     if (!row) {
       throw new Error('Failed to load survey after creation');
     }
 
-    return { record: mapSurveyRow(row), wasCreated: insert.changes > 0 };
+    return { record: mapSurveyRows([row])[0]!.record, wasCreated: insert.changes > 0 };
   }
 
-  async function updateSurvey(id: number, userId: number, updates: SurveyAnswers): Promise<SurveyRecord> {
+  async function updateSurvey(
+    id: number,
+    userId: number,
+    updates: SurveyAnswers,
+    lastStep?: number,
+  ): Promise<SurveyRecord> {
     const survey = await getSurveyById(id, userId);
     if (!survey) {
       throw new Error('Survey not found');
@@ -578,129 +1521,618 @@ export function createSqliteAdapter(databaseFile: string): DatabaseAdapter {
       throw new Error('Survey can no longer be edited');
     }
 
-    const assignments: string[] = [];
-    const values: Array<string | number | null> = [];
+    if (!Object.keys(updates).length && lastStep === undefined) {
+      return survey;
+    }
 
-    (Object.keys(updates) as Array<keyof SurveyAnswers>).forEach((key) => {
-      const value = updates[key];
-      if (value === undefined) {
-        return;
+    const transaction = db.transaction(() => {
+      const timestamp = new Date().toISOString();
+      const changes = writeAnswers(survey, updates, timestamp, { actor: 'respondent', actorId: userId });
+      db.prepare('UPDATE surveys SET updated_at = ?, last_step = COALESCE(?, last_step) WHERE id = ? AND user_id = ?').run(
+        timestamp,
+        lastStep ?? null,
+        id,
+        userId,
+      );
+      if (changes.length > 0 && survey.submittedAt) {
+        refreshDailyStats(survey.projectId, survey.surveyDate);
       }
+    });
 
-      assignments.push(`${surveyFieldToColumn[key]} = ?`);
+    transaction();
 
-      if (typeof value === 'number') {
-        values.push(value);
-      } else if (value === null) {
-        values.push(null);
-      } else {
-        values.push(value);
-      }
-    });
+    return (await getSurveyById(id, userId))!;
+  }
 
-    if (!assignments.length) {
-      return survey;
+  async function submitSurvey(id: number, userId: number): Promise<SurveyRecord> {
+    const survey = await getSurveyById(id, userId);
+    if (!survey) {
+      throw new Error('Survey not found');
     }
 
-    const timestamp = new Date().toISOString();
-    assignments.push('updated_at = ?');
-    values.push(timestamp);
-    values.push(id);
-    values.push(userId);
+    if (!survey.canEdit) {
+      throw new Error('Survey can no longer be edited');
+    }
 
-    const update = db.prepare(
-      `UPDATE surveys
-       SET ${assignments.join(', ')}
-       WHERE id = ? AND user_id = ?`,
-    );
+    const submit = db.transaction(() => {
+      db.prepare('UPDATE surveys SET submitted_at = COALESCE(submitted_at, ?) WHERE id = ? AND user_id = ?').run(
+        new Date().toISOString(),
+        id,
+        userId,
+      );
+      refreshDailyStats(survey.projectId, survey.surveyDate);
+    });
 
-    update.run(...values);
+    submit();
 
     return (await getSurveyById(id, userId))!;
   }
 
-  async function listAdminProjects(): Promise<AdminProjectStats[]> {
-    const rows = db
+  /** `analyticsFilterConditions` bound to `params`, each condition prefixed with `AND`. */
+  function analyticsFilterSql(filter: AnalyticsFilter, params: Array<string | number>): string {
+    const conditions = analyticsFilterConditions(filter, (value) => {
+      params.push(value);
+      return '?';
+    });
+    return conditions.map((condition) => ` AND ${condition}`).join('');
+  }
+
+  /** `dateRangeConditions` over `column` bound to `params`, each condition prefixed with `AND`. */
+  function dateRangeSql(filter: AnalyticsFilter, column: string, params: Array<string | number>): string {
+    const conditions = dateRangeConditions(filter, column, (value) => {
+      params.push(value);
+      return '?';
+    });
+    return conditions.map((condition) => ` AND ${condition}`).join('');
+  }
+
+  /**
+   * Rows of `listAdminProjects`, narrowed to one project when `projectId` is given. Filters `project_daily_stats`
+   * covers are summed from it, all but the respondents (see `DAILY_STATS_COLUMNS`); the rest go through every survey's
+   * `survey_metrics` row.
+   */
+  function adminProjectRows(filter: AnalyticsFilter, projectId?: number): Array<Record<string, unknown>> {
+    const params: Array<string | number> = [];
+    const projectColumns = `
+      p.id,
+      p.name,
+      p.created_at AS createdAt,
+      p.questionnaire_mode AS questionnaireMode,
+      p.questionnaire_id AS questionnaireOverrideId,
+      p.edit_policy AS editPolicy,
+      p.edit_window_hours AS editWindowHours,
+      p.manager_id AS managerId,
+      p.expected_headcount AS expectedHeadcount,
+      (SELECT COUNT(1) FROM project_respondents r WHERE r.project_id = p.id) AS respondentListSize`;
+    const projectCondition = () => {
+      if (projectId === undefined) {
+        return '';
+      }
+      params.push(projectId);
+      return 'WHERE p.id = ?';
+    };
+
+    if (coveredByDailyStats(filter)) {
+      return db
+        .prepare(
+          `SELECT
+             ${projectColumns},
+             COALESCE(SUM(d.responses_count), 0) AS responsesCount,
+             MAX(d.last_response_at) AS lastResponseAt,
+             (
+               SELECT COUNT(DISTINCT s.user_id)
+               FROM surveys s
+               WHERE s.project_id = p.id AND ${submittedSurveyCondition('s')}${analyticsFilterSql(filter, params)}
+             ) AS uniqueRespondents,
+             (
+               SELECT COUNT(DISTINCT s.user_id)
+               FROM surveys s
+               JOIN project_respondents pr ON pr.project_id = s.project_id AND pr.user_id = s.user_id
+               WHERE s.project_id = p.id AND ${submittedSurveyCondition('s')}${analyticsFilterSql(filter, params)}
+             ) AS listedRespondents,
+             ${dailyMetricAggregatesSql()},
+             ${dailySentimentAggregatesSql()}
+           FROM projects p
+           LEFT JOIN project_daily_stats d ON d.project_id = p.id${dateRangeSql(filter, 'd.survey_date', params)}
+           ${projectCondition()}
+           GROUP BY p.id
+           ORDER BY COALESCE(MAX(d.last_response_at), p.created_at) DESC`,
+        )
+        .all(...params) as Array<Record<string, unknown>>;
+    }
+
+    return db
       .prepare(
         `SELECT
-           p.id,
-           p.name,
-           p.created_at AS createdAt,
+           ${projectColumns},
            COUNT(s.id) AS responsesCount,
            MAX(s.created_at) AS lastResponseAt,
            COUNT(DISTINCT s.user_id) AS uniqueRespondents,
-           AVG(s.project_recommendation) AS avgProjectRecommendation,
-           AVG(s.manager_effectiveness) AS avgManagerEffectiveness,
-           AVG(s.team_comfort) AS avgTeamComfort,
-           AVG(s.process_organization) AS avgProcessOrganization,
-           SUM(CASE WHEN s.contribution_valued = 'yes' THEN 1 ELSE 0 END) AS contributionYes,
-           SUM(CASE WHEN s.contribution_valued = 'partial' THEN 1 ELSE 0 END) AS contributionPartial,
-           SUM(CASE WHEN s.contribution_valued = 'no' THEN 1 ELSE 0 END) AS contributionNo
+           COUNT(DISTINCT pr.user_id) AS listedRespondents,
+           ${surveyMetricAggregatesSql()},
+           ${sentimentAggregatesSql()}
          FROM projects p
-         LEFT JOIN surveys s ON s.project_id = p.id AND ${completedSurveyCondition('s')}
+         LEFT JOIN (
+           surveys s
+           LEFT JOIN survey_metrics m ON m.survey_id = s.id
+           LEFT JOIN project_respondents pr ON pr.project_id = s.project_id AND pr.user_id = s.user_id
+         )
+           ON s.project_id = p.id AND ${submittedSurveyCondition('s')}${analyticsFilterSql(filter, params)}
+         ${projectCondition()}
          GROUP BY p.id
-         ORDER BY COALESCE(MAX(s.created_at), p.created_at) DESC`);
+         ORDER BY COALESCE(MAX(s.created_at), p.created_at) DESC`,
+      )
+      .all(...params) as Array<Record<string, unknown>>;
+  }
 
-    return (rows.all() as Array<Record<string, unknown>>).map((row) => {
-      const responsesCount = Number(row.responsesCount ?? 0);
-      const average = (value: unknown): number | null => {
-        if (value === null || value === undefined) {
-          return null;
-        }
-        const parsed = Number(value);
-        return Number.isFinite(parsed) ? parsed : null;
-      };
+  function mapAdminProjectRow(row: Record<string, unknown>): AdminProjectStats {
+    const uniqueRespondents = Number(row.uniqueRespondents ?? 0);
 
-      return {
-        id: row.id as number,
-        name: row.name as string,
-        createdAt: row.createdAt as string,
-        responsesCount,
-        lastResponseAt: (row.lastResponseAt as string | null) ?? null,
-        uniqueRespondents: Number(row.uniqueRespondents ?? 0),
-        averages: {
-          projectRecommendation: average(row.avgProjectRecommendation),
-          managerEffectiveness: average(row.avgManagerEffectiveness),
-          teamComfort: average(row.avgTeamComfort),
-          processOrganization: average(row.avgProcessOrganization),
-        },
-        contributionBreakdown: {
-          yes: Number(row.contributionYes ?? 0) as number,
-          partial: Number(row.contributionPartial ?? 0) as number,
-          no: Number(row.contributionNo ?? 0) as number,
-        },
-      };
+    return {
+      id: row.id as number,
+      name: row.name as string,
+      createdAt: row.createdAt as string,
+      responsesCount: Number(row.responsesCount ?? 0),
+      lastResponseAt: (row.lastResponseAt as string | null) ?? null,
+      questionnaireMode: (row.questionnaireMode as ProjectQuestionnaireMode | null) ?? null,
+      questionnaireOverrideId: (row.questionnaireOverrideId as number | null) ?? null,
+      editPolicy: row.editPolicy as EditPolicy,
+      editWindowHours: row.editWindowHours as number,
+      managerId: (row.managerId as number | null) ?? null,
+      uniqueRespondents,
+      participation: participationStats({
+        headcount: (row.expectedHeadcount as number | null) ?? null,
+        listSize: Number(row.respondentListSize ?? 0),
+        respondents: uniqueRespondents,
+        listedRespondents: Number(row.listedRespondents ?? 0),
+      }),
+      sentiment: mapSentimentAggregates(row as SentimentAggregateRow),
+      ...mapSurveyMetricAggregates(row as SurveyMetricAggregateRow),
+    };
+  }
+
+  async function listAdminProjects(filter: AnalyticsFilter = {}): Promise<AdminProjectStats[]> {
+    return adminProjectRows(filter).map(mapAdminProjectRow);
+  }
+
+  async function getAdminProject(id: number, filter: AnalyticsFilter = {}): Promise<AdminProjectStats | undefined> {
+    const [row] = adminProjectRows(filter, id);
+    return row && mapAdminProjectRow(row);
+  }
+
+  async function getPortfolioTotals(filter: AnalyticsFilter = {}): Promise<PortfolioTotals> {
+    const params: Array<string | number> = [];
+    const sql = coveredByDailyStats(filter)
+      ? `SELECT
+           COALESCE(SUM(d.responses_count), 0) AS responsesCount,
+           (
+             SELECT COUNT(DISTINCT s.user_id)
+             FROM surveys s
+             WHERE ${submittedSurveyCondition('s')}${analyticsFilterSql(filter, params)}
+           ) AS uniqueRespondents,
+           ${dailyMetricAggregatesSql()}
+         FROM project_daily_stats d
+         WHERE d.responses_count > 0${dateRangeSql(filter, 'd.survey_date', params)}`
+      : `SELECT
+           COUNT(s.id) AS responsesCount,
+           COUNT(DISTINCT s.user_id) AS uniqueRespondents,
+           ${surveyMetricAggregatesSql()}
+         FROM surveys s
+         LEFT JOIN survey_metrics m ON m.survey_id = s.id
+         WHERE ${submittedSurveyCondition('s')}${analyticsFilterSql(filter, params)}`;
+    const row = db.prepare(sql).get(...params) as SurveyMetricAggregateRow & {
+      responsesCount: number;
+      uniqueRespondents: number;
+    };
+
+    return {
+      responsesCount: row.responsesCount,
+      uniqueRespondents: row.uniqueRespondents,
+      ...mapSurveyMetricAggregates(row),
+    };
+  }
+
+  // Weeks start on Monday (`weekday 0` moves to the coming Sunday), months on their first day.
+  const trendPeriodSql: Record<TrendGranularity, (column: string) => string> = {
+    week: (column) => `date(${column}, 'weekday 0', '-6 days')`,
+    month: (column) => `strftime('%Y-%m-01', ${column})`,
+  };
+
+  async function listProjectTrends(
+    projectId: number,
+    granularity: TrendGranularity,
+    filter: AnalyticsFilter = {},
+  ): Promise<ProjectTrendPeriod[] | undefined> {
+    const project = db
+      .prepare(
+        `SELECT
+           expected_headcount AS expectedHeadcount,
+           (SELECT COUNT(1) FROM project_respondents r WHERE r.project_id = p.id) AS respondentListSize
+         FROM projects p
+         WHERE id = ?`,
+      )
+      .get(projectId) as { expectedHeadcount: number | null; respondentListSize: number } | undefined;
+    if (!project) {
+      return undefined;
+    }
+
+    const params: Array<string | number> = [projectId];
+    const rows = db
+      .prepare(
+        `SELECT
+           ${trendPeriodSql[granularity]('s.survey_date')} AS periodStart,
+           COUNT(s.id) AS responsesCount,
+           COUNT(DISTINCT s.user_id) AS uniqueRespondents,
+           COUNT(DISTINCT pr.user_id) AS listedRespondents,
+           ${surveyMetricAggregatesSql()}
+         FROM surveys s
+         LEFT JOIN survey_metrics m ON m.survey_id = s.id
+         LEFT JOIN project_respondents pr ON pr.project_id = s.project_id AND pr.user_id = s.user_id
+         WHERE s.project_id = ? AND ${submittedSurveyCondition('s')}${analyticsFilterSql(filter, params)}
+         GROUP BY periodStart
+         ORDER BY periodStart`,
+      )
+      .all(...params) as TrendPeriodRow[];
+
+    return withPeriodChanges(
+      rows.map((row) => ({
+        periodStart: row.periodStart,
+        responsesCount: row.responsesCount,
+        uniqueRespondents: row.uniqueRespondents,
+        participation: participationStats({
+          headcount: project.expectedHeadcount,
+          listSize: project.respondentListSize,
+          respondents: row.uniqueRespondents,
+          listedRespondents: row.listedRespondents,
+        }),
+        ...mapSurveyMetricAggregates(row),
+      })),
+    );
+  }
+
+  async function listAdminManagers(
+    granularity: TrendGranularity,
+    filter: AnalyticsFilter = {},
+  ): Promise<AdminManagerStats[]> {
+    const params: Array<string | number> = [];
+    const rows = db
+      .prepare(
+        `SELECT
+           mg.id,
+           mg.name,
+           mg.created_at AS createdAt,
+           COUNT(s.id) AS responsesCount,
+           COUNT(DISTINCT s.user_id) AS uniqueRespondents,
+           ${surveyMetricAggregatesSql()}
+         FROM managers mg
+         LEFT JOIN (
+           projects p
+           JOIN surveys s ON s.project_id = p.id
+           LEFT JOIN survey_metrics m ON m.survey_id = s.id
+         )
+           ON p.manager_id = mg.id AND ${submittedSurveyCondition('s')}${analyticsFilterSql(filter, params)}
+         GROUP BY mg.id
+         ORDER BY LOWER(mg.name), mg.id`,
+      )
+      .all(...params) as Array<ManagerStatsRow>;
+
+    const trendParams: Array<string | number> = [];
+    const trendRows = db
+      .prepare(
+        `SELECT
+           p.manager_id AS managerId,
+           ${trendPeriodSql[granularity]('s.survey_date')} AS periodStart,
+           COUNT(s.id) AS responsesCount,
+           COUNT(DISTINCT s.user_id) AS uniqueRespondents,
+           ${surveyMetricAggregatesSql()}
+         FROM surveys s
+         JOIN projects p ON p.id = s.project_id
+         LEFT JOIN survey_metrics m ON m.survey_id = s.id
+         WHERE p.manager_id IS NOT NULL AND ${submittedSurveyCondition('s')}${analyticsFilterSql(filter, trendParams)}
+         GROUP BY p.manager_id, periodStart
+         ORDER BY periodStart`,
+      )
+      .all(...trendParams) as Array<ManagerTrendRow>;
+
+    const projects = db
+      .prepare('SELECT id, manager_id AS managerId FROM projects WHERE manager_id IS NOT NULL ORDER BY name')
+      .all() as Array<{ id: number; managerId: number }>;
+
+    const trends = new Map<number, Array<Omit<ManagerTrendPeriod, 'change'>>>();
+    trendRows.forEach((row) => {
+      const periods = trends.get(row.managerId) ?? [];
+      periods.push({
+        periodStart: row.periodStart,
+        responsesCount: row.responsesCount,
+        uniqueRespondents: row.uniqueRespondents,
+        ...mapSurveyMetricAggregates(row),
+      });
+      trends.set(row.managerId, periods);
+    });
+
+    return rows.map((row) => ({
+      id: row.id,
+      name: row.name,
+      createdAt: row.createdAt,
+      projectIds: projects.filter((project) => project.managerId === row.id).map((project) => project.id),
+      responsesCount: row.responsesCount,
+      uniqueRespondents: row.uniqueRespondents,
+      ...mapSurveyMetricAggregates(row),
+      trend: withPeriodChanges(trends.get(row.id) ?? []),
+    }));
+  }
+
+  async function listDriverSamples(filter: AnalyticsFilter = {}): Promise<DriverSample[]> {
+    const params: Array<string | number> = [];
+    return db
+      .prepare(
+        `SELECT
+           s.project_id AS projectId,
+           m.project_recommendation AS projectRecommendation,
+           m.manager_effectiveness AS managerEffectiveness,
+           m.team_comfort AS teamComfort,
+           m.process_organization AS processOrganization,
+           m.contribution_valued AS contributionValued
+         FROM surveys s
+         JOIN survey_metrics m ON m.survey_id = s.id
+         WHERE m.project_recommendation IS NOT NULL
+           AND ${submittedSurveyCondition('s')}${analyticsFilterSql(filter, params)}`,
+      )
+      .all(...params) as DriverSample[];
+  }
+
+  async function listContributionWeeks(filter: AnalyticsFilter = {}): Promise<ContributionWeekCounts[]> {
+    const params: Array<string | number> = [];
+    const sql = coveredByDailyStats(filter)
+      ? `SELECT
+           d.project_id AS projectId,
+           p.name AS projectName,
+           ${trendPeriodSql.week('d.survey_date')} AS weekStart,
+           SUM(d.contribution_yes) AS yesCount,
+           SUM(d.contribution_partial) AS partialCount,
+           SUM(d.contribution_no) AS noCount,
+           COALESCE(MAX(r.respondentsCount), 0) AS respondentsCount
+         FROM project_daily_stats d
+         JOIN projects p ON p.id = d.project_id
+         LEFT JOIN (
+           SELECT
+             s.project_id,
+             ${trendPeriodSql.week('s.survey_date')} AS week_start,
+             COUNT(DISTINCT s.user_id) AS respondentsCount
+           FROM surveys s
+           JOIN survey_metrics m ON m.survey_id = s.id
+           WHERE m.contribution_valued IS NOT NULL
+             AND ${submittedSurveyCondition('s')}${dateRangeSql(filter, 's.survey_date', params)}
+           GROUP BY s.project_id, week_start
+         ) r ON r.project_id = d.project_id AND r.week_start = ${trendPeriodSql.week('d.survey_date')}
+         WHERE d.responses_count > 0${dateRangeSql(filter, 'd.survey_date', params)}
+         GROUP BY d.project_id, weekStart
+         HAVING SUM(d.contribution_yes) + SUM(d.contribution_partial) + SUM(d.contribution_no) > 0
+         ORDER BY weekStart`
+      : `SELECT
+           s.project_id AS projectId,
+           p.name AS projectName,
+           ${trendPeriodSql.week('s.survey_date')} AS weekStart,
+           SUM(CASE WHEN m.contribution_valued = 'yes' THEN 1 ELSE 0 END) AS yesCount,
+           SUM(CASE WHEN m.contribution_valued = 'partial' THEN 1 ELSE 0 END) AS partialCount,
+           SUM(CASE WHEN m.contribution_valued = 'no' THEN 1 ELSE 0 END) AS noCount,
+           COUNT(DISTINCT s.user_id) AS respondentsCount
+         FROM surveys s
+         JOIN projects p ON p.id = s.project_id
+         JOIN survey_metrics m ON m.survey_id = s.id
+         WHERE m.contribution_valued IS NOT NULL
+           AND ${submittedSurveyCondition('s')}${analyticsFilterSql(filter, params)}
+         GROUP BY s.project_id, weekStart
+         ORDER BY weekStart`;
+    const rows = db.prepare(sql).all(...params) as Array<{
+      projectId: number;
+      projectName: string;
+      weekStart: string;
+      yesCount: number;
+      partialCount: number;
+      noCount: number;
+      respondentsCount: number;
+    }>;
+
+    return rows.map((row) => ({
+      projectId: row.projectId,
+      projectName: row.projectName,
+      weekStart: row.weekStart,
+      counts: { yes: row.yesCount, partial: row.partialCount, no: row.noCount },
+      respondentsCount: row.respondentsCount,
+    }));
+  }
+
+  /** Scores of the free-text answers of the surveys, by survey id and question key. */
+  function loadAnswerSentiments(surveyIds: number[]): Map<number, Record<string, number>> {
+    const sentiments = new Map<number, Record<string, number>>();
+    if (!surveyIds.length) {
+      return sentiments;
+    }
+
+    const placeholders = surveyIds.map(() => '?').join(', ');
+    const rows = db
+      .prepare(
+        `SELECT a.survey_id, q.key, a.sentiment
+         FROM survey_answers a
+         JOIN questions q ON q.id = a.question_id
+         WHERE a.survey_id IN (${placeholders}) AND a.sentiment IS NOT NULL`,
+      )
+      .all(...surveyIds) as Array<{ survey_id: number; key: string; sentiment: number }>;
+
+    rows.forEach((row) => {
+      sentiments.set(row.survey_id, { ...sentiments.get(row.survey_id), [row.key]: row.sentiment });
     });
+
+    return sentiments;
   }
 
-  async function listAdminProjectResponses(projectId: number): Promise<AdminSurveyRecord[]> {
+  async function listAdminProjectResponses(
+    projectId: number,
+    filter: AnalyticsFilter = {},
+    order: ResponseOrder = 'recent',
+  ): Promise<AdminSurveyRecord[]> {
+    const params: Array<string | number> = [projectId];
     const rows = db
       .prepare(
         `SELECT
            s.*,
            p.name AS project_name,
+           p.edit_policy,
+           p.edit_window_hours,
+           qn.version AS questionnaire_version,
            u.first_name,
            u.last_name,
-           u.username
+           u.username,
+           m.sentiment
          FROM surveys s
           JOIN projects p ON p.id = s.project_id
           JOIN users u ON u.id = s.user_id
-         WHERE s.project_id = ? AND ${completedSurveyCondition('s')}
-         ORDER BY s.created_at DESC`,
+          LEFT JOIN questionnaires qn ON qn.id = s.questionnaire_id
+          LEFT JOIN survey_metrics m ON m.survey_id = s.id
+         WHERE s.project_id = ? AND ${submittedSurveyCondition('s')}${analyticsFilterSql(filter, params)}
+         ORDER BY ${RESPONSE_ORDER_SQL[order]}`,
       )
-      .all(projectId) as Array<SurveyRow & { first_name: string; last_name: string | null; username: string | null }>;
+      .all(...params) as AdminResponseRow[];
 
-    return rows.map((row) => ({
-      ...mapSurveyRow(row),
+    const sentiments = loadAnswerSentiments(rows.map((row) => row.id));
+    return mapSurveyRows(rows).map(({ row, record }) => ({
+      ...record,
       user: {
         id: row.user_id,
         firstName: row.first_name,
         lastName: row.last_name,
         username: row.username,
       },
+      sentiment: row.sentiment,
+      answerSentiments: sentiments.get(row.id) ?? {},
     }));
   }
 
+  async function listAlerts(filter: AlertListFilter = {}): Promise<ProjectAlert[]> {
+    const conditions: string[] = [];
+    const params: Array<string | number> = [];
+    if (filter.status !== undefined) {
+      conditions.push('a.status = ?');
+      params.push(filter.status);
+    }
+    if (filter.projectId !== undefined) {
+      conditions.push('a.project_id = ?');
+      params.push(filter.projectId);
+    }
+
+    const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = db
+      .prepare(`${ALERT_SELECT} ${where} ORDER BY a.created_at DESC, a.id DESC`)
+      .all(...params) as AlertRow[];
+    return rows.map(mapAlertRow);
+  }
+
+  async function getAlert(id: number): Promise<ProjectAlert | undefined> {
+    const row = db.prepare(`${ALERT_SELECT} WHERE a.id = ?`).get(id) as AlertRow | undefined;
+    return row ? mapAlertRow(row) : undefined;
+  }
+
+  async function saveAlert(candidate: AlertCandidate, now: Date): Promise<ProjectAlert | undefined> {
+    const timestamp = now.toISOString();
+    const transaction = db.transaction((): number | undefined => {
+      const unresolved = db
+        .prepare(
+          `SELECT id, severity FROM project_alerts
+           WHERE project_id = ? AND metric = ? AND status <> 'resolved'`,
+        )
+        .get(candidate.projectId, candidate.metric) as Pick<AlertRow, 'id' | 'severity'> | undefined;
+
+      if (unresolved) {
+        const escalated = unresolved.severity === 'warning' && candidate.severity === 'critical';
+        db.prepare(
+          `UPDATE project_alerts
+           SET severity = ?,
+               window_start = ?,
+               window_end = ?,
+               recent_value = ?,
+               baseline_value = ?,
+               recent_count = ?,
+               baseline_count = ?,
+               updated_at = ?,
+               status = CASE WHEN ? THEN 'open' ELSE status END,
+               acknowledged_at = CASE WHEN ? THEN NULL ELSE acknowledged_at END
+           WHERE id = ?`,
+        ).run(
+          candidate.severity,
+          candidate.windowStart,
+          candidate.windowEnd,
+          candidate.recentValue,
+          candidate.baselineValue,
+          candidate.recentCount,
+          candidate.baselineCount,
+          timestamp,
+          escalated ? 1 : 0,
+          escalated ? 1 : 0,
+          unresolved.id,
+        );
+        return unresolved.id;
+      }
+
+      const recentlyResolved = db
+        .prepare(
+          `SELECT 1 FROM project_alerts
+           WHERE project_id = ? AND metric = ? AND status = 'resolved' AND resolved_at >= ?`,
+        )
+        .get(candidate.projectId, candidate.metric, candidate.windowStart);
+      if (recentlyResolved) {
+        return undefined;
+      }
+
+      const result = db
+        .prepare(
+          `INSERT INTO project_alerts (
+             project_id, metric, severity, window_start, window_end, recent_value, baseline_value,
+             recent_count, baseline_count, created_at, updated_at
+           )
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        )
+        .run(
+          candidate.projectId,
+          candidate.metric,
+          candidate.severity,
+          candidate.windowStart,
+          candidate.windowEnd,
+          candidate.recentValue,
+          candidate.baselineValue,
+          candidate.recentCount,
+          candidate.baselineCount,
+          timestamp,
+          timestamp,
+        );
+      return Number(result.lastInsertRowid);
+    });
+
+    const id = transaction();
+    return id === undefined ? undefined : getAlert(id);
+  }
+
+  async function setAlertStatus(
+    id: number,
+    status: Exclude<AlertStatus, 'open'>,
+    now: Date,
+  ): Promise<ProjectAlert | undefined> {
+    const timestamp = now.toISOString();
+    if (status === 'acknowledged') {
+      db.prepare(
+        `UPDATE project_alerts SET status = 'acknowledged', acknowledged_at = ?, updated_at = ?
+         WHERE id = ? AND status = 'open'`,
+      ).run(timestamp, timestamp, id);
+    } else {
+      db.prepare(
+        `UPDATE project_alerts SET status = 'resolved', resolved_at = ?, updated_at = ?
+         WHERE id = ? AND status <> 'resolved'`,
+      ).run(timestamp, timestamp, id);
+    }
+
+    return getAlert(id);
+  }
+
   async function close(): Promise<void> {
     db.close();
   }
@@ -709,17 +2141,48 @@ export function createSqliteAdapter(databaseFile: string): DatabaseAdapter {
     init,
     close,
     ensureUser,
+    getUserLanguage,
+    setUserLanguage,
+    getActiveQuestionnaire,
+    getQuestionnaire,
+    getSurveyQuestionnaire,
+    listQuestionnaireVersions,
+    createQuestionnaireVersion,
+    getProjectQuestionnaire,
+    setProjectQuestionnaire,
+    clearProjectQuestionnaire,
     listProjects,
     createProject,
     updateProjectName,
+    setProjectEditPolicy,
+    setProjectManager,
+    getProjectExpectedRespondents,
+    setProjectExpectedRespondents,
     deleteProject,
     deleteSurvey,
     updateSurveyAnswers,
+    listSurveyRevisions,
+    unlockSurvey,
     getSurveyById,
     listSurveys,
     createSurvey,
     updateSurvey,
+    submitSurvey,
     listAdminProjects,
+    getAdminProject,
+    getManager,
+    createManager,
+    updateManagerName,
+    deleteManager,
+    listAdminManagers,
+    getPortfolioTotals,
+    listProjectTrends,
+    listDriverSamples,
+    listContributionWeeks,
     listAdminProjectResponses,
+    listAlerts,
+    getAlert,
+    saveAlert,
+    setAlertStatus,
   };
 }
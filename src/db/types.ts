@@ -1,4 +1,15 @@
-import { ContributionValue, SurveyAnswers, SurveyRecord, TelegramUser } from '../types';
+import {
+  ContributionValue,
+  EditPolicy,
+  Language,
+  ProjectQuestionnaireMode,
+  Questionnaire,
+  QuestionSeed,
+  SurveyAnswers,
+  SurveyRecord,
+  SurveyRevision,
+  TelegramUser,
+} from '../types';
 
 export interface ProjectSummary {
   id: number;
@@ -6,10 +17,25 @@ export interface ProjectSummary {
   createdAt: string;
   responsesCount: number;
   lastResponseAt: string | null;
+  questionnaireMode: ProjectQuestionnaireMode | null;
+  /** Current version of the project-specific questionnaire, when `questionnaireMode` is set. */
+  questionnaireOverrideId: number | null;
+  editPolicy: EditPolicy;
+  /** Length of the edit window when `editPolicy` is `hours`. */
+  editWindowHours: number;
+  /** Manager running the project, if one is assigned. */
+  managerId: number | null;
 }
 
-export interface AdminProjectStats extends ProjectSummary {
-  uniqueRespondents: number;
+/** A project manager; one manager may run several projects. */
+export interface Manager {
+  id: number;
+  name: string;
+  createdAt: string;
+}
+
+/** Statistics over a set of submitted surveys. */
+export interface SurveyMetricSummary {
   averages: {
     projectRecommendation: number | null;
     managerEffectiveness: number | null;
@@ -17,6 +43,314 @@ export interface AdminProjectStats extends ProjectSummary {
     processOrganization: number | null;
   };
   contributionBreakdown: Record<ContributionValue, number>;
+  nps: NpsBreakdown;
+  /** Promoters minus detractors as a percentage of recommendation answers, from -100 to 100. */
+  enps: number | null;
+  /** How far each score can be trusted given the number of answers behind it. */
+  confidence: {
+    enps: ScoreConfidence;
+    averages: Record<SurveyAverageKey, ScoreConfidence>;
+  };
+  /** The scores are hidden; see `AnonymitySettings`. */
+  suppressed?: boolean;
+}
+
+export type SurveyAverageKey = keyof SurveyMetricSummary['averages'];
+
+/** 95% confidence interval of a score: the true value lies within `score ± margin`. */
+export interface ScoreConfidence {
+  /** Answers the score is computed from. */
+  sampleSize: number;
+  /** Half-width of the interval in the score's units; `null` with fewer than two answers, or low-sample eNPS. */
+  margin: number | null;
+  /** Fewer answers than `MIN_CONFIDENT_SAMPLE`; the score is too noisy to compare. */
+  lowSample: boolean;
+}
+
+export interface AdminProjectStats extends ProjectSummary, SurveyMetricSummary {
+  uniqueRespondents: number;
+  participation: ParticipationStats;
+  sentiment: SentimentSummary;
+}
+
+/** Sentiment of the free-text answers of submitted surveys, each survey scored by the mean of its answers. */
+export interface SentimentSummary {
+  /** Mean survey score from -1 (negative) to 1 (positive); `null` without text answers. */
+  average: number | null;
+  /** Surveys with at least one text answer. */
+  responsesCount: number;
+  /** Surveys scoring at most `NEGATIVE_SENTIMENT_MAX`. */
+  negativeCount: number;
+  /** Surveys scoring at least `POSITIVE_SENTIMENT_MIN`. */
+  positiveCount: number;
+}
+
+/** Employees a project expects answers from: an explicit list of Telegram users or just a headcount. */
+export interface ExpectedRespondents {
+  /** Used when `userIds` is empty. */
+  headcount: number | null;
+  userIds: number[];
+}
+
+/** Share of the expected employees who submitted a survey in a period. */
+export interface ParticipationStats {
+  /** Size of the respondent list, else the headcount; `null` when the project has neither. */
+  expected: number | null;
+  /** Distinct employees who answered; with a respondent list only listed employees count. */
+  responded: number;
+  /** `responded / expected` from 0 to 1, capped because a headcount may be outdated; `null` without `expected`. */
+  rate: number | null;
+}
+
+/** Narrows admin statistics and response lists; every bound is inclusive. */
+export interface AnalyticsFilter {
+  /** Survey dates as `YYYY-MM-DD`. */
+  from?: string;
+  to?: string;
+  /** Range of the project recommendation score, e.g. `scoreMax: 6` for detractors only. */
+  scoreMin?: number;
+  scoreMax?: number;
+  contribution?: ContributionValue;
+  respondentId?: number;
+}
+
+export type TrendGranularity = 'week' | 'month';
+
+/** Dimensions whose relation to the project recommendation the driver analysis measures. */
+export type DriverKey = 'managerEffectiveness' | 'teamComfort' | 'processOrganization' | 'contributionValued';
+
+/** Answers of one submitted survey with a project recommendation. */
+export interface DriverSample {
+  projectId: number;
+  projectRecommendation: number;
+  managerEffectiveness: number | null;
+  teamComfort: number | null;
+  processOrganization: number | null;
+  contributionValued: ContributionValue | null;
+}
+
+export interface DriverStats {
+  key: DriverKey;
+  /** Surveys answering both the dimension and the recommendation. */
+  sampleSize: number;
+  /** Pearson correlation with the recommendation from -1 to 1; `null` when either side does not vary. */
+  correlation: number | null;
+  /**
+   * Recommendation points per point of the dimension, from a simple linear regression; for `contributionValued`
+   * per step from `no` to `yes`.
+   */
+  slope: number | null;
+  /** The correlation differs from zero at the 95% level and rests on enough answers. */
+  significant: boolean;
+}
+
+export interface DriverAnalysis {
+  /** Surveys with a project recommendation. */
+  responsesCount: number;
+  /** Strongest positive correlation first; dimensions without one last. */
+  drivers: DriverStats[];
+  /** Dimension with the strongest significant positive correlation; `null` when none is significant. */
+  keyDriver: DriverKey | null;
+  /** The correlations are hidden. */
+  suppressed?: boolean;
+}
+
+export interface ProjectDriverAnalysis extends DriverAnalysis {
+  projectId: number;
+  projectName: string;
+}
+
+export interface ProjectTrendPeriod extends SurveyMetricSummary {
+  /** First day of the week (Monday) or month, as `YYYY-MM-DD`. */
+  periodStart: string;
+  responsesCount: number;
+  uniqueRespondents: number;
+  participation: ParticipationStats;
+  /** Changes since the preceding period with answers; `null` for the first one. */
+  change: SurveyMetricChanges | null;
+}
+
+/** Statistics of a manager's submitted surveys per period, across all their projects. */
+export interface ManagerTrendPeriod extends SurveyMetricSummary {
+  /** First day of the week (Monday) or month, as `YYYY-MM-DD`. */
+  periodStart: string;
+  responsesCount: number;
+  uniqueRespondents: number;
+  /** Changes since the preceding period with answers; `null` for the first one. */
+  change: SurveyMetricChanges | null;
+}
+
+/** Statistics over the submitted surveys of all projects the manager runs. */
+export interface AdminManagerStats extends Manager, SurveyMetricSummary {
+  projectIds: number[];
+  responsesCount: number;
+  /** Employees are counted once even when they answered in several of the manager's projects. */
+  uniqueRespondents: number;
+  /** Oldest period first. */
+  trend: ManagerTrendPeriod[];
+}
+
+export interface NpsBreakdown {
+  promoters: number;
+  passives: number;
+  detractors: number;
+}
+
+/** Statistics over surveys from all projects. */
+export interface PortfolioTotals extends SurveyMetricSummary {
+  responsesCount: number;
+  /** Employees are counted once even when they answered in several projects. */
+  uniqueRespondents: number;
+}
+
+/** Project health by eNPS; `noData` when the project has no recommendation answers. */
+export type ProjectHealthBand = 'healthy' | 'attention' | 'critical' | 'noData';
+
+export interface MetricDelta {
+  current: number | null;
+  previous: number | null;
+  /** `current - previous`, or `null` when either side has no data. */
+  delta: number | null;
+}
+
+export interface ScoreDelta extends MetricDelta {
+  /** The change is larger than the combined confidence margins of both sides, i.e. not sampling noise. */
+  significant: boolean;
+}
+
+export interface SurveyMetricChanges {
+  enps: ScoreDelta;
+  averages: Record<SurveyAverageKey, ScoreDelta>;
+}
+
+export interface AdminPortfolioStats extends PortfolioTotals {
+  projectsCount: number;
+  healthBands: Record<ProjectHealthBand, number>;
+  weekOverWeek: {
+    /** Monday of the latest week, as `YYYY-MM-DD`. */
+    weekStart: string;
+    previousWeekStart: string;
+    responsesCount: MetricDelta;
+  } & SurveyMetricChanges;
+}
+
+/** Scores projects are ranked on in the benchmark. */
+export type BenchmarkMetric = 'enps' | SurveyAverageKey;
+
+/** Spread of a score over the projects that have it; quartiles are interpolated between neighbouring projects. */
+export interface BenchmarkDistribution {
+  /** Projects with a value. */
+  projectsCount: number;
+  min: number;
+  q1: number;
+  median: number;
+  q3: number;
+  max: number;
+}
+
+/** Quarter of the portfolio a score falls into: `top` from the third quartile up, `bottom` up to the first. */
+export type BenchmarkQuartile = 'top' | 'upperMiddle' | 'lowerMiddle' | 'bottom';
+
+export interface BenchmarkPosition {
+  value: number | null;
+  /** 1 for the best score; tied projects share a rank. `null` without a value. */
+  rank: number | null;
+  quartile: BenchmarkQuartile | null;
+  /** Beyond 1.5 interquartile ranges above the third or below the first quartile. */
+  outlier: 'high' | 'low' | null;
+  /** Fewer answers than `MIN_CONFIDENT_SAMPLE`; the position may be noise. */
+  lowSample: boolean;
+}
+
+export interface ProjectBenchmark {
+  projectId: number;
+  projectName: string;
+  responsesCount: number;
+  positions: Record<BenchmarkMetric, BenchmarkPosition>;
+}
+
+export interface PortfolioBenchmark {
+  /** `null` for a metric no project has a value for. */
+  distributions: Record<BenchmarkMetric, BenchmarkDistribution | null>;
+  /** Ordered by eNPS rank, projects without answers last. */
+  projects: ProjectBenchmark[];
+}
+
+/** Answers to whether contribution is valued in a project's submitted surveys of one week. */
+export interface ContributionWeekCounts {
+  projectId: number;
+  projectName: string;
+  /** Monday of the week, as `YYYY-MM-DD`. */
+  weekStart: string;
+  counts: Record<ContributionValue, number>;
+  /** Distinct employees behind the counts. */
+  respondentsCount: number;
+}
+
+export interface ContributionHeatmapCell {
+  weekStart: string;
+  /** Surveys answering whether contribution is valued. */
+  responsesCount: number;
+  /** Distinct employees behind those surveys. */
+  respondentsCount: number;
+  counts: Record<ContributionValue, number>;
+  /** Share of each answer from 0 to 1; `null` in a week without answers. */
+  shares: Record<ContributionValue, number> | null;
+  /** Fewer answers than `MIN_CONFIDENT_SAMPLE`; the shares may be noise. */
+  lowSample: boolean;
+  /** The counts and shares are hidden. */
+  suppressed?: boolean;
+}
+
+export interface ProjectContributionHeatmap {
+  projectId: number;
+  projectName: string;
+  /** One cell per week of the heatmap, in its order. */
+  cells: ContributionHeatmapCell[];
+}
+
+export interface ContributionHeatmap {
+  /** Every week from the first to the last one with answers, oldest first. */
+  weeks: string[];
+  /** Projects with answers in the range, by name. */
+  projects: ProjectContributionHeatmap[];
+}
+
+/** Scores the anomaly detector watches for sharp drops. */
+export type AlertMetric = 'enps' | 'teamComfort' | 'managerEffectiveness' | 'processOrganization';
+
+export type AlertSeverity = 'warning' | 'critical';
+
+/** `open` until an admin acknowledges the alert, `resolved` once they close it. */
+export type AlertStatus = 'open' | 'acknowledged' | 'resolved';
+
+/** A drop of a project's score in the recent window compared with its baseline. */
+export interface AlertCandidate {
+  projectId: number;
+  metric: AlertMetric;
+  severity: AlertSeverity;
+  /** Survey dates of the recent window, as `YYYY-MM-DD`. */
+  windowStart: string;
+  windowEnd: string;
+  recentValue: number;
+  baselineValue: number;
+  recentCount: number;
+  baselineCount: number;
+}
+
+export interface ProjectAlert extends AlertCandidate {
+  id: number;
+  projectName: string;
+  status: AlertStatus;
+  createdAt: string;
+  updatedAt: string;
+  acknowledgedAt: string | null;
+  resolvedAt: string | null;
+}
+
+export interface AlertListFilter {
+  status?: AlertStatus;
+  projectId?: number;
 }
 
 export interface AdminSurveyRecord extends SurveyRecord {
@@ -26,27 +360,133 @@ export interface AdminSurveyRecord extends SurveyRecord {
     lastName: string | null;
     username: string | null;
   };
+  /** Mean score of the free-text answers from -1 to 1; `null` without any. */
+  sentiment: number | null;
+  /** Score of each free-text answer, by question key. */
+  answerSentiments: Record<string, number>;
+}
+
+/**
+ * A response as anonymous mode shows it: the answers without the respondent, the survey and any dates, so that
+ * neither the person nor the moment they answered can be matched against other data.
+ */
+export type AnonymousResponse = Pick<
+  AdminSurveyRecord,
+  | 'projectId'
+  | 'questionnaireId'
+  | 'questionnaireVersion'
+  | 'extensionQuestionnaireId'
+  | 'answers'
+  | 'sentiment'
+  | 'answerSentiments'
+>;
+
+/**
+ * Anonymous mode of the admin views and the fewest distinct respondents a statistic must cover there. A statistic with
+ * fewer of them is suppressed: its values are emptied, the counts of responses are kept, and `suppressed` is set.
+ */
+export interface AnonymitySettings {
+  enabled: boolean;
+  minRespondents: number;
 }
 
+/** `recent` lists responses newest first, `sentiment` the most negative first and those without text last. */
+export type ResponseOrder = 'recent' | 'sentiment';
+
 export interface SurveyCreationResult {
   record: SurveyRecord;
   wasCreated: boolean;
 }
 
+export interface NewQuestionnaireVersion {
+  title?: string;
+  questions: QuestionSeed[];
+}
+
+export interface ProjectQuestionnaireInput extends NewQuestionnaireVersion {
+  mode: ProjectQuestionnaireMode;
+}
+
 export interface DatabaseAdapter {
   init(): Promise<void>;
   close(): Promise<void>;
   ensureUser(user: TelegramUser): Promise<void>;
+  /** Language the user picked for questionnaire texts, or `null` to follow their Telegram language. */
+  getUserLanguage(userId: number): Promise<Language | null>;
+  setUserLanguage(userId: number, language: Language | null): Promise<void>;
+  getActiveQuestionnaire(): Promise<Questionnaire>;
+  getQuestionnaire(id: number): Promise<Questionnaire | undefined>;
+  getSurveyQuestionnaire(surveyId: number): Promise<Questionnaire | undefined>;
+  listQuestionnaireVersions(): Promise<Questionnaire[]>;
+  createQuestionnaireVersion(input: NewQuestionnaireVersion): Promise<Questionnaire>;
+  /** Questions a new survey in the project is asked, or `undefined` when the project does not exist. */
+  getProjectQuestionnaire(projectId: number): Promise<Questionnaire | undefined>;
+  setProjectQuestionnaire(projectId: number, input: ProjectQuestionnaireInput): Promise<Questionnaire | undefined>;
+  clearProjectQuestionnaire(projectId: number): Promise<Questionnaire | undefined>;
   listProjects(search: string | undefined, limit: number): Promise<ProjectSummary[]>;
   createProject(name: string, createdBy?: number): Promise<ProjectSummary>;
   updateProjectName(id: number, name: string): Promise<ProjectSummary | undefined>;
+  setProjectEditPolicy(id: number, policy: EditPolicy, windowHours: number): Promise<ProjectSummary | undefined>;
+  /** Assigns the project to a manager, or unassigns it with `null`. */
+  setProjectManager(id: number, managerId: number | null): Promise<ProjectSummary | undefined>;
   deleteProject(id: number): Promise<void>;
   deleteSurvey(id: number): Promise<void>;
-  updateSurveyAnswers(id: number, updates: SurveyAnswers): Promise<SurveyRecord | undefined>;
+  /** Admin edit; `revertedRevisionId` marks the recorded revision as a revert to that revision. */
+  updateSurveyAnswers(
+    id: number,
+    updates: SurveyAnswers,
+    revertedRevisionId?: number,
+  ): Promise<SurveyRecord | undefined>;
+  /** Every recorded edit of the survey's answers, newest first, or `undefined` when the survey does not exist. */
+  listSurveyRevisions(surveyId: number): Promise<SurveyRevision[] | undefined>;
+  /** Lets the respondent edit the survey until `until`, even after the project's edit window closed. */
+  unlockSurvey(id: number, until: Date): Promise<SurveyRecord | undefined>;
   getSurveyById(id: number, userId: number): Promise<SurveyRecord | undefined>;
   listSurveys(userId: number, projectId?: number): Promise<SurveyRecord[]>;
   createSurvey(userId: number, projectId: number, surveyDate?: string): Promise<SurveyCreationResult>;
-  updateSurvey(id: number, userId: number, updates: SurveyAnswers): Promise<SurveyRecord>;
-  listAdminProjects(): Promise<AdminProjectStats[]>;
-  listAdminProjectResponses(projectId: number): Promise<AdminSurveyRecord[]>;
+  /** `lastStep` records how far the respondent got in the stepper so a draft can be resumed. */
+  updateSurvey(id: number, userId: number, updates: SurveyAnswers, lastStep?: number): Promise<SurveyRecord>;
+  submitSurvey(id: number, userId: number): Promise<SurveyRecord>;
+  /** `undefined` when the project does not exist. */
+  getProjectExpectedRespondents(projectId: number): Promise<ExpectedRespondents | undefined>;
+  /** Replaces the project's respondent list and headcount. */
+  setProjectExpectedRespondents(
+    projectId: number,
+    expected: ExpectedRespondents,
+  ): Promise<ExpectedRespondents | undefined>;
+  listAdminProjects(filter?: AnalyticsFilter): Promise<AdminProjectStats[]>;
+  /** `listAdminProjects` for a single project, or `undefined` when it does not exist. */
+  getAdminProject(id: number, filter?: AnalyticsFilter): Promise<AdminProjectStats | undefined>;
+  getManager(id: number): Promise<Manager | undefined>;
+  createManager(name: string): Promise<Manager>;
+  updateManagerName(id: number, name: string): Promise<Manager | undefined>;
+  /** Deletes the manager; their projects stay, without a manager. */
+  deleteManager(id: number): Promise<void>;
+  /** Managers by name, each with statistics and trend over all their projects. */
+  listAdminManagers(granularity: TrendGranularity, filter?: AnalyticsFilter): Promise<AdminManagerStats[]>;
+  getPortfolioTotals(filter?: AnalyticsFilter): Promise<PortfolioTotals>;
+  /** Statistics of the project's submitted surveys per period, oldest first, or `undefined` for an unknown project. */
+  listProjectTrends(
+    projectId: number,
+    granularity: TrendGranularity,
+    filter?: AnalyticsFilter,
+  ): Promise<ProjectTrendPeriod[] | undefined>;
+  /** Submitted surveys with a project recommendation, for the driver analysis. */
+  listDriverSamples(filter?: AnalyticsFilter): Promise<DriverSample[]>;
+  /** Contribution answers per project and week, for weeks where the project has any. */
+  listContributionWeeks(filter?: AnalyticsFilter): Promise<ContributionWeekCounts[]>;
+  listAdminProjectResponses(
+    projectId: number,
+    filter?: AnalyticsFilter,
+    order?: ResponseOrder,
+  ): Promise<AdminSurveyRecord[]>;
+  /** Alerts newest first. */
+  listAlerts(filter?: AlertListFilter): Promise<ProjectAlert[]>;
+  getAlert(id: number): Promise<ProjectAlert | undefined>;
+  /**
+   * Records a detected drop. An unresolved alert for the same project and metric is refreshed instead, and reopened
+   * when its severity rises; nothing is recorded when such an alert was resolved during the candidate's window.
+   */
+  saveAlert(candidate: AlertCandidate, now: Date): Promise<ProjectAlert | undefined>;
+  setAlertStatus(id: number, status: Exclude<AlertStatus, 'open'>, now: Date): Promise<ProjectAlert | undefined>;
 }
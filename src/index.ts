@@ -1,3 +1,4 @@
+import { scheduleAlertDetection } from './alerts';
 import { createApp } from './app';
 import { config } from './config';
 import { initDB } from './db';
@@ -6,6 +7,10 @@ async function bootstrap(): Promise<void> {
   await initDB();
   const app = createApp();
 
+  if (config.alertCheckIntervalMinutes > 0) {
+    scheduleAlertDetection(config.alertCheckIntervalMinutes);
+  }
+
   app.listen(config.port, () => {
     // eslint-disable-next-line no-console
     console.log(`Server listening on port ${config.port}`);
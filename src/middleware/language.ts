@@ -0,0 +1,20 @@
+import { NextFunction, Request, Response } from 'express';
+import { getUserLanguage } from '../db';
+import { resolveLanguage } from '../questionnaire/i18n';
+import { Language } from '../types';
+
+declare global {
+  namespace Express {
+    interface Request {
+      language?: Language;
+    }
+  }
+}
+
+/** Picks the language questionnaires are served in: the user's saved choice, then their Telegram language. */
+export async function respondentLanguage(req: Request, _res: Response, next: NextFunction): Promise<void> {
+  const user = req.telegramUser;
+  const saved = user ? await getUserLanguage(user.id) : null;
+  req.language = resolveLanguage(saved, user?.language_code);
+  next();
+}
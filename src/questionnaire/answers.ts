@@ -0,0 +1,213 @@
+import { z } from 'zod';
+import { AnswerValue, QuestionDefinition, QuestionType, SurveyAnswers } from '../types';
+import { scoreSentiment } from '../textAnalytics/sentiment';
+
+const DEFAULT_TEXT_MAX_LENGTH = 10000;
+
+export interface StoredAnswer {
+  numericValue: number | null;
+  textValue: string | null;
+  /** Score of a free-text answer from -1 to 1, see `scoreSentiment`; `null` for other types. */
+  sentiment: number | null;
+}
+
+const NUMERIC_RANGES: Partial<Record<QuestionType, { min: number; max: number }>> = {
+  scale: { min: 0, max: 10 },
+  likert: { min: 1, max: 5 },
+  mood: { min: 1, max: 5 },
+};
+
+/** Types whose answers are stored in `numeric_value` and can be averaged or compared in conditions. */
+export function isNumericQuestionType(type: QuestionType): boolean {
+  return type in NUMERIC_RANGES;
+}
+
+/** Types whose answers are lists or maps, stored as JSON in `text_value`. */
+function isStructuredQuestionType(type: QuestionType): boolean {
+  return type === 'multiselect' || type === 'ranking' || type === 'matrix';
+}
+
+function answerSchema(question: QuestionDefinition, textMaxLength: number): z.ZodType<AnswerValue> {
+  const allowed = (question.options ?? []).map((option) => option.value);
+  const isAllowed = (value: string) => allowed.includes(value);
+  const range = NUMERIC_RANGES[question.type];
+
+  if (range) {
+    return z.union([z.number().int().min(range.min).max(range.max), z.literal('')]);
+  }
+
+  switch (question.type) {
+    case 'options':
+      return z.string().refine((value) => value === '' || isAllowed(value), { message: 'Unknown option value' });
+    case 'multiselect':
+      return z.union([
+        z
+          .array(z.string().refine(isAllowed, { message: 'Unknown option value' }))
+          .refine((values) => new Set(values).size === values.length, { message: 'Options must not repeat' }),
+        z.literal(''),
+      ]);
+    case 'ranking':
+      return z.union([
+        z
+          .array(z.string())
+          .refine((values) => values.length === allowed.length && allowed.every((value) => values.includes(value)), {
+            message: 'Ranking must order every option exactly once',
+          }),
+        z.literal(''),
+      ]);
+    case 'matrix': {
+      const rows = (question.rows ?? []).map((row) => row.value);
+      return z.union([
+        z
+          .record(z.string(), z.string().refine(isAllowed, { message: 'Unknown option value' }))
+          .refine(
+            (answer) => Object.keys(answer).length === rows.length && rows.every((row) => row in answer),
+            { message: 'Matrix answer must pick an option for every row' },
+          ),
+        z.literal(''),
+      ]);
+    }
+    case 'text':
+    default:
+      return z.string().max(textMaxLength).trim();
+  }
+}
+
+/**
+ * Builds a payload schema for the given question set. Unknown keys are stripped, every answer is optional
+ * and text answers are trimmed; an empty string means "clear this answer" for every question type, which is
+ * how follow-ups hidden by a changed answer get dropped.
+ */
+export function buildAnswersSchema(
+  questions: QuestionDefinition[],
+  options: { textMaxLength?: number } = {},
+): z.ZodType<Record<string, AnswerValue | undefined>> {
+  const textMaxLength = options.textMaxLength ?? DEFAULT_TEXT_MAX_LENGTH;
+  const shape: Record<string, z.ZodOptional<z.ZodType<AnswerValue>>> = {};
+
+  questions.forEach((question) => {
+    shape[question.key] = answerSchema(question, textMaxLength).optional();
+  });
+
+  return z.object(shape);
+}
+
+export function compactAnswers(parsed: Record<string, AnswerValue | undefined>): SurveyAnswers {
+  const answers: SurveyAnswers = {};
+
+  Object.entries(parsed).forEach(([key, value]) => {
+    if (value !== undefined) {
+      answers[key] = value;
+    }
+  });
+
+  return answers;
+}
+
+/** The answers once `updates` are written over them; a value that clears an answer removes it. */
+export function mergeAnswers(
+  questions: QuestionDefinition[],
+  answers: SurveyAnswers,
+  updates: SurveyAnswers,
+): SurveyAnswers {
+  const merged = { ...answers };
+  questions.forEach((question) => {
+    const value = updates[question.key];
+    if (value === undefined) {
+      return;
+    }
+
+    const stored = encodeAnswer(question, value);
+    const decoded = stored ? decodeAnswer(question.type, stored.numericValue, stored.textValue) : undefined;
+    if (decoded === undefined) {
+      delete merged[question.key];
+    } else {
+      merged[question.key] = decoded;
+    }
+  });
+
+  return merged;
+}
+
+/** Returns `null` when the value clears the answer. */
+export function encodeAnswer(question: Pick<QuestionDefinition, 'type'>, value: AnswerValue): StoredAnswer | null {
+  if (isNumericQuestionType(question.type)) {
+    return typeof value === 'number' && Number.isFinite(value)
+      ? { numericValue: value, textValue: null, sentiment: null }
+      : null;
+  }
+
+  if (isStructuredQuestionType(question.type)) {
+    const isEmpty = typeof value !== 'object' || Object.keys(value).length === 0;
+    return isEmpty ? null : { numericValue: null, textValue: JSON.stringify(value), sentiment: null };
+  }
+
+  const text = String(value).trim();
+  if (!text) {
+    return null;
+  }
+
+  return { numericValue: null, textValue: text, sentiment: question.type === 'text' ? scoreSentiment(text) : null };
+}
+
+export function decodeAnswer(
+  type: QuestionType,
+  numericValue: number | string | null,
+  textValue: string | null,
+): AnswerValue | undefined {
+  if (isNumericQuestionType(type)) {
+    if (numericValue === null || numericValue === undefined) {
+      return undefined;
+    }
+
+    const parsed = Number(numericValue);
+    return Number.isFinite(parsed) ? parsed : undefined;
+  }
+
+  if (isStructuredQuestionType(type) && textValue !== null) {
+    try {
+      return JSON.parse(textValue) as string[] | Record<string, string>;
+    } catch {
+      return undefined;
+    }
+  }
+
+  return textValue ?? undefined;
+}
+
+/** Mirrors the client's `showIf` evaluation so the server knows which questions a respondent was shown. */
+export function isQuestionVisible(question: QuestionDefinition, answers: SurveyAnswers): boolean {
+  if (!question.showIf) {
+    return true;
+  }
+
+  const { key, operator, value } = question.showIf;
+  const answer = answers[key];
+  if (answer === undefined) {
+    return false;
+  }
+
+  switch (operator) {
+    case 'lt':
+      return typeof answer === 'number' && answer < Number(value);
+    case 'lte':
+      return typeof answer === 'number' && answer <= Number(value);
+    case 'gt':
+      return typeof answer === 'number' && answer > Number(value);
+    case 'gte':
+      return typeof answer === 'number' && answer >= Number(value);
+    case 'eq':
+      return answer === value;
+    case 'neq':
+      return answer !== value;
+    default:
+      return true;
+  }
+}
+
+/** Keys of required questions shown to the respondent that still have no stored answer. */
+export function missingRequiredAnswers(questions: QuestionDefinition[], answers: SurveyAnswers): string[] {
+  return questions
+    .filter((question) => question.required && isQuestionVisible(question, answers) && answers[question.key] === undefined)
+    .map((question) => question.key);
+}
@@ -0,0 +1,171 @@
+import { QuestionSeed } from '../types';
+
+export const DEFAULT_QUESTIONNAIRE_CODE = 'default';
+export const DEFAULT_QUESTIONNAIRE_TITLE = 'Еженедельный eNPS';
+
+// Used to seed an empty database and to migrate answers stored in the legacy fixed columns.
+export const DEFAULT_QUESTIONS: QuestionSeed[] = [
+  {
+    key: 'projectRecommendation',
+    type: 'scale',
+    title: 'Насколько вероятно, что вы порекомендуете участие в проекте коллеге?',
+    shortTitle: 'Проект',
+    description: '0 — точно нет, 10 — однозначно да.',
+    translations: {
+      en: {
+        title: 'How likely are you to recommend working on this project to a colleague?',
+        shortTitle: 'Project',
+        description: '0 — definitely not, 10 — absolutely.',
+      },
+    },
+    required: true,
+  },
+  {
+    key: 'projectImprovement',
+    type: 'text',
+    title: 'Что могло бы повысить вашу оценку проекта?',
+    shortTitle: 'Что улучшить в проекте',
+    placeholder: 'Поделитесь идеями для улучшения проекта.',
+    translations: {
+      en: {
+        title: 'What would raise your rating of the project?',
+        shortTitle: 'Project improvements',
+        placeholder: 'Share your ideas for improving the project.',
+      },
+    },
+    required: false,
+  },
+  {
+    key: 'managerEffectiveness',
+    type: 'scale',
+    title: 'Насколько эффективно менеджер помогает снимать блокеры?',
+    shortTitle: 'Менеджер',
+    description: '0 — никак не помогает, 10 — помогает всегда и быстро.',
+    translations: {
+      en: {
+        title: 'How effectively does your manager help remove blockers?',
+        shortTitle: 'Manager',
+        description: '0 — does not help at all, 10 — always helps, and quickly.',
+      },
+    },
+    required: true,
+  },
+  {
+    key: 'managerImprovement',
+    type: 'text',
+    title: 'Что менеджер мог бы улучшить в следующем спринте?',
+    shortTitle: 'Фидбек менеджеру',
+    placeholder: 'Напишите конкретные ожидания или пожелания.',
+    showIf: { key: 'managerEffectiveness', operator: 'lte', value: 6 },
+    translations: {
+      en: {
+        title: 'What could your manager improve in the next sprint?',
+        shortTitle: 'Feedback for the manager',
+        placeholder: 'Describe specific expectations or wishes.',
+      },
+    },
+    required: false,
+  },
+  {
+    key: 'teamComfort',
+    type: 'scale',
+    title: 'Насколько комфортно вам взаимодействовать с командой?',
+    shortTitle: 'Команда',
+    translations: {
+      en: { title: 'How comfortable is working with your team?', shortTitle: 'Team' },
+    },
+    required: true,
+  },
+  {
+    key: 'teamImprovement',
+    type: 'text',
+    title: 'Что можно улучшить в командной работе?',
+    shortTitle: 'Командная работа',
+    placeholder: 'Опишите, что поможет команде работать лучше.',
+    translations: {
+      en: {
+        title: 'What could be improved in how the team works together?',
+        shortTitle: 'Teamwork',
+        placeholder: 'Describe what would help the team work better.',
+      },
+    },
+    required: false,
+  },
+  {
+    key: 'processOrganization',
+    type: 'scale',
+    title: 'Насколько хорошо организованы процессы (созвоны, таски, коммуникация)?',
+    shortTitle: 'Процессы',
+    translations: {
+      en: {
+        title: 'How well are processes organised (calls, tasks, communication)?',
+        shortTitle: 'Processes',
+      },
+    },
+    required: true,
+  },
+  {
+    key: 'processObstacles',
+    type: 'text',
+    title: 'Что мешало в этом спринте/неделе работать эффективнее?',
+    shortTitle: 'Что мешало работать',
+    placeholder: 'Опишите основные сложности.',
+    showIf: { key: 'processOrganization', operator: 'lt', value: 8 },
+    translations: {
+      en: {
+        title: 'What kept you from working more effectively this sprint/week?',
+        shortTitle: 'Obstacles',
+        placeholder: 'Describe the main difficulties.',
+      },
+    },
+    required: false,
+  },
+  {
+    key: 'contributionValued',
+    type: 'options',
+    title: 'Чувствуете ли вы, что ваш вклад в проект ценится?',
+    shortTitle: 'Вклад ценится',
+    options: [
+      { label: 'Да', value: 'yes' },
+      { label: 'Частично', value: 'partial' },
+      { label: 'Нет', value: 'no' },
+    ],
+    translations: {
+      en: {
+        title: 'Do you feel your contribution to the project is valued?',
+        shortTitle: 'Contribution valued',
+        options: { yes: 'Yes', partial: 'Partly', no: 'No' },
+      },
+    },
+    required: true,
+  },
+  {
+    key: 'improvementIdeas',
+    type: 'text',
+    title: 'Есть ли идеи для улучшения проекта или процессов?',
+    shortTitle: 'Идеи по улучшению',
+    placeholder: 'Предложите гипотезы или эксперименты.',
+    translations: {
+      en: {
+        title: 'Do you have ideas for improving the project or processes?',
+        shortTitle: 'Improvement ideas',
+        placeholder: 'Suggest hypotheses or experiments.',
+      },
+    },
+    required: false,
+  },
+];
+
+/** Columns of the pre-questionnaire `surveys` table and the question keys they map to. */
+export const LEGACY_ANSWER_COLUMNS: Array<{ key: string; column: string; kind: 'numeric' | 'text' }> = [
+  { key: 'projectRecommendation', column: 'project_recommendation', kind: 'numeric' },
+  { key: 'projectImprovement', column: 'project_improvement', kind: 'text' },
+  { key: 'managerEffectiveness', column: 'manager_effectiveness', kind: 'numeric' },
+  { key: 'managerImprovement', column: 'manager_improvement', kind: 'text' },
+  { key: 'teamComfort', column: 'team_comfort', kind: 'numeric' },
+  { key: 'teamImprovement', column: 'team_improvement', kind: 'text' },
+  { key: 'processOrganization', column: 'process_organization', kind: 'numeric' },
+  { key: 'processObstacles', column: 'process_obstacles', kind: 'text' },
+  { key: 'contributionValued', column: 'contribution_valued', kind: 'text' },
+  { key: 'improvementIdeas', column: 'improvement_ideas', kind: 'text' },
+];
@@ -0,0 +1,20 @@
+import { Questionnaire } from '../types';
+
+/** Appends the questions of a project extension to a base questionnaire; base questions win on key clashes. */
+export function withExtension(base: Questionnaire, extension: Questionnaire | undefined): Questionnaire {
+  if (!extension) {
+    return base;
+  }
+
+  const baseKeys = new Set(base.questions.map((question) => question.key));
+
+  return {
+    ...base,
+    questions: [...base.questions, ...extension.questions.filter((question) => !baseKeys.has(question.key))],
+    extension: { id: extension.id, version: extension.version },
+  };
+}
+
+export function projectQuestionnaireCode(projectId: number): string {
+  return `project:${projectId}`;
+}
@@ -0,0 +1,59 @@
+import { Language, QuestionDefinition, QuestionOption, Questionnaire } from '../types';
+
+export const SUPPORTED_LANGUAGES: Language[] = ['ru', 'en'];
+
+/** Language the stored question texts are written in. */
+export const DEFAULT_LANGUAGE: Language = 'ru';
+
+export function isSupportedLanguage(value: unknown): value is Language {
+  return typeof value === 'string' && (SUPPORTED_LANGUAGES as string[]).includes(value);
+}
+
+/**
+ * First supported language among `candidates`, matched by primary subtag so Telegram codes like `en-US` work;
+ * falls back to the default language.
+ */
+export function resolveLanguage(...candidates: Array<string | null | undefined>): Language {
+  for (const candidate of candidates) {
+    const primary = candidate?.trim().toLowerCase().split(/[-_]/)[0];
+    if (isSupportedLanguage(primary)) {
+      return primary;
+    }
+  }
+
+  return DEFAULT_LANGUAGE;
+}
+
+function translateOptions(
+  options: QuestionOption[] | undefined,
+  labels: Record<string, string> | undefined,
+): QuestionOption[] | undefined {
+  return options?.map((option) => ({ ...option, label: labels?.[option.value] ?? option.label }));
+}
+
+/** Question with its texts in `language`; the translations themselves are dropped. */
+export function localizeQuestion(question: QuestionDefinition, language: Language): QuestionDefinition {
+  const { translations, ...rest } = question;
+  const translation = language === DEFAULT_LANGUAGE ? undefined : translations?.[language];
+  if (!translation) {
+    return rest;
+  }
+
+  return {
+    ...rest,
+    title: translation.title ?? rest.title,
+    shortTitle: translation.shortTitle ?? rest.shortTitle,
+    description: translation.description ?? rest.description,
+    placeholder: translation.placeholder ?? rest.placeholder,
+    options: translateOptions(rest.options, translation.options),
+    rows: translateOptions(rest.rows, translation.rows),
+  };
+}
+
+export function localizeQuestionnaire(questionnaire: Questionnaire, language: Language): Questionnaire {
+  return {
+    ...questionnaire,
+    questions: questionnaire.questions.map((question) => localizeQuestion(question, language)),
+    language,
+  };
+}
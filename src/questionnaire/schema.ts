@@ -0,0 +1,146 @@
+import { z } from 'zod';
+import { ConditionOperator, QuestionSeed, QuestionType } from '../types';
+import { isNumericQuestionType } from './answers';
+
+const NUMERIC_OPERATORS: ConditionOperator[] = ['lt', 'lte', 'gt', 'gte'];
+const OPTION_QUESTION_TYPES: QuestionType[] = ['options', 'multiselect', 'ranking', 'matrix'];
+
+const uniqueValues = (options: { value: string }[] | undefined) =>
+  !options || new Set(options.map((option) => option.value)).size === options.length;
+
+const questionOptionSchema = z.object({
+  value: z.string().trim().min(1).max(60),
+  label: z.string().trim().min(1).max(120),
+});
+
+const questionTranslationSchema = z.object({
+  title: z.string().trim().min(1).max(500).optional(),
+  shortTitle: z.string().trim().min(1).max(120).optional(),
+  description: z.string().trim().max(1000).optional(),
+  placeholder: z.string().trim().max(500).optional(),
+  options: z.record(z.string(), z.string().trim().min(1).max(120)).optional(),
+  rows: z.record(z.string(), z.string().trim().min(1).max(120)).optional(),
+});
+
+// Stored texts are Russian, so only other languages can be translated.
+const questionTranslationsSchema = z.object({ en: questionTranslationSchema.optional() }).strict();
+
+/** Translated option and row labels must refer to values the question actually has. */
+const translatedLabelsMatch = (question: {
+  options?: { value: string }[];
+  rows?: { value: string }[];
+  translations?: z.infer<typeof questionTranslationsSchema>;
+}) =>
+  Object.values(question.translations ?? {}).every((translation) => {
+    const known = (values: { value: string }[] | undefined, labels: Record<string, string> | undefined) =>
+      Object.keys(labels ?? {}).every((value) => (values ?? []).some((item) => item.value === value));
+    return known(question.options, translation?.options) && known(question.rows, translation?.rows);
+  });
+
+const questionConditionSchema = z
+  .object({
+    key: z.string().min(1).max(60),
+    operator: z.enum(['lt', 'lte', 'gt', 'gte', 'eq', 'neq']),
+    value: z.union([z.number().int().min(0).max(10), z.string().trim().min(1).max(60)]),
+  })
+  .refine((condition) => !NUMERIC_OPERATORS.includes(condition.operator) || typeof condition.value === 'number', {
+    message: 'Comparison operators require a numeric value',
+    path: ['value'],
+  });
+
+export const questionSeedSchema = z
+  .object({
+    key: z
+      .string()
+      .regex(/^[a-zA-Z][a-zA-Z0-9_]{0,59}$/, 'Key must start with a letter and contain only letters, digits and _'),
+    type: z.enum(['scale', 'likert', 'mood', 'text', 'options', 'multiselect', 'ranking', 'matrix']),
+    title: z.string().trim().min(1).max(500),
+    shortTitle: z.string().trim().min(1).max(120).optional(),
+    description: z.string().trim().max(1000).optional(),
+    placeholder: z.string().trim().max(500).optional(),
+    options: z.array(questionOptionSchema).min(2).max(20).optional(),
+    rows: z.array(questionOptionSchema).min(1).max(20).optional(),
+    showIf: questionConditionSchema.optional(),
+    translations: questionTranslationsSchema.optional(),
+    required: z.boolean().default(false),
+    comparable: z.boolean().default(true),
+  })
+  .refine((question) => !OPTION_QUESTION_TYPES.includes(question.type) || Boolean(question.options), {
+    message: `Options are required for questions of types ${OPTION_QUESTION_TYPES.join(', ')}`,
+    path: ['options'],
+  })
+  .refine((question) => (question.type === 'matrix') === Boolean(question.rows), {
+    message: 'Rows are required for matrix questions and only allowed there',
+    path: ['rows'],
+  })
+  .refine((question) => uniqueValues(question.options), { message: 'Option values must be unique', path: ['options'] })
+  .refine((question) => uniqueValues(question.rows), { message: 'Row values must be unique', path: ['rows'] })
+  .refine(translatedLabelsMatch, { message: 'Translated labels must refer to existing values', path: ['translations'] });
+
+export interface ConditionIssue {
+  index: number;
+  key: string;
+  message: string;
+}
+
+/**
+ * Checks that every `showIf` refers to a question asked earlier (in `preceding` or before it in `questions`)
+ * and compares its answer with a value that question can actually have.
+ */
+export function conditionIssues(
+  questions: QuestionSeed[],
+  preceding: Pick<QuestionSeed, 'key' | 'type' | 'options'>[] = [],
+): ConditionIssue[] {
+  const issues: ConditionIssue[] = [];
+  const asked = new Map(preceding.map((question) => [question.key, question]));
+
+  questions.forEach((question, index) => {
+    const condition = question.showIf;
+    const fail = (message: string) => issues.push({ index, key: question.key, message });
+    const trigger = condition ? asked.get(condition.key) : undefined;
+
+    if (condition && !trigger) {
+      fail(`Condition refers to "${condition.key}" which is not asked earlier`);
+    } else if (condition && trigger) {
+      if (!isNumericQuestionType(trigger.type) && trigger.type !== 'options') {
+        fail('Conditions can only depend on numeric or single-choice answers');
+      } else if (isNumericQuestionType(trigger.type) && typeof condition.value !== 'number') {
+        fail('Numeric conditions require a numeric value');
+      } else if (
+        trigger.type === 'options' &&
+        (NUMERIC_OPERATORS.includes(condition.operator) ||
+          !(trigger.options ?? []).some((option) => option.value === condition.value))
+      ) {
+        fail('Option conditions must compare with one of the option values');
+      }
+    }
+
+    asked.set(question.key, question);
+  });
+
+  return issues;
+}
+
+const questionListSchema = z
+  .array(questionSeedSchema)
+  .min(1)
+  .max(50)
+  .refine((questions) => new Set(questions.map((question) => question.key)).size === questions.length, {
+    message: 'Question keys must be unique',
+  });
+
+export const questionnaireVersionSchema = z.object({
+  title: z.string().trim().min(2).max(200).optional(),
+  questions: questionListSchema.superRefine((questions, ctx) => {
+    conditionIssues(questions).forEach((issue) => {
+      ctx.addIssue({ code: 'custom', message: issue.message, path: [issue.index, 'showIf'] });
+    });
+  }),
+});
+
+// Conditions of project questions may refer to standard questions, so the route checks them once it knows the mode.
+export const projectQuestionnaireSchema = z.object({
+  title: z.string().trim().min(2).max(200).optional(),
+  questions: questionListSchema,
+  mode: z.enum(['extend', 'replace']),
+});
@@ -1,16 +1,83 @@
-import { Router } from 'express';
+import { Request, Response, Router } from 'express';
 import { z } from 'zod';
 import { adminAuth } from '../middleware/adminAuth';
 import {
+  clearProjectQuestionnaire,
+  createManager,
   createProject,
+  createQuestionnaireVersion,
+  deleteManager,
   deleteProject,
   deleteSurvey,
+  getActiveQuestionnaire,
+  getAdminProject,
+  getAlert,
+  getManager,
+  getProjectExpectedRespondents,
+  getProjectQuestionnaire,
+  getQuestionnaire,
+  getPortfolioTotals,
+  getSurveyQuestionnaire,
+  listAdminManagers,
   listAdminProjectResponses,
   listAdminProjects,
+  listAlerts,
+  listContributionWeeks,
+  listDriverSamples,
+  listProjectTrends,
+  listQuestionnaireVersions,
+  listSurveyRevisions,
+  setAlertStatus,
+  setProjectEditPolicy,
+  setProjectExpectedRespondents,
+  setProjectManager,
+  setProjectQuestionnaire,
+  unlockSurvey,
+  updateManagerName,
   updateProjectName,
   updateSurveyAnswers,
 } from '../db';
+import {
+  anonymizeHeatmap,
+  anonymizeProject,
+  anonymizeProjectSummary,
+  anonymizeResponses,
+  anonymizeTextAnalytics,
+  anonymizeTrend,
+  countRespondents,
+  isSuppressed,
+  suppressDrivers,
+  suppressSummary,
+} from '../db/anonymity';
+import { alertWindowFilters } from '../db/anomalies';
+import { benchmarkProjects } from '../db/benchmark';
+import { buildContributionHeatmap } from '../db/contributionHeatmap';
+import { analyzeDrivers } from '../db/drivers';
+import { DEFAULT_EDIT_WINDOW_HOURS } from '../db/editPolicy';
+import {
+  emptySurveyMetricSummary,
+  summarizePortfolio,
+  SURVEY_METRIC_COLUMNS,
+  weekOverWeekFilters,
+} from '../db/metrics';
+import {
+  AdminProjectStats,
+  AlertStatus,
+  AnalyticsFilter,
+  AnonymitySettings,
+  DriverAnalysis,
+  PortfolioTotals,
+  ProjectAlert,
+  ProjectDriverAnalysis,
+  ProjectSummary,
+} from '../db/types';
+import { revertUpdates } from '../db/revisions';
 import { config } from '../config';
+import { buildAnswersSchema, compactAnswers } from '../questionnaire/answers';
+import { localizeQuestionnaire, resolveLanguage } from '../questionnaire/i18n';
+import { conditionIssues, projectQuestionnaireSchema, questionnaireVersionSchema } from '../questionnaire/schema';
+import { analyzeTexts, TextDocument } from '../textAnalytics/keywords';
+import { Questionnaire, QuestionSeed, SurveyRecord } from '../types';
 
 const router = Router();
 
@@ -30,6 +97,8 @@ router.get('/debug-token', (_req, res) => {
 
 router.use(adminAuth);
 
+const idSchema = z.number().int().positive();
+
 const createProjectSchema = z.object({
   name: z.string().min(2).max(120),
 });
@@ -38,9 +107,328 @@ const projectNameSchema = z.object({
   name: z.string().min(2).max(120),
 });
 
-router.get('/projects', async (_req, res) => {
-  const projects = await listAdminProjects();
-  res.json({ projects });
+const managerSchema = z.object({
+  name: z.string().min(2).max(120),
+});
+
+const projectManagerSchema = z.object({
+  managerId: z.number().int().positive().nullable(),
+});
+
+const editPolicySchema = z.object({
+  policy: z.enum(['hours', 'week', 'never']),
+  hours: z.number().int().min(1).max(24 * 31).optional(),
+});
+
+const expectedRespondentsSchema = z.object({
+  headcount: z.number().int().min(1).max(100000).nullable(),
+  userIds: z.array(z.number().int().positive()).max(10000),
+});
+
+const unlockSchema = z.object({
+  hours: z.number().int().min(1).max(24 * 7).default(24),
+});
+
+const alertsQuerySchema = z.object({
+  status: z.enum(['open', 'acknowledged', 'resolved']).optional(),
+  projectId: z.coerce.number().int().positive().optional(),
+});
+
+const trendsQuerySchema = z.object({
+  granularity: z.enum(['week', 'month']).default('week'),
+});
+
+const keywordsQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+const responsesQuerySchema = z.object({
+  sort: z.enum(['recent', 'sentiment']).default('recent'),
+});
+
+const filterDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+const filterScoreSchema = z.coerce.number().int().min(0).max(10);
+
+const analyticsFilterSchema = z
+  .object({
+    from: filterDateSchema.optional(),
+    to: filterDateSchema.optional(),
+    scoreMin: filterScoreSchema.optional(),
+    scoreMax: filterScoreSchema.optional(),
+    contribution: z.enum(['yes', 'partial', 'no']).optional(),
+    respondentId: z.coerce.number().int().positive().optional(),
+  })
+  .refine((filter) => !filter.from || !filter.to || filter.from <= filter.to, {
+    message: '`from` must not be after `to`',
+    path: ['to'],
+  })
+  .refine(
+    (filter) => filter.scoreMin === undefined || filter.scoreMax === undefined || filter.scoreMin <= filter.scoreMax,
+    { message: '`scoreMin` must not exceed `scoreMax`', path: ['scoreMax'] },
+  );
+
+/**
+ * Filter from the query string of an analytics request; answers 400 and returns `undefined` when it is invalid, and
+ * 403 when it singles out a respondent in anonymous mode.
+ */
+function parseAnalyticsFilter(req: Request, res: Response): AnalyticsFilter | undefined {
+  const parseResult = analyticsFilterSchema.safeParse(req.query);
+  if (!parseResult.success) {
+    res.status(400).json({ error: 'Invalid filter', details: parseResult.error.flatten() });
+    return undefined;
+  }
+
+  if (config.anonymousMode && parseResult.data.respondentId !== undefined) {
+    res.status(403).json({ error: 'Filtering by respondent is not available in anonymous mode' });
+    return undefined;
+  }
+
+  return parseResult.data;
+}
+
+/** Project statistics as admins may see them: in anonymous mode without scores too few employees stand behind. */
+function visibleProject(project: AdminProjectStats): AdminProjectStats {
+  return config.anonymousMode ? anonymizeProject(project, config.anonymityThreshold) : project;
+}
+
+/** A project without statistics as admins may see it: in anonymous mode without the time of the last response. */
+function visibleSummary(project: ProjectSummary): ProjectSummary {
+  return config.anonymousMode ? anonymizeProjectSummary(project) : project;
+}
+
+function visibleTotals(totals: PortfolioTotals): PortfolioTotals {
+  return config.anonymousMode && isSuppressed(totals.uniqueRespondents, config.anonymityThreshold)
+    ? suppressSummary(totals)
+    : totals;
+}
+
+/**
+ * Admin views pass `?lang=` to read question texts in the admin's language, whatever language respondents answered
+ * in; without it the stored texts come back together with their translations, ready to be edited and republished.
+ */
+function forAdmin(req: Request, questionnaire: Questionnaire): Questionnaire {
+  const { lang } = req.query;
+  return typeof lang === 'string' ? localizeQuestionnaire(questionnaire, resolveLanguage(lang)) : questionnaire;
+}
+
+router.get('/questionnaire', async (req, res) => {
+  const questionnaire = await getActiveQuestionnaire();
+  res.json({ questionnaire: forAdmin(req, questionnaire) });
+});
+
+router.get('/questionnaire/versions', async (req, res) => {
+  const versions = await listQuestionnaireVersions();
+  res.json({ versions: versions.map((version) => forAdmin(req, version)) });
+});
+
+/**
+ * Rejects questions that reuse the key of a metric the analytics aggregate with another type; their answers would not
+ * fit the metric, e.g. a likert answer read as an eNPS score. Answers 400 and returns false when there are any.
+ */
+function keepsMetricTypes(questions: QuestionSeed[], res: Response): boolean {
+  const retyped = questions.filter((question) =>
+    SURVEY_METRIC_COLUMNS.some(({ key, type }) => key === question.key && type !== question.type),
+  );
+  if (retyped.length) {
+    res.status(400).json({
+      error: 'Questions must keep the types of the metrics whose keys they reuse',
+      details: { keys: retyped.map((question) => question.key) },
+    });
+    return false;
+  }
+
+  return true;
+}
+
+router.post('/questionnaire/versions', async (req, res) => {
+  const parseResult = questionnaireVersionSchema.safeParse(req.body);
+  if (!parseResult.success) {
+    res.status(400).json({ error: 'Invalid questionnaire payload', details: parseResult.error.flatten() });
+    return;
+  }
+  if (!keepsMetricTypes(parseResult.data.questions, res)) {
+    return;
+  }
+
+  const questionnaire = await createQuestionnaireVersion(parseResult.data);
+  res.status(201).json({ questionnaire });
+});
+
+// Project-specific questionnaires are not part of the standard version list but still pin responses.
+router.get('/questionnaire/:id', async (req, res) => {
+  const idResult = idSchema.safeParse(Number(req.params.id));
+  if (!idResult.success) {
+    res.status(400).json({ error: 'Invalid questionnaire id' });
+    return;
+  }
+
+  const questionnaire = await getQuestionnaire(idResult.data);
+  if (!questionnaire) {
+    res.status(404).json({ error: 'Questionnaire not found' });
+    return;
+  }
+
+  res.json({ questionnaire: forAdmin(req, questionnaire) });
+});
+
+router.get('/anonymity', (_req, res) => {
+  const anonymity: AnonymitySettings = { enabled: config.anonymousMode, minRespondents: config.anonymityThreshold };
+  res.json({ anonymity });
+});
+
+router.get('/projects', async (req, res) => {
+  const filter = parseAnalyticsFilter(req, res);
+  if (!filter) {
+    return;
+  }
+
+  const projects = await listAdminProjects(filter);
+  res.json({ projects: projects.map(visibleProject) });
+});
+
+router.get('/portfolio', async (req, res) => {
+  const filter = parseAnalyticsFilter(req, res);
+  if (!filter) {
+    return;
+  }
+
+  const weeks = weekOverWeekFilters(filter);
+  const [totals, projects, currentWeek, previousWeek] = await Promise.all([
+    getPortfolioTotals(filter),
+    listAdminProjects(filter),
+    getPortfolioTotals(weeks.current),
+    getPortfolioTotals(weeks.previous),
+  ]);
+
+  res.json({
+    portfolio: summarizePortfolio({
+      totals: visibleTotals(totals),
+      projects: projects.map(visibleProject),
+      weekStart: weeks.weekStart,
+      previousWeekStart: weeks.previousWeekStart,
+      currentWeek: visibleTotals(currentWeek),
+      previousWeek: visibleTotals(previousWeek),
+    }),
+  });
+});
+
+router.get('/benchmark', async (req, res) => {
+  const filter = parseAnalyticsFilter(req, res);
+  if (!filter) {
+    return;
+  }
+
+  const projects = await listAdminProjects(filter);
+  res.json({ benchmark: benchmarkProjects(projects.map(visibleProject)) });
+});
+
+router.get('/contribution-heatmap', async (req, res) => {
+  const filter = parseAnalyticsFilter(req, res);
+  if (!filter) {
+    return;
+  }
+
+  const heatmap = buildContributionHeatmap(await listContributionWeeks(filter));
+  res.json({ heatmap: config.anonymousMode ? anonymizeHeatmap(heatmap, config.anonymityThreshold) : heatmap });
+});
+
+router.get('/drivers', async (req, res) => {
+  const filter = parseAnalyticsFilter(req, res);
+  if (!filter) {
+    return;
+  }
+
+  const [samples, projects, totals] = await Promise.all([
+    listDriverSamples(filter),
+    listAdminProjects(filter),
+    getPortfolioTotals(filter),
+  ]);
+  // Correlations over a handful of employees reveal how each of them answered just like the scores do.
+  const visible = <T extends DriverAnalysis>(analysis: T, respondents: number): T =>
+    config.anonymousMode && isSuppressed(respondents, config.anonymityThreshold) ? suppressDrivers(analysis) : analysis;
+
+  res.json({
+    portfolio: visible(analyzeDrivers(samples), totals.uniqueRespondents),
+    projects: projects.map<ProjectDriverAnalysis>((project) =>
+      visible(
+        {
+          projectId: project.id,
+          projectName: project.name,
+          ...analyzeDrivers(samples.filter((sample) => sample.projectId === project.id)),
+        },
+        project.uniqueRespondents,
+      ),
+    ),
+  });
+});
+
+router.get('/managers', async (req, res) => {
+  const queryResult = trendsQuerySchema.safeParse(req.query);
+  if (!queryResult.success) {
+    res.status(400).json({ error: 'Invalid trends query', details: queryResult.error.flatten() });
+    return;
+  }
+
+  const filter = parseAnalyticsFilter(req, res);
+  if (!filter) {
+    return;
+  }
+
+  const { granularity } = queryResult.data;
+  const managers = await listAdminManagers(granularity, filter);
+  const minRespondents = config.anonymityThreshold;
+  res.json({
+    granularity,
+    managers: config.anonymousMode
+      ? managers.map((manager) => ({
+          ...(isSuppressed(manager.uniqueRespondents, minRespondents) ? suppressSummary(manager) : manager),
+          trend: anonymizeTrend(manager.trend, minRespondents),
+        }))
+      : managers,
+  });
+});
+
+router.post('/managers', async (req, res) => {
+  const parseResult = managerSchema.safeParse(req.body);
+  if (!parseResult.success) {
+    res.status(400).json({ error: 'Invalid manager payload', details: parseResult.error.flatten() });
+    return;
+  }
+
+  res.status(201).json({ manager: await createManager(parseResult.data.name) });
+});
+
+router.patch('/managers/:id', async (req, res) => {
+  const idResult = idSchema.safeParse(Number(req.params.id));
+  if (!idResult.success) {
+    res.status(400).json({ error: 'Invalid manager id' });
+    return;
+  }
+
+  const parseResult = managerSchema.safeParse(req.body);
+  if (!parseResult.success) {
+    res.status(400).json({ error: 'Invalid manager payload', details: parseResult.error.flatten() });
+    return;
+  }
+
+  const manager = await updateManagerName(idResult.data, parseResult.data.name);
+  if (!manager) {
+    res.status(404).json({ error: 'Manager not found' });
+    return;
+  }
+
+  res.json({ manager });
+});
+
+router.delete('/managers/:id', async (req, res) => {
+  const idResult = idSchema.safeParse(Number(req.params.id));
+  if (!idResult.success) {
+    res.status(400).json({ error: 'Invalid manager id' });
+    return;
+  }
+
+  await deleteManager(idResult.data);
+  res.status(204).end();
 });
 
 router.post('/projects', async (req, res) => {
@@ -51,21 +439,19 @@ router.post('/projects', async (req, res) => {
   }
 
   const created = await createProject(parseResult.data.name);
-  const stats = (await listAdminProjects()).find((project) => project.id === created.id);
+  const stats = await getAdminProject(created.id);
 
+  // An existing name returns that project, whose statistics anonymous mode may have to hide.
   res.status(201).json({
-    project:
+    project: visibleProject(
       stats ?? {
         ...created,
         uniqueRespondents: 0,
-        averages: {
-          projectRecommendation: null,
-          managerEffectiveness: null,
-          teamComfort: null,
-          processOrganization: null,
-        },
-        contributionBreakdown: { yes: 0, partial: 0, no: 0 },
+        participation: { expected: null, responded: 0, rate: null },
+        sentiment: { average: null, responsesCount: 0, negativeCount: 0, positiveCount: 0 },
+        ...emptySurveyMetricSummary(),
       },
+    ),
   });
 });
 
@@ -82,28 +468,14 @@ router.patch('/projects/:id', async (req, res) => {
     return;
   }
 
-  const updatedSummary = await updateProjectName(idResult.data, parseResult.data.name);
-  if (!updatedSummary) {
+  const updated = await updateProjectName(idResult.data, parseResult.data.name);
+  const stats = updated && (await getAdminProject(updated.id));
+  if (!stats) {
     res.status(404).json({ error: 'Project not found' });
     return;
   }
 
-  const stats = (await listAdminProjects()).find((project) => project.id === updatedSummary.id);
-
-  res.json({
-    project:
-      stats ?? {
-        ...updatedSummary,
-        uniqueRespondents: 0,
-        averages: {
-          projectRecommendation: null,
-          managerEffectiveness: null,
-          teamComfort: null,
-          processOrganization: null,
-        },
-        contributionBreakdown: { yes: 0, partial: 0, no: 0 },
-      },
-  });
+  res.json({ project: visibleProject(stats) });
 });
 
 router.delete('/projects/:id', async (req, res) => {
@@ -117,17 +489,177 @@ router.delete('/projects/:id', async (req, res) => {
   res.status(204).end();
 });
 
-const surveyUpdateSchema = z.object({
-  projectRecommendation: z.number().int().min(0).max(10).optional(),
-  managerEffectiveness: z.number().int().min(0).max(10).optional(),
-  teamComfort: z.number().int().min(0).max(10).optional(),
-  processOrganization: z.number().int().min(0).max(10).optional(),
-  projectImprovement: z.string().max(4000).optional(),
-  managerImprovement: z.string().max(4000).optional(),
-  teamImprovement: z.string().max(4000).optional(),
-  processObstacles: z.string().max(4000).optional(),
-  contributionValued: z.enum(['yes', 'no', 'partial']).optional(),
-  improvementIdeas: z.string().max(4000).optional(),
+router.put('/projects/:id/edit-policy', async (req, res) => {
+  const idResult = idSchema.safeParse(Number(req.params.id));
+  if (!idResult.success) {
+    res.status(400).json({ error: 'Invalid project id' });
+    return;
+  }
+
+  const parseResult = editPolicySchema.safeParse(req.body);
+  if (!parseResult.success) {
+    res.status(400).json({ error: 'Invalid edit policy payload', details: parseResult.error.flatten() });
+    return;
+  }
+
+  const { policy, hours } = parseResult.data;
+  const project = await setProjectEditPolicy(idResult.data, policy, hours ?? DEFAULT_EDIT_WINDOW_HOURS);
+  if (!project) {
+    res.status(404).json({ error: 'Project not found' });
+    return;
+  }
+
+  res.json({ project: visibleSummary(project) });
+});
+
+router.put('/projects/:id/manager', async (req, res) => {
+  const idResult = idSchema.safeParse(Number(req.params.id));
+  if (!idResult.success) {
+    res.status(400).json({ error: 'Invalid project id' });
+    return;
+  }
+
+  const parseResult = projectManagerSchema.safeParse(req.body);
+  if (!parseResult.success) {
+    res.status(400).json({ error: 'Invalid project manager payload', details: parseResult.error.flatten() });
+    return;
+  }
+
+  const { managerId } = parseResult.data;
+  if (managerId !== null && !(await getManager(managerId))) {
+    res.status(404).json({ error: 'Manager not found' });
+    return;
+  }
+
+  const project = await setProjectManager(idResult.data, managerId);
+  if (!project) {
+    res.status(404).json({ error: 'Project not found' });
+    return;
+  }
+
+  res.json({ project: visibleSummary(project) });
+});
+
+router.get('/projects/:id/expected-respondents', async (req, res) => {
+  const idResult = idSchema.safeParse(Number(req.params.id));
+  if (!idResult.success) {
+    res.status(400).json({ error: 'Invalid project id' });
+    return;
+  }
+
+  const expected = await getProjectExpectedRespondents(idResult.data);
+  if (!expected) {
+    res.status(404).json({ error: 'Project not found' });
+    return;
+  }
+
+  res.json({ expected });
+});
+
+router.put('/projects/:id/expected-respondents', async (req, res) => {
+  const idResult = idSchema.safeParse(Number(req.params.id));
+  if (!idResult.success) {
+    res.status(400).json({ error: 'Invalid project id' });
+    return;
+  }
+
+  const parseResult = expectedRespondentsSchema.safeParse(req.body);
+  if (!parseResult.success) {
+    res.status(400).json({ error: 'Invalid expected respondents payload', details: parseResult.error.flatten() });
+    return;
+  }
+
+  const expected = await setProjectExpectedRespondents(idResult.data, parseResult.data);
+  if (!expected) {
+    res.status(404).json({ error: 'Project not found' });
+    return;
+  }
+
+  res.json({ expected });
+});
+
+router.get('/projects/:id/questionnaire', async (req, res) => {
+  const idResult = idSchema.safeParse(Number(req.params.id));
+  if (!idResult.success) {
+    res.status(400).json({ error: 'Invalid project id' });
+    return;
+  }
+
+  const questionnaire = await getProjectQuestionnaire(idResult.data);
+  if (!questionnaire) {
+    res.status(404).json({ error: 'Project not found' });
+    return;
+  }
+
+  res.json({ questionnaire: forAdmin(req, questionnaire) });
+});
+
+router.put('/projects/:id/questionnaire', async (req, res) => {
+  const idResult = idSchema.safeParse(Number(req.params.id));
+  if (!idResult.success) {
+    res.status(400).json({ error: 'Invalid project id' });
+    return;
+  }
+
+  const parseResult = projectQuestionnaireSchema.safeParse(req.body);
+  if (!parseResult.success) {
+    res.status(400).json({ error: 'Invalid questionnaire payload', details: parseResult.error.flatten() });
+    return;
+  }
+
+  const standardQuestions = parseResult.data.mode === 'extend' ? (await getActiveQuestionnaire()).questions : [];
+  const standardKeys = new Set(standardQuestions.map((question) => question.key));
+  const clashes = parseResult.data.questions.filter((question) => standardKeys.has(question.key));
+  if (clashes.length) {
+    res.status(400).json({
+      error: 'Project questions must not reuse keys of the standard questionnaire',
+      details: { keys: clashes.map((question) => question.key) },
+    });
+    return;
+  }
+  if (!keepsMetricTypes(parseResult.data.questions, res)) {
+    return;
+  }
+
+  const issues = conditionIssues(parseResult.data.questions, standardQuestions);
+  if (issues.length) {
+    res.status(400).json({ error: 'Invalid question conditions', details: { conditions: issues } });
+    return;
+  }
+
+  const questionnaire = await setProjectQuestionnaire(idResult.data, parseResult.data);
+  if (!questionnaire) {
+    res.status(404).json({ error: 'Project not found' });
+    return;
+  }
+
+  res.json({ questionnaire });
+});
+
+router.delete('/projects/:id/questionnaire', async (req, res) => {
+  const idResult = idSchema.safeParse(Number(req.params.id));
+  if (!idResult.success) {
+    res.status(400).json({ error: 'Invalid project id' });
+    return;
+  }
+
+  const questionnaire = await clearProjectQuestionnaire(idResult.data);
+  if (!questionnaire) {
+    res.status(404).json({ error: 'Project not found' });
+    return;
+  }
+
+  res.json({ questionnaire });
+});
+
+// Single surveys are addressed by id and their revisions tell who changed them and when; anonymous mode hides both.
+router.use('/surveys', (_req, res, next) => {
+  if (config.anonymousMode) {
+    res.status(403).json({ error: 'Surveys are not available in anonymous mode' });
+    return;
+  }
+
+  next();
 });
 
 router.patch('/surveys/:id', async (req, res) => {
@@ -137,13 +669,19 @@ router.patch('/surveys/:id', async (req, res) => {
     return;
   }
 
-  const parseResult = surveyUpdateSchema.safeParse(req.body);
+  const questionnaire = await getSurveyQuestionnaire(idResult.data);
+  if (!questionnaire) {
+    res.status(404).json({ error: 'Survey not found' });
+    return;
+  }
+
+  const parseResult = buildAnswersSchema(questionnaire.questions, { textMaxLength: 4000 }).safeParse(req.body);
   if (!parseResult.success) {
     res.status(400).json({ error: 'Invalid survey payload', details: parseResult.error.flatten() });
     return;
   }
 
-  const updated = await updateSurveyAnswers(idResult.data, parseResult.data);
+  const updated = await updateSurveyAnswers(idResult.data, compactAnswers(parseResult.data));
   if (!updated) {
     res.status(404).json({ error: 'Survey not found' });
     return;
@@ -152,6 +690,76 @@ router.patch('/surveys/:id', async (req, res) => {
   res.json({ survey: updated });
 });
 
+router.get('/surveys/:id/revisions', async (req, res) => {
+  const idResult = idSchema.safeParse(Number(req.params.id));
+  if (!idResult.success) {
+    res.status(400).json({ error: 'Invalid survey id' });
+    return;
+  }
+
+  const revisions = await listSurveyRevisions(idResult.data);
+  if (!revisions) {
+    res.status(404).json({ error: 'Survey not found' });
+    return;
+  }
+
+  res.json({ revisions });
+});
+
+// Restores the answers the survey had right after the revision; the restore is recorded as a new revision.
+router.post('/surveys/:id/revisions/:revisionId/revert', async (req, res) => {
+  const idResult = idSchema.safeParse(Number(req.params.id));
+  const revisionIdResult = idSchema.safeParse(Number(req.params.revisionId));
+  if (!idResult.success || !revisionIdResult.success) {
+    res.status(400).json({ error: 'Invalid revision id' });
+    return;
+  }
+
+  const revisions = await listSurveyRevisions(idResult.data);
+  if (!revisions) {
+    res.status(404).json({ error: 'Survey not found' });
+    return;
+  }
+
+  const updates = revertUpdates(revisions, revisionIdResult.data);
+  if (!updates) {
+    res.status(404).json({ error: 'Revision not found' });
+    return;
+  }
+
+  const survey = await updateSurveyAnswers(idResult.data, updates, revisionIdResult.data);
+  if (!survey) {
+    res.status(404).json({ error: 'Survey not found' });
+    return;
+  }
+
+  res.json({ survey });
+});
+
+// Reopens a survey for its respondent after the project's edit window has closed.
+router.post('/surveys/:id/unlock', async (req, res) => {
+  const idResult = idSchema.safeParse(Number(req.params.id));
+  if (!idResult.success) {
+    res.status(400).json({ error: 'Invalid survey id' });
+    return;
+  }
+
+  const parseResult = unlockSchema.safeParse(req.body ?? {});
+  if (!parseResult.success) {
+    res.status(400).json({ error: 'Invalid unlock payload', details: parseResult.error.flatten() });
+    return;
+  }
+
+  const until = new Date(Date.now() + parseResult.data.hours * 60 * 60 * 1000);
+  const survey = await unlockSurvey(idResult.data, until);
+  if (!survey) {
+    res.status(404).json({ error: 'Survey not found' });
+    return;
+  }
+
+  res.json({ survey });
+});
+
 router.delete('/surveys/:id', async (req, res) => {
   const idResult = idSchema.safeParse(Number(req.params.id));
   if (!idResult.success) {
@@ -163,7 +771,90 @@ router.delete('/surveys/:id', async (req, res) => {
   res.status(204).end();
 });
 
-const idSchema = z.number().int().positive();
+router.get('/projects/:id/trends', async (req, res) => {
+  const idResult = idSchema.safeParse(Number(req.params.id));
+  if (!idResult.success) {
+    res.status(400).json({ error: 'Invalid project id' });
+    return;
+  }
+
+  const queryResult = trendsQuerySchema.safeParse(req.query);
+  if (!queryResult.success) {
+    res.status(400).json({ error: 'Invalid trends query', details: queryResult.error.flatten() });
+    return;
+  }
+
+  const filter = parseAnalyticsFilter(req, res);
+  if (!filter) {
+    return;
+  }
+
+  const { granularity } = queryResult.data;
+  const periods = await listProjectTrends(idResult.data, granularity, filter);
+  if (!periods) {
+    res.status(404).json({ error: 'Project not found' });
+    return;
+  }
+
+  res.json({
+    granularity,
+    periods: config.anonymousMode ? anonymizeTrend(periods, config.anonymityThreshold) : periods,
+  });
+});
+
+/** Free-text answers of each survey, recognised by the question types of the questionnaires it was answered with. */
+async function textDocuments(surveys: SurveyRecord[]): Promise<TextDocument[]> {
+  const questionnaireIds = (survey: SurveyRecord) =>
+    survey.extensionQuestionnaireId === null
+      ? [survey.questionnaireId]
+      : [survey.questionnaireId, survey.extensionQuestionnaireId];
+  const textKeys = new Map<number, Set<string>>();
+  await Promise.all(
+    [...new Set(surveys.flatMap(questionnaireIds))].map(async (id) => {
+      const questionnaire = await getQuestionnaire(id);
+      const keys = questionnaire?.questions.filter((question) => question.type === 'text').map(({ key }) => key);
+      textKeys.set(id, new Set(keys));
+    }),
+  );
+
+  return surveys.map((survey) => {
+    const isText = (key: string) => questionnaireIds(survey).some((id) => textKeys.get(id)?.has(key));
+    return {
+      surveyId: survey.id,
+      texts: Object.entries(survey.answers).flatMap(([key, value]) =>
+        typeof value === 'string' && isText(key) ? [value] : [],
+      ),
+    };
+  });
+}
+
+router.get('/projects/:id/keywords', async (req, res) => {
+  const idResult = idSchema.safeParse(Number(req.params.id));
+  if (!idResult.success) {
+    res.status(400).json({ error: 'Invalid project id' });
+    return;
+  }
+
+  const queryResult = keywordsQuerySchema.safeParse(req.query);
+  if (!queryResult.success) {
+    res.status(400).json({ error: 'Invalid keywords query', details: queryResult.error.flatten() });
+    return;
+  }
+
+  const filter = parseAnalyticsFilter(req, res);
+  if (!filter) {
+    return;
+  }
+
+  const surveys = await listAdminProjectResponses(idResult.data, filter);
+  if (config.anonymousMode && isSuppressed(countRespondents(surveys), config.anonymityThreshold)) {
+    res.json({ analytics: { ...analyzeTexts([], queryResult.data.limit), suppressed: true } });
+    return;
+  }
+
+  const analytics = analyzeTexts(await textDocuments(surveys), queryResult.data.limit);
+  res.json({ analytics: config.anonymousMode ? anonymizeTextAnalytics(analytics) : analytics });
+});
 
 router.get('/projects/:id/responses', async (req, res) => {
   const parseResult = idSchema.safeParse(Number(req.params.id));
@@ -172,8 +863,112 @@ router.get('/projects/:id/responses', async (req, res) => {
     return;
   }
 
-  const surveys = await listAdminProjectResponses(parseResult.data);
+  const queryResult = responsesQuerySchema.safeParse(req.query);
+  if (!queryResult.success) {
+    res.status(400).json({ error: 'Invalid responses query', details: queryResult.error.flatten() });
+    return;
+  }
+
+  const filter = parseAnalyticsFilter(req, res);
+  if (!filter) {
+    return;
+  }
+
+  const surveys = await listAdminProjectResponses(parseResult.data, filter, queryResult.data.sort);
+  if (config.anonymousMode) {
+    const suppressed = isSuppressed(countRespondents(surveys), config.anonymityThreshold);
+    res.json({
+      anonymous: true,
+      suppressed,
+      responses: suppressed ? [] : anonymizeResponses(surveys, queryResult.data.sort),
+    });
+    return;
+  }
+
   res.json({ surveys });
 });
 
+router.get('/alerts', async (req, res) => {
+  const parseResult = alertsQuerySchema.safeParse(req.query);
+  if (!parseResult.success) {
+    res.status(400).json({ error: 'Invalid alert filter', details: parseResult.error.flatten() });
+    return;
+  }
+
+  res.json({ alerts: await visibleAlerts(await listAlerts(parseResult.data)) });
+});
+
+/**
+ * Anonymous mode hides alerts whose windows too few employees answered in: an alert needs only a few answers, which
+ * may all come from one person, and its scores would show how they answered. Alerts raised by one detection run share
+ * their windows, so the respondents of each window are counted once for all the projects.
+ */
+async function visibleAlerts(alerts: ProjectAlert[]): Promise<ProjectAlert[]> {
+  if (!config.anonymousMode) {
+    return alerts;
+  }
+
+  const projectIds = new Set(alerts.map((alert) => alert.projectId));
+  const [onlyProjectId] = projectIds;
+  const loadStats = async (filter: AnalyticsFilter): Promise<AdminProjectStats[]> => {
+    if (projectIds.size > 1) {
+      return listAdminProjects(filter);
+    }
+    const project = onlyProjectId === undefined ? undefined : await getAdminProject(onlyProjectId, filter);
+    return project ? [project] : [];
+  };
+
+  const respondentsByWindow = new Map<string, Promise<Map<number, number>>>();
+  const respondents = (filter: AnalyticsFilter): Promise<Map<number, number>> => {
+    const key = `${filter.from}:${filter.to}`;
+    let counts = respondentsByWindow.get(key);
+    if (!counts) {
+      counts = loadStats(filter).then(
+        (projects) => new Map(projects.map((project) => [project.id, project.uniqueRespondents])),
+      );
+      respondentsByWindow.set(key, counts);
+    }
+    return counts;
+  };
+
+  const visible = await Promise.all(
+    alerts.map(async (alert) => {
+      const { recent, baseline } = alertWindowFilters(alert.windowStart, alert.windowEnd);
+      const windows = await Promise.all([respondents(recent), respondents(baseline)]);
+      return windows.every((counts) => (counts.get(alert.projectId) ?? 0) >= config.anonymityThreshold);
+    }),
+  );
+  return alerts.filter((_alert, index) => visible[index]);
+}
+
+async function changeAlertStatus(req: Request, res: Response, status: Exclude<AlertStatus, 'open'>): Promise<void> {
+  const idResult = idSchema.safeParse(Number(req.params.id));
+  if (!idResult.success) {
+    res.status(400).json({ error: 'Invalid alert id' });
+    return;
+  }
+
+  const alert = await getAlert(idResult.data);
+  if (!alert || (await visibleAlerts([alert])).length === 0) {
+    res.status(404).json({ error: 'Alert not found' });
+    return;
+  }
+
+  // Only open alerts can be acknowledged; open and acknowledged ones can be resolved.
+  if (alert.status === 'resolved' || (status === 'acknowledged' && alert.status !== 'open')) {
+    res.status(409).json({ error: `Alert is already ${alert.status}` });
+    return;
+  }
+
+  res.json({ alert: await setAlertStatus(alert.id, status, new Date()) });
+}
+
+router.post('/alerts/:id/acknowledge', async (req, res) => {
+  await changeAlertStatus(req, res, 'acknowledged');
+});
+
+router.post('/alerts/:id/resolve', async (req, res) => {
+  await changeAlertStatus(req, res, 'resolved');
+});
+
 export default router;
@@ -0,0 +1,31 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { setUserLanguage } from '../db';
+import { resolveLanguage, SUPPORTED_LANGUAGES } from '../questionnaire/i18n';
+import { Language } from '../types';
+
+const router = Router();
+
+// `null` drops the saved choice so the Telegram language applies again.
+const languageSchema = z.object({
+  language: z.enum(SUPPORTED_LANGUAGES as [Language, ...Language[]]).nullable(),
+});
+
+router.put('/language', async (req, res) => {
+  const parseResult = languageSchema.safeParse(req.body);
+  if (!parseResult.success) {
+    res.status(400).json({ error: 'Invalid language payload', details: parseResult.error.flatten() });
+    return;
+  }
+
+  const user = req.telegramUser;
+  if (!user) {
+    res.status(401).json({ error: 'Unauthorized' });
+    return;
+  }
+
+  await setUserLanguage(user.id, parseResult.data.language);
+  res.json({ language: resolveLanguage(parseResult.data.language, user.language_code) });
+});
+
+export default router;
@@ -1,6 +1,9 @@
 import { Router } from 'express';
 import { z } from 'zod';
-import { createProject, listProjects } from '../db';
+import { config } from '../config';
+import { createProject, getProjectQuestionnaire, listProjects } from '../db';
+import { anonymizeProjectSummary } from '../db/anonymity';
+import { DEFAULT_LANGUAGE, localizeQuestionnaire } from '../questionnaire/i18n';
 
 const router = Router();
 
@@ -14,7 +17,10 @@ router.get('/', async (req, res) => {
   const limit = Number.isFinite(limitParam) && limitParam ? Math.min(Math.max(limitParam, 1), 100) : 50;
   const projects = await listProjects(search, limit);
 
-  res.json({ projects });
+  // Employees see the project list too; in anonymous mode it must not tell them when a colleague last answered.
+  res.json({
+    projects: config.anonymousMode ? projects.map(anonymizeProjectSummary) : projects,
+  });
 });
 
 router.post('/', async (req, res) => {
@@ -30,8 +36,25 @@ router.post('/', async (req, res) => {
     return;
   }
 
+  // A taken name returns the existing project, answers and all.
   const project = await createProject(parseResult.data.name, user.id);
-  res.status(201).json({ project });
+  res.status(201).json({ project: config.anonymousMode ? anonymizeProjectSummary(project) : project });
+});
+
+router.get('/:id/questionnaire', async (req, res) => {
+  const id = Number(req.params.id);
+  if (!Number.isFinite(id)) {
+    res.status(400).json({ error: 'Invalid project id' });
+    return;
+  }
+
+  const questionnaire = await getProjectQuestionnaire(id);
+  if (!questionnaire) {
+    res.status(404).json({ error: 'Project not found' });
+    return;
+  }
+
+  res.json({ questionnaire: localizeQuestionnaire(questionnaire, req.language ?? DEFAULT_LANGUAGE) });
 });
 
 export default router;
@@ -0,0 +1,29 @@
+import { Router } from 'express';
+import { getActiveQuestionnaire, getQuestionnaire } from '../db';
+import { DEFAULT_LANGUAGE, localizeQuestionnaire } from '../questionnaire/i18n';
+
+const router = Router();
+
+router.get('/', async (req, res) => {
+  const questionnaire = await getActiveQuestionnaire();
+  res.json({ questionnaire: localizeQuestionnaire(questionnaire, req.language ?? DEFAULT_LANGUAGE) });
+});
+
+// Surveys stay pinned to the version they were started under, so history needs older versions too.
+router.get('/:id', async (req, res) => {
+  const id = Number(req.params.id);
+  if (!Number.isFinite(id)) {
+    res.status(400).json({ error: 'Invalid questionnaire id' });
+    return;
+  }
+
+  const questionnaire = await getQuestionnaire(id);
+  if (!questionnaire) {
+    res.status(404).json({ error: 'Questionnaire not found' });
+    return;
+  }
+
+  res.json({ questionnaire: localizeQuestionnaire(questionnaire, req.language ?? DEFAULT_LANGUAGE) });
+});
+
+export default router;
@@ -1,10 +1,40 @@
-import { Router } from 'express';
+import { Response, Router } from 'express';
 import { z } from 'zod';
-import { createSurvey, getSurveyById, listSurveys, updateSurvey } from '../db';
-import { SurveyAnswers } from '../types';
+import { createSurvey, getSurveyById, getSurveyQuestionnaire, listSurveys, submitSurvey, updateSurvey } from '../db';
+import { buildAnswersSchema, compactAnswers, mergeAnswers, missingRequiredAnswers } from '../questionnaire/answers';
+import { detectProjectAlerts } from '../alerts';
+import { Questionnaire, SurveyAnswers, SurveyRecord } from '../types';
 
 const router = Router();
 
+/**
+ * A submitted survey must keep its required answers through later edits; drafts may have gaps until submit. Answers
+ * 400 and returns false when `updates` would blank one.
+ */
+async function keepsRequiredAnswers(
+  id: number,
+  userId: number,
+  questionnaire: Questionnaire,
+  updates: SurveyAnswers,
+  res: Response,
+): Promise<boolean> {
+  const survey = await getSurveyById(id, userId);
+  if (!survey?.submittedAt) {
+    return true;
+  }
+
+  const missing = missingRequiredAnswers(
+    questionnaire.questions,
+    mergeAnswers(questionnaire.questions, survey.answers, updates),
+  );
+  if (missing.length) {
+    res.status(400).json({ error: 'Required questions are not answered', details: { missing } });
+    return false;
+  }
+
+  return true;
+}
+
 const createSchema = z.object({
   projectId: z.number().int().positive(),
   surveyDate: z
@@ -13,22 +43,6 @@ const createSchema = z.object({
     .optional(),
 });
 
-const ratingField = z.number().int().min(0).max(10);
-const textField = z.string().max(10000).optional();
-
-const updateSchema = z.object({
-  projectRecommendation: ratingField.optional(),
-  projectImprovement: textField,
-  managerEffectiveness: ratingField.optional(),
-  managerImprovement: textField,
-  teamComfort: ratingField.optional(),
-  teamImprovement: textField,
-  processOrganization: ratingField.optional(),
-  processObstacles: textField,
-  contributionValued: z.enum(['yes', 'no', 'partial']).optional(),
-  improvementIdeas: textField,
-});
-
 router.get('/', async (req, res) => {
   const user = req.telegramUser;
   if (!user) {
@@ -99,52 +113,115 @@ router.patch('/:id', async (req, res) => {
     return;
   }
 
-  const parseResult = updateSchema.safeParse(req.body);
+  const questionnaire = await getSurveyQuestionnaire(id);
+  if (!questionnaire) {
+    res.status(404).json({ error: 'Survey not found' });
+    return;
+  }
+
+  const parseResult = buildAnswersSchema(questionnaire.questions).safeParse(req.body);
   if (!parseResult.success) {
     res.status(400).json({ error: 'Invalid survey update payload', details: parseResult.error.flatten() });
     return;
   }
 
-  const cleaned: SurveyAnswers = {};
+  const cleaned = compactAnswers(parseResult.data);
+  if (!(await keepsRequiredAnswers(id, user.id, questionnaire, cleaned, res))) {
+    return;
+  }
 
-  const data = parseResult.data;
-  if (data.projectRecommendation !== undefined) {
-    cleaned.projectRecommendation = data.projectRecommendation;
+  try {
+    const survey = await updateSurvey(id, user.id, cleaned);
+    res.json({ survey });
+  } catch (error) {
+    res.status(400).json({ error: (error as Error).message });
   }
-  if (data.projectImprovement !== undefined) {
-    cleaned.projectImprovement = data.projectImprovement.trim();
+});
+
+// Autosave from the stepper: the answers of one step plus its index, so the draft can be resumed elsewhere.
+router.patch('/:id/draft', async (req, res) => {
+  const user = req.telegramUser;
+  if (!user) {
+    res.status(401).json({ error: 'Unauthorized' });
+    return;
   }
-  if (data.managerEffectiveness !== undefined) {
-    cleaned.managerEffectiveness = data.managerEffectiveness;
+
+  const id = Number(req.params.id);
+  if (!Number.isFinite(id)) {
+    res.status(400).json({ error: 'Invalid survey id' });
+    return;
   }
-  if (data.managerImprovement !== undefined) {
-    cleaned.managerImprovement = data.managerImprovement.trim();
+
+  const questionnaire = await getSurveyQuestionnaire(id);
+  if (!questionnaire) {
+    res.status(404).json({ error: 'Survey not found' });
+    return;
   }
-  if (data.teamComfort !== undefined) {
-    cleaned.teamComfort = data.teamComfort;
+
+  const draftSchema = z.object({
+    answers: buildAnswersSchema(questionnaire.questions),
+    step: z.number().int().min(0).max(questionnaire.questions.length),
+  });
+  const parseResult = draftSchema.safeParse(req.body);
+  if (!parseResult.success) {
+    res.status(400).json({ error: 'Invalid survey draft payload', details: parseResult.error.flatten() });
+    return;
   }
-  if (data.teamImprovement !== undefined) {
-    cleaned.teamImprovement = data.teamImprovement.trim();
+
+  const answers = compactAnswers(parseResult.data.answers);
+  if (!(await keepsRequiredAnswers(id, user.id, questionnaire, answers, res))) {
+    return;
   }
-  if (data.processOrganization !== undefined) {
-    cleaned.processOrganization = data.processOrganization;
+
+  try {
+    const survey = await updateSurvey(id, user.id, answers, parseResult.data.step);
+    res.json({ survey });
+  } catch (error) {
+    res.status(400).json({ error: (error as Error).message });
   }
-  if (data.processObstacles !== undefined) {
-    cleaned.processObstacles = data.processObstacles.trim();
+});
+
+router.post('/:id/submit', async (req, res) => {
+  const user = req.telegramUser;
+  if (!user) {
+    res.status(401).json({ error: 'Unauthorized' });
+    return;
+  }
+
+  const id = Number(req.params.id);
+  if (!Number.isFinite(id)) {
+    res.status(400).json({ error: 'Invalid survey id' });
+    return;
   }
-  if (data.contributionValued !== undefined) {
-    cleaned.contributionValued = data.contributionValued;
+
+  const survey = await getSurveyById(id, user.id);
+  const questionnaire = survey ? await getSurveyQuestionnaire(id) : undefined;
+  if (!survey || !questionnaire) {
+    res.status(404).json({ error: 'Survey not found' });
+    return;
   }
-  if (data.improvementIdeas !== undefined) {
-    cleaned.improvementIdeas = data.improvementIdeas.trim();
+
+  const missing = missingRequiredAnswers(questionnaire.questions, survey.answers);
+  if (missing.length) {
+    res.status(400).json({ error: 'Required questions are not answered', details: { missing } });
+    return;
   }
 
+  let submitted: SurveyRecord;
   try {
-    const survey = await updateSurvey(id, user.id, cleaned);
-    res.json({ survey });
+    submitted = await submitSurvey(id, user.id);
   } catch (error) {
     res.status(400).json({ error: (error as Error).message });
+    return;
   }
+
+  res.json({ survey: submitted });
+
+  // Checked once the respondent has the answer; a failed check is left to the scheduled run to repeat.
+  detectProjectAlerts(new Date(), submitted.projectId).catch((error) => {
+    // eslint-disable-next-line no-console
+    console.error('Alert detection after submit failed', error);
+  });
 });
 
 export default router;
@@ -0,0 +1,118 @@
+import { STOP_WORDS } from './stopWords';
+import { splitClauses, stemWord } from './tokens';
+
+/** Free-text answers of one survey. */
+export interface TextDocument {
+  surveyId: number;
+  texts: string[];
+}
+
+export interface TextTerm {
+  /** Most frequent spelling of the word, or of the pair of words, in the answers. */
+  term: string;
+  /** Stems the term stands for, separated by a space in phrases; identical for every spelling. */
+  stem: string;
+  /** Occurrences in all answers. */
+  count: number;
+  /** Surveys whose answers contain the term. */
+  surveysCount: number;
+  /** Those surveys, in the order the documents were given; empty in anonymous mode. */
+  surveyIds: number[];
+}
+
+export interface TextAnalytics {
+  /** Surveys with at least one non-empty text answer. */
+  responsesCount: number;
+  keywords: TextTerm[];
+  /** Pairs of adjacent words that occur in more than one survey. */
+  phrases: TextTerm[];
+  /** The terms are hidden by anonymous mode. */
+  suppressed?: boolean;
+}
+
+interface Token {
+  word: string;
+  stem: string;
+}
+
+interface TermCounter {
+  count: number;
+  surveyIds: Set<number>;
+  spellings: Map<string, number>;
+}
+
+/** Clauses of the text as word sequences; `null` marks a stop word, which breaks phrases like punctuation does. */
+export function tokenize(text: string): Array<Array<Token | null>> {
+  return splitClauses(text).map((words) =>
+    words.map((word) =>
+      word.length < 2 || /^\d+$/.test(word) || STOP_WORDS.has(word) ? null : { word, stem: stemWord(word) },
+    ),
+  );
+}
+
+function countTerm(terms: Map<string, TermCounter>, stem: string, spelling: string, surveyId: number): void {
+  const counter = terms.get(stem) ?? { count: 0, surveyIds: new Set<number>(), spellings: new Map<string, number>() };
+  counter.count += 1;
+  counter.surveyIds.add(surveyId);
+  counter.spellings.set(spelling, (counter.spellings.get(spelling) ?? 0) + 1);
+  terms.set(stem, counter);
+}
+
+/** Terms found in the most surveys first, then the most frequent ones. */
+function topTerms(terms: Map<string, TermCounter>, limit: number, minSurveys = 1): TextTerm[] {
+  return [...terms.entries()]
+    .filter(([, counter]) => counter.surveyIds.size >= minSurveys)
+    .map(([stem, counter]) => ({
+      // Ties go to the alphabetically first spelling so the result does not depend on answer order.
+      term: [...counter.spellings.entries()].sort(
+        ([left, leftCount], [right, rightCount]) => rightCount - leftCount || left.localeCompare(right),
+      )[0]![0],
+      stem,
+      count: counter.count,
+      surveysCount: counter.surveyIds.size,
+      surveyIds: [...counter.surveyIds],
+    }))
+    .sort(
+      (left, right) =>
+        right.surveysCount - left.surveysCount ||
+        right.count - left.count ||
+        left.term.localeCompare(right.term),
+    )
+    .slice(0, limit);
+}
+
+/**
+ * Top keywords and two-word phrases of Russian and English answers. Words are grouped by stem, so `процессы` and
+ * `процессов` or `review` and `reviews` count as one keyword.
+ */
+export function analyzeTexts(documents: TextDocument[], limit: number): TextAnalytics {
+  const keywords = new Map<string, TermCounter>();
+  const phrases = new Map<string, TermCounter>();
+  let responsesCount = 0;
+
+  documents.forEach(({ surveyId, texts }) => {
+    const nonEmpty = texts.filter((text) => text.trim());
+    if (nonEmpty.length === 0) {
+      return;
+    }
+
+    responsesCount += 1;
+    nonEmpty.forEach((text) => {
+      tokenize(text).forEach((tokens) => {
+        tokens.forEach((token, index) => {
+          if (!token) {
+            return;
+          }
+
+          countTerm(keywords, token.stem, token.word, surveyId);
+          const previous = tokens[index - 1];
+          if (previous && previous.stem !== token.stem) {
+            countTerm(phrases, `${previous.stem} ${token.stem}`, `${previous.word} ${token.word}`, surveyId);
+          }
+        });
+      });
+    });
+  });
+
+  return { responsesCount, keywords: topTerms(keywords, limit), phrases: topTerms(phrases, limit, 2) };
+}
@@ -0,0 +1,86 @@
+import { splitClauses, stemWord } from './tokens';
+
+/** Answers and surveys scoring at most this are counted and highlighted as negative. */
+export const NEGATIVE_SENTIMENT_MAX = -0.25;
+
+/** Answers and surveys scoring at least this are counted as positive. */
+export const POSITIVE_SENTIMENT_MIN = 0.25;
+
+/**
+ * Polarity of words common in workplace feedback, from -1 to 1. Words are matched by stem, so every inflection
+ * counts; forms the stemmer cuts differently, such as `проблем`, are listed separately.
+ */
+const LEXICON: Record<string, number> = {
+  // Russian, positive.
+  хороший: 0.5, хорошо: 0.5, отличный: 1, отлично: 1, прекрасный: 1, замечательный: 1, супер: 1, классный: 1,
+  круто: 1, нравится: 0.5, доволен: 0.5, довольный: 0.5, удобный: 0.5, комфортно: 0.5, спасибо: 0.5,
+  благодарен: 0.5, поддержка: 0.5, помогает: 0.5, дружный: 0.5, интересный: 0.5, интересно: 0.5, эффективный: 0.5,
+  прозрачный: 0.5, понятный: 0.5, понятно: 0.5, успех: 0.5, ценят: 0.5, уважение: 0.5, устраивает: 0.5,
+  хватает: 0.5, вовремя: 0.25, стабильный: 0.25, лучший: 0.5,
+  // Russian, negative.
+  плохой: -0.5, плохо: -0.5, ужасный: -1, ужасно: -1, отвратительный: -1, кошмар: -1, хаос: -1, бардак: -1,
+  проблема: -0.5, проблем: -0.5, сложно: -0.5, трудно: -0.5, тяжело: -0.5, неудобный: -0.5, неудобно: -0.5,
+  непонятный: -0.5, непонятно: -0.5, непрозрачный: -0.5, усталость: -0.5, выгорание: -1, выгорел: -1,
+  переработки: -0.5, овертайм: -0.5, стресс: -0.5, конфликт: -0.5, токсичный: -1, срыв: -0.5, срываются: -0.5,
+  задержка: -0.5, медленный: -0.5, медленно: -0.5, бесполезный: -1, бессмысленный: -1, раздражает: -0.5,
+  недоволен: -0.5, разочарование: -1, хуже: -0.5, нехватка: -0.5, мешает: -0.5, игнорируют: -0.5, уволиться: -1,
+  бюрократия: -0.5, микроменеджмент: -1, давление: -0.5, ненавижу: -1, надоело: -0.5, авралы: -0.5, бесит: -1,
+  // English, positive.
+  good: 0.5, great: 1, excellent: 1, awesome: 1, amazing: 1, love: 1, happy: 0.5, helpful: 0.5, support: 0.5,
+  supportive: 0.5, clear: 0.5, efficient: 0.5, friendly: 0.5, smooth: 0.5, enjoy: 0.5, appreciate: 0.5,
+  thanks: 0.5, nice: 0.5, best: 1, comfortable: 0.5, transparent: 0.5,
+  // English, negative.
+  bad: -0.5, terrible: -1, awful: -1, horrible: -1, poor: -0.5, slow: -0.5, problem: -0.5, issue: -0.5,
+  chaos: -1, mess: -0.5, confusing: -0.5, unclear: -0.5, stress: -0.5, stressful: -0.5, overtime: -0.5,
+  burnout: -1, toxic: -1, conflict: -0.5, delay: -0.5, useless: -1, pointless: -1, frustrating: -1,
+  annoying: -0.5, hate: -1, worse: -0.5, worst: -1, lack: -0.5, micromanagement: -1, tired: -0.5,
+  difficult: -0.5, broken: -0.5, disappointed: -1, blocker: -0.5,
+};
+
+const POLARITY_BY_STEM = new Map(Object.entries(LEXICON).map(([word, polarity]) => [stemWord(word), polarity]));
+
+/** Words reversing the polarity of the next two words: `не устраивает`, `no support`. */
+const NEGATIONS = new Set(['не', 'ни', 'нет', 'без', 'нельзя', 'not', 'no', 'never', 'without']);
+
+const NEGATION_SCOPE = 2;
+
+function negates(word: string): boolean {
+  return NEGATIONS.has(word) || word.endsWith("n't");
+}
+
+/**
+ * Sentiment of a free-text answer from -1 (negative) to 1 (positive): the mean polarity of its lexicon words, each
+ * reversed when negated. Text without lexicon words scores 0.
+ */
+export function scoreSentiment(text: string): number {
+  const polarities: number[] = [];
+
+  splitClauses(text).forEach((words) => {
+    let negatedUntil = -1;
+    let scoredIndex = -1;
+    words.forEach((word, index) => {
+      // `нет` right after a scored word reverses it, as in `проблем нет`.
+      if (word === 'нет' && index > 0 && scoredIndex === index - 1) {
+        polarities.push(-polarities.pop()!);
+        return;
+      }
+
+      if (negates(word)) {
+        negatedUntil = index + NEGATION_SCOPE;
+        return;
+      }
+
+      const polarity = POLARITY_BY_STEM.get(stemWord(word));
+      if (polarity !== undefined) {
+        polarities.push(index <= negatedUntil ? -polarity : polarity);
+        scoredIndex = index;
+      }
+    });
+  });
+
+  if (polarities.length === 0) {
+    return 0;
+  }
+
+  return polarities.reduce((sum, polarity) => sum + polarity, 0) / polarities.length;
+}
@@ -0,0 +1,254 @@
+/**
+ * Snowball stemmers for Russian and English (Porter2). Both expect a single lower-case word; Russian words should
+ * already have `ё` replaced with `е`.
+ */
+
+function longestSuffix(word: string, suffixes: readonly string[], start = 0): string | undefined {
+  let found: string | undefined;
+  for (const suffix of suffixes) {
+    if (word.endsWith(suffix) && word.length - suffix.length >= start && (!found || suffix.length > found.length)) {
+      found = suffix;
+    }
+  }
+  return found;
+}
+
+// --- Russian ---
+
+const RU_VOWELS = 'аеиоуыэюя';
+
+const RU_PERFECTIVE_GERUND_AFTER_A = ['в', 'вши', 'вшись'];
+const RU_PERFECTIVE_GERUND = ['ив', 'ивши', 'ившись', 'ыв', 'ывши', 'ывшись'];
+const RU_ADJECTIVE = [
+  'ее', 'ие', 'ые', 'ое', 'ими', 'ыми', 'ей', 'ий', 'ый', 'ой', 'ем', 'им', 'ым', 'ом',
+  'его', 'ого', 'ему', 'ому', 'их', 'ых', 'ую', 'юю', 'ая', 'яя', 'ою', 'ею',
+];
+const RU_PARTICIPLE_AFTER_A = ['ем', 'нн', 'вш', 'ющ', 'щ'];
+const RU_PARTICIPLE = ['ивш', 'ывш', 'ующ'];
+const RU_REFLEXIVE = ['ся', 'сь'];
+const RU_VERB_AFTER_A = [
+  'ла', 'на', 'ете', 'йте', 'ли', 'й', 'л', 'ем', 'н', 'ло', 'но', 'ет', 'ют', 'ны', 'ть', 'ешь', 'нно',
+];
+const RU_VERB = [
+  'ила', 'ыла', 'ена', 'ейте', 'уйте', 'ите', 'или', 'ыли', 'ей', 'уй', 'ил', 'ыл', 'им', 'ым', 'ен', 'ило', 'ыло',
+  'ено', 'ят', 'ует', 'уют', 'ит', 'ыт', 'ены', 'ить', 'ыть', 'ишь', 'ую', 'ю',
+];
+const RU_NOUN = [
+  'а', 'ев', 'ов', 'ие', 'ье', 'е', 'иями', 'ями', 'ами', 'еи', 'ии', 'и', 'ией', 'ей', 'ой', 'ий', 'й', 'иям', 'ям',
+  'ием', 'ем', 'ам', 'ом', 'о', 'у', 'ах', 'иях', 'ях', 'ы', 'ь', 'ию', 'ью', 'ю', 'ия', 'ья', 'я',
+];
+const RU_DERIVATIONAL = ['ост', 'ость'];
+
+/** Start of the region after the first vowel, and of R2 — the region after the second vowel–consonant pair. */
+function russianRegions(word: string): { rv: number; r2: number } {
+  const isVowel = (index: number) => RU_VOWELS.includes(word[index]!);
+  const afterVowelConsonant = (from: number) => {
+    for (let index = from + 1; index < word.length; index += 1) {
+      if (!isVowel(index) && isVowel(index - 1)) {
+        return index + 1;
+      }
+    }
+    return word.length;
+  };
+
+  const firstVowel = [...word].findIndex((_, index) => isVowel(index));
+  const r1 = afterVowelConsonant(0);
+  return { rv: firstVowel === -1 ? word.length : firstVowel + 1, r2: afterVowelConsonant(r1) };
+}
+
+/**
+ * Removes the longest of the endings found in the region from `rv`. Endings of `afterA` only count when preceded by
+ * `а` or `я`, which stays. Returns `undefined` when nothing was removed.
+ */
+function removeRussianEnding(
+  word: string,
+  rv: number,
+  endings: readonly string[],
+  afterA: readonly string[] = [],
+): string | undefined {
+  const ending = longestSuffix(word, [...afterA, ...endings], rv);
+  if (!ending) {
+    return undefined;
+  }
+
+  const stem = word.slice(0, -ending.length);
+  if (!endings.includes(ending) && !(stem.length > rv && /[ая]$/.test(stem))) {
+    return undefined;
+  }
+  return stem;
+}
+
+export function stemRussian(word: string): string {
+  const { rv, r2 } = russianRegions(word);
+  let stem = removeRussianEnding(word, rv, RU_PERFECTIVE_GERUND, RU_PERFECTIVE_GERUND_AFTER_A);
+
+  if (stem === undefined) {
+    stem = removeRussianEnding(word, rv, RU_REFLEXIVE) ?? word;
+    const adjective = removeRussianEnding(stem, rv, RU_ADJECTIVE);
+    stem =
+      (adjective !== undefined
+        ? removeRussianEnding(adjective, rv, RU_PARTICIPLE, RU_PARTICIPLE_AFTER_A) ?? adjective
+        : removeRussianEnding(stem, rv, RU_VERB, RU_VERB_AFTER_A) ?? removeRussianEnding(stem, rv, RU_NOUN)) ?? stem;
+  }
+
+  if (stem.length > rv && stem.endsWith('и')) {
+    stem = stem.slice(0, -1);
+  }
+
+  const derivational = longestSuffix(stem, RU_DERIVATIONAL, Math.max(r2, rv));
+  if (derivational) {
+    stem = stem.slice(0, -derivational.length);
+  }
+
+  const tidy = longestSuffix(stem, ['ейш', 'ейше', 'н', 'ь'], rv);
+  if (tidy === 'ь') {
+    return stem.slice(0, -1);
+  }
+  if (tidy === 'ейш' || tidy === 'ейше') {
+    stem = stem.slice(0, -tidy.length);
+  }
+  return stem.length - 2 >= rv && stem.endsWith('нн') ? stem.slice(0, -1) : stem;
+}
+
+// --- English ---
+
+const EN_VOWELS = 'aeiouy';
+const EN_DOUBLES = ['bb', 'dd', 'ff', 'gg', 'mm', 'nn', 'pp', 'rr', 'tt'];
+const EN_LI_ENDINGS = 'cdeghkmnrt';
+
+// Porter2 exceptional forms, left as is or stemmed irregularly.
+const EN_EXCEPTIONS: Record<string, string> = {
+  skis: 'ski', skies: 'sky', dying: 'die', lying: 'lie', tying: 'tie', idly: 'idl', gently: 'gentl', ugly: 'ugli',
+  early: 'earli', only: 'onli', singly: 'singl', sky: 'sky', news: 'news', howe: 'howe', atlas: 'atlas',
+  cosmos: 'cosmos', bias: 'bias', andes: 'andes',
+};
+const EN_INVARIANT_AFTER_PLURALS = [
+  'inning', 'outing', 'canning', 'herring', 'earring', 'proceed', 'exceed', 'succeed',
+];
+
+const EN_STEP2: Record<string, string> = {
+  tional: 'tion', enci: 'ence', anci: 'ance', abli: 'able', entli: 'ent', izer: 'ize', ization: 'ize',
+  ational: 'ate', ation: 'ate', ator: 'ate', alism: 'al', aliti: 'al', alli: 'al', fulness: 'ful', ousli: 'ous',
+  ousness: 'ous', iveness: 'ive', iviti: 'ive', biliti: 'ble', bli: 'ble', ogi: 'og', fulli: 'ful', lessli: 'less',
+  li: '',
+};
+const EN_STEP3: Record<string, string> = {
+  tional: 'tion', ational: 'ate', alize: 'al', icate: 'ic', iciti: 'ic', ical: 'ic', ful: '', ness: '', ative: '',
+};
+const EN_STEP4 = [
+  'al', 'ance', 'ence', 'er', 'ic', 'able', 'ible', 'ant', 'ement', 'ment', 'ent', 'ism', 'ate', 'iti', 'ous', 'ive',
+  'ize', 'ion',
+];
+
+function isEnglishVowel(word: string, index: number): boolean {
+  return EN_VOWELS.includes(word[index]!);
+}
+
+function englishRegions(word: string): { r1: number; r2: number } {
+  const afterVowelConsonant = (from: number) => {
+    for (let index = from + 1; index < word.length; index += 1) {
+      if (!isEnglishVowel(word, index) && isEnglishVowel(word, index - 1)) {
+        return index + 1;
+      }
+    }
+    return word.length;
+  };
+
+  const prefix = ['gener', 'commun', 'arsen'].find((candidate) => word.startsWith(candidate));
+  const r1 = prefix ? prefix.length : afterVowelConsonant(0);
+  return { r1, r2: afterVowelConsonant(r1) };
+}
+
+/** Whether the word ends with a short syllable, such as `hop` in `hopping` or a leading `at`. */
+function endsWithShortSyllable(word: string): boolean {
+  const last = word.length - 1;
+  if (word.length === 2) {
+    return isEnglishVowel(word, 0) && !isEnglishVowel(word, 1);
+  }
+
+  return (
+    word.length > 2 &&
+    !isEnglishVowel(word, last) &&
+    !'wxY'.includes(word[last]!) &&
+    isEnglishVowel(word, last - 1) &&
+    !isEnglishVowel(word, last - 2)
+  );
+}
+
+export function stemEnglish(input: string): string {
+  let word = input.replace(/^'/, '');
+  if (word.length <= 2 || EN_EXCEPTIONS[word]) {
+    return EN_EXCEPTIONS[word] ?? word;
+  }
+
+  // `y` acting as a consonant is marked with `Y` so that it does not count as a vowel.
+  word = word.replace(/^y/, 'Y').replace(/([aeiouy])y/g, '$1Y');
+  const { r1, r2 } = englishRegions(word);
+  const hasVowelBefore = (end: number) => /[aeiouy]/.test(word.slice(0, end));
+
+  // Step 0 and 1a: possessives and plurals.
+  word = word.replace(/'s?'?$/, '');
+  const plural = longestSuffix(word, ['sses', 'ied', 'ies', 'us', 'ss', 's']);
+  if (plural === 'sses') {
+    word = word.slice(0, -2);
+  } else if (plural === 'ied' || plural === 'ies') {
+    word = word.slice(0, -3) + (word.length > 4 ? 'i' : 'ie');
+  } else if (plural === 's' && hasVowelBefore(word.length - 2)) {
+    word = word.slice(0, -1);
+  }
+  if (EN_INVARIANT_AFTER_PLURALS.includes(word)) {
+    return word;
+  }
+
+  // Step 1b: past tenses and gerunds.
+  const verbal = longestSuffix(word, ['eed', 'eedly', 'ed', 'edly', 'ing', 'ingly']);
+  if (verbal === 'eed' || verbal === 'eedly') {
+    if (word.length - verbal.length >= r1) {
+      word = `${word.slice(0, -verbal.length)}ee`;
+    }
+  } else if (verbal && hasVowelBefore(word.length - verbal.length)) {
+    word = word.slice(0, -verbal.length);
+    if (/(at|bl|iz)$/.test(word)) {
+      word += 'e';
+    } else if (EN_DOUBLES.some((double) => word.endsWith(double))) {
+      word = word.slice(0, -1);
+    } else if (r1 >= word.length && endsWithShortSyllable(word)) {
+      word += 'e';
+    }
+  }
+
+  // Step 1c.
+  if (word.length > 2 && /[yY]$/.test(word) && !isEnglishVowel(word, word.length - 2)) {
+    word = `${word.slice(0, -1)}i`;
+  }
+
+  const step2 = longestSuffix(word, Object.keys(EN_STEP2), r1);
+  if (step2) {
+    const stem = word.slice(0, -step2.length);
+    if (step2 === 'ogi' ? stem.endsWith('l') : step2 === 'li' ? EN_LI_ENDINGS.includes(stem.slice(-1)) : true) {
+      word = stem + EN_STEP2[step2];
+    }
+  }
+
+  const step3 = longestSuffix(word, Object.keys(EN_STEP3), r1);
+  if (step3 && (step3 !== 'ative' || word.length - step3.length >= r2)) {
+    word = word.slice(0, -step3.length) + EN_STEP3[step3];
+  }
+
+  const step4 = longestSuffix(word, EN_STEP4, r2);
+  if (step4 && (step4 !== 'ion' || /[st]$/.test(word.slice(0, -3)))) {
+    word = word.slice(0, -step4.length);
+  }
+
+  // Step 5.
+  const beforeLast = word.slice(0, -1);
+  if (word.endsWith('e')) {
+    if (beforeLast.length >= r2 || (beforeLast.length >= r1 && !endsWithShortSyllable(beforeLast))) {
+      word = beforeLast;
+    }
+  } else if (word.endsWith('ll') && beforeLast.length >= r2) {
+    word = beforeLast;
+  }
+
+  return word.replace(/Y/g, 'y');
+}
@@ -0,0 +1,26 @@
+/**
+ * Function words and fillers left out of keyword statistics, after lower-casing and replacing `ё` with `е`. Besides
+ * the usual pronouns and particles the lists hold words respondents use to say there is nothing to report.
+ */
+
+const RUSSIAN = `
+а без более бы был была были было быть в вам вас весь во вот все всего всех вы где да даже для до его ее ей ему
+если есть еще же за здесь и из или им их к как какие какой когда кто ли либо меня мне много может можно мой мы на
+над надо наш не него нее нет ни них ничего но ну о об один он она они оно от очень по под при про раз с сам свой
+себе себя сейчас так также такой там тем то того тоже только том тот у уже хотя чего чем что чтобы эта эти это
+этого этой этом этот я будет будут бывает вообще всем всегда какая какое когда-то которые который которая
+нам нами нужно особо пока просто типа чуть всякий наверное кажется вроде именно сильно пожалуйста спасибо
+`;
+
+const ENGLISH = `
+a about above after again against all am an and any are aren't as at be because been before being below between
+both but by can can't cannot could couldn't did didn't do does doesn't doing don't down during each few for from
+further had hadn't has hasn't have haven't having he her here hers herself him himself his how i i'm if in into is
+isn't it it's its itself just let's me more most much my myself no nor not nothing of off on once only or other our
+ours ourselves out over own really same she should shouldn't so some such than that that's the their theirs them
+themselves then there there's these they this those through to too under until up us very was wasn't we were
+weren't what when where which while who whom why will with won't would wouldn't you your yours yourself yourselves
+also maybe thanks thank please
+`;
+
+export const STOP_WORDS: ReadonlySet<string> = new Set(`${RUSSIAN} ${ENGLISH}`.split(/\s+/).filter(Boolean));
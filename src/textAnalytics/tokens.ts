@@ -0,0 +1,25 @@
+import { stemEnglish, stemRussian } from './stemmers';
+
+// Punctuation and dashes between spaces end a clause, so phrases never span two clauses or two answers.
+const CLAUSE_SEPARATOR = /[.,!?;:()[\]{}"«»…\n\r\t]+|\s[-–—]+\s/;
+const WORD_PATTERN = /[\p{L}\p{N}]+(?:['’-][\p{L}\p{N}]+)*/gu;
+
+/** Words of each clause of the text, lower-cased, with `ё` spelled as `е` and typographic apostrophes as `'`. */
+export function splitClauses(text: string): string[][] {
+  return text
+    .toLowerCase()
+    .replace(/ё/g, 'е')
+    .replace(/’/g, "'")
+    .split(CLAUSE_SEPARATOR)
+    .map((clause) => clause.match(WORD_PATTERN) ?? [])
+    .filter((words) => words.length > 0);
+}
+
+/** Stem of a word from `splitClauses`; words in neither Russian nor English are kept as is. */
+export function stemWord(word: string): string {
+  if (/[а-я]/.test(word)) {
+    return stemRussian(word);
+  }
+
+  return /^[a-z']+$/.test(word) ? stemEnglish(word) : word;
+}
@@ -9,27 +9,139 @@ export interface TelegramUser {
 
 export type ContributionValue = 'yes' | 'no' | 'partial';
 
-export interface SurveyAnswers {
-  projectRecommendation?: number;
-  projectImprovement?: string;
-  managerEffectiveness?: number;
-  managerImprovement?: string;
-  teamComfort?: number;
-  teamImprovement?: string;
-  processOrganization?: number;
-  processObstacles?: string;
-  contributionValued?: ContributionValue;
-  improvementIdeas?: string;
-}
-
-export interface SurveyRecord extends SurveyAnswers {
+/**
+ * `scale` is 0–10, `likert` and `mood` are 1–5; `options` picks one value, `multiselect` several, `ranking` orders
+ * all options and `matrix` picks one option (column) for each of `rows`.
+ */
+export type QuestionType = 'scale' | 'likert' | 'mood' | 'text' | 'options' | 'multiselect' | 'ranking' | 'matrix';
+
+export interface QuestionOption {
+  value: string;
+  label: string;
+}
+
+export type ConditionOperator = 'lt' | 'lte' | 'gt' | 'gte' | 'eq' | 'neq';
+
+/** Shows a question only when the answer to an earlier question `key` satisfies `operator value`. */
+export interface QuestionCondition {
+  key: string;
+  operator: ConditionOperator;
+  value: number | string;
+}
+
+/** Languages questionnaire content can be served in; question texts are stored in Russian and translated from it. */
+export type Language = 'ru' | 'en';
+
+/** Texts of a question in another language; anything left out falls back to the stored Russian text. */
+export interface QuestionTranslation {
+  title?: string;
+  shortTitle?: string;
+  description?: string;
+  placeholder?: string;
+  /** Option labels keyed by option value. */
+  options?: Record<string, string>;
+  /** Matrix row labels keyed by row value. */
+  rows?: Record<string, string>;
+}
+
+export interface QuestionDefinition {
+  id: number;
+  key: string;
+  type: QuestionType;
+  title: string;
+  shortTitle?: string;
+  description?: string;
+  placeholder?: string;
+  options?: QuestionOption[];
+  /** Statements of a `matrix` question, each answered with one of `options`. */
+  rows?: QuestionOption[];
+  showIf?: QuestionCondition;
+  translations?: Partial<Record<Language, QuestionTranslation>>;
+  required: boolean;
+  /**
+   * Whether answers may be aggregated with answers to the same key from earlier questionnaire versions.
+   * Rewording a question in a way that changes its meaning should publish it with `comparable: false`.
+   */
+  comparable: boolean;
+}
+
+export type QuestionSeed = Omit<QuestionDefinition, 'id' | 'comparable'> & { comparable?: boolean };
+
+/** An immutable version of a questionnaire; changing questions publishes a new version with the same code. */
+export interface Questionnaire {
+  id: number;
+  code: string;
+  version: number;
+  title: string;
+  createdAt: string;
+  questions: QuestionDefinition[];
+  /** Project-specific questionnaire whose questions are appended after the standard ones. */
+  extension?: { id: number; version: number };
+  /** Language the question texts were localized to; absent when the stored texts and translations are returned. */
+  language?: Language;
+}
+
+/**
+ * How a project customises the standard questionnaire: `extend` appends project questions to it,
+ * `replace` asks the project questions instead of it.
+ */
+export type ProjectQuestionnaireMode = 'extend' | 'replace';
+
+/**
+ * How long respondents may change their answers: `hours` for a fixed number of hours after submitting the
+ * survey, `week` until the end of the survey week, `never` not after submitting.
+ */
+export type EditPolicy = 'hours' | 'week' | 'never';
+
+/** Multi-select and ranking answers are lists of option values; matrix answers map row values to option values. */
+export type AnswerValue = number | string | string[] | Record<string, string>;
+
+/** Answers keyed by question key (e.g. `projectRecommendation`). */
+export type SurveyAnswers = Record<string, AnswerValue>;
+
+export interface SurveyRecord {
   id: number;
   userId: number;
   projectId: number;
   projectName: string;
+  questionnaireId: number;
+  questionnaireVersion: number;
+  extensionQuestionnaireId: number | null;
   surveyDate: string;
+  answers: SurveyAnswers;
   createdAt: string;
   updatedAt: string;
   canEdit: boolean;
-  isComplete: boolean;
+  /**
+   * End of the edit window under the project's edit policy, including any admin unlock; `null` for a draft under the
+   * `hours` policy, whose window only starts on submit.
+   */
+  editableUntil: string | null;
+  /** When the respondent submitted the survey; drafts (`null`) are left out of statistics. */
+  submittedAt: string | null;
+  /** Index of the last answered stepper step; `null` until the first autosave. */
+  lastStep: number | null;
+}
+
+/** Who changed a survey's answers. */
+export type RevisionActor = 'respondent' | 'admin';
+
+/** One answer before and after an edit; `null` means the question had no answer. */
+export interface AnswerChange {
+  key: string;
+  oldValue: AnswerValue | null;
+  newValue: AnswerValue | null;
+}
+
+/** A recorded edit of a survey's answers, kept so earlier answers can be inspected and restored. */
+export interface SurveyRevision {
+  id: number;
+  surveyId: number;
+  actor: RevisionActor;
+  /** Telegram id of the respondent; admins share one token, so their edits carry `null`. */
+  actorId: number | null;
+  createdAt: string;
+  changes: AnswerChange[];
+  /** Revision whose answers this edit restored, when it is a revert. */
+  revertedRevisionId: number | null;
 }
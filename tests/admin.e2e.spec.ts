@@ -1,12 +1,9 @@
-import fs from 'fs';
-import os from 'os';
-import path from 'path';
 import request from 'supertest';
 import type { Express } from 'express';
 
 import type { SurveyAnswers } from '../src/types';
+import { adminHeaders, removeTestDatabase, startApp, useTestDatabase } from './helpers';
 
-const adminToken = 'test-admin-token';
 const debugUser = {
   id: 999_001,
   first_name: 'Test',
@@ -24,26 +21,13 @@ describe('Admin project and survey management', () => {
   let surveyId: number;
 
   beforeAll(async () => {
-    tempDbPath = path.join(os.tmpdir(), `enps-admin-tests-${Date.now()}.sqlite`);
-
-    process.env.ALLOW_INSECURE_INIT_DATA = 'true';
-    process.env.ADMIN_TOKEN = adminToken;
-    process.env.SERVE_FRONTEND = 'false';
-    process.env.DATABASE_FILE = tempDbPath;
-    process.env.DATABASE_URL = '';
-    process.env.USE_SUPABASE_DEFAULT = 'false';
-
-    jest.resetModules();
-    const { initDB } = await import('../src/db');
-    await initDB();
-    const { createApp } = await import('../src/app');
-    app = createApp();
+    tempDbPath = useTestDatabase('admin');
+
+    app = await startApp();
   });
 
   afterAll(() => {
-    if (fs.existsSync(tempDbPath)) {
-      fs.unlinkSync(tempDbPath);
-    }
+    removeTestDatabase(tempDbPath);
   });
 
   it('creates a project as user and lists it', async () => {
@@ -97,12 +81,14 @@ describe('Admin project and survey management', () => {
       .set(debugHeaders)
       .send(completeAnswers)
       .expect(200);
+
+    await request(app).post(`/api/surveys/${surveyId}/submit`).set(debugHeaders).expect(200);
   });
 
   it('renames project via admin endpoint', async () => {
     const renameResponse = await request(app)
       .patch(`/api/admin/projects/${projectId}`)
-      .set('x-admin-token', adminToken)
+      .set(adminHeaders)
       .send({ name: 'Project Beta' })
       .expect(200);
 
@@ -112,7 +98,7 @@ describe('Admin project and survey management', () => {
   it('retrieves project responses as admin', async () => {
     const responsesResponse = await request(app)
       .get(`/api/admin/projects/${projectId}/responses`)
-      .set('x-admin-token', adminToken)
+      .set(adminHeaders)
       .expect(200);
 
     expect(responsesResponse.body.surveys).toHaveLength(1);
@@ -127,24 +113,24 @@ describe('Admin project and survey management', () => {
 
     const updateResponse = await request(app)
       .patch(`/api/admin/surveys/${surveyId}`)
-      .set('x-admin-token', adminToken)
+      .set(adminHeaders)
       .send(updates)
       .expect(200);
 
     expect(updateResponse.body.survey.id).toBe(surveyId);
-    expect(updateResponse.body.survey.projectImprovement).toBe('More workshops');
-    expect(updateResponse.body.survey.contributionValued).toBe('yes');
+    expect(updateResponse.body.survey.answers.projectImprovement).toBe('More workshops');
+    expect(updateResponse.body.survey.answers.contributionValued).toBe('yes');
   });
 
   it('deletes survey as admin', async () => {
     await request(app)
       .delete(`/api/admin/surveys/${surveyId}`)
-      .set('x-admin-token', adminToken)
+      .set(adminHeaders)
       .expect(204);
 
     const responsesAfterDelete = await request(app)
       .get(`/api/admin/projects/${projectId}/responses`)
-      .set('x-admin-token', adminToken)
+      .set(adminHeaders)
       .expect(200);
 
     expect(responsesAfterDelete.body.surveys).toHaveLength(0);
@@ -153,7 +139,7 @@ describe('Admin project and survey management', () => {
   it('deletes project as admin', async () => {
     await request(app)
       .delete(`/api/admin/projects/${projectId}`)
-      .set('x-admin-token', adminToken)
+      .set(adminHeaders)
       .expect(204);
 
     const projectsResponse = await request(app)
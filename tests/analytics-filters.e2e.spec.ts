@@ -0,0 +1,112 @@
+import request from 'supertest';
+import type { Express } from 'express';
+
+import type { SurveyAnswers } from '../src/types';
+import {
+  adminHeaders,
+  createProject,
+  fetchProject,
+  removeTestDatabase,
+  startApp,
+  submitSurvey as submitAnswers,
+  useTestDatabase,
+} from './helpers';
+
+describe('Admin analytics filters', () => {
+  let app: Express;
+  let tempDbPath: string;
+  let projectId: number;
+
+  const submitSurvey = (userId: number, surveyDate: string, answers: SurveyAnswers) =>
+    submitAnswers(
+      app,
+      userId,
+      projectId,
+      { managerEffectiveness: 7, teamComfort: 7, processOrganization: 7, ...answers },
+      surveyDate,
+    );
+
+  const projectStats = (query: string) => fetchProject(app, projectId, query);
+
+  const responseDates = async (query: string) => {
+    const response = await request(app)
+      .get(`/api/admin/projects/${projectId}/responses${query}`)
+      .set(adminHeaders)
+      .expect(200);
+    return response.body.surveys.map((survey: { surveyDate: string }) => survey.surveyDate).sort();
+  };
+
+  beforeAll(async () => {
+    tempDbPath = useTestDatabase('analytics-filters');
+
+    app = await startApp();
+
+    projectId = await createProject(app, 'Filtered project', 71);
+
+    await submitSurvey(71, '2026-01-12', { projectRecommendation: 10, contributionValued: 'yes' });
+    await submitSurvey(72, '2026-01-14', { projectRecommendation: 5, contributionValued: 'no' });
+    await submitSurvey(71, '2026-04-06', { projectRecommendation: 3, contributionValued: 'partial' });
+    await submitSurvey(72, '2026-04-08', { projectRecommendation: 8, contributionValued: 'yes' });
+  });
+
+  afterAll(() => {
+    removeTestDatabase(tempDbPath);
+  });
+
+  it('limits project statistics to a date range', async () => {
+    const stats = await projectStats('?from=2026-04-01&to=2026-06-30');
+
+    expect(stats).toMatchObject({
+      responsesCount: 2,
+      uniqueRespondents: 2,
+      averages: { projectRecommendation: 5.5 },
+      nps: { promoters: 0, passives: 1, detractors: 1 },
+    });
+    expect(await responseDates('?from=2026-04-01&to=2026-06-30')).toEqual(['2026-04-06', '2026-04-08']);
+  });
+
+  it('filters by score range, contribution and respondent', async () => {
+    const detractors = await projectStats('?scoreMax=6');
+    expect(detractors).toMatchObject({ responsesCount: 2, enps: -100 });
+    expect(await responseDates('?scoreMax=6')).toEqual(['2026-01-14', '2026-04-06']);
+
+    expect(await responseDates('?scoreMin=8&contribution=yes')).toEqual(['2026-01-12', '2026-04-08']);
+    expect(await responseDates('?respondentId=71')).toEqual(['2026-01-12', '2026-04-06']);
+
+    const unmatched = await projectStats('?respondentId=999');
+    expect(unmatched).toMatchObject({ responsesCount: 0, enps: null, averages: { projectRecommendation: null } });
+  });
+
+  it('applies the filter to the trends and the portfolio', async () => {
+    const trends = await request(app)
+      .get(`/api/admin/projects/${projectId}/trends?granularity=month&respondentId=72`)
+      .set(adminHeaders)
+      .expect(200);
+    expect(trends.body.periods).toEqual([
+      expect.objectContaining({ periodStart: '2026-01-01', responsesCount: 1, enps: -100 }),
+      expect.objectContaining({ periodStart: '2026-04-01', responsesCount: 1, enps: 0 }),
+    ]);
+
+    const portfolio = await request(app)
+      .get('/api/admin/portfolio?scoreMin=9')
+      .set(adminHeaders)
+      .expect(200);
+    expect(portfolio.body.portfolio).toMatchObject({ responsesCount: 1, enps: 100 });
+  });
+
+  it('rejects invalid filters', async () => {
+    const invalidQueries = ['?from=yesterday', '?scoreMin=11', '?scoreMin=8&scoreMax=3', '?from=2026-05-01&to=2026-04-01'];
+    for (const query of invalidQueries) {
+      const response = await request(app)
+        .get(`/api/admin/projects${query}`)
+        .set(adminHeaders)
+        .expect(400);
+      expect(response.body.error).toBe('Invalid filter');
+    }
+
+    await request(app)
+      .get(`/api/admin/projects/${projectId}/responses?contribution=maybe`)
+      .set(adminHeaders)
+      .expect(400);
+  });
+});
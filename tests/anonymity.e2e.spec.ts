@@ -0,0 +1,221 @@
+import request from 'supertest';
+import type { Express } from 'express';
+
+import {
+  adminHeaders,
+  createProject,
+  daysAgo,
+  fetchProject,
+  headersFor,
+  removeTestDatabase,
+  startApp,
+  submitSurvey as submitAnswers,
+  useTestDatabase,
+} from './helpers';
+
+describe('Anonymous mode', () => {
+  let app: Express;
+  let tempDbPath: string;
+  let siriusId: number;
+  let rigelId: number;
+  let surveyId: number;
+  let detection: jest.SpyInstance;
+
+  const submitSurvey = async (userId: number, projectId: number, surveyDate: string, projectRecommendation: number) => {
+    surveyId = await submitAnswers(
+      app,
+      userId,
+      projectId,
+      {
+        projectRecommendation,
+        managerEffectiveness: 7,
+        teamComfort: 7,
+        processOrganization: 7,
+        contributionValued: 'yes',
+        projectImprovement: 'Больше код-ревью',
+      },
+      surveyDate,
+    );
+    // Alerts are detected after the response has been sent.
+    await detection.mock.results[detection.mock.results.length - 1]?.value;
+  };
+
+  beforeAll(async () => {
+    tempDbPath = useTestDatabase('anonymity');
+    process.env.ANONYMOUS_MODE = 'true';
+    process.env.ANONYMITY_THRESHOLD = '3';
+
+    app = await startApp();
+    detection = jest.spyOn(await import('../src/alerts'), 'detectProjectAlerts');
+
+    siriusId = await createProject(app, 'Sirius', 1100);
+    rigelId = await createProject(app, 'Rigel', 1100);
+
+    // Three employees answer in Sirius the first week and one of them again the next; Rigel has only two.
+    await submitSurvey(1101, siriusId, '2026-03-02', 10);
+    await submitSurvey(1102, siriusId, '2026-03-03', 9);
+    await submitSurvey(1103, siriusId, '2026-03-04', 5);
+    await submitSurvey(1101, siriusId, '2026-03-10', 2);
+    await submitSurvey(1104, rigelId, '2026-03-03', 10);
+    await submitSurvey(1105, rigelId, '2026-03-03', 3);
+  });
+
+  afterAll(() => {
+    delete process.env.ANONYMOUS_MODE;
+    delete process.env.ANONYMITY_THRESHOLD;
+    removeTestDatabase(tempDbPath);
+  });
+
+  it('suppresses statistics that fewer respondents than the threshold stand behind', async () => {
+    const settings = await request(app).get('/api/admin/anonymity').set(adminHeaders).expect(200);
+    expect(settings.body.anonymity).toEqual({ enabled: true, minRespondents: 3 });
+
+    expect(await fetchProject(app, siriusId)).toMatchObject({
+      responsesCount: 4,
+      uniqueRespondents: 3,
+      enps: 0,
+      lastResponseAt: null,
+    });
+    const rigel = await fetchProject(app, rigelId);
+    expect(rigel).toMatchObject({
+      responsesCount: 2,
+      uniqueRespondents: 2,
+      enps: null,
+      lastResponseAt: null,
+      suppressed: true,
+    });
+    // Creating a project under a taken name returns the existing one, as suppressed as in the list.
+    const reposted = await request(app)
+      .post('/api/admin/projects')
+      .set(adminHeaders)
+      .send({ name: 'Rigel' })
+      .expect(201);
+    expect(reposted.body.project).toEqual(rigel);
+    const publicProjects = await request(app).get('/api/projects').set(headersFor(1101)).expect(200);
+    expect(publicProjects.body.projects.map((project: { lastResponseAt: string | null }) => project.lastResponseAt))
+      .toEqual([null, null]);
+    const employeeRepost = await request(app)
+      .post('/api/projects')
+      .set(headersFor(1101))
+      .send({ name: 'Rigel' })
+      .expect(201);
+    const policy = await request(app)
+      .put(`/api/admin/projects/${rigelId}/edit-policy`)
+      .set(adminHeaders)
+      .send({ policy: 'hours', hours: 24 })
+      .expect(200);
+    const manager = await request(app)
+      .put(`/api/admin/projects/${rigelId}/manager`)
+      .set(adminHeaders)
+      .send({ managerId: null })
+      .expect(200);
+    for (const { body } of [employeeRepost, policy, manager]) {
+      expect(body.project).toMatchObject({ id: rigelId, responsesCount: 2, lastResponseAt: null });
+    }
+    expect(rigel.averages.projectRecommendation).toBeNull();
+    expect(rigel.sentiment.responsesCount).toBe(0);
+
+    const trends = await request(app).get(`/api/admin/projects/${siriusId}/trends`).set(adminHeaders).expect(200);
+    const [first, second] = trends.body.periods;
+    expect(first).toMatchObject({ periodStart: '2026-03-02', uniqueRespondents: 3, enps: 33 });
+    expect(first.suppressed).toBeUndefined();
+    expect(second).toMatchObject({ periodStart: '2026-03-09', responsesCount: 1, enps: null, suppressed: true });
+    expect(second.change.enps).toMatchObject({ current: null, previous: 33, delta: null });
+
+    const heatmap = await request(app).get('/api/admin/contribution-heatmap').set(adminHeaders).expect(200);
+    const [rigelRow, siriusRow] = heatmap.body.heatmap.projects;
+    expect(siriusRow.cells[0]).toMatchObject({ respondentsCount: 3, shares: { yes: 1, partial: 0, no: 0 } });
+    expect(siriusRow.cells[1]).toMatchObject({ respondentsCount: 1, shares: null, suppressed: true });
+    expect(rigelRow.cells[0]).toMatchObject({ counts: { yes: 0, partial: 0, no: 0 }, suppressed: true });
+
+    const drivers = await request(app).get('/api/admin/drivers').set(adminHeaders).expect(200);
+    expect(drivers.body.portfolio.suppressed).toBeUndefined();
+    const rigelDrivers = drivers.body.projects.find((project: { projectId: number }) => project.projectId === rigelId);
+    expect(rigelDrivers).toMatchObject({ responsesCount: 2, keyDriver: null, suppressed: true });
+
+    const portfolio = await request(app).get('/api/admin/portfolio').set(adminHeaders).expect(200);
+    expect(portfolio.body.portfolio).toMatchObject({ uniqueRespondents: 5, projectsCount: 2 });
+    expect(portfolio.body.portfolio.healthBands.noData).toBe(1);
+  });
+
+  it('lists answers without identities, dates or survey ids', async () => {
+    const sirius = await request(app).get(`/api/admin/projects/${siriusId}/responses`).set(adminHeaders).expect(200);
+    expect(sirius.body).toMatchObject({ anonymous: true, suppressed: false });
+    expect(sirius.body.surveys).toBeUndefined();
+    expect(sirius.body.responses).toHaveLength(4);
+    expect(Object.keys(sirius.body.responses[0]).sort()).toEqual([
+      'answerSentiments',
+      'answers',
+      'extensionQuestionnaireId',
+      'projectId',
+      'questionnaireId',
+      'questionnaireVersion',
+      'sentiment',
+    ]);
+    const scores = sirius.body.responses.map(
+      (response: { answers: { projectRecommendation: number } }) => response.answers.projectRecommendation,
+    );
+    expect(scores.sort((left: number, right: number) => left - right)).toEqual([2, 5, 9, 10]);
+
+    // Equal sentiments would otherwise come newest first, 2 being the latest score; with `random()` pinned to 0 the
+    // shuffle turns the newest-first [2, 5, 9, 10] into [5, 9, 10, 2].
+    const random = jest.spyOn(Math, 'random').mockReturnValue(0);
+    const bySentiment = await request(app)
+      .get(`/api/admin/projects/${siriusId}/responses?sort=sentiment`)
+      .set(adminHeaders)
+      .expect(200);
+    random.mockRestore();
+    expect(
+      bySentiment.body.responses.map(
+        (response: { answers: { projectRecommendation: number } }) => response.answers.projectRecommendation,
+      ),
+    ).toEqual([5, 9, 10, 2]);
+
+    const rigel = await request(app).get(`/api/admin/projects/${rigelId}/responses`).set(adminHeaders).expect(200);
+    expect(rigel.body).toEqual({ anonymous: true, suppressed: true, responses: [] });
+
+    const keywords = await request(app).get(`/api/admin/projects/${rigelId}/keywords`).set(adminHeaders).expect(200);
+    expect(keywords.body.analytics).toMatchObject({ responsesCount: 0, keywords: [], suppressed: true });
+    const siriusKeywords = await request(app)
+      .get(`/api/admin/projects/${siriusId}/keywords`)
+      .set(adminHeaders)
+      .expect(200);
+    expect(siriusKeywords.body.analytics.responsesCount).toBe(4);
+    expect(siriusKeywords.body.analytics.keywords[0]).toMatchObject({ surveysCount: 4, surveyIds: [] });
+  });
+
+  it('hides alerts whose windows too few respondents answered in', async () => {
+    // Both projects drop from eNPS 100 to -100, but in Canopus all the recent answers come from one employee.
+    const canopusId = await createProject(app, 'Canopus', 1100);
+    const denebId = await createProject(app, 'Deneb', 1100);
+    for (const [projectId, firstUserId] of [
+      [canopusId, 1110],
+      [denebId, 1120],
+    ] as const) {
+      for (let offset = 0; offset < 3; offset += 1) {
+        await submitSurvey(firstUserId + offset, projectId, daysAgo(30), 10);
+      }
+    }
+    for (let offset = 0; offset < 3; offset += 1) {
+      await submitSurvey(1113, canopusId, daysAgo(offset + 1), 0);
+      await submitSurvey(1123 + offset, denebId, daysAgo(1), 0);
+    }
+
+    const response = await request(app).get('/api/admin/alerts').set(adminHeaders).expect(200);
+    expect(response.body.alerts).toEqual([expect.objectContaining({ projectId: denebId, metric: 'enps' })]);
+    // The Canopus alert was raised first and cannot be reached by its id either.
+    const hiddenId = response.body.alerts[0].id - 1;
+    await request(app).post(`/api/admin/alerts/${hiddenId}/acknowledge`).set(adminHeaders).expect(404);
+  });
+
+  it('refuses requests that single out a respondent', async () => {
+    await request(app).get('/api/admin/projects?respondentId=1101').set(adminHeaders).expect(403);
+    await request(app).get(`/api/admin/surveys/${surveyId}/revisions`).set(adminHeaders).expect(403);
+    await request(app)
+      .patch(`/api/admin/surveys/${surveyId}`)
+      .set(adminHeaders)
+      .send({ projectRecommendation: 8 })
+      .expect(403);
+    await request(app).get('/api/admin/anonymity').expect(401);
+  });
+});
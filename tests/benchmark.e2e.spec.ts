@@ -0,0 +1,104 @@
+import request from 'supertest';
+import type { Express } from 'express';
+import { benchmarkDistribution } from '../src/db/benchmark';
+import {
+  adminHeaders,
+  createProject,
+  fetchAdmin,
+  removeTestDatabase,
+  startApp,
+  submitSurvey as submitAnswers,
+  useTestDatabase,
+} from './helpers';
+
+describe('Project benchmark', () => {
+  let app: Express;
+  let tempDbPath: string;
+  let nextUserId = 701;
+  const projectIds: Record<string, number> = {};
+
+  const submitSurvey = (projectId: number, surveyDate: string, score: number) =>
+    submitAnswers(
+      app,
+      nextUserId++,
+      projectId,
+      {
+        projectRecommendation: score,
+        managerEffectiveness: 7,
+        teamComfort: 7,
+        processOrganization: 7,
+        contributionValued: 'yes',
+      },
+      surveyDate,
+    );
+
+  const fetchBenchmark = async (query = '') => (await fetchAdmin(app, `/benchmark${query}`)).benchmark;
+
+  beforeAll(async () => {
+    tempDbPath = useTestDatabase('benchmark');
+
+    app = await startApp();
+
+    const scores: Record<string, number> = { Alpha: 10, Bravo: 9, Charlie: 8, Delta: 7, Echo: 0, Foxtrot: -1 };
+    for (const [name, score] of Object.entries(scores)) {
+      projectIds[name] = await createProject(app, name, 700);
+      if (score >= 0) {
+        await submitSurvey(projectIds[name]!, name === 'Echo' ? '2026-06-01' : '2026-05-04', score);
+      }
+    }
+  });
+
+  afterAll(() => {
+    removeTestDatabase(tempDbPath);
+  });
+
+  it('interpolates quartiles between neighbouring values', () => {
+    expect(benchmarkDistribution([5, 1, 4, 2, 3])).toEqual({
+      projectsCount: 5,
+      min: 1,
+      q1: 2,
+      median: 3,
+      q3: 4,
+      max: 5,
+    });
+    expect(benchmarkDistribution([1, 2])).toMatchObject({ q1: 1.25, median: 1.5, q3: 1.75 });
+    expect(benchmarkDistribution([])).toBeNull();
+  });
+
+  it('ranks projects and places them within the portfolio quartiles', async () => {
+    const benchmark = await fetchBenchmark();
+
+    expect(benchmark.distributions.enps).toEqual({ projectsCount: 5, min: -100, q1: 0, median: 0, q3: 100, max: 100 });
+    expect(benchmark.distributions.projectRecommendation).toMatchObject({ q1: 7, median: 8, q3: 9 });
+
+    const names = benchmark.projects.map((project: { projectName: string }) => project.projectName);
+    expect(names).toEqual(['Alpha', 'Bravo', 'Charlie', 'Delta', 'Echo', 'Foxtrot']);
+
+    const byName = (name: string) =>
+      benchmark.projects.find((project: { projectId: number }) => project.projectId === projectIds[name]);
+    expect(byName('Alpha').positions.enps).toEqual({
+      value: 100,
+      rank: 1,
+      quartile: 'top',
+      outlier: null,
+      lowSample: true,
+    });
+    expect(byName('Bravo').positions.enps.rank).toBe(1);
+    expect(byName('Charlie').positions.enps).toMatchObject({ rank: 3, quartile: 'upperMiddle' });
+    expect(byName('Echo').positions.enps).toMatchObject({ rank: 5, quartile: 'bottom', outlier: null });
+    expect(byName('Echo').positions.projectRecommendation).toMatchObject({ value: 0, rank: 5, outlier: 'low' });
+    expect(byName('Delta').positions.projectRecommendation.quartile).toBe('bottom');
+    expect(byName('Foxtrot')).toMatchObject({
+      responsesCount: 0,
+      positions: { enps: { value: null, rank: null, quartile: null, outlier: null } },
+    });
+  });
+
+  it('follows the analytics filter', async () => {
+    const june = await fetchBenchmark('?from=2026-06-01');
+    expect(june.distributions.enps).toMatchObject({ projectsCount: 1, median: -100 });
+    expect(june.projects[0].projectName).toBe('Echo');
+
+    await request(app).get('/api/admin/benchmark?scoreMin=11').set(adminHeaders).expect(400);
+  });
+});
@@ -0,0 +1,103 @@
+import request from 'supertest';
+import type { Express } from 'express';
+import { buildContributionHeatmap } from '../src/db/contributionHeatmap';
+import {
+  adminHeaders,
+  createProject,
+  fetchAdmin,
+  removeTestDatabase,
+  startApp,
+  submitSurvey as submitAnswers,
+  useTestDatabase,
+} from './helpers';
+
+describe('Contribution heatmap', () => {
+  let app: Express;
+  let tempDbPath: string;
+  let nextUserId = 1001;
+  const projectIds: Record<string, number> = {};
+
+  const submitSurvey = (projectId: number, surveyDate: string, contributionValued: string) =>
+    submitAnswers(
+      app,
+      nextUserId++,
+      projectId,
+      {
+        projectRecommendation: 8,
+        managerEffectiveness: 7,
+        teamComfort: 7,
+        processOrganization: 7,
+        contributionValued,
+      },
+      surveyDate,
+    );
+
+  const fetchHeatmap = async (query = '') => (await fetchAdmin(app, `/contribution-heatmap${query}`)).heatmap;
+
+  beforeAll(async () => {
+    tempDbPath = useTestDatabase('contribution-heatmap');
+
+    app = await startApp();
+
+    for (const name of ['Vega', 'Altair', 'Deneb']) {
+      projectIds[name] = await createProject(app, name, 1000);
+    }
+
+    // Altair loses its sense of being valued from the week of 2026-02-16; Vega skips a week.
+    await submitSurvey(projectIds.Altair!, '2026-02-02', 'yes');
+    await submitSurvey(projectIds.Altair!, '2026-02-04', 'yes');
+    await submitSurvey(projectIds.Altair!, '2026-02-10', 'partial');
+    await submitSurvey(projectIds.Altair!, '2026-02-10', 'yes');
+    await submitSurvey(projectIds.Altair!, '2026-02-17', 'no');
+    await submitSurvey(projectIds.Altair!, '2026-02-22', 'partial');
+    await submitSurvey(projectIds.Vega!, '2026-02-03', 'yes');
+    await submitSurvey(projectIds.Vega!, '2026-02-18', 'yes');
+  });
+
+  afterAll(() => {
+    removeTestDatabase(tempDbPath);
+  });
+
+  it('lays out weekly answer shares per project without gaps between weeks', async () => {
+    const heatmap = await fetchHeatmap();
+
+    expect(heatmap.weeks).toEqual(['2026-02-02', '2026-02-09', '2026-02-16']);
+    expect(heatmap.projects.map((project: { projectName: string }) => project.projectName)).toEqual([
+      'Altair',
+      'Vega',
+    ]);
+
+    const [altair, vega] = heatmap.projects;
+    expect(altair.projectId).toBe(projectIds.Altair);
+    expect(altair.cells[0]).toEqual({
+      weekStart: '2026-02-02',
+      responsesCount: 2,
+      respondentsCount: 2,
+      counts: { yes: 2, partial: 0, no: 0 },
+      shares: { yes: 1, partial: 0, no: 0 },
+      lowSample: true,
+    });
+    expect(altair.cells[1].shares).toEqual({ yes: 0.5, partial: 0.5, no: 0 });
+    expect(altair.cells[2].shares).toEqual({ yes: 0, partial: 0.5, no: 0.5 });
+    expect(vega.cells[1]).toMatchObject({ weekStart: '2026-02-09', responsesCount: 0, shares: null });
+
+    // Score filters read the surveys instead of the daily sums and must agree with them.
+    expect(await fetchHeatmap('?scoreMin=0')).toEqual(heatmap);
+  });
+
+  it('follows the analytics filter', async () => {
+    const late = await fetchHeatmap('?from=2026-02-15');
+    expect(late.weeks).toEqual(['2026-02-16']);
+    expect(late.projects[0].cells[0].counts).toEqual({ yes: 0, partial: 1, no: 1 });
+
+    const valued = await fetchHeatmap('?contribution=yes');
+    expect(valued.projects[0].cells.map((cell: { counts: { yes: number } }) => cell.counts.yes)).toEqual([2, 1, 0]);
+
+    expect(buildContributionHeatmap([])).toEqual({ weeks: [], projects: [] });
+    await request(app)
+      .get('/api/admin/contribution-heatmap?from=yesterday')
+      .set(adminHeaders)
+      .expect(400);
+    await request(app).get('/api/admin/contribution-heatmap').expect(401);
+  });
+});
@@ -0,0 +1,139 @@
+import Database from 'better-sqlite3';
+import request from 'supertest';
+import type { Express } from 'express';
+
+import {
+  adminHeaders,
+  createProject,
+  fetchProject as fetchProjectStats,
+  headersFor,
+  removeTestDatabase,
+  startApp,
+  startSurvey as startAnswers,
+  useTestDatabase,
+} from './helpers';
+
+describe('Precomputed project statistics', () => {
+  let app: Express;
+  let tempDbPath: string;
+  let projectId: number;
+
+  const startSurvey = (userId: number, surveyDate: string, projectRecommendation: number) =>
+    startAnswers(
+      app,
+      userId,
+      projectId,
+      {
+        projectRecommendation,
+        managerEffectiveness: 6,
+        teamComfort: 7,
+        processOrganization: 8,
+        contributionValued: 'yes',
+        projectImprovement: 'Отличная команда',
+      },
+      surveyDate,
+    );
+
+  const submitSurvey = async (userId: number, surveyDate: string, projectRecommendation: number) => {
+    const surveyId = await startSurvey(userId, surveyDate, projectRecommendation);
+    await request(app).post(`/api/surveys/${surveyId}/submit`).set(headersFor(userId)).expect(200);
+    return surveyId;
+  };
+
+  const fetchProject = (query = '') => fetchProjectStats(app, projectId, query);
+
+  beforeAll(async () => {
+    tempDbPath = useTestDatabase('daily-stats');
+
+    app = await startApp();
+
+    projectId = await createProject(app, 'Orion', 900);
+  });
+
+  afterAll(() => {
+    removeTestDatabase(tempDbPath);
+  });
+
+  it('keeps project statistics current as surveys are submitted, edited and deleted', async () => {
+    await submitSurvey(901, '2026-03-02', 10);
+    const editedId = await submitSurvey(902, '2026-03-02', 4);
+    await submitSurvey(903, '2026-03-09', 9);
+    await startSurvey(904, '2026-03-09', 0);
+
+    const stats = await fetchProject();
+    expect(stats).toMatchObject({
+      responsesCount: 3,
+      uniqueRespondents: 3,
+      enps: 33,
+      nps: { promoters: 2, passives: 0, detractors: 1 },
+      contributionBreakdown: { yes: 3, partial: 0, no: 0 },
+    });
+    expect(stats.averages.projectRecommendation).toBeCloseTo(23 / 3);
+    expect(stats.sentiment.responsesCount).toBe(3);
+    // A score filter reads every survey instead of the daily sums and must agree with them.
+    expect(await fetchProject('?scoreMin=0')).toEqual(stats);
+
+    await request(app)
+      .patch(`/api/admin/surveys/${editedId}`)
+      .set(adminHeaders)
+      .send({ projectRecommendation: 8 })
+      .expect(200);
+    expect(await fetchProject()).toMatchObject({ enps: 67, nps: { promoters: 2, passives: 1, detractors: 0 } });
+
+    const march2 = await fetchProject('?to=2026-03-08');
+    expect(march2).toMatchObject({ responsesCount: 2, uniqueRespondents: 2, enps: 50 });
+    expect(await fetchProject('?to=2026-03-08&scoreMin=0')).toEqual(march2);
+
+    await request(app).delete(`/api/admin/surveys/${editedId}`).set(adminHeaders).expect(204);
+    expect(await fetchProject()).toMatchObject({ responsesCount: 2, enps: 100 });
+
+    const portfolio = await request(app).get('/api/admin/portfolio').set(adminHeaders).expect(200);
+    expect(portfolio.body.portfolio).toMatchObject({ responsesCount: 2, uniqueRespondents: 2, enps: 100 });
+  });
+
+  it('returns the statistics of a project created or renamed by an admin', async () => {
+    const created = await request(app).post('/api/admin/projects').set(adminHeaders).send({ name: 'Lyra' }).expect(201);
+    expect(created.body.project).toMatchObject({ name: 'Lyra', responsesCount: 0, enps: null });
+
+    const renamed = await request(app)
+      .patch(`/api/admin/projects/${projectId}`)
+      .set(adminHeaders)
+      .send({ name: 'Orion 2' })
+      .expect(200);
+    expect(renamed.body.project).toMatchObject({ id: projectId, name: 'Orion 2', responsesCount: 2, enps: 100 });
+  });
+
+  it('rebuilds missing statistics from the stored surveys on start', async () => {
+    const before = await fetchProject();
+
+    const db = new Database(tempDbPath);
+    db.prepare('DELETE FROM project_daily_stats').run();
+    db.close();
+    app = await startApp();
+
+    expect(await fetchProject()).toEqual(before);
+  });
+
+  it('recomputes the statistics of a project whenever its questionnaire changes', async () => {
+    const { responsesCount, enps, nps } = await fetchProject();
+    // Stale statistics would survive a change that did not rebuild them.
+    const dropDailyStats = () => {
+      const db = new Database(tempDbPath);
+      db.prepare('DELETE FROM project_daily_stats WHERE project_id = ?').run(projectId);
+      db.close();
+    };
+
+    dropDailyStats();
+    expect(await fetchProject()).toMatchObject({ responsesCount: 0 });
+    await request(app)
+      .put(`/api/admin/projects/${projectId}/questionnaire`)
+      .set(adminHeaders)
+      .send({ mode: 'replace', questions: [{ key: 'onCallLoad', type: 'scale', title: 'Нагрузка на дежурствах' }] })
+      .expect(200);
+    expect(await fetchProject()).toMatchObject({ questionnaireMode: 'replace', responsesCount, enps, nps });
+
+    dropDailyStats();
+    await request(app).delete(`/api/admin/projects/${projectId}/questionnaire`).set(adminHeaders).expect(200);
+    expect(await fetchProject()).toMatchObject({ questionnaireMode: null, responsesCount, enps, nps });
+  });
+});
@@ -0,0 +1,124 @@
+import request from 'supertest';
+import type { Express } from 'express';
+import { analyzeDrivers } from '../src/db/drivers';
+import {
+  adminHeaders,
+  createProject,
+  fetchAdmin,
+  removeTestDatabase,
+  startApp,
+  submitSurvey as submitAnswers,
+  useTestDatabase,
+} from './helpers';
+
+type Answers = {
+  projectRecommendation: number;
+  managerEffectiveness: number;
+  teamComfort: number;
+  processOrganization: number;
+  contributionValued: 'yes' | 'partial' | 'no';
+};
+
+describe('Driver analysis', () => {
+  let app: Express;
+  let tempDbPath: string;
+  let nextUserId = 601;
+
+  const submitSurvey = (projectId: number, surveyDate: string, answers: Answers) =>
+    submitAnswers(app, nextUserId++, projectId, answers, surveyDate);
+
+  const fetchDrivers = (query = '') => fetchAdmin(app, `/drivers${query}`);
+
+  beforeAll(async () => {
+    tempDbPath = useTestDatabase('drivers');
+
+    app = await startApp();
+  });
+
+  afterAll(() => {
+    removeTestDatabase(tempDbPath);
+  });
+
+  it('relates the recommendation to each dimension and names the key driver', () => {
+    const samples = [2, 3, 4, 5, 6, 7, 8, 9, 10, 10].map((score, index) => ({
+      projectId: 1,
+      projectRecommendation: score,
+      teamComfort: score,
+      managerEffectiveness: index % 2 === 0 ? 4 : 8,
+      processOrganization: 7,
+      contributionValued: null,
+    }));
+
+    const analysis = analyzeDrivers(samples);
+    expect(analysis.responsesCount).toBe(10);
+    expect(analysis.keyDriver).toBe('teamComfort');
+    expect(analysis.drivers[0]).toMatchObject({ key: 'teamComfort', sampleSize: 10, significant: true });
+    expect(analysis.drivers[0]!.correlation).toBeCloseTo(1);
+    expect(analysis.drivers[0]!.slope).toBeCloseTo(1);
+
+    // Constant answers and missing answers cannot be correlated and come last.
+    expect(analysis.drivers.slice(2)).toEqual([
+      { key: 'processOrganization', sampleSize: 10, correlation: null, slope: null, significant: false },
+      { key: 'contributionValued', sampleSize: 0, correlation: null, slope: null, significant: false },
+    ]);
+  });
+
+  it('does not name a key driver from too few answers', () => {
+    const samples = [3, 9, 5].map((score) => ({
+      projectId: 1,
+      projectRecommendation: score,
+      teamComfort: score,
+      managerEffectiveness: score,
+      processOrganization: score,
+      contributionValued: 'yes' as const,
+    }));
+
+    const analysis = analyzeDrivers(samples);
+    expect(analysis.keyDriver).toBeNull();
+    expect(analysis.drivers.every((driver) => !driver.significant)).toBe(true);
+  });
+
+  it('analyses drivers per project and portfolio-wide', async () => {
+    const stableId = await createProject(app, 'Stable', 600);
+    const smallId = await createProject(app, 'Small', 600);
+
+    for (let index = 0; index < 10; index += 1) {
+      const score = 1 + index;
+      await submitSurvey(stableId, '2026-05-04', {
+        projectRecommendation: score,
+        managerEffectiveness: 6,
+        teamComfort: 8,
+        processOrganization: score,
+        contributionValued: score >= 6 ? 'yes' : 'no',
+      });
+    }
+    await submitSurvey(smallId, '2026-06-01', {
+      projectRecommendation: 9,
+      managerEffectiveness: 9,
+      teamComfort: 9,
+      processOrganization: 9,
+      contributionValued: 'yes',
+    });
+
+    const { portfolio, projects } = await fetchDrivers();
+    expect(portfolio.responsesCount).toBe(11);
+    expect(portfolio.keyDriver).toBe('processOrganization');
+
+    const stable = projects.find((project: { projectId: number }) => project.projectId === stableId);
+    expect(stable).toMatchObject({ projectName: 'Stable', responsesCount: 10, keyDriver: 'processOrganization' });
+    expect(stable.drivers.map((driver: { key: string }) => driver.key)).toEqual([
+      'processOrganization',
+      'contributionValued',
+      'managerEffectiveness',
+      'teamComfort',
+    ]);
+
+    const small = projects.find((project: { projectId: number }) => project.projectId === smallId);
+    expect(small).toMatchObject({ responsesCount: 1, keyDriver: null });
+
+    const june = await fetchDrivers('?from=2026-06-01');
+    expect(june.portfolio).toMatchObject({ responsesCount: 1, keyDriver: null });
+
+    await request(app).get('/api/admin/drivers?from=june').set(adminHeaders).expect(400);
+  });
+});
@@ -0,0 +1,155 @@
+import Database from 'better-sqlite3';
+import request from 'supertest';
+import type { Express } from 'express';
+
+import { adminHeaders, headersFor, removeTestDatabase, startApp, useTestDatabase } from './helpers';
+
+const debugHeaders = headersFor(21, 'Editor');
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('Edit policy', () => {
+  let app: Express;
+  let tempDbPath: string;
+  let projectId: number;
+  let surveyId: number;
+
+  beforeAll(async () => {
+    tempDbPath = useTestDatabase('edit-policy');
+
+    app = await startApp();
+
+    const projectResponse = await request(app)
+      .post('/api/projects')
+      .set(debugHeaders)
+      .send({ name: 'Policy project' })
+      .expect(201);
+    projectId = projectResponse.body.project.id;
+    expect(projectResponse.body.project.editPolicy).toBe('hours');
+    expect(projectResponse.body.project.editWindowHours).toBe(24);
+  });
+
+  afterAll(() => {
+    removeTestDatabase(tempDbPath);
+  });
+
+  it('starts the default 24-hour window on submit', async () => {
+    const created = await request(app).post('/api/surveys').set(debugHeaders).send({ projectId }).expect(201);
+    surveyId = created.body.record.id;
+    expect(created.body.record).toMatchObject({ canEdit: true, editableUntil: null });
+
+    // A draft started days ago can still be finished, and its window opens only then.
+    const lateHeaders = { 'x-debug-user': JSON.stringify({ id: 22, first_name: 'Latecomer' }) };
+    const draft = await request(app).post('/api/surveys').set(lateHeaders).send({ projectId }).expect(201);
+    const db = new Database(tempDbPath);
+    db.prepare('UPDATE surveys SET created_at = ? WHERE id = ?').run(
+      new Date(Date.now() - 48 * HOUR_MS).toISOString(),
+      draft.body.record.id,
+    );
+    db.close();
+
+    await request(app)
+      .patch(`/api/surveys/${draft.body.record.id}`)
+      .set(lateHeaders)
+      .send({
+        projectRecommendation: 8,
+        managerEffectiveness: 9,
+        teamComfort: 7,
+        processOrganization: 9,
+        contributionValued: 'yes',
+      })
+      .expect(200);
+    const submitted = await request(app)
+      .post(`/api/surveys/${draft.body.record.id}/submit`)
+      .set(lateHeaders)
+      .expect(200);
+
+    const { submittedAt, editableUntil, canEdit } = submitted.body.survey;
+    expect(canEdit).toBe(true);
+    expect(new Date(editableUntil).getTime() - new Date(submittedAt).getTime()).toBe(24 * HOUR_MS);
+  });
+
+  it('validates edit policy updates', async () => {
+    await request(app)
+      .put(`/api/admin/projects/${projectId}/edit-policy`)
+      .set(adminHeaders)
+      .send({ policy: 'hours', hours: 0 })
+      .expect(400);
+
+    await request(app)
+      .put('/api/admin/projects/999999/edit-policy')
+      .set(adminHeaders)
+      .send({ policy: 'week' })
+      .expect(404);
+  });
+
+  it('keeps surveys editable until the end of the survey week', async () => {
+    const response = await request(app)
+      .put(`/api/admin/projects/${projectId}/edit-policy`)
+      .set(adminHeaders)
+      .send({ policy: 'week' })
+      .expect(200);
+    expect(response.body.project.editPolicy).toBe('week');
+
+    const survey = await request(app).get(`/api/surveys/${surveyId}`).set(debugHeaders).expect(200);
+    const deadline = new Date(survey.body.survey.editableUntil);
+    const surveyDay = new Date(survey.body.survey.surveyDate);
+
+    expect(deadline.getUTCDay()).toBe(1);
+    expect(deadline.getUTCHours()).toBe(0);
+    expect(deadline.getTime() - surveyDay.getTime()).toBeGreaterThan(0);
+    expect(deadline.getTime() - surveyDay.getTime()).toBeLessThanOrEqual(7 * 24 * HOUR_MS);
+  });
+
+  it('locks submitted surveys when edits are not allowed', async () => {
+    await request(app)
+      .put(`/api/admin/projects/${projectId}/edit-policy`)
+      .set(adminHeaders)
+      .send({ policy: 'never' })
+      .expect(200);
+
+    const draft = await request(app)
+      .patch(`/api/surveys/${surveyId}`)
+      .set(debugHeaders)
+      .send({
+        projectRecommendation: 8,
+        managerEffectiveness: 9,
+        teamComfort: 7,
+        processOrganization: 9,
+        contributionValued: 'yes',
+      })
+      .expect(200);
+    expect(draft.body.survey.canEdit).toBe(true);
+
+    const submitted = await request(app).post(`/api/surveys/${surveyId}/submit`).set(debugHeaders).expect(200);
+    expect(submitted.body.survey.canEdit).toBe(false);
+    expect(submitted.body.survey.editableUntil).toBe(submitted.body.survey.submittedAt);
+
+    const rejected = await request(app)
+      .patch(`/api/surveys/${surveyId}`)
+      .set(debugHeaders)
+      .send({ teamComfort: 3 })
+      .expect(400);
+    expect(rejected.body.error).toBe('Survey can no longer be edited');
+  });
+
+  it('lets an admin unlock a survey for its respondent', async () => {
+    const before = Date.now();
+    const unlocked = await request(app)
+      .post(`/api/admin/surveys/${surveyId}/unlock`)
+      .set(adminHeaders)
+      .send({ hours: 2 })
+      .expect(200);
+
+    expect(unlocked.body.survey.canEdit).toBe(true);
+    expect(new Date(unlocked.body.survey.editableUntil).getTime()).toBeGreaterThanOrEqual(before + 2 * HOUR_MS);
+
+    const updated = await request(app)
+      .patch(`/api/surveys/${surveyId}`)
+      .set(debugHeaders)
+      .send({ teamComfort: 3 })
+      .expect(200);
+    expect(updated.body.survey.answers.teamComfort).toBe(3);
+
+    await request(app).post('/api/admin/surveys/999999/unlock').set(adminHeaders).expect(404);
+  });
+});
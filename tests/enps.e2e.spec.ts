@@ -0,0 +1,84 @@
+import request from 'supertest';
+import type { Express } from 'express';
+
+import {
+  adminHeaders,
+  createProject,
+  fetchAdmin,
+  removeTestDatabase,
+  startApp,
+  submitSurvey as submitAnswers,
+  useTestDatabase,
+} from './helpers';
+
+describe('eNPS statistics', () => {
+  let app: Express;
+  let tempDbPath: string;
+  let alphaId: number;
+  let betaId: number;
+
+  const submitSurvey = (userId: number, projectId: number, projectRecommendation: number) =>
+    submitAnswers(app, userId, projectId, {
+      projectRecommendation,
+      managerEffectiveness: 8,
+      teamComfort: 8,
+      processOrganization: 8,
+      contributionValued: 'yes',
+    });
+
+  const fetchPortfolio = async () => (await fetchAdmin(app, '/portfolio')).portfolio;
+
+  beforeAll(async () => {
+    tempDbPath = useTestDatabase('enps');
+
+    app = await startApp();
+
+    alphaId = await createProject(app, 'Alpha', 50);
+    betaId = await createProject(app, 'Beta', 50);
+  });
+
+  afterAll(() => {
+    removeTestDatabase(tempDbPath);
+  });
+
+  it('reports no eNPS for projects without answers', async () => {
+    const response = await request(app).get('/api/admin/projects').set(adminHeaders).expect(200);
+
+    expect(response.body.projects[0]).toMatchObject({ nps: { promoters: 0, passives: 0, detractors: 0 }, enps: null });
+    expect(await fetchPortfolio()).toMatchObject({
+      responsesCount: 0,
+      averages: { projectRecommendation: null },
+      nps: { promoters: 0, passives: 0, detractors: 0 },
+      enps: null,
+    });
+  });
+
+  it('subtracts the share of detractors from the share of promoters', async () => {
+    await submitSurvey(51, alphaId, 10);
+    await submitSurvey(52, alphaId, 9);
+    await submitSurvey(53, alphaId, 8);
+    await submitSurvey(54, alphaId, 6);
+    await submitSurvey(55, betaId, 3);
+    await submitSurvey(56, betaId, 7);
+
+    const response = await request(app).get('/api/admin/projects').set(adminHeaders).expect(200);
+    const statsFor = (id: number) => response.body.projects.find((project: { id: number }) => project.id === id);
+
+    expect(statsFor(alphaId)).toMatchObject({
+      averages: { projectRecommendation: 8.25 },
+      nps: { promoters: 2, passives: 1, detractors: 1 },
+      enps: 25,
+    });
+    expect(statsFor(betaId)).toMatchObject({
+      averages: { projectRecommendation: 5 },
+      nps: { promoters: 0, passives: 1, detractors: 1 },
+      enps: -50,
+    });
+    expect(await fetchPortfolio()).toMatchObject({
+      responsesCount: 6,
+      averages: { projectRecommendation: 43 / 6 },
+      nps: { promoters: 2, passives: 2, detractors: 2 },
+      enps: 0,
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import request from 'supertest';
+import type { Express } from 'express';
+
+import type { SurveyAnswers } from '../src/types';
+
+export const adminToken = 'test-admin-token';
+
+export const adminHeaders = { 'x-admin-token': adminToken };
+
+/** Authenticates as Telegram user `id` through the debug header the insecure mode accepts. */
+export const headersFor = (id: number, firstName = `Employee ${id}`) => ({
+  'x-debug-user': JSON.stringify({ id, first_name: firstName }),
+});
+
+/** The UTC date `days` days before now, as the API takes survey dates. */
+export const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+/**
+ * Points the app at a new SQLite file in the temp directory, named after the suite, and switches on the debug
+ * authentication the tests use. Returns the file so a suite can inspect or prepare it.
+ */
+export function useTestDatabase(suite: string): string {
+  const databaseFile = path.join(os.tmpdir(), `enps-${suite}-tests-${Date.now()}.sqlite`);
+
+  process.env.ALLOW_INSECURE_INIT_DATA = 'true';
+  process.env.ADMIN_TOKEN = adminToken;
+  process.env.SERVE_FRONTEND = 'false';
+  process.env.DATABASE_FILE = databaseFile;
+  process.env.DATABASE_URL = '';
+  process.env.USE_SUPABASE_DEFAULT = 'false';
+
+  return databaseFile;
+}
+
+/** Loads the modules anew, so they pick up the environment, and starts the app on the configured database. */
+export async function startApp(): Promise<Express> {
+  jest.resetModules();
+  const { initDB } = await import('../src/db');
+  await initDB();
+  const { createApp } = await import('../src/app');
+  return createApp();
+}
+
+export function removeTestDatabase(databaseFile: string): void {
+  if (fs.existsSync(databaseFile)) {
+    fs.unlinkSync(databaseFile);
+  }
+}
+
+export async function createProject(app: Express, name: string, ownerId = 1): Promise<number> {
+  const response = await request(app).post('/api/projects').set(headersFor(ownerId)).send({ name }).expect(201);
+  return response.body.project.id;
+}
+
+/** Starts a survey of `userId` in the project and saves `answers` as a draft; returns the survey id. */
+export async function startSurvey(
+  app: Express,
+  userId: number,
+  projectId: number,
+  answers: SurveyAnswers,
+  surveyDate?: string,
+): Promise<number> {
+  const created = await request(app)
+    .post('/api/surveys')
+    .set(headersFor(userId))
+    .send({ projectId, surveyDate })
+    .expect(201);
+  const surveyId = created.body.record.id as number;
+  await request(app).patch(`/api/surveys/${surveyId}`).set(headersFor(userId)).send(answers).expect(200);
+  return surveyId;
+}
+
+/** Starts, answers and submits a survey of `userId` in the project; returns the survey id. */
+export async function submitSurvey(
+  app: Express,
+  userId: number,
+  projectId: number,
+  answers: SurveyAnswers,
+  surveyDate?: string,
+): Promise<number> {
+  const surveyId = await startSurvey(app, userId, projectId, answers, surveyDate);
+  await request(app).post(`/api/surveys/${surveyId}/submit`).set(headersFor(userId)).expect(200);
+  return surveyId;
+}
+
+/** Body of an admin `GET`, which must succeed. */
+export async function fetchAdmin(app: Express, url: string) {
+  const response = await request(app).get(`/api/admin${url}`).set(adminHeaders).expect(200);
+  return response.body;
+}
+
+/** Statistics of one project from the admin project list. */
+export async function fetchProject(app: Express, projectId: number, query = '') {
+  const { projects } = await fetchAdmin(app, `/projects${query}`);
+  return projects.find((project: { id: number }) => project.id === projectId);
+}
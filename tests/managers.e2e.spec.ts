@@ -0,0 +1,150 @@
+import request from 'supertest';
+import type { Express } from 'express';
+
+import {
+  adminHeaders,
+  createProject,
+  fetchAdmin,
+  removeTestDatabase,
+  startApp,
+  submitSurvey as submitAnswers,
+  useTestDatabase,
+} from './helpers';
+
+describe('Manager rollups', () => {
+  let app: Express;
+  let tempDbPath: string;
+
+  const submitSurvey = (
+    userId: number,
+    projectId: number,
+    surveyDate: string,
+    projectRecommendation: number,
+    managerEffectiveness: number,
+  ) =>
+    submitAnswers(
+      app,
+      userId,
+      projectId,
+      {
+        projectRecommendation,
+        managerEffectiveness,
+        teamComfort: 7,
+        processOrganization: 7,
+        contributionValued: 'yes',
+      },
+      surveyDate,
+    );
+
+  const fetchManagers = (query = '') => fetchAdmin(app, `/managers${query}`);
+
+  beforeAll(async () => {
+    tempDbPath = useTestDatabase('managers');
+
+    app = await startApp();
+  });
+
+  afterAll(() => {
+    removeTestDatabase(tempDbPath);
+  });
+
+  it('rolls up the scores of all projects a manager runs', async () => {
+    const created = await request(app)
+      .post('/api/admin/managers')
+      .set(adminHeaders)
+      .send({ name: 'Ольга' })
+      .expect(201);
+    const managerId = created.body.manager.id;
+    await request(app).post('/api/admin/managers').set(adminHeaders).send({ name: 'Борис' }).expect(201);
+
+    const apolloId = await createProject(app, 'Apollo', 800);
+    const geminiId = await createProject(app, 'Gemini', 800);
+    const soloId = await createProject(app, 'Solo', 800);
+
+    const assigned = await request(app)
+      .put(`/api/admin/projects/${apolloId}/manager`)
+      .set(adminHeaders)
+      .send({ managerId })
+      .expect(200);
+    expect(assigned.body.project).toMatchObject({ id: apolloId, managerId });
+    await request(app).put(`/api/admin/projects/${geminiId}/manager`).set(adminHeaders).send({ managerId }).expect(200);
+
+    // Employee 801 answers in both projects and counts once.
+    await submitSurvey(801, apolloId, '2026-04-06', 10, 9);
+    await submitSurvey(802, apolloId, '2026-04-07', 9, 8);
+    await submitSurvey(801, geminiId, '2026-05-04', 3, 4);
+    await submitSurvey(803, soloId, '2026-05-04', 10, 10);
+
+    const { granularity, managers } = await fetchManagers('?granularity=month');
+    expect(granularity).toBe('month');
+    expect(managers.map((manager: { name: string }) => manager.name)).toEqual(['Борис', 'Ольга']);
+    expect(managers[0]).toMatchObject({ projectIds: [], responsesCount: 0, enps: null, trend: [] });
+
+    const olga = managers[1];
+    expect(olga).toMatchObject({
+      id: managerId,
+      projectIds: [apolloId, geminiId],
+      responsesCount: 3,
+      uniqueRespondents: 2,
+      enps: 33,
+      nps: { promoters: 2, passives: 0, detractors: 1 },
+    });
+    expect(olga.averages.managerEffectiveness).toBeCloseTo(7);
+    expect(olga.trend.map((period: { periodStart: string }) => period.periodStart)).toEqual([
+      '2026-04-01',
+      '2026-05-01',
+    ]);
+    expect(olga.trend[0]).toMatchObject({ responsesCount: 2, enps: 100, change: null });
+    expect(olga.trend[1].change.averages.managerEffectiveness).toMatchObject({ current: 4, previous: 8.5 });
+
+    const april = await fetchManagers('?to=2026-04-30');
+    expect(april.granularity).toBe('week');
+    expect(april.managers[1]).toMatchObject({ responsesCount: 2, enps: 100 });
+  });
+
+  it('renames managers and unassigns their projects when deleted', async () => {
+    const created = await request(app)
+      .post('/api/admin/managers')
+      .set(adminHeaders)
+      .send({ name: 'Виктор' })
+      .expect(201);
+    const managerId = created.body.manager.id;
+    const projectId = await createProject(app, 'Voyager', 800);
+    await request(app)
+      .put(`/api/admin/projects/${projectId}/manager`)
+      .set(adminHeaders)
+      .send({ managerId })
+      .expect(200);
+
+    const renamed = await request(app)
+      .patch(`/api/admin/managers/${managerId}`)
+      .set(adminHeaders)
+      .send({ name: 'Виктор Петров' })
+      .expect(200);
+    expect(renamed.body.manager).toMatchObject({ id: managerId, name: 'Виктор Петров' });
+
+    await request(app).delete(`/api/admin/managers/${managerId}`).set(adminHeaders).expect(204);
+
+    const { managers } = await fetchManagers();
+    expect(managers.some((manager: { id: number }) => manager.id === managerId)).toBe(false);
+    const projects = await request(app).get('/api/admin/projects').set(adminHeaders).expect(200);
+    const voyager = projects.body.projects.find((project: { id: number }) => project.id === projectId);
+    expect(voyager.managerId).toBeNull();
+  });
+
+  it('validates manager requests', async () => {
+    const projectId = await createProject(app, 'Mercury', 800);
+
+    await request(app).post('/api/admin/managers').set(adminHeaders).send({ name: 'Я' }).expect(400);
+    await request(app).patch('/api/admin/managers/9999').set(adminHeaders).send({ name: 'Никто' }).expect(404);
+    await request(app)
+      .put(`/api/admin/projects/${projectId}/manager`)
+      .set(adminHeaders)
+      .send({ managerId: 9999 })
+      .expect(404);
+    await request(app).put('/api/admin/projects/9999/manager').set(adminHeaders).send({ managerId: null }).expect(404);
+    await request(app).put(`/api/admin/projects/${projectId}/manager`).set(adminHeaders).send({}).expect(400);
+    await request(app).get('/api/admin/managers?granularity=year').set(adminHeaders).expect(400);
+    await request(app).get('/api/admin/managers').expect(401);
+  });
+});
@@ -0,0 +1,110 @@
+import request from 'supertest';
+import type { Express } from 'express';
+
+import {
+  adminHeaders,
+  createProject,
+  fetchProject,
+  removeTestDatabase,
+  startApp,
+  submitSurvey as submitAnswers,
+  useTestDatabase,
+} from './helpers';
+
+describe('Response-rate tracking', () => {
+  let app: Express;
+  let tempDbPath: string;
+  let listedId: number;
+  let headcountId: number;
+  let untrackedId: number;
+
+  const submitSurvey = (projectId: number, userId: number, surveyDate: string) =>
+    submitAnswers(
+      app,
+      userId,
+      projectId,
+      {
+        projectRecommendation: 8,
+        managerEffectiveness: 8,
+        teamComfort: 8,
+        processOrganization: 8,
+        contributionValued: 'yes',
+      },
+      surveyDate,
+    );
+
+  const setExpected = (projectId: number, body: unknown) =>
+    request(app)
+      .put(`/api/admin/projects/${projectId}/expected-respondents`)
+      .set(adminHeaders)
+      .send(body);
+
+  const participationOf = async (projectId: number, query = '') =>
+    (await fetchProject(app, projectId, query)).participation;
+
+  beforeAll(async () => {
+    tempDbPath = useTestDatabase('participation');
+
+    app = await startApp();
+
+    listedId = await createProject(app, 'Listed', 300);
+    headcountId = await createProject(app, 'Headcount', 300);
+    untrackedId = await createProject(app, 'Untracked', 300);
+
+    await submitSurvey(listedId, 301, '2026-04-06');
+    await submitSurvey(listedId, 302, '2026-04-06');
+    await submitSurvey(listedId, 399, '2026-04-06');
+    await submitSurvey(listedId, 301, '2026-04-13');
+
+    for (const userId of [301, 302, 303, 304, 305, 306]) {
+      await submitSurvey(headcountId, userId, '2026-04-06');
+    }
+    await submitSurvey(untrackedId, 301, '2026-04-06');
+  });
+
+  afterAll(() => {
+    removeTestDatabase(tempDbPath);
+  });
+
+  it('stores the expected respondents of a project', async () => {
+    const initial = await request(app)
+      .get(`/api/admin/projects/${listedId}/expected-respondents`)
+      .set(adminHeaders)
+      .expect(200);
+    expect(initial.body.expected).toEqual({ headcount: null, userIds: [] });
+
+    const saved = await setExpected(listedId, { headcount: 10, userIds: [304, 301, 302, 303, 301] }).expect(200);
+    expect(saved.body.expected).toEqual({ headcount: 10, userIds: [301, 302, 303, 304] });
+
+    await setExpected(headcountId, { headcount: 5, userIds: [] }).expect(200);
+  });
+
+  it('reports participation against the list, the headcount or nothing', async () => {
+    // Only listed employees count, so the outsider 399 does not lift the rate.
+    expect(await participationOf(listedId)).toEqual({ expected: 4, responded: 2, rate: 0.5 });
+    // Six answers against an outdated headcount of five stay at 100%.
+    expect(await participationOf(headcountId)).toEqual({ expected: 5, responded: 6, rate: 1 });
+    expect(await participationOf(untrackedId)).toEqual({ expected: null, responded: 1, rate: null });
+    expect(await participationOf(listedId, '?from=2026-04-13')).toEqual({ expected: 4, responded: 1, rate: 0.25 });
+  });
+
+  it('reports participation per trend period', async () => {
+    const response = await request(app)
+      .get(`/api/admin/projects/${listedId}/trends`)
+      .set(adminHeaders)
+      .expect(200);
+
+    expect(response.body.periods.map((period: { participation: unknown }) => period.participation)).toEqual([
+      { expected: 4, responded: 2, rate: 0.5 },
+      { expected: 4, responded: 1, rate: 0.25 },
+    ]);
+  });
+
+  it('validates the expected respondents payload', async () => {
+    await setExpected(listedId, { headcount: 0, userIds: [] }).expect(400);
+    await setExpected(listedId, { headcount: null, userIds: ['abc'] }).expect(400);
+    await setExpected(999999, { headcount: null, userIds: [] }).expect(404);
+    await request(app).get('/api/admin/projects/abc/expected-respondents').set(adminHeaders).expect(400);
+    await request(app).get(`/api/admin/projects/${listedId}/expected-respondents`).expect(401);
+  });
+});
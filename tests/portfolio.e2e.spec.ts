@@ -0,0 +1,95 @@
+import type { Express } from 'express';
+
+import {
+  createProject,
+  fetchAdmin,
+  removeTestDatabase,
+  startApp,
+  submitSurvey as submitAnswers,
+  useTestDatabase,
+} from './helpers';
+
+describe('Portfolio analytics', () => {
+  let app: Express;
+  let tempDbPath: string;
+
+  const submitSurvey = (userId: number, projectId: number, surveyDate: string, projectRecommendation: number) =>
+    submitAnswers(
+      app,
+      userId,
+      projectId,
+      {
+        projectRecommendation,
+        managerEffectiveness: 8,
+        teamComfort: projectRecommendation,
+        processOrganization: 6,
+        contributionValued: 'yes',
+      },
+      surveyDate,
+    );
+
+  const fetchPortfolio = async (query: string) => (await fetchAdmin(app, `/portfolio${query}`)).portfolio;
+
+  beforeAll(async () => {
+    tempDbPath = useTestDatabase('portfolio');
+
+    app = await startApp();
+
+    const healthyId = await createProject(app, 'Healthy', 80);
+    const mixedId = await createProject(app, 'Mixed', 80);
+    const criticalId = await createProject(app, 'Critical', 80);
+    await createProject(app, 'Silent', 80);
+
+    // Employee 81 works on two projects and must be counted once.
+    await submitSurvey(81, healthyId, '2026-03-03', 9);
+    await submitSurvey(81, mixedId, '2026-03-10', 10);
+    await submitSurvey(82, mixedId, '2026-03-11', 4);
+    await submitSurvey(83, criticalId, '2026-03-12', 2);
+  });
+
+  afterAll(() => {
+    removeTestDatabase(tempDbPath);
+  });
+
+  it('deduplicates respondents and sorts projects into health bands', async () => {
+    const portfolio = await fetchPortfolio('');
+
+    expect(portfolio).toMatchObject({
+      projectsCount: 4,
+      responsesCount: 4,
+      uniqueRespondents: 3,
+      averages: { projectRecommendation: 6.25, managerEffectiveness: 8, teamComfort: 6.25, processOrganization: 6 },
+      nps: { promoters: 2, passives: 0, detractors: 2 },
+      enps: 0,
+      healthBands: { healthy: 1, attention: 1, critical: 1, noData: 1 },
+    });
+  });
+
+  it('compares the latest week with the week before', async () => {
+    const portfolio = await fetchPortfolio('?to=2026-03-15');
+
+    expect(portfolio.weekOverWeek).toEqual({
+      weekStart: '2026-03-09',
+      previousWeekStart: '2026-03-02',
+      responsesCount: { current: 3, previous: 1, delta: 2 },
+      enps: { current: -33, previous: 100, delta: -133, significant: false },
+      averages: {
+        projectRecommendation: { current: 16 / 3, previous: 9, delta: 16 / 3 - 9, significant: false },
+        managerEffectiveness: { current: 8, previous: 8, delta: 0, significant: false },
+        teamComfort: { current: 16 / 3, previous: 9, delta: 16 / 3 - 9, significant: false },
+        processOrganization: { current: 6, previous: 6, delta: 0, significant: false },
+      },
+    });
+  });
+
+  it('reports no deltas for a week without answers', async () => {
+    const portfolio = await fetchPortfolio('?to=2026-03-08');
+
+    expect(portfolio.responsesCount).toBe(1);
+    expect(portfolio.weekOverWeek).toMatchObject({
+      weekStart: '2026-03-02',
+      responsesCount: { current: 1, previous: 0, delta: 1 },
+      enps: { current: 100, previous: null, delta: null },
+    });
+  });
+});
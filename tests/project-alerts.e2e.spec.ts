@@ -0,0 +1,136 @@
+import request from 'supertest';
+import type { Express } from 'express';
+
+import {
+  adminHeaders,
+  createProject,
+  daysAgo,
+  fetchAdmin,
+  removeTestDatabase,
+  startApp,
+  submitSurvey as submitAnswers,
+  useTestDatabase,
+} from './helpers';
+
+describe('Project alerts', () => {
+  let app: Express;
+  let tempDbPath: string;
+  let fallingId: number;
+  let stableId: number;
+  let nextUserId = 201;
+  let detection: jest.SpyInstance;
+
+  const submitSurvey = async (
+    projectId: number,
+    surveyDate: string,
+    projectRecommendation: number,
+    teamComfort: number,
+  ) => {
+    await submitAnswers(
+      app,
+      nextUserId++,
+      projectId,
+      {
+        projectRecommendation,
+        managerEffectiveness: 8,
+        teamComfort,
+        processOrganization: 8,
+        contributionValued: 'yes',
+      },
+      surveyDate,
+    );
+    // Detection runs after the response has been sent.
+    await detection.mock.results[detection.mock.results.length - 1]?.value;
+  };
+
+  const fetchAlerts = async (query = '') => (await fetchAdmin(app, `/alerts${query}`)).alerts;
+
+  beforeAll(async () => {
+    tempDbPath = useTestDatabase('project-alerts');
+
+    app = await startApp();
+    detection = jest.spyOn(await import('../src/alerts'), 'detectProjectAlerts');
+
+    fallingId = await createProject(app, 'Falling', 200);
+    stableId = await createProject(app, 'Stable', 200);
+
+    for (const projectId of [fallingId, stableId]) {
+      for (let index = 0; index < 4; index += 1) {
+        await submitSurvey(projectId, daysAgo(30), 9, 9);
+      }
+    }
+    await submitSurvey(stableId, daysAgo(2), 9, 9);
+    await submitSurvey(stableId, daysAgo(2), 10, 9);
+    await submitSurvey(stableId, daysAgo(2), 9, 8);
+  });
+
+  afterAll(() => {
+    removeTestDatabase(tempDbPath);
+  });
+
+  it('raises alerts once enough recent answers fall below the baseline', async () => {
+    await submitSurvey(fallingId, daysAgo(2), 3, 3);
+    await submitSurvey(fallingId, daysAgo(2), 4, 4);
+    expect(await fetchAlerts()).toEqual([]);
+
+    await submitSurvey(fallingId, daysAgo(1), 2, 3);
+    expect(detection).toHaveBeenLastCalledWith(expect.any(Date), fallingId);
+    const alerts = await fetchAlerts();
+
+    expect(alerts).toHaveLength(2);
+    expect(alerts.map((alert: { metric: string }) => alert.metric).sort()).toEqual(['enps', 'teamComfort']);
+    expect(alerts.find((alert: { metric: string }) => alert.metric === 'enps')).toMatchObject({
+      projectId: fallingId,
+      projectName: 'Falling',
+      severity: 'critical',
+      status: 'open',
+      windowStart: daysAgo(13),
+      windowEnd: daysAgo(0),
+      recentValue: -100,
+      baselineValue: 100,
+      recentCount: 3,
+      baselineCount: 4,
+      acknowledgedAt: null,
+    });
+  });
+
+  it('refreshes an unresolved alert instead of duplicating it', async () => {
+    await submitSurvey(fallingId, daysAgo(1), 3, 3);
+
+    const alerts = await fetchAlerts(`?projectId=${fallingId}`);
+    expect(alerts).toHaveLength(2);
+    expect(alerts.every((alert: { recentCount: number }) => alert.recentCount === 4)).toBe(true);
+    expect(await fetchAlerts(`?projectId=${stableId}`)).toEqual([]);
+  });
+
+  it('acknowledges and resolves alerts', async () => {
+    const [alert] = await fetchAlerts('?status=open');
+
+    const acknowledged = await request(app)
+      .post(`/api/admin/alerts/${alert.id}/acknowledge`)
+      .set(adminHeaders)
+      .expect(200);
+    expect(acknowledged.body.alert).toMatchObject({ id: alert.id, status: 'acknowledged' });
+    expect(acknowledged.body.alert.acknowledgedAt).toEqual(expect.any(String));
+    await request(app).post(`/api/admin/alerts/${alert.id}/acknowledge`).set(adminHeaders).expect(409);
+
+    const resolved = await request(app)
+      .post(`/api/admin/alerts/${alert.id}/resolve`)
+      .set(adminHeaders)
+      .expect(200);
+    expect(resolved.body.alert).toMatchObject({ id: alert.id, status: 'resolved' });
+    await request(app).post(`/api/admin/alerts/${alert.id}/resolve`).set(adminHeaders).expect(409);
+
+    // The drop persists, but the admin already dealt with it in this window.
+    await submitSurvey(fallingId, daysAgo(0), 2, 2);
+    expect(await fetchAlerts('?status=resolved')).toEqual([expect.objectContaining({ id: alert.id })]);
+    expect(await fetchAlerts()).toHaveLength(2);
+  });
+
+  it('rejects unknown alerts and invalid filters', async () => {
+    await request(app).post('/api/admin/alerts/999999/resolve').set(adminHeaders).expect(404);
+    await request(app).post('/api/admin/alerts/abc/acknowledge').set(adminHeaders).expect(400);
+    await request(app).get('/api/admin/alerts?status=closed').set(adminHeaders).expect(400);
+    await request(app).get('/api/admin/alerts').expect(401);
+  });
+});
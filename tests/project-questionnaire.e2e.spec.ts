@@ -0,0 +1,122 @@
+import request from 'supertest';
+import type { Express } from 'express';
+
+import type { Questionnaire } from '../src/types';
+import { adminHeaders, headersFor, removeTestDatabase, startApp, useTestDatabase } from './helpers';
+
+const debugHeaders = headersFor(42, 'Support');
+
+const supportQuestion = {
+  key: 'onCallLoad',
+  type: 'scale',
+  title: 'Насколько комфортна нагрузка на дежурствах?',
+  required: true,
+};
+
+describe('Project questionnaire extensions', () => {
+  let app: Express;
+  let tempDbPath: string;
+  let projectId: number;
+
+  beforeAll(async () => {
+    tempDbPath = useTestDatabase('project-questionnaire');
+
+    app = await startApp();
+
+    const projectResponse = await request(app)
+      .post('/api/projects')
+      .set(debugHeaders)
+      .send({ name: 'Support' })
+      .expect(201);
+    projectId = projectResponse.body.project.id;
+    expect(projectResponse.body.project.questionnaireMode).toBeNull();
+  });
+
+  afterAll(() => {
+    removeTestDatabase(tempDbPath);
+  });
+
+  it('rejects extension questions that reuse standard keys', async () => {
+    await request(app)
+      .put(`/api/admin/projects/${projectId}/questionnaire`)
+      .set(adminHeaders)
+      .send({ mode: 'extend', questions: [{ ...supportQuestion, key: 'teamComfort' }] })
+      .expect(400);
+  });
+
+  it('appends project questions to the standard questionnaire', async () => {
+    await request(app)
+      .put(`/api/admin/projects/${projectId}/questionnaire`)
+      .set(adminHeaders)
+      .send({ mode: 'extend', questions: [supportQuestion] })
+      .expect(200);
+
+    const response = await request(app).get(`/api/projects/${projectId}/questionnaire`).set(debugHeaders).expect(200);
+    const keys = (response.body.questionnaire as Questionnaire).questions.map((question) => question.key);
+
+    expect(keys).toHaveLength(11);
+    expect(keys[10]).toBe('onCallLoad');
+  });
+
+  it('validates survey answers against the merged question set', async () => {
+    const created = await request(app).post('/api/surveys').set(debugHeaders).send({ projectId }).expect(201);
+    const surveyId = created.body.record.id;
+    expect(created.body.record.extensionQuestionnaireId).toEqual(expect.any(Number));
+
+    await request(app).patch(`/api/surveys/${surveyId}`).set(debugHeaders).send({ onCallLoad: 11 }).expect(400);
+
+    const updated = await request(app)
+      .patch(`/api/surveys/${surveyId}`)
+      .set(debugHeaders)
+      .send({ onCallLoad: 7, teamComfort: 8 })
+      .expect(200);
+
+    expect(updated.body.survey.answers).toEqual({ onCallLoad: 7, teamComfort: 8 });
+
+    const extension = await request(app)
+      .get(`/api/admin/questionnaire/${created.body.record.extensionQuestionnaireId}`)
+      .set(adminHeaders)
+      .expect(200);
+    expect(extension.body.questionnaire.code).toBe(`project:${projectId}`);
+  });
+
+  it('replaces the standard questionnaire when requested', async () => {
+    const response = await request(app)
+      .put(`/api/admin/projects/${projectId}/questionnaire`)
+      .set(adminHeaders)
+      .send({ mode: 'replace', questions: [supportQuestion] })
+      .expect(200);
+
+    expect((response.body.questionnaire as Questionnaire).questions.map((question) => question.key)).toEqual([
+      'onCallLoad',
+    ]);
+
+    const projects = await request(app).get('/api/projects').set(debugHeaders).expect(200);
+    expect(projects.body.projects[0]).toEqual(
+      expect.objectContaining({ questionnaireMode: 'replace', questionnaireOverrideId: expect.any(Number) }),
+    );
+  });
+
+  it('keeps the types of the metric questions a questionnaire reuses', async () => {
+    const recommendation = { key: 'projectRecommendation', type: 'text', title: 'Что бы вы посоветовали проекту?' };
+    const rejected = await request(app)
+      .put(`/api/admin/projects/${projectId}/questionnaire`)
+      .set(adminHeaders)
+      .send({ mode: 'replace', questions: [recommendation] })
+      .expect(400);
+    expect(rejected.body.details).toEqual({ keys: ['projectRecommendation'] });
+
+    const version = await request(app)
+      .post('/api/admin/questionnaire/versions')
+      .set(adminHeaders)
+      .send({ questions: [recommendation] })
+      .expect(400);
+    expect(version.body.details).toEqual({ keys: ['projectRecommendation'] });
+
+    await request(app)
+      .put(`/api/admin/projects/${projectId}/questionnaire`)
+      .set(adminHeaders)
+      .send({ mode: 'replace', questions: [{ ...recommendation, type: 'scale' }] })
+      .expect(200);
+  });
+});
@@ -0,0 +1,97 @@
+import request from 'supertest';
+import type { Express } from 'express';
+
+import type { SurveyAnswers } from '../src/types';
+import {
+  adminHeaders,
+  createProject,
+  headersFor,
+  removeTestDatabase,
+  startApp,
+  submitSurvey as submitAnswers,
+  useTestDatabase,
+} from './helpers';
+
+describe('Project trends', () => {
+  let app: Express;
+  let tempDbPath: string;
+  let projectId: number;
+
+  const submitSurvey = (surveyDate: string, answers: SurveyAnswers) =>
+    submitAnswers(
+      app,
+      61,
+      projectId,
+      { managerEffectiveness: 7, teamComfort: 7, processOrganization: 7, ...answers },
+      surveyDate,
+    );
+
+  const fetchTrends = (query = '') =>
+    request(app).get(`/api/admin/projects/${projectId}/trends${query}`).set(adminHeaders);
+
+  beforeAll(async () => {
+    tempDbPath = useTestDatabase('project-trends');
+
+    app = await startApp();
+
+    projectId = await createProject(app, 'Trends project', 61);
+
+    await submitSurvey('2026-03-02', { projectRecommendation: 10, contributionValued: 'yes' });
+    await submitSurvey('2026-03-08', { projectRecommendation: 4, contributionValued: 'no' });
+    await submitSurvey('2026-03-11', { projectRecommendation: 9, contributionValued: 'partial' });
+    await submitSurvey('2026-04-15', { projectRecommendation: 8, contributionValued: 'yes' });
+
+    // Drafts stay out of the trends just like out of the overall statistics.
+    await request(app)
+      .post('/api/surveys')
+      .set(headersFor(61))
+      .send({ projectId, surveyDate: '2026-05-04' })
+      .expect(201);
+  });
+
+  afterAll(() => {
+    removeTestDatabase(tempDbPath);
+  });
+
+  it('groups submitted surveys by Monday-based weeks by default', async () => {
+    const response = await fetchTrends().expect(200);
+
+    expect(response.body.granularity).toBe('week');
+    expect(response.body.periods.map((period: { periodStart: string }) => period.periodStart)).toEqual([
+      '2026-03-02',
+      '2026-03-09',
+      '2026-04-13',
+    ]);
+    expect(response.body.periods[0]).toEqual({
+      periodStart: '2026-03-02',
+      responsesCount: 2,
+      uniqueRespondents: 1,
+      participation: { expected: null, responded: 1, rate: null },
+      averages: { projectRecommendation: 7, managerEffectiveness: 7, teamComfort: 7, processOrganization: 7 },
+      contributionBreakdown: { yes: 1, partial: 0, no: 1 },
+      nps: { promoters: 1, passives: 0, detractors: 1 },
+      enps: 0,
+      confidence: expect.any(Object),
+      change: null,
+    });
+  });
+
+  it('groups submitted surveys by month', async () => {
+    const response = await fetchTrends('?granularity=month').expect(200);
+
+    expect(response.body.periods).toEqual([
+      expect.objectContaining({
+        periodStart: '2026-03-01',
+        responsesCount: 3,
+        nps: { promoters: 2, passives: 0, detractors: 1 },
+        enps: 33,
+      }),
+      expect.objectContaining({ periodStart: '2026-04-01', responsesCount: 1, enps: 0 }),
+    ]);
+  });
+
+  it('rejects unknown granularities and projects', async () => {
+    await fetchTrends('?granularity=day').expect(400);
+    await request(app).get('/api/admin/projects/999999/trends').set(adminHeaders).expect(404);
+  });
+});
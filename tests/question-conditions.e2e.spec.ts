@@ -0,0 +1,149 @@
+import request from 'supertest';
+import type { Express } from 'express';
+
+import type { Questionnaire, SurveyAnswers } from '../src/types';
+import { adminHeaders, headersFor, removeTestDatabase, startApp, useTestDatabase } from './helpers';
+
+const debugHeaders = headersFor(1, 'Conditions');
+
+const happyAnswers: SurveyAnswers = {
+  projectRecommendation: 9,
+  projectImprovement: 'Nothing',
+  managerEffectiveness: 10,
+  teamComfort: 9,
+  teamImprovement: 'More demos',
+  processOrganization: 9,
+  contributionValued: 'yes',
+  improvementIdeas: 'Keep going',
+};
+
+describe('Question display conditions', () => {
+  let app: Express;
+  let tempDbPath: string;
+  let projectId: number;
+
+  beforeAll(async () => {
+    tempDbPath = useTestDatabase('conditions');
+
+    app = await startApp();
+
+    const projectResponse = await request(app)
+      .post('/api/projects')
+      .set(debugHeaders)
+      .send({ name: 'Conditional project' })
+      .expect(201);
+    projectId = projectResponse.body.project.id;
+  });
+
+  afterAll(() => {
+    removeTestDatabase(tempDbPath);
+  });
+
+  it('exposes conditions of follow-up questions', async () => {
+    const response = await request(app).get('/api/questionnaire').set(debugHeaders).expect(200);
+    const followUp = (response.body.questionnaire as Questionnaire).questions.find(
+      (question) => question.key === 'managerImprovement',
+    );
+
+    expect(followUp?.showIf).toEqual({ key: 'managerEffectiveness', operator: 'lte', value: 6 });
+  });
+
+  it('submits a survey while hidden follow-ups stay unanswered', async () => {
+    const created = await request(app).post('/api/surveys').set(debugHeaders).send({ projectId }).expect(201);
+
+    await request(app)
+      .patch(`/api/surveys/${created.body.record.id}`)
+      .set(debugHeaders)
+      .send(happyAnswers)
+      .expect(200);
+
+    const submitted = await request(app)
+      .post(`/api/surveys/${created.body.record.id}/submit`)
+      .set(debugHeaders)
+      .expect(200);
+    expect(submitted.body.survey.submittedAt).toEqual(expect.any(String));
+
+    const answered = await request(app)
+      .patch(`/api/surveys/${created.body.record.id}`)
+      .set(debugHeaders)
+      .send({ managerEffectiveness: 5, managerImprovement: 'Weekly 1:1s' })
+      .expect(200);
+    expect(answered.body.survey.answers.managerImprovement).toBe('Weekly 1:1s');
+
+    const cleared = await request(app)
+      .patch(`/api/surveys/${created.body.record.id}`)
+      .set(debugHeaders)
+      .send({ managerEffectiveness: 9, managerImprovement: '' })
+      .expect(200);
+    expect(cleared.body.survey.answers.managerImprovement).toBeUndefined();
+    expect(cleared.body.survey.submittedAt).toBe(submitted.body.survey.submittedAt);
+  });
+
+  it('rejects conditions that do not refer to an earlier question', async () => {
+    const response = await request(app)
+      .post('/api/admin/questionnaire/versions')
+      .set(adminHeaders)
+      .send({
+        questions: [
+          {
+            key: 'followUp',
+            type: 'text',
+            title: 'Почему?',
+            showIf: { key: 'score', operator: 'lt', value: 5 },
+          },
+          { key: 'score', type: 'scale', title: 'Оценка', required: true },
+        ],
+      })
+      .expect(400);
+
+    expect(response.body.error).toBe('Invalid questionnaire payload');
+  });
+
+  it('lets project questions depend on standard answers', async () => {
+    await request(app)
+      .put(`/api/admin/projects/${projectId}/questionnaire`)
+      .set(adminHeaders)
+      .send({
+        mode: 'extend',
+        questions: [
+          {
+            key: 'undervaluedDetails',
+            type: 'text',
+            title: 'Чего не хватает, чтобы вклад ценили?',
+            showIf: { key: 'contributionValued', operator: 'neq', value: 'yes' },
+          },
+        ],
+      })
+      .expect(200);
+
+    const invalid = await request(app)
+      .put(`/api/admin/projects/${projectId}/questionnaire`)
+      .set(adminHeaders)
+      .send({
+        mode: 'replace',
+        questions: [
+          {
+            key: 'undervaluedDetails',
+            type: 'text',
+            title: 'Чего не хватает, чтобы вклад ценили?',
+            showIf: { key: 'contributionValued', operator: 'neq', value: 'yes' },
+          },
+        ],
+      })
+      .expect(400);
+    expect(invalid.body.details.conditions).toEqual([expect.objectContaining({ key: 'undervaluedDetails' })]);
+
+    const headers = { 'x-debug-user': JSON.stringify({ id: 2, first_name: 'Second' }) };
+    const created = await request(app).post('/api/surveys').set(headers).send({ projectId }).expect(201);
+    const surveyId = created.body.record.id;
+
+    await request(app).patch(`/api/surveys/${surveyId}`).set(headers).send(happyAnswers).expect(200);
+
+    const unhappy = await request(app)
+      .patch(`/api/surveys/${surveyId}`)
+      .set(headers)
+      .send({ contributionValued: 'partial', undervaluedDetails: 'Recognition at demos' })
+      .expect(200);
+    expect(unhappy.body.survey.answers.undervaluedDetails).toBe('Recognition at demos');
+  });
+});
@@ -0,0 +1,114 @@
+import request from 'supertest';
+import type { Express } from 'express';
+
+import { adminHeaders, headersFor, removeTestDatabase, startApp, useTestDatabase } from './helpers';
+
+const debugHeaders = headersFor(1, 'Pulse');
+
+const blockers = [
+  { value: 'meetings', label: 'Созвоны' },
+  { value: 'reviews', label: 'Долгие ревью' },
+  { value: 'specs', label: 'Нечеткие задачи' },
+];
+
+const pulseQuestions = [
+  { key: 'mood', type: 'mood', title: 'Как настроение?', required: true },
+  { key: 'workload', type: 'likert', title: 'Нагрузка комфортная', required: true },
+  { key: 'blockers', type: 'multiselect', title: 'Что мешало?', options: blockers },
+  { key: 'priorities', type: 'ranking', title: 'Расставьте приоритеты', options: blockers },
+  {
+    key: 'rituals',
+    type: 'matrix',
+    title: 'Оцените встречи',
+    rows: [
+      { value: 'daily', label: 'Дейли' },
+      { value: 'retro', label: 'Ретро' },
+    ],
+    options: [
+      { value: 'useful', label: 'Полезно' },
+      { value: 'useless', label: 'Бесполезно' },
+    ],
+  },
+];
+
+describe('Question types', () => {
+  let app: Express;
+  let tempDbPath: string;
+  let projectId: number;
+  let surveyId: number;
+
+  beforeAll(async () => {
+    tempDbPath = useTestDatabase('question-types');
+
+    app = await startApp();
+
+    const projectResponse = await request(app)
+      .post('/api/projects')
+      .set(debugHeaders)
+      .send({ name: 'Pulse project' })
+      .expect(201);
+    projectId = projectResponse.body.project.id;
+  });
+
+  afterAll(() => {
+    removeTestDatabase(tempDbPath);
+  });
+
+  it('rejects matrix questions without rows', async () => {
+    await request(app)
+      .post('/api/admin/questionnaire/versions')
+      .set(adminHeaders)
+      .send({ questions: [{ key: 'grid', type: 'matrix', title: 'Матрица', options: blockers }] })
+      .expect(400);
+  });
+
+  it('stores and returns structured answers', async () => {
+    const published = await request(app)
+      .post('/api/admin/questionnaire/versions')
+      .set(adminHeaders)
+      .send({ title: 'Пульс', questions: pulseQuestions })
+      .expect(201);
+    expect(published.body.questionnaire.questions[4].rows).toHaveLength(2);
+
+    const created = await request(app).post('/api/surveys').set(debugHeaders).send({ projectId }).expect(201);
+    surveyId = created.body.record.id;
+
+    const answers = {
+      mood: 4,
+      workload: 2,
+      blockers: ['meetings', 'specs'],
+      priorities: ['specs', 'meetings', 'reviews'],
+      rituals: { daily: 'useful', retro: 'useless' },
+    };
+    const updated = await request(app).patch(`/api/surveys/${surveyId}`).set(debugHeaders).send(answers).expect(200);
+
+    expect(updated.body.survey.answers).toEqual(answers);
+    expect(updated.body.survey.submittedAt).toBeNull();
+  });
+
+  it('validates answers against the question type', async () => {
+    const invalidPayloads = [
+      { mood: 0 },
+      { workload: 6 },
+      { blockers: ['meetings', 'meetings'] },
+      { blockers: ['vacation'] },
+      { priorities: ['specs', 'meetings'] },
+      { rituals: { daily: 'useful' } },
+      { rituals: { daily: 'useful', retro: 'boring' } },
+    ];
+
+    for (const payload of invalidPayloads) {
+      await request(app).patch(`/api/surveys/${surveyId}`).set(debugHeaders).send(payload).expect(400);
+    }
+  });
+
+  it('clears structured answers with an empty value', async () => {
+    const updated = await request(app)
+      .patch(`/api/surveys/${surveyId}`)
+      .set(debugHeaders)
+      .send({ blockers: [] })
+      .expect(200);
+
+    expect(updated.body.survey.answers.blockers).toBeUndefined();
+  });
+});
@@ -0,0 +1,147 @@
+import request from 'supertest';
+import type { Express } from 'express';
+
+import type { QuestionDefinition } from '../src/types';
+import { adminHeaders, removeTestDatabase, startApp, useTestDatabase } from './helpers';
+
+const englishHeaders = {
+  'x-debug-user': JSON.stringify({ id: 41, first_name: 'Contractor', language_code: 'en-US' }),
+};
+const russianHeaders = { 'x-debug-user': JSON.stringify({ id: 42, first_name: 'Employee', language_code: 'ru' }) };
+
+const findQuestion = (questions: QuestionDefinition[], key: string) =>
+  questions.find((question) => question.key === key);
+
+describe('Questionnaire localization', () => {
+  let app: Express;
+  let tempDbPath: string;
+  let projectId: number;
+
+  beforeAll(async () => {
+    tempDbPath = useTestDatabase('questionnaire-i18n');
+
+    app = await startApp();
+
+    const projectResponse = await request(app)
+      .post('/api/projects')
+      .set(englishHeaders)
+      .send({ name: 'Localized project' })
+      .expect(201);
+    projectId = projectResponse.body.project.id;
+  });
+
+  afterAll(() => {
+    removeTestDatabase(tempDbPath);
+  });
+
+  it('serves question texts in the respondent Telegram language', async () => {
+    const english = await request(app).get('/api/questionnaire').set(englishHeaders).expect(200);
+    expect(english.body.questionnaire.language).toBe('en');
+
+    const recommendation = findQuestion(english.body.questionnaire.questions, 'projectRecommendation');
+    expect(recommendation?.title).toBe('How likely are you to recommend working on this project to a colleague?');
+    expect(recommendation?.translations).toBeUndefined();
+    expect(findQuestion(english.body.questionnaire.questions, 'contributionValued')?.options).toEqual([
+      { label: 'Yes', value: 'yes' },
+      { label: 'Partly', value: 'partial' },
+      { label: 'No', value: 'no' },
+    ]);
+
+    const russian = await request(app).get('/api/questionnaire').set(russianHeaders).expect(200);
+    expect(russian.body.questionnaire.language).toBe('ru');
+    expect(findQuestion(russian.body.questionnaire.questions, 'projectRecommendation')?.title).toBe(
+      'Насколько вероятно, что вы порекомендуете участие в проекте коллеге?',
+    );
+  });
+
+  it('lets the respondent override the Telegram language', async () => {
+    await request(app).put('/api/me/language').set(englishHeaders).send({ language: 'de' }).expect(400);
+
+    const saved = await request(app).put('/api/me/language').set(englishHeaders).send({ language: 'ru' }).expect(200);
+    expect(saved.body.language).toBe('ru');
+
+    const overridden = await request(app)
+      .get(`/api/projects/${projectId}/questionnaire`)
+      .set(englishHeaders)
+      .expect(200);
+    expect(overridden.body.questionnaire.language).toBe('ru');
+
+    const reset = await request(app).put('/api/me/language').set(englishHeaders).send({ language: null }).expect(200);
+    expect(reset.body.language).toBe('en');
+  });
+
+  it('shows admins the texts in the requested language', async () => {
+    const english = await request(app)
+      .get('/api/admin/questionnaire/versions?lang=en')
+      .set(adminHeaders)
+      .expect(200);
+    expect(findQuestion(english.body.versions[0].questions, 'teamComfort')?.title).toBe(
+      'How comfortable is working with your team?',
+    );
+
+    const stored = await request(app).get('/api/admin/questionnaire').set(adminHeaders).expect(200);
+    const teamComfort = findQuestion(stored.body.questionnaire.questions, 'teamComfort');
+    expect(teamComfort?.title).toBe('Насколько комфортно вам взаимодействовать с командой?');
+    expect(teamComfort?.translations?.en?.title).toBe('How comfortable is working with your team?');
+  });
+
+  it('translates project questions and falls back to the stored texts', async () => {
+    await request(app)
+      .put(`/api/admin/projects/${projectId}/questionnaire`)
+      .set(adminHeaders)
+      .send({
+        mode: 'replace',
+        questions: [
+          {
+            key: 'tooling',
+            type: 'options',
+            title: 'Хватает ли вам инструментов?',
+            description: 'Выберите один вариант.',
+            options: [
+              { value: 'yes', label: 'Да' },
+              { value: 'no', label: 'Нет' },
+            ],
+            translations: { en: { title: 'Do you have the tools you need?', options: { unknown: 'Unknown' } } },
+          },
+        ],
+      })
+      .expect(400);
+
+    await request(app)
+      .put(`/api/admin/projects/${projectId}/questionnaire`)
+      .set(adminHeaders)
+      .send({
+        mode: 'replace',
+        questions: [
+          {
+            key: 'tooling',
+            type: 'options',
+            title: 'Хватает ли вам инструментов?',
+            description: 'Выберите один вариант.',
+            options: [
+              { value: 'yes', label: 'Да' },
+              { value: 'no', label: 'Нет' },
+            ],
+            translations: { en: { title: 'Do you have the tools you need?', options: { yes: 'Yes' } } },
+          },
+        ],
+      })
+      .expect(200);
+
+    const response = await request(app)
+      .get(`/api/projects/${projectId}/questionnaire`)
+      .set(englishHeaders)
+      .expect(200);
+    expect(response.body.questionnaire.questions).toEqual([
+      expect.objectContaining({
+        key: 'tooling',
+        title: 'Do you have the tools you need?',
+        description: 'Выберите один вариант.',
+        options: [
+          { value: 'yes', label: 'Yes' },
+          { value: 'no', label: 'Нет' },
+        ],
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,101 @@
+import request from 'supertest';
+import type { Express } from 'express';
+
+import type { Questionnaire, SurveyAnswers } from '../src/types';
+import { adminHeaders, removeTestDatabase, startApp, useTestDatabase } from './helpers';
+
+function userHeaders(id: number) {
+  return { 'x-debug-user': JSON.stringify({ id, first_name: `User ${id}` }) };
+}
+
+const fullAnswers: SurveyAnswers = {
+  projectRecommendation: 4,
+  projectImprovement: 'Clearer goals',
+  managerEffectiveness: 2,
+  managerImprovement: 'Faster replies',
+  teamComfort: 6,
+  teamImprovement: 'Pairing',
+  processOrganization: 5,
+  processObstacles: 'Meetings',
+  contributionValued: 'no',
+  improvementIdeas: 'Retros',
+};
+
+describe('Questionnaire versioning', () => {
+  let app: Express;
+  let tempDbPath: string;
+  let projectId: number;
+  let firstSurveyId: number;
+
+  beforeAll(async () => {
+    tempDbPath = useTestDatabase('versions');
+
+    app = await startApp();
+
+    const projectResponse = await request(app)
+      .post('/api/projects')
+      .set(userHeaders(1))
+      .send({ name: 'Versioned project' })
+      .expect(201);
+    projectId = projectResponse.body.project.id;
+  });
+
+  afterAll(() => {
+    removeTestDatabase(tempDbPath);
+  });
+
+  it('pins surveys to the version they were created under', async () => {
+    const created = await request(app).post('/api/surveys').set(userHeaders(1)).send({ projectId }).expect(201);
+    firstSurveyId = created.body.record.id;
+    expect(created.body.record.questionnaireVersion).toBe(1);
+
+    await request(app).patch(`/api/surveys/${firstSurveyId}`).set(userHeaders(1)).send(fullAnswers).expect(200);
+    await request(app).post(`/api/surveys/${firstSurveyId}/submit`).set(userHeaders(1)).expect(200);
+
+    const active = await request(app).get('/api/admin/questionnaire').set(adminHeaders).expect(200);
+    const questions = (active.body.questionnaire as Questionnaire).questions.map(({ id: _id, ...question }) =>
+      question.key === 'managerEffectiveness'
+        ? { ...question, title: 'Насколько менеджер помогает команде расти?', comparable: false }
+        : question,
+    );
+
+    const published = await request(app)
+      .post('/api/admin/questionnaire/versions')
+      .set(adminHeaders)
+      .send({ questions })
+      .expect(201);
+    expect(published.body.questionnaire.version).toBe(2);
+
+    const survey = await request(app).get(`/api/surveys/${firstSurveyId}`).set(userHeaders(1)).expect(200);
+    expect(survey.body.survey.questionnaireVersion).toBe(1);
+    expect(survey.body.survey.answers.managerEffectiveness).toBe(2);
+  });
+
+  it('aggregates only comparable answers across versions', async () => {
+    const created = await request(app).post('/api/surveys').set(userHeaders(2)).send({ projectId }).expect(201);
+    expect(created.body.record.questionnaireVersion).toBe(2);
+
+    await request(app)
+      .patch(`/api/surveys/${created.body.record.id}`)
+      .set(userHeaders(2))
+      .send({ ...fullAnswers, projectRecommendation: 8, managerEffectiveness: 10 })
+      .expect(200);
+    await request(app).post(`/api/surveys/${created.body.record.id}/submit`).set(userHeaders(2)).expect(200);
+
+    const projects = await request(app).get('/api/admin/projects').set(adminHeaders).expect(200);
+    const stats = projects.body.projects.find((project: { id: number }) => project.id === projectId);
+
+    expect(stats.responsesCount).toBe(2);
+    expect(stats.averages.projectRecommendation).toBe(6);
+    expect(stats.averages.managerEffectiveness).toBe(10);
+  });
+
+  it('lists published versions newest first', async () => {
+    const response = await request(app)
+      .get('/api/admin/questionnaire/versions')
+      .set(adminHeaders)
+      .expect(200);
+
+    expect(response.body.versions.map((version: Questionnaire) => version.version)).toEqual([2, 1]);
+  });
+});
@@ -0,0 +1,143 @@
+import Database from 'better-sqlite3';
+import request from 'supertest';
+import type { Express } from 'express';
+
+import type { Questionnaire, SurveyRecord } from '../src/types';
+import { adminHeaders, headersFor, removeTestDatabase, startApp, useTestDatabase } from './helpers';
+
+const debugHeaders = headersFor(31, 'Veteran');
+
+/** A database as the first release left it, answers stored in fixed columns of `surveys`. */
+function createLegacyDatabase(file: string): void {
+  const db = new Database(file);
+  db.exec(`
+    CREATE TABLE users (
+      id INTEGER PRIMARY KEY,
+      first_name TEXT NOT NULL,
+      last_name TEXT,
+      username TEXT,
+      language_code TEXT,
+      photo_url TEXT,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    );
+
+    CREATE TABLE projects (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL UNIQUE,
+      created_by INTEGER,
+      created_at TEXT NOT NULL,
+      FOREIGN KEY(created_by) REFERENCES users(id)
+    );
+
+    CREATE TABLE surveys (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER NOT NULL,
+      project_id INTEGER NOT NULL,
+      survey_date TEXT NOT NULL,
+      project_recommendation INTEGER,
+      project_improvement TEXT,
+      manager_effectiveness INTEGER,
+      manager_improvement TEXT,
+      team_comfort INTEGER,
+      team_improvement TEXT,
+      process_organization INTEGER,
+      process_obstacles TEXT,
+      contribution_valued TEXT CHECK (contribution_valued IN ('yes', 'no', 'partial')),
+      improvement_ideas TEXT,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      FOREIGN KEY(user_id) REFERENCES users(id),
+      FOREIGN KEY(project_id) REFERENCES projects(id),
+      UNIQUE(user_id, project_id, survey_date)
+    );
+
+    INSERT INTO users (id, first_name, created_at, updated_at)
+    VALUES (31, 'Veteran', '2025-01-01T09:00:00.000Z', '2025-01-01T09:00:00.000Z');
+    INSERT INTO projects (id, name, created_by, created_at) VALUES (1, 'Legacy', 31, '2025-01-01T09:00:00.000Z');
+    INSERT INTO surveys (
+      user_id, project_id, survey_date, project_recommendation, project_improvement, manager_effectiveness,
+      team_comfort, process_organization, contribution_valued, improvement_ideas, created_at, updated_at
+    )
+    VALUES
+      (31, 1, '2025-01-06', 9, '  Больше ревью  ', 8, 7, 9, 'yes', '', '2025-01-06T10:00:00.000Z',
+       '2025-01-06T10:00:00.000Z'),
+      (31, 1, '2025-01-13', 4, NULL, NULL, NULL, NULL, NULL, NULL, '2025-01-13T10:00:00.000Z',
+       '2025-01-13T10:00:00.000Z');
+  `);
+  db.close();
+}
+
+describe('Questionnaire', () => {
+  let app: Express;
+  let tempDbPath: string;
+
+  beforeAll(async () => {
+    tempDbPath = useTestDatabase('questionnaire');
+    createLegacyDatabase(tempDbPath);
+
+    app = await startApp();
+  });
+
+  afterAll(() => {
+    removeTestDatabase(tempDbPath);
+  });
+
+  it('serves the active questionnaire to respondents', async () => {
+    await request(app).get('/api/questionnaire').expect(401);
+
+    const response = await request(app).get('/api/questionnaire').set(debugHeaders).expect(200);
+    const questionnaire = response.body.questionnaire as Questionnaire;
+
+    expect(questionnaire).toMatchObject({ code: 'default', version: 1 });
+    expect(questionnaire.questions.map((question) => question.key)).toEqual([
+      'projectRecommendation',
+      'projectImprovement',
+      'managerEffectiveness',
+      'managerImprovement',
+      'teamComfort',
+      'teamImprovement',
+      'processOrganization',
+      'processObstacles',
+      'contributionValued',
+      'improvementIdeas',
+    ]);
+    expect(questionnaire.questions[0]).toMatchObject({ type: 'scale', required: true, id: expect.any(Number) });
+
+    const pinned = await request(app).get(`/api/questionnaire/${questionnaire.id}`).set(debugHeaders).expect(200);
+    expect(pinned.body.questionnaire).toEqual(questionnaire);
+    await request(app).get('/api/questionnaire/999999').set(debugHeaders).expect(404);
+  });
+
+  it('moves answers from the legacy columns into the questionnaire answers', async () => {
+    const response = await request(app).get('/api/surveys').set(debugHeaders).expect(200);
+    const surveys = response.body.surveys as SurveyRecord[];
+    const [partial, complete] = surveys;
+
+    expect(complete).toMatchObject({ surveyDate: '2025-01-06', questionnaireVersion: 1 });
+    // Text is trimmed and empty text is not an answer.
+    expect(complete!.answers).toEqual({
+      projectRecommendation: 9,
+      projectImprovement: 'Больше ревью',
+      managerEffectiveness: 8,
+      teamComfort: 7,
+      processOrganization: 9,
+      contributionValued: 'yes',
+    });
+    // Only surveys with every required answer count as submitted.
+    expect(complete!.submittedAt).toEqual(expect.any(String));
+    expect(partial).toMatchObject({
+      surveyDate: '2025-01-13',
+      answers: { projectRecommendation: 4 },
+      submittedAt: null,
+    });
+
+    const db = new Database(tempDbPath);
+    const columns = (db.prepare('PRAGMA table_info(surveys)').all() as Array<{ name: string }>).map(({ name }) => name);
+    db.close();
+    expect(columns).not.toContain('project_recommendation');
+
+    const projects = await request(app).get('/api/admin/projects').set(adminHeaders).expect(200);
+    expect(projects.body.projects[0]).toMatchObject({ name: 'Legacy', responsesCount: 1, enps: 100 });
+  });
+});
@@ -0,0 +1,125 @@
+import request from 'supertest';
+import type { Express } from 'express';
+
+import {
+  adminHeaders,
+  createProject,
+  removeTestDatabase,
+  startApp,
+  submitSurvey as submitAnswers,
+  useTestDatabase,
+} from './helpers';
+
+describe('Score confidence', () => {
+  let app: Express;
+  let tempDbPath: string;
+  let largeId: number;
+  let smallId: number;
+  let nextUserId = 101;
+
+  const submitSurvey = (projectId: number, surveyDate: string, projectRecommendation: number) =>
+    submitAnswers(
+      app,
+      nextUserId++,
+      projectId,
+      {
+        projectRecommendation,
+        managerEffectiveness: 8,
+        teamComfort: 7,
+        processOrganization: 7,
+        contributionValued: 'yes',
+      },
+      surveyDate,
+    );
+
+  const submitMany = async (projectId: number, surveyDate: string, scores: number[]) => {
+    for (const score of scores) {
+      await submitSurvey(projectId, surveyDate, score);
+    }
+  };
+
+  beforeAll(async () => {
+    tempDbPath = useTestDatabase('score-confidence');
+
+    app = await startApp();
+
+    largeId = await createProject(app, 'Large', 100);
+    smallId = await createProject(app, 'Small', 100);
+
+    // Week one: eNPS 80 from eight promoters and two passives; week two: eNPS -60.
+    await submitMany(largeId, '2026-03-03', [10, 10, 10, 10, 10, 10, 10, 10, 8, 8]);
+    await submitMany(largeId, '2026-03-10', [10, 10, 3, 3, 3, 3, 3, 3, 3, 3]);
+    await submitMany(smallId, '2026-01-06', [10, 3]);
+  });
+
+  afterAll(() => {
+    removeTestDatabase(tempDbPath);
+  });
+
+  it('reports confidence margins and flags small samples', async () => {
+    const response = await request(app).get('/api/admin/projects').set(adminHeaders).expect(200);
+    const statsFor = (id: number) => response.body.projects.find((project: { id: number }) => project.id === id);
+
+    const large = statsFor(largeId);
+    expect(large.confidence.enps).toMatchObject({ sampleSize: 20, lowSample: false });
+    expect(large.confidence.averages.managerEffectiveness).toEqual({ sampleSize: 20, margin: 0, lowSample: false });
+
+    const small = statsFor(smallId);
+    expect(small).toMatchObject({
+      enps: 0,
+      confidence: { enps: { sampleSize: 2, margin: null, lowSample: true } },
+    });
+    expect(small.confidence.averages.projectRecommendation.margin).toBeCloseTo(1.96 * 3.5, 6);
+  });
+
+  it('omits the margin of a single answer', async () => {
+    const response = await request(app)
+      .get(`/api/admin/projects?respondentId=${nextUserId - 1}`)
+      .set(adminHeaders)
+      .expect(200);
+    const small = response.body.projects.find((project: { id: number }) => project.id === smallId);
+
+    expect(small.confidence.enps).toEqual({ sampleSize: 1, margin: null, lowSample: true });
+  });
+
+  it('marks period-over-period changes beyond the margins as significant', async () => {
+    const response = await request(app)
+      .get(`/api/admin/projects/${largeId}/trends`)
+      .set(adminHeaders)
+      .expect(200);
+    const [first, second] = response.body.periods;
+
+    expect(first).toMatchObject({ enps: 80, change: null, confidence: { enps: { sampleSize: 10, margin: 26 } } });
+    expect(first.confidence.averages.projectRecommendation.margin).toBeCloseTo((1.96 * 0.8) / 3, 6);
+    expect(second).toMatchObject({
+      enps: -60,
+      confidence: { enps: { sampleSize: 10, margin: 52 } },
+      change: {
+        enps: { current: -60, previous: 80, delta: -140, significant: true },
+        averages: { managerEffectiveness: { delta: 0, significant: false } },
+      },
+    });
+  });
+
+  it('treats changes between small samples as noise', async () => {
+    // Unanimous weeks have zero-width intervals, yet eight and two answers are too few to call the drop real.
+    const response = await request(app)
+      .get('/api/admin/portfolio?to=2026-03-15&scoreMax=8')
+      .set(adminHeaders)
+      .expect(200);
+
+    expect(response.body.portfolio.weekOverWeek.responsesCount).toEqual({ current: 8, previous: 2, delta: 6 });
+    expect(response.body.portfolio.weekOverWeek.enps).toEqual({
+      current: -100,
+      previous: 0,
+      delta: -100,
+      significant: false,
+    });
+
+    const full = await request(app)
+      .get('/api/admin/portfolio?to=2026-03-15')
+      .set(adminHeaders)
+      .expect(200);
+    expect(full.body.portfolio.weekOverWeek.enps).toMatchObject({ delta: -140, significant: true });
+  });
+});
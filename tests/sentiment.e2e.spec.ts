@@ -0,0 +1,113 @@
+import request from 'supertest';
+import type { Express } from 'express';
+import { scoreSentiment } from '../src/textAnalytics/sentiment';
+import {
+  adminHeaders,
+  createProject,
+  fetchAdmin,
+  headersFor,
+  removeTestDatabase,
+  startApp,
+  submitSurvey as submitAnswers,
+  useTestDatabase,
+} from './helpers';
+
+describe('Sentiment of free-text answers', () => {
+  let app: Express;
+  let tempDbPath: string;
+  let projectId: number;
+  let nextUserId = 501;
+
+  const submitSurvey = (surveyDate: string, texts: Record<string, string>) =>
+    submitAnswers(
+      app,
+      nextUserId++,
+      projectId,
+      {
+        projectRecommendation: 8,
+        managerEffectiveness: 8,
+        teamComfort: 8,
+        processOrganization: 7,
+        contributionValued: 'yes',
+        ...texts,
+      },
+      surveyDate,
+    );
+
+  const fetchResponses = async (query = '') => {
+    const { surveys } = await fetchAdmin(app, `/projects/${projectId}/responses${query}`);
+    return surveys as Array<{
+      id: number;
+      sentiment: number | null;
+      answerSentiments: Record<string, number>;
+    }>;
+  };
+
+  beforeAll(async () => {
+    tempDbPath = useTestDatabase('sentiment');
+
+    app = await startApp();
+
+    projectId = await createProject(app, 'Moods', 500);
+  });
+
+  afterAll(() => {
+    removeTestDatabase(tempDbPath);
+  });
+
+  it('scores Russian and English text with negations', () => {
+    expect(scoreSentiment('Отличная команда, всё нравится')).toBeGreaterThan(0.5);
+    expect(scoreSentiment('Постоянный хаос и переработки')).toBeLessThan(-0.5);
+    expect(scoreSentiment('Менеджер не помогает')).toBeLessThan(0);
+    expect(scoreSentiment('Проблем нет')).toBeGreaterThan(0);
+    expect(scoreSentiment('Great support')).toBeGreaterThan(0);
+    expect(scoreSentiment("The process isn't clear")).toBeLessThan(0);
+    expect(scoreSentiment('Обсудить план на квартал')).toBe(0);
+  });
+
+  it('aggregates sentiment per project and lists the most negative responses first', async () => {
+    const calm = await submitSurvey('2026-05-04', { projectImprovement: 'Обсудить план на квартал' });
+    const happy = await submitSurvey('2026-05-05', { projectImprovement: 'Отличная команда, всё нравится' });
+    const angry = await submitSurvey('2026-05-06', {
+      projectImprovement: 'Постоянный хаос и переработки',
+      processObstacles: 'Ужасные сроки',
+    });
+    const silent = await submitSurvey('2026-05-07', {});
+
+    const recent = await fetchResponses();
+    expect(recent.map((survey) => survey.id)).toEqual([silent, angry, happy, calm]);
+
+    const sorted = await fetchResponses('?sort=sentiment');
+    expect(sorted.map((survey) => survey.id)).toEqual([angry, calm, happy, silent]);
+
+    const [worst] = sorted;
+    expect(worst!.sentiment).toBeLessThan(-0.5);
+    expect(Object.keys(worst!.answerSentiments).sort()).toEqual(['processObstacles', 'projectImprovement']);
+    expect(sorted[3]).toMatchObject({ sentiment: null, answerSentiments: {} });
+
+    const projects = await request(app).get('/api/admin/projects').set(adminHeaders).expect(200);
+    const project = projects.body.projects.find((item: { id: number }) => item.id === projectId);
+    expect(project.sentiment).toMatchObject({ responsesCount: 3, negativeCount: 1, positiveCount: 1 });
+    expect(project.sentiment.average).toBeCloseTo(
+      (worst!.sentiment! + scoreSentiment('Отличная команда, всё нравится') + 0) / 3,
+    );
+
+    await request(app)
+      .get(`/api/admin/projects/${projectId}/responses?sort=worst`)
+      .set(adminHeaders)
+      .expect(400);
+  });
+
+  it('rescores an answer when it is edited', async () => {
+    const userId = nextUserId;
+    const surveyId = await submitSurvey('2026-05-08', { projectImprovement: 'Всё плохо' });
+    expect((await fetchResponses()).find((survey) => survey.id === surveyId)!.sentiment).toBeLessThan(0);
+
+    await request(app)
+      .patch(`/api/surveys/${surveyId}`)
+      .set(headersFor(userId))
+      .send({ projectImprovement: 'Всё хорошо' })
+      .expect(200);
+    expect((await fetchResponses()).find((survey) => survey.id === surveyId)!.sentiment).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,87 @@
+import request from 'supertest';
+import type { Express } from 'express';
+
+import { headersFor, removeTestDatabase, startApp, useTestDatabase } from './helpers';
+
+const debugHeaders = headersFor(11, 'Drafter');
+
+describe('Survey drafts', () => {
+  let app: Express;
+  let tempDbPath: string;
+  let projectId: number;
+  let surveyId: number;
+
+  beforeAll(async () => {
+    tempDbPath = useTestDatabase('survey-drafts');
+
+    app = await startApp();
+
+    const projectResponse = await request(app)
+      .post('/api/projects')
+      .set(debugHeaders)
+      .send({ name: 'Draft project' })
+      .expect(201);
+    projectId = projectResponse.body.project.id;
+
+    const created = await request(app).post('/api/surveys').set(debugHeaders).send({ projectId }).expect(201);
+    surveyId = created.body.record.id;
+    expect(created.body.record.lastStep).toBeNull();
+  });
+
+  afterAll(() => {
+    removeTestDatabase(tempDbPath);
+  });
+
+  it('saves each step with its index', async () => {
+    await request(app)
+      .patch(`/api/surveys/${surveyId}/draft`)
+      .set(debugHeaders)
+      .send({ answers: { projectRecommendation: 7 }, step: 0 })
+      .expect(200);
+
+    const saved = await request(app)
+      .patch(`/api/surveys/${surveyId}/draft`)
+      .set(debugHeaders)
+      .send({ answers: { projectImprovement: 'Fewer meetings' }, step: 1 })
+      .expect(200);
+
+    expect(saved.body.survey.answers).toEqual({ projectRecommendation: 7, projectImprovement: 'Fewer meetings' });
+    expect(saved.body.survey.lastStep).toBe(1);
+    expect(saved.body.survey.submittedAt).toBeNull();
+  });
+
+  it('returns the in-progress draft when the survey is started again', async () => {
+    const resumed = await request(app).post('/api/surveys').set(debugHeaders).send({ projectId }).expect(200);
+
+    expect(resumed.body.wasCreated).toBe(false);
+    expect(resumed.body.record.id).toBe(surveyId);
+    expect(resumed.body.record.lastStep).toBe(1);
+    expect(resumed.body.record.answers.projectRecommendation).toBe(7);
+  });
+
+  it('rejects invalid drafts', async () => {
+    const invalidPayloads = [
+      { answers: { projectRecommendation: 11 }, step: 2 },
+      { answers: {}, step: -1 },
+      { answers: {}, step: 100 },
+      { answers: { projectRecommendation: 5 } },
+    ];
+
+    for (const payload of invalidPayloads) {
+      await request(app).patch(`/api/surveys/${surveyId}/draft`).set(debugHeaders).send(payload).expect(400);
+    }
+
+    const survey = await request(app).get(`/api/surveys/${surveyId}`).set(debugHeaders).expect(200);
+    expect(survey.body.survey.lastStep).toBe(1);
+  });
+
+  it('keeps the saved step when answers are edited outside the stepper', async () => {
+    const edited = await request(app)
+      .patch(`/api/surveys/${surveyId}`)
+      .set(debugHeaders)
+      .send({ projectRecommendation: 9 })
+      .expect(200);
+
+    expect(edited.body.survey.lastStep).toBe(1);
+  });
+});
@@ -0,0 +1,128 @@
+import request from 'supertest';
+import type { Express } from 'express';
+
+import { adminHeaders, headersFor, removeTestDatabase, startApp, useTestDatabase } from './helpers';
+
+const debugHeaders = headersFor(31, 'Reviser');
+
+describe('Survey revisions', () => {
+  let app: Express;
+  let tempDbPath: string;
+  let projectId: number;
+  let surveyId: number;
+
+  const listRevisions = async () => {
+    const response = await request(app)
+      .get(`/api/admin/surveys/${surveyId}/revisions`)
+      .set(adminHeaders)
+      .expect(200);
+    return response.body.revisions;
+  };
+
+  beforeAll(async () => {
+    tempDbPath = useTestDatabase('survey-revisions');
+
+    app = await startApp();
+
+    const projectResponse = await request(app)
+      .post('/api/projects')
+      .set(debugHeaders)
+      .send({ name: 'Revisions project' })
+      .expect(201);
+    projectId = projectResponse.body.project.id;
+
+    const created = await request(app).post('/api/surveys').set(debugHeaders).send({ projectId }).expect(201);
+    surveyId = created.body.record.id;
+  });
+
+  afterAll(() => {
+    removeTestDatabase(tempDbPath);
+  });
+
+  it('records respondent edits and skips ones that change nothing', async () => {
+    await request(app)
+      .patch(`/api/surveys/${surveyId}`)
+      .set(debugHeaders)
+      .send({ projectRecommendation: 6, projectImprovement: ' Less noise ' })
+      .expect(200);
+    await request(app)
+      .patch(`/api/surveys/${surveyId}`)
+      .set(debugHeaders)
+      .send({ projectRecommendation: 6, projectImprovement: 'Less noise' })
+      .expect(200);
+
+    const revisions = await listRevisions();
+    expect(revisions).toHaveLength(1);
+    expect(revisions[0]).toMatchObject({
+      surveyId,
+      actor: 'respondent',
+      actorId: 31,
+      revertedRevisionId: null,
+      changes: [
+        { key: 'projectRecommendation', oldValue: null, newValue: 6 },
+        { key: 'projectImprovement', oldValue: null, newValue: 'Less noise' },
+      ],
+    });
+  });
+
+  it('records admin edits with old and new values', async () => {
+    await request(app)
+      .patch(`/api/admin/surveys/${surveyId}`)
+      .set(adminHeaders)
+      .send({ projectRecommendation: 9, projectImprovement: '' })
+      .expect(200);
+
+    const revisions = await listRevisions();
+    expect(revisions).toHaveLength(2);
+    expect(revisions[0]).toMatchObject({
+      actor: 'admin',
+      actorId: null,
+      changes: [
+        { key: 'projectRecommendation', oldValue: 6, newValue: 9 },
+        { key: 'projectImprovement', oldValue: 'Less noise', newValue: null },
+      ],
+    });
+  });
+
+  it('reverts the answers to an earlier revision', async () => {
+    await request(app)
+      .patch(`/api/admin/surveys/${surveyId}`)
+      .set(adminHeaders)
+      .send({ projectRecommendation: 10, teamComfort: 4 })
+      .expect(200);
+
+    const [, , first] = await listRevisions();
+    const reverted = await request(app)
+      .post(`/api/admin/surveys/${surveyId}/revisions/${first.id}/revert`)
+      .set(adminHeaders)
+      .expect(200);
+
+    expect(reverted.body.survey.answers).toEqual({ projectRecommendation: 6, projectImprovement: 'Less noise' });
+
+    const [latest] = await listRevisions();
+    expect(latest).toMatchObject({
+      actor: 'admin',
+      revertedRevisionId: first.id,
+      changes: expect.arrayContaining([
+        { key: 'projectRecommendation', oldValue: 10, newValue: 6 },
+        { key: 'projectImprovement', oldValue: null, newValue: 'Less noise' },
+        { key: 'teamComfort', oldValue: 4, newValue: null },
+      ]),
+    });
+  });
+
+  it('returns 404 for unknown surveys and revisions', async () => {
+    await request(app).get('/api/admin/surveys/999999/revisions').set(adminHeaders).expect(404);
+
+    const response = await request(app)
+      .post(`/api/admin/surveys/${surveyId}/revisions/999999/revert`)
+      .set(adminHeaders)
+      .expect(404);
+    expect(response.body.error).toBe('Revision not found');
+
+    await request(app)
+      .post(`/api/admin/surveys/${surveyId}/revisions/abc/revert`)
+      .set(adminHeaders)
+      .expect(400);
+  });
+});
@@ -0,0 +1,145 @@
+import request from 'supertest';
+import type { Express } from 'express';
+
+import type { SurveyAnswers } from '../src/types';
+import { adminHeaders, headersFor, removeTestDatabase, startApp, useTestDatabase } from './helpers';
+
+const debugHeaders = headersFor(7, 'Submitter');
+
+// Only the required questions of the standard questionnaire; every comment is skipped.
+const requiredAnswers: SurveyAnswers = {
+  projectRecommendation: 8,
+  managerEffectiveness: 9,
+  teamComfort: 7,
+  processOrganization: 9,
+  contributionValued: 'yes',
+};
+
+describe('Survey submission', () => {
+  let app: Express;
+  let tempDbPath: string;
+  let projectId: number;
+  let surveyId: number;
+
+  beforeAll(async () => {
+    tempDbPath = useTestDatabase('survey-submission');
+
+    app = await startApp();
+
+    const projectResponse = await request(app)
+      .post('/api/projects')
+      .set(debugHeaders)
+      .send({ name: 'Submission project' })
+      .expect(201);
+    projectId = projectResponse.body.project.id;
+
+    const created = await request(app).post('/api/surveys').set(debugHeaders).send({ projectId }).expect(201);
+    surveyId = created.body.record.id;
+  });
+
+  afterAll(() => {
+    removeTestDatabase(tempDbPath);
+  });
+
+  it('keeps drafts out of admin statistics', async () => {
+    const updated = await request(app)
+      .patch(`/api/surveys/${surveyId}`)
+      .set(debugHeaders)
+      .send({ projectRecommendation: 8, managerEffectiveness: 9 })
+      .expect(200);
+    expect(updated.body.survey.submittedAt).toBeNull();
+
+    const projects = await request(app).get('/api/admin/projects').set(adminHeaders).expect(200);
+    const stats = projects.body.projects.find((project: { id: number }) => project.id === projectId);
+    expect(stats.responsesCount).toBe(0);
+  });
+
+  it('rejects submission while required answers are missing', async () => {
+    const response = await request(app).post(`/api/surveys/${surveyId}/submit`).set(debugHeaders).expect(400);
+
+    expect(response.body.error).toBe('Required questions are not answered');
+    expect(response.body.details.missing).toEqual(['teamComfort', 'processOrganization', 'contributionValued']);
+  });
+
+  it('counts submitted surveys with skipped optional comments', async () => {
+    await request(app).patch(`/api/surveys/${surveyId}`).set(debugHeaders).send(requiredAnswers).expect(200);
+
+    const submitted = await request(app).post(`/api/surveys/${surveyId}/submit`).set(debugHeaders).expect(200);
+    expect(submitted.body.survey.submittedAt).toEqual(expect.any(String));
+
+    const projects = await request(app).get('/api/admin/projects').set(adminHeaders).expect(200);
+    const stats = projects.body.projects.find((project: { id: number }) => project.id === projectId);
+    expect(stats.responsesCount).toBe(1);
+    expect(stats.averages.projectRecommendation).toBe(8);
+
+    const responses = await request(app)
+      .get(`/api/admin/projects/${projectId}/responses`)
+      .set(adminHeaders)
+      .expect(200);
+    expect(responses.body.surveys.map((survey: { id: number }) => survey.id)).toEqual([surveyId]);
+  });
+
+  it('keeps the original submission time on repeated submits', async () => {
+    const first = await request(app).get(`/api/surveys/${surveyId}`).set(debugHeaders).expect(200);
+    const repeated = await request(app).post(`/api/surveys/${surveyId}/submit`).set(debugHeaders).expect(200);
+
+    expect(repeated.body.survey.submittedAt).toBe(first.body.survey.submittedAt);
+  });
+
+  it('keeps required answers when a submitted survey is edited', async () => {
+    const rejected = await request(app)
+      .patch(`/api/surveys/${surveyId}`)
+      .set(debugHeaders)
+      .send({ teamComfort: '', projectImprovement: 'Больше ретро' })
+      .expect(400);
+    expect(rejected.body.details.missing).toEqual(['teamComfort']);
+
+    await request(app)
+      .patch(`/api/surveys/${surveyId}/draft`)
+      .set(debugHeaders)
+      .send({ answers: { contributionValued: '' }, step: 0 })
+      .expect(400);
+
+    const updated = await request(app)
+      .patch(`/api/surveys/${surveyId}`)
+      .set(debugHeaders)
+      .send({ teamComfort: 4, projectImprovement: 'Больше ретро' })
+      .expect(200);
+    expect(updated.body.survey.answers).toMatchObject({ teamComfort: 4, projectImprovement: 'Больше ретро' });
+  });
+
+  it('requires conditional questions only when they are shown', async () => {
+    await request(app)
+      .put(`/api/admin/projects/${projectId}/questionnaire`)
+      .set(adminHeaders)
+      .send({
+        mode: 'replace',
+        questions: [
+          { key: 'score', type: 'scale', title: 'Оценка', required: true },
+          {
+            key: 'reason',
+            type: 'text',
+            title: 'Что пошло не так?',
+            required: true,
+            showIf: { key: 'score', operator: 'lt', value: 5 },
+          },
+        ],
+      })
+      .expect(200);
+
+    const headers = { 'x-debug-user': JSON.stringify({ id: 8, first_name: 'Second' }) };
+    const created = await request(app).post('/api/surveys').set(headers).send({ projectId }).expect(201);
+    const id = created.body.record.id;
+
+    await request(app).patch(`/api/surveys/${id}`).set(headers).send({ score: 3 }).expect(200);
+    const rejected = await request(app).post(`/api/surveys/${id}/submit`).set(headers).expect(400);
+    expect(rejected.body.details.missing).toEqual(['reason']);
+
+    await request(app).patch(`/api/surveys/${id}`).set(headers).send({ score: 9 }).expect(200);
+    await request(app).post(`/api/surveys/${id}/submit`).set(headers).expect(200);
+  });
+
+  it('returns 404 for unknown surveys', async () => {
+    await request(app).post('/api/surveys/999999/submit').set(debugHeaders).expect(404);
+  });
+});
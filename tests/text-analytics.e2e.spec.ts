@@ -0,0 +1,118 @@
+import request from 'supertest';
+import type { Express } from 'express';
+import { analyzeTexts } from '../src/textAnalytics/keywords';
+import { stemEnglish, stemRussian } from '../src/textAnalytics/stemmers';
+import {
+  adminHeaders,
+  createProject,
+  fetchAdmin,
+  removeTestDatabase,
+  startApp,
+  submitSurvey as submitAnswers,
+  useTestDatabase,
+} from './helpers';
+
+describe('Text analytics', () => {
+  let app: Express;
+  let tempDbPath: string;
+  let projectId: number;
+  const surveyIds: number[] = [];
+  let nextUserId = 401;
+
+  const submitSurvey = async (surveyDate: string, texts: Record<string, string>) => {
+    const surveyId = await submitAnswers(
+      app,
+      nextUserId++,
+      projectId,
+      {
+        projectRecommendation: 7,
+        managerEffectiveness: 8,
+        teamComfort: 8,
+        processOrganization: 6,
+        contributionValued: 'yes',
+        ...texts,
+      },
+      surveyDate,
+    );
+    surveyIds.push(surveyId);
+  };
+
+  const fetchAnalytics = async (query = '') =>
+    (await fetchAdmin(app, `/projects/${projectId}/keywords${query}`)).analytics;
+
+  beforeAll(async () => {
+    tempDbPath = useTestDatabase('text-analytics');
+
+    app = await startApp();
+
+    projectId = await createProject(app, 'Texts', 400);
+
+    await submitSurvey('2026-05-04', {
+      projectImprovement: 'Слишком много встреч, мало времени на задачи',
+      improvementIdeas: 'Code review быстрее',
+    });
+    await submitSurvey('2026-05-05', {
+      projectImprovement: 'Встречи затягиваются. Нужно больше code reviews',
+      processObstacles: 'Долгий code review',
+    });
+    await submitSurvey('2026-06-01', { projectImprovement: 'Больше встреч с заказчиком' });
+  });
+
+  afterAll(() => {
+    removeTestDatabase(tempDbPath);
+  });
+
+  it('stems Russian and English words', () => {
+    expect(['встреч', 'встречи', 'встречами'].map(stemRussian)).toEqual(['встреч', 'встреч', 'встреч']);
+    expect(stemRussian('процессов')).toBe('процесс');
+    expect(['reviews', 'reviewing', 'reviewed'].map(stemEnglish)).toEqual(['review', 'review', 'review']);
+    expect(stemEnglish('communication')).toBe('communic');
+  });
+
+  it('ranks keywords and phrases of a project by the answers mentioning them', async () => {
+    const analytics = await fetchAnalytics();
+    const [first, second, third] = surveyIds;
+
+    expect(analytics.responsesCount).toBe(3);
+    expect(analytics.keywords[0]).toMatchObject({ term: 'встреч', stem: 'встреч', count: 3 });
+    expect([...analytics.keywords[0].surveyIds].sort()).toEqual([first, second, third].sort());
+
+    const terms = analytics.keywords.map((keyword: { term: string }) => keyword.term);
+    expect(terms).toEqual(expect.arrayContaining(['code', 'review', 'больше']));
+    // Stop words and choice answers such as `contributionValued` stay out.
+    expect(terms).not.toContain('на');
+    expect(terms).not.toContain('yes');
+
+    expect(analytics.phrases).toEqual([
+      { term: 'code review', stem: 'code review', count: 3, surveysCount: 2, surveyIds: expect.any(Array) },
+    ]);
+    expect([...analytics.phrases[0].surveyIds].sort()).toEqual([first, second].sort());
+  });
+
+  it('follows the analytics filter and the limit', async () => {
+    const june = await fetchAnalytics('?from=2026-06-01');
+    expect(june.responsesCount).toBe(1);
+    expect(june.phrases).toEqual([]);
+
+    const top = await fetchAnalytics('?limit=1');
+    expect(top.keywords).toHaveLength(1);
+
+    await request(app)
+      .get(`/api/admin/projects/${projectId}/keywords?limit=0`)
+      .set(adminHeaders)
+      .expect(400);
+    await request(app).get('/api/admin/projects/abc/keywords').set(adminHeaders).expect(400);
+  });
+
+  it('keeps phrases within one clause', () => {
+    const analytics = analyzeTexts(
+      [
+        { surveyId: 1, texts: ['мало тестов. Релизы срываются'] },
+        { surveyId: 2, texts: ['Мало тестов! Релизы срываются'] },
+      ],
+      10,
+    );
+
+    expect(analytics.phrases.map((phrase) => phrase.term)).toEqual(['мало тестов', 'релизы срываются']);
+  });
+});